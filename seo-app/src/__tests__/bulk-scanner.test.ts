@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { BulkScan, BulkScanner } from '@/lib/bulk-scanner'
+
+const batch = (rows: BulkScan['rows']) => ({ rows } as BulkScan)
+
+describe('BulkScanner.toCsv', () => {
+  it('quotes fields with commas, quotes and line breaks', () => {
+    const csv = BulkScanner.toCsv(batch([
+      { url: 'https://example.com/', status: 'failed', error: 'Line one\rsaid "no", twice' }
+    ]))
+    expect(csv.split('\n')[1]).toBe('https://example.com/,failed,,,,"Line one\rsaid ""no"", twice"')
+  })
+
+  it('keeps page text from being read as a spreadsheet formula', () => {
+    const csv = BulkScanner.toCsv(batch([
+      { url: 'https://example.com/', status: 'completed', overallScore: -1, issueCount: 2, topIssues: [{ id: 'a', title: '=HYPERLINK("https://evil.test")', severity: 'error' }] },
+      { url: 'https://example.com/b', status: 'failed', error: '@SUM(A1)' }
+    ]))
+    const [, first, second] = csv.split('\n')
+    expect(first).toBe('https://example.com/,completed,-1,2,"\'=HYPERLINK(""https://evil.test"")",')
+    expect(second).toBe('https://example.com/b,failed,,,,\'@SUM(A1)')
+  })
+})
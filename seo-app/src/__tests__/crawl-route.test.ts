@@ -0,0 +1,24 @@
+import { NextRequest } from 'next/server'
+import { describe, expect, it } from 'vitest'
+import * as crawlRoute from '@/app/api/crawl/route'
+
+const crawl = (body: Record<string, unknown>) =>
+  crawlRoute.POST(new NextRequest('http://localhost/api/crawl', {
+    method: 'POST',
+    body: JSON.stringify({ url: 'https://example.com/', ...body }),
+    headers: { 'Content-Type': 'application/json' }
+  }))
+
+describe('POST /api/crawl limits', () => {
+  it.each([
+    [{ maxDepth: 'abc' }, /maxDepth/],
+    [{ maxDepth: -1 }, /maxDepth/],
+    [{ maxPages: 2.5 }, /maxPages/],
+    [{ maxPages: 0 }, /maxPages/],
+    [{ concurrency: '4' }, /concurrency/]
+  ])('rejects %j with a 400', async (limits, message) => {
+    const response = await crawl(limits)
+    expect(response.status).toBe(400)
+    expect((await response.json()).error).toMatch(message)
+  })
+})
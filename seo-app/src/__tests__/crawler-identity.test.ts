@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import { CrawlerIdentity, MASKED_VALUE } from '@/lib/crawler-identity'
+
+const settings = {
+  headers: { 'X-Preview': '1' },
+  cookies: { session: 'abc' },
+  basicAuth: { username: 'staging', password: 'secret' }
+}
+
+describe('CrawlerIdentity.siteHeaders', () => {
+  const identity = new CrawlerIdentity(settings, 'https://example.com/')
+
+  it('sends headers, cookies and credentials to the scanned origin, with or without www', () => {
+    for (const url of ['https://example.com/page', 'https://www.example.com/', 'https://example.com:443/']) {
+      expect(Object.keys(identity.siteHeaders(url))).toEqual(['X-Preview', 'Cookie', 'Authorization'])
+    }
+  })
+
+  it('sends nothing to another scheme, port or host', () => {
+    for (const url of ['http://example.com/', 'https://example.com:8443/', 'https://other.example.com/', 'https://example.org/']) {
+      expect(identity.siteHeaders(url)).toEqual({})
+    }
+  })
+
+  it('records the header names of the scanned origin', () => {
+    expect(identity.reference().headerNames).toEqual(['X-Preview', 'Cookie', 'Authorization'])
+    expect(new CrawlerIdentity(settings, 'http://localhost:3000/').reference().headerNames).toEqual(['X-Preview', 'Cookie', 'Authorization'])
+  })
+})
+
+describe('CrawlerIdentity.redact', () => {
+  it('masks header and cookie values and the password', () => {
+    expect(CrawlerIdentity.redact(settings)).toEqual({
+      headers: { 'X-Preview': MASKED_VALUE },
+      cookies: { session: MASKED_VALUE },
+      basicAuth: { username: 'staging', password: MASKED_VALUE }
+    })
+  })
+
+  it('round-trips through parse with the saved settings', () => {
+    const sentBack = { ...CrawlerIdentity.redact(settings), headers: { 'X-Preview': MASKED_VALUE, 'X-Extra': 'new' } }
+    expect(CrawlerIdentity.parse(sentBack, settings)).toEqual({
+      settings: { ...settings, headers: { 'X-Preview': '1', 'X-Extra': 'new' } }
+    })
+  })
+
+  it('rejects masked values with nothing saved to keep', () => {
+    expect(CrawlerIdentity.parse(CrawlerIdentity.redact(settings)).error).toMatch(/masked/)
+    expect(CrawlerIdentity.parse({ cookies: { other: MASKED_VALUE } }, settings).error).toMatch(/other value is masked/)
+  })
+})
@@ -0,0 +1,423 @@
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { fakeSupabase } from './fake-supabase'
+import { ApiKeys } from '@/lib/api-keys'
+import * as analyticsRoute from '@/app/api/analytics/route'
+import * as createCheckoutSessionRoute from '@/app/api/create-checkout-session/route'
+import * as reportsRoute from '@/app/api/reports/route'
+import * as scanJobsRoute from '@/app/api/scan/jobs/route'
+import * as scanJobRoute from '@/app/api/scan/jobs/[id]/route'
+import * as scanJobEventsRoute from '@/app/api/scan/jobs/[id]/events/route'
+import * as bulkRoute from '@/app/api/scan/bulk/route'
+import * as bulkBatchRoute from '@/app/api/scan/bulk/[id]/route'
+import * as stripeCheckoutRoute from '@/app/api/stripe/checkout/route'
+
+vi.mock('next/headers', () => ({ cookies: () => ({}) }))
+
+vi.mock('@supabase/auth-helpers-nextjs', async () => {
+  const { fakeSupabase } = await import('./fake-supabase')
+  return { createRouteHandlerClient: () => fakeSupabase.client() }
+})
+
+vi.mock('@/lib/supabase-server', async () => {
+  const { fakeSupabase } = await import('./fake-supabase')
+  return { getServiceSupabaseClient: () => fakeSupabase.client() }
+})
+
+// Scans finish straight away without touching the network
+vi.mock('@/lib/seo-analyzer', () => ({
+  SCAN_STAGES: ['fetch', 'scoring'],
+  SEOAnalyzer: {
+    analyze: async (url: string) => ({ url, overallScore: 80, sections: { performance: { score: 70 } }, issues: [] })
+  }
+}))
+
+type StripeParams = Record<string, unknown> & { metadata: Record<string, string> }
+
+// What the routes asked Stripe for
+const stripeCalls = vi.hoisted(() => ({ customers: [] as StripeParams[], sessions: [] as StripeParams[] }))
+
+vi.mock('stripe', () => ({
+  default: class {
+    customers = {
+      create: async (params: StripeParams) => {
+        stripeCalls.customers.push(params)
+        return { id: `cus_${stripeCalls.customers.length}` }
+      }
+    }
+    checkout = {
+      sessions: {
+        create: async (params: StripeParams) => {
+          stripeCalls.sessions.push(params)
+          return { id: `cs_${stripeCalls.sessions.length}`, url: 'https://checkout.stripe.test/session' }
+        }
+      }
+    }
+    subscriptions = { retrieve: async (id: string) => ({ id }) }
+  }
+}))
+
+const ALICE = 'alice-id'
+const BOB = 'bob-id'
+
+const request = (path: string, init: { method?: string; body?: unknown; form?: FormData; apiKey?: string } = {}) =>
+  new NextRequest(`http://localhost${path}`, {
+    method: init.method || 'GET',
+    body: init.form || (init.body === undefined ? undefined : JSON.stringify(init.body)),
+    headers: {
+      ...(init.body === undefined ? {} : { 'Content-Type': 'application/json' }),
+      ...(init.apiKey ? { Authorization: `Bearer ${init.apiKey}` } : {})
+    }
+  })
+
+const params = (id: string) => ({ params: Promise.resolve({ id }) })
+
+const signIn = (userId: string | null) => {
+  fakeSupabase.sessionUserId = userId
+}
+
+// Stores a key for the user under a fresh id, so each test gets its own per-minute rate limit window
+const createApiKey = async (userId: string, revoked = false) => {
+  const key = ApiKeys.generate()
+  fakeSupabase.rows('api_keys').push({ id: crypto.randomUUID(), user_id: userId, key_hash: await ApiKeys.hash(key), revoked_at: revoked ? '2026-01-01' : null })
+  return key
+}
+
+const scannedToday = (userId: string, count: number) => {
+  for (let scan = 0; scan < count; scan++) {
+    fakeSupabase.rows('scan_reports').push({ id: crypto.randomUUID(), user_id: userId, url: 'https://scanned.test/', created_at: new Date().toISOString() })
+  }
+}
+
+// Lets background scans settle
+const flush = () => new Promise(resolve => setTimeout(resolve, 10))
+
+beforeEach(() => {
+  fakeSupabase.reset()
+  fakeSupabase.rows('profiles').push(
+    { id: ALICE, email: 'alice@example.com', subscription_tier: 'pro', daily_scans_used: 0 },
+    { id: BOB, email: 'bob@example.com', subscription_tier: 'free', daily_scans_used: 0 }
+  )
+  stripeCalls.customers.length = 0
+  stripeCalls.sessions.length = 0
+})
+
+describe('reports', () => {
+  beforeEach(() => {
+    fakeSupabase.rows('scan_reports').push(
+      { id: 'alice-report', user_id: ALICE, url: 'https://alice.test/', status: 'completed', created_at: '2026-01-01' },
+      { id: 'bob-report', user_id: BOB, url: 'https://bob.test/', status: 'completed', created_at: '2026-01-02' }
+    )
+  })
+
+  it('returns 401 when no one is signed in', async () => {
+    const response = await reportsRoute.GET(request('/api/reports'))
+    expect(response.status).toBe(401)
+  })
+
+  it('returns 403 when reading another user\'s reports', async () => {
+    signIn(ALICE)
+    const response = await reportsRoute.GET(request(`/api/reports?userId=${BOB}`))
+    expect(response.status).toBe(403)
+  })
+
+  it('only lists the caller\'s reports', async () => {
+    signIn(ALICE)
+    const response = await reportsRoute.GET(request('/api/reports'))
+    const body = await response.json()
+    expect(response.status).toBe(200)
+    expect(body.reports.map((report: { id: string }) => report.id)).toEqual(['alice-report'])
+  })
+
+  it('refuses to save a report into another account', async () => {
+    signIn(ALICE)
+    const response = await reportsRoute.POST(request('/api/reports', {
+      method: 'POST',
+      body: { userId: BOB, analysis: { url: 'https://alice.test/', title: 'Report' } }
+    }))
+    expect(response.status).toBe(403)
+    expect(fakeSupabase.rows('scan_reports').filter(report => report.user_id === BOB)).toHaveLength(1)
+    expect(fakeSupabase.rows('profiles').find(profile => profile.id === BOB)?.daily_scans_used).toBe(0)
+  })
+
+  it('files a saved report under the caller', async () => {
+    signIn(ALICE)
+    const response = await reportsRoute.POST(request('/api/reports', {
+      method: 'POST',
+      body: { analysis: { url: 'https://alice.test/page', title: 'Report' } }
+    }))
+    expect(response.status).toBe(200)
+    expect(fakeSupabase.rows('scan_reports').find(report => report.url === 'https://alice.test/page')?.user_id).toBe(ALICE)
+  })
+})
+
+describe('scan jobs', () => {
+  const startJob = async (body: Record<string, unknown> = {}) =>
+    scanJobsRoute.POST(request('/api/scan/jobs', { method: 'POST', body: { url: 'https://alice.test/', ...body } }))
+
+  it('returns 401 when no one is signed in', async () => {
+    const response = await startJob()
+    expect(response.status).toBe(401)
+    expect(fakeSupabase.rows('scan_reports')).toHaveLength(0)
+  })
+
+  it('refuses to file a job under another user', async () => {
+    signIn(ALICE)
+    const response = await startJob({ userId: BOB })
+    expect(response.status).toBe(403)
+    expect(fakeSupabase.rows('scan_reports')).toHaveLength(0)
+  })
+
+  it('files the job under the caller and keeps it from other users', async () => {
+    signIn(ALICE)
+    const response = await startJob()
+    expect(response.status).toBe(202)
+    const { data } = await response.json()
+    await flush()
+
+    expect(fakeSupabase.rows('scan_reports').map(report => report.user_id)).toEqual([ALICE])
+
+    signIn(BOB)
+    expect((await scanJobRoute.GET(request(`/api/scan/jobs/${data.job.id}`), params(data.job.id))).status).toBe(404)
+    expect((await scanJobEventsRoute.GET(request(`/api/scan/jobs/${data.job.id}/events`), params(data.job.id))).status).toBe(404)
+
+    signIn(ALICE)
+    const own = await scanJobRoute.GET(request(`/api/scan/jobs/${data.job.id}`), params(data.job.id))
+    expect(own.status).toBe(200)
+    expect((await own.json()).data.status).toBe('completed')
+  })
+
+  it('does not read another user\'s saved report by id', async () => {
+    fakeSupabase.rows('scan_reports').push({ id: 'bob-report', user_id: BOB, url: 'https://bob.test/', status: 'completed', report_data: { secret: true } })
+
+    signIn(ALICE)
+    expect((await scanJobRoute.GET(request('/api/scan/jobs/bob-report'), params('bob-report'))).status).toBe(404)
+
+    signIn(BOB)
+    expect((await scanJobRoute.GET(request('/api/scan/jobs/bob-report'), params('bob-report'))).status).toBe(200)
+  })
+
+  it('returns 429 once the caller\'s daily scan quota is used up', async () => {
+    scannedToday(BOB, 3)
+
+    signIn(BOB)
+    const response = await startJob({ url: 'https://bob.test/' })
+    expect(response.status).toBe(429)
+    expect((await response.json()).upgradeRequired).toBe(true)
+    expect(fakeSupabase.rows('scan_reports')).toHaveLength(3)
+  })
+
+  it('counts the caller\'s own scans towards the quota', async () => {
+    scannedToday(ALICE, 3)
+
+    signIn(BOB)
+    expect((await startJob({ url: 'https://bob.test/' })).status).toBe(202)
+    await flush()
+  })
+
+  it('returns 401 for status and events when no one is signed in', async () => {
+    expect((await scanJobRoute.GET(request('/api/scan/jobs/any'), params('any'))).status).toBe(401)
+    expect((await scanJobEventsRoute.GET(request('/api/scan/jobs/any/events'), params('any'))).status).toBe(401)
+  })
+})
+
+describe('bulk scans', () => {
+  const startBatch = async (body: Record<string, unknown> = {}) =>
+    bulkRoute.POST(request('/api/scan/bulk', { method: 'POST', body: { urls: ['https://alice.test/', 'https://alice.test/about'], ...body } }))
+
+  it('returns 401 when no one is signed in', async () => {
+    expect((await startBatch()).status).toBe(401)
+    expect((await bulkBatchRoute.GET(request('/api/scan/bulk/any'), params('any'))).status).toBe(401)
+  })
+
+  it('refuses to file a batch under another user', async () => {
+    signIn(ALICE)
+    expect((await startBatch({ userId: BOB })).status).toBe(403)
+
+    const form = new FormData()
+    form.append('urls', 'https://alice.test/')
+    form.append('userId', BOB)
+    expect((await bulkRoute.POST(request('/api/scan/bulk', { method: 'POST', form }))).status).toBe(403)
+
+    await flush()
+    expect(fakeSupabase.rows('scan_reports')).toHaveLength(0)
+  })
+
+  it('files the batch under the caller and keeps it and its CSV from other users', async () => {
+    signIn(ALICE)
+    const response = await startBatch()
+    expect(response.status).toBe(202)
+    const { data } = await response.json()
+    await flush()
+
+    expect(fakeSupabase.rows('scan_reports').map(report => report.user_id)).toEqual([ALICE, ALICE])
+
+    signIn(BOB)
+    expect((await bulkBatchRoute.GET(request(`/api/scan/bulk/${data.batch.id}`), params(data.batch.id))).status).toBe(404)
+    expect((await bulkBatchRoute.GET(request(`/api/scan/bulk/${data.batch.id}?format=csv`), params(data.batch.id))).status).toBe(404)
+
+    signIn(ALICE)
+    const csv = await bulkBatchRoute.GET(request(`/api/scan/bulk/${data.batch.id}?format=csv`), params(data.batch.id))
+    expect(csv.status).toBe(200)
+    expect(await csv.text()).toContain('https://alice.test/about')
+  })
+
+  it('refuses a whole batch that would go over the daily scan quota', async () => {
+    scannedToday(BOB, 1)
+
+    signIn(BOB)
+    const urls = ['https://bob.test/', 'https://bob.test/about', 'https://bob.test/contact']
+    const response = await startBatch({ urls })
+    expect(response.status).toBe(429)
+    expect((await response.json()).error).toContain('2 left today')
+    await flush()
+    expect(fakeSupabase.rows('scan_reports')).toHaveLength(1)
+
+    expect((await startBatch({ urls: urls.slice(0, 2) })).status).toBe(202)
+  })
+
+  it('does not read another user\'s saved batch by id', async () => {
+    fakeSupabase.rows('scan_reports').push({ id: 'bob-report', batch_id: 'bob-batch', user_id: BOB, url: 'https://bob.test/', status: 'failed', report_data: { error: 'timeout' } })
+
+    signIn(ALICE)
+    expect((await bulkBatchRoute.GET(request('/api/scan/bulk/bob-batch'), params('bob-batch'))).status).toBe(404)
+
+    signIn(BOB)
+    expect((await bulkBatchRoute.GET(request('/api/scan/bulk/bob-batch'), params('bob-batch'))).status).toBe(200)
+  })
+})
+
+describe('analytics', () => {
+  beforeEach(() => {
+    const recent = new Date().toISOString()
+    fakeSupabase.rows('usage_logs').push(
+      { user_id: ALICE, action: 'scan', created_at: recent, details: {} },
+      { user_id: BOB, action: 'scan', created_at: recent, details: {} },
+      { user_id: BOB, action: 'scan', created_at: recent, details: {} }
+    )
+    fakeSupabase.rows('scan_reports').push(
+      { id: 'alice-report', user_id: ALICE, url: 'https://alice.test/', overall_score: 80, created_at: recent },
+      { id: 'bob-report', user_id: BOB, url: 'https://bob.test/', overall_score: 20, created_at: recent }
+    )
+  })
+
+  it('returns 401 when no one is signed in', async () => {
+    expect((await analyticsRoute.GET(request('/api/analytics'))).status).toBe(401)
+  })
+
+  it('returns 403 when reading another user\'s analytics', async () => {
+    signIn(ALICE)
+    expect((await analyticsRoute.GET(request(`/api/analytics?userId=${BOB}`))).status).toBe(403)
+  })
+
+  it('only counts the caller\'s scans and reports', async () => {
+    signIn(ALICE)
+    const response = await analyticsRoute.GET(request('/api/analytics'))
+    const { analytics } = await response.json()
+    expect(response.status).toBe(200)
+    expect(analytics.totalScans).toBe(1)
+    expect(analytics.averageScore).toBe(80)
+    expect(analytics.topDomains).toEqual([{ domain: 'alice.test', count: 1 }])
+  })
+})
+
+describe('checkout', () => {
+  const checkout = (body: Record<string, unknown> = {}) =>
+    stripeCheckoutRoute.POST(request('/api/stripe/checkout', { method: 'POST', body: { priceId: 'price_pro', ...body } }))
+  const createSession = (body: Record<string, unknown> = {}) =>
+    createCheckoutSessionRoute.POST(request('/api/create-checkout-session', { method: 'POST', body: { priceId: 'price_pro', planName: 'Pro', ...body } }))
+
+  it('returns 401 when no one is signed in', async () => {
+    expect((await checkout()).status).toBe(401)
+    expect((await stripeCheckoutRoute.GET(request('/api/stripe/checkout'))).status).toBe(401)
+    expect((await createSession()).status).toBe(401)
+    expect(stripeCalls.sessions).toHaveLength(0)
+  })
+
+  it('refuses to check out or read the subscription for another user', async () => {
+    signIn(ALICE)
+    expect((await checkout({ userId: BOB })).status).toBe(403)
+    expect((await stripeCheckoutRoute.GET(request(`/api/stripe/checkout?userId=${BOB}`))).status).toBe(403)
+    expect((await createSession({ userId: BOB })).status).toBe(403)
+    expect(stripeCalls.customers).toHaveLength(0)
+    expect(stripeCalls.sessions).toHaveLength(0)
+  })
+
+  it('checks out the caller and stores the customer on their own profile', async () => {
+    signIn(ALICE)
+    expect((await checkout()).status).toBe(200)
+
+    expect(stripeCalls.customers[0]).toMatchObject({ email: 'alice@example.com', metadata: { userId: ALICE } })
+    expect(stripeCalls.sessions[0].metadata.userId).toBe(ALICE)
+    const profiles = fakeSupabase.rows('profiles')
+    expect(profiles.find(profile => profile.id === ALICE)?.stripe_customer_id).toBe('cus_1')
+    expect(profiles.find(profile => profile.id === BOB)?.stripe_customer_id).toBeUndefined()
+    expect(fakeSupabase.rows('usage_logs').map(log => log.user_id)).toEqual([ALICE])
+  })
+
+  it('creates checkout sessions for the caller\'s email only', async () => {
+    signIn(BOB)
+    expect((await createSession()).status).toBe(200)
+    expect(stripeCalls.sessions[0]).toMatchObject({ customer_email: 'bob@example.com', metadata: { userId: BOB } })
+  })
+
+  it('returns the caller\'s own subscription', async () => {
+    signIn(BOB)
+    const response = await stripeCheckoutRoute.GET(request('/api/stripe/checkout'))
+    expect((await response.json()).subscription.tier).toBe('free')
+  })
+})
+
+describe('API keys', () => {
+  beforeEach(() => {
+    fakeSupabase.rows('scan_reports').push(
+      { id: 'alice-report', user_id: ALICE, url: 'https://alice.test/', status: 'completed', created_at: '2026-01-01' },
+      { id: 'bob-report', user_id: BOB, url: 'https://bob.test/', status: 'completed', created_at: '2026-01-02' }
+    )
+  })
+
+  it('returns 401 for unknown and revoked keys, even with a session', async () => {
+    signIn(ALICE)
+    expect((await reportsRoute.GET(request('/api/reports', { apiKey: ApiKeys.generate() }))).status).toBe(401)
+    expect((await reportsRoute.GET(request('/api/reports', { apiKey: await createApiKey(ALICE, true) }))).status).toBe(401)
+  })
+
+  it('acts as the key\'s owner and never as another user', async () => {
+    const key = await createApiKey(ALICE)
+
+    const own = await reportsRoute.GET(request('/api/reports', { apiKey: key }))
+    expect(own.status).toBe(200)
+    expect(own.headers.get('X-RateLimit-Limit')).toBe('60')
+    expect((await own.json()).reports.map((report: { id: string }) => report.id)).toEqual(['alice-report'])
+
+    expect((await reportsRoute.GET(request(`/api/reports?userId=${BOB}`, { apiKey: key }))).status).toBe(403)
+    expect((await analyticsRoute.GET(request(`/api/analytics?userId=${BOB}`, { apiKey: key }))).status).toBe(403)
+  })
+
+  it('files jobs under the key\'s owner and keeps other users\' jobs hidden', async () => {
+    const response = await scanJobsRoute.POST(request('/api/scan/jobs', { method: 'POST', body: { url: 'https://alice.test/' }, apiKey: await createApiKey(ALICE) }))
+    expect(response.status).toBe(202)
+    const { data } = await response.json()
+    await flush()
+
+    expect(fakeSupabase.rows('scan_reports').find(report => report.id === data.job.id)?.user_id).toBe(ALICE)
+    const other = await scanJobRoute.GET(request(`/api/scan/jobs/${data.job.id}`, { apiKey: await createApiKey(BOB) }), params(data.job.id))
+    expect(other.status).toBe(404)
+  })
+
+  it('holds free keys to the daily scan quota for jobs and every URL of a batch', async () => {
+    const key = await createApiKey(BOB)
+    scannedToday(BOB, 1)
+
+    const urls = ['https://bob.test/', 'https://bob.test/a', 'https://bob.test/b']
+    const batch = await bulkRoute.POST(request('/api/scan/bulk', { method: 'POST', body: { urls }, apiKey: key }))
+    expect(batch.status).toBe(429)
+    expect(batch.headers.get('X-RateLimit-Limit')).toBe('10')
+
+    scannedToday(BOB, 2)
+    const job = await scanJobsRoute.POST(request('/api/scan/jobs', { method: 'POST', body: { url: 'https://bob.test/' }, apiKey: key }))
+    expect(job.status).toBe(429)
+    await flush()
+    expect(fakeSupabase.rows('scan_reports').filter(report => report.user_id === BOB)).toHaveLength(4)
+  })
+})
@@ -0,0 +1,124 @@
+import { randomUUID } from 'crypto'
+
+type Row = Record<string, unknown>
+type Result = { data: unknown; error: { message: string } | null; count?: number }
+
+/**
+ * In-memory stand-in for the Supabase tables the routes use. Row level security is not modelled, so the
+ * tests show that the routes themselves keep users apart, as they must with the service role client.
+ */
+class FakeQuery implements PromiseLike<Result> {
+  private action: 'select' | 'insert' | 'update' = 'select'
+  private payload: Row | Row[] = []
+  private filters: Array<[string, unknown]> = []
+  private ranges: Array<[string, string]> = []
+  private ordering?: { column: string; ascending: boolean }
+  private mode: 'many' | 'single' | 'maybe-single' = 'many'
+  private counting?: { head: boolean }
+
+  constructor(private readonly rows: Row[]) {}
+
+  select(_columns?: string, options: { count?: 'exact'; head?: boolean } = {}) {
+    if (options.count) this.counting = { head: options.head === true }
+    return this
+  }
+
+  insert(rows: Row | Row[]) {
+    this.action = 'insert'
+    this.payload = rows
+    return this
+  }
+
+  update(changes: Row) {
+    this.action = 'update'
+    this.payload = changes
+    return this
+  }
+
+  eq(column: string, value: unknown) {
+    this.filters.push([column, value])
+    return this
+  }
+
+  // Compares ISO dates as strings, which is all the routes need
+  gte(column: string, value: string) {
+    this.ranges.push([column, value])
+    return this
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}) {
+    this.ordering = { column, ascending: options.ascending !== false }
+    return this
+  }
+
+  single() {
+    this.mode = 'single'
+    return this
+  }
+
+  maybeSingle() {
+    this.mode = 'maybe-single'
+    return this
+  }
+
+  then<T1 = Result, T2 = never>(resolve?: ((value: Result) => T1 | PromiseLike<T1>) | null, reject?: ((reason: unknown) => T2 | PromiseLike<T2>) | null) {
+    return Promise.resolve(this.execute()).then(resolve, reject)
+  }
+
+  private execute(): Result {
+    let result: Row[]
+    if (this.action === 'insert') {
+      result = (Array.isArray(this.payload) ? this.payload : [this.payload])
+        .map(row => ({ id: randomUUID(), created_at: new Date().toISOString(), ...row }))
+      this.rows.push(...result)
+    } else {
+      result = this.rows.filter(row =>
+        this.filters.every(([column, value]) => row[column] === value) &&
+        this.ranges.every(([column, value]) => String(row[column] ?? '') >= value)
+      )
+      if (this.action === 'update') result.forEach(row => Object.assign(row, this.payload))
+    }
+
+    if (this.ordering) {
+      const { column, ascending } = this.ordering
+      result = [...result].sort((a, b) => String(a[column]).localeCompare(String(b[column])) * (ascending ? 1 : -1))
+    }
+
+    if (this.counting) return { data: this.counting.head ? null : result, error: null, count: result.length }
+    if (this.mode === 'single') {
+      return result.length === 1 ? { data: result[0], error: null } : { data: null, error: { message: `Expected one row, found ${result.length}` } }
+    }
+    if (this.mode === 'maybe-single') {
+      return result.length > 1 ? { data: null, error: { message: 'Expected at most one row' } } : { data: result[0] ?? null, error: null }
+    }
+    return { data: result, error: null }
+  }
+}
+
+export const fakeSupabase = {
+  tables: {} as Record<string, Row[]>,
+  // User of the session cookie; null when signed out
+  sessionUserId: null as string | null,
+
+  reset() {
+    this.tables = {}
+    this.sessionUserId = null
+  },
+
+  rows(table: string): Row[] {
+    this.tables[table] ??= []
+    return this.tables[table]
+  },
+
+  client() {
+    return {
+      from: (table: string) => new FakeQuery(this.rows(table)),
+      auth: {
+        getUser: async () => ({
+          data: { user: this.sessionUserId ? { id: this.sessionUserId } : null },
+          error: null
+        })
+      }
+    }
+  }
+}
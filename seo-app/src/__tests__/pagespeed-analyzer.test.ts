@@ -0,0 +1,55 @@
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { FetchCache } from '@/lib/fetch-cache'
+import { PageSpeedAnalyzer } from '@/lib/pagespeed-analyzer'
+import { SafeFetch } from '@/lib/safe-fetch'
+
+// No Chromium here, so the analyzer falls back to timing a plain fetch
+vi.mock('@/lib/lab-performance-analyzer', async importOriginal => {
+  const { LabPerformanceAnalyzer } = await importOriginal<typeof import('@/lib/lab-performance-analyzer')>()
+  class NoBrowser extends LabPerformanceAnalyzer {
+    static async analyzePerformance(): Promise<never> {
+      throw new Error('Chromium is not available')
+    }
+  }
+  return { LabPerformanceAnalyzer: NoBrowser }
+})
+
+const DELAY_MS = 200
+
+describe('PageSpeedAnalyzer fetch timing fallback', () => {
+  let server: Server
+  let url: string
+
+  beforeAll(async () => {
+    vi.stubEnv('GOOGLE_PAGESPEED_API_KEY', '')
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    SafeFetch.setAllowPrivateNetworks(true)
+    server = createServer((_request, response) => {
+      setTimeout(() => response.end('<html><title>Slow</title></html>'), DELAY_MS)
+    })
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/`
+  })
+
+  afterAll(async () => {
+    SafeFetch.setAllowPrivateNetworks(false)
+    vi.unstubAllEnvs()
+    vi.restoreAllMocks()
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('times a fresh request even though the scan already fetched the page', async () => {
+    const cache = new FetchCache()
+    const analysis = await cache.run(async () => {
+      await SafeFetch.fetch(url)
+      return PageSpeedAnalyzer.analyzePerformance(url)
+    })
+
+    expect(analysis.source).toBe('estimate')
+    expect(analysis.loadTime).toBeGreaterThanOrEqual(DELAY_MS - 20)
+    expect(cache.stats.scanCacheHits).toBe(0)
+    expect(cache.stats.networkRequests).toBe(2)
+  })
+})
@@ -0,0 +1,91 @@
+import { createServer, Server } from 'http'
+import { AddressInfo } from 'net'
+import { NextRequest } from 'next/server'
+import { afterAll, beforeAll, describe, expect, it } from 'vitest'
+import * as robotsTestRoute from '@/app/api/robots-test/route'
+import { RobotsAnalysis, RobotsSitemapAnalyzer } from '@/lib/robots-sitemap-analyzer'
+import { SafeFetch } from '@/lib/safe-fetch'
+import { SEOAnalyzer } from '@/lib/seo-analyzer'
+
+const listen = async (server: Server) => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+}
+
+// No rules at all means every URL is allowed
+const allowed = (robots: RobotsAnalysis | null, url: string) => !robots || RobotsSitemapAnalyzer.isUrlAllowed(robots, url, 'Googlebot')
+
+describe('SEOAnalyzer.fetchRobotsTxt', () => {
+  let server: Server
+  let origin: string
+  let status = 200
+
+  beforeAll(async () => {
+    SafeFetch.setAllowPrivateNetworks(true)
+    server = createServer((_request, response) => {
+      response.writeHead(status, { 'Content-Type': 'text/plain' })
+      response.end(status === 200 ? 'User-agent: *\nDisallow: /private' : 'Error')
+    })
+    origin = await listen(server)
+  })
+
+  const testPaths = (paths: string[]) =>
+    robotsTestRoute.POST(new NextRequest('http://localhost/api/robots-test', {
+      method: 'POST',
+      body: JSON.stringify({ url: `${origin}/`, paths }),
+      headers: { 'Content-Type': 'application/json' }
+    }))
+
+  afterAll(async () => {
+    SafeFetch.setAllowPrivateNetworks(false)
+    await new Promise(resolve => server.close(resolve))
+  })
+
+  it('applies the rules of a robots.txt that was found', async () => {
+    status = 200
+    const robotsTxt = await SEOAnalyzer.fetchRobotsTxt(`${origin}/`)
+    const robots = SEOAnalyzer.robotsRules(robotsTxt)
+    expect(robotsTxt).toMatchObject({ exists: true, status: 200 })
+    expect(allowed(robots, `${origin}/public`)).toBe(true)
+    expect(allowed(robots, `${origin}/private`)).toBe(false)
+  })
+
+  it('allows everything when robots.txt is a 404', async () => {
+    status = 404
+    const robotsTxt = await SEOAnalyzer.fetchRobotsTxt(`${origin}/`)
+    expect(robotsTxt).toEqual({ exists: false, content: '', status: 404, unreachable: false })
+    expect(SEOAnalyzer.robotsRules(robotsTxt)).toBeNull()
+  })
+
+  it('disallows everything when robots.txt is a 503', async () => {
+    status = 503
+    const robotsTxt = await SEOAnalyzer.fetchRobotsTxt(`${origin}/`)
+    expect(robotsTxt).toMatchObject({ exists: false, status: 503, unreachable: true })
+    expect(allowed(SEOAnalyzer.robotsRules(robotsTxt), `${origin}/`)).toBe(false)
+  })
+
+  it('tests paths of the site in the robots.txt tester', async () => {
+    status = 200
+    const response = await testPaths(['/private', `${origin}/public`])
+    const { data } = await response.json()
+    expect(response.status).toBe(200)
+    expect(data.results.map((result: { access: Array<{ allowed: boolean }> }) => result.access[0].allowed)).toEqual([false, true])
+  })
+
+  it('rejects malformed paths and URLs on other sites in the robots.txt tester', async () => {
+    expect((await testPaths(['http://[oops/'])).status).toBe(400)
+    const other = await testPaths(['https://other.test/private'])
+    expect(other.status).toBe(400)
+    expect((await other.json()).error).toContain('is not on')
+  })
+
+  it('disallows everything when the server does not answer', async () => {
+    const closed = createServer()
+    const closedOrigin = await listen(closed)
+    await new Promise(resolve => closed.close(resolve))
+
+    const robotsTxt = await SEOAnalyzer.fetchRobotsTxt(`${closedOrigin}/`)
+    expect(robotsTxt).toEqual({ exists: false, content: '', unreachable: true })
+    expect(allowed(SEOAnalyzer.robotsRules(robotsTxt), `${closedOrigin}/page`)).toBe(false)
+  })
+})
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest'
+import { SafeFetch } from '@/lib/safe-fetch'
+
+describe('SafeFetch.isBlockedAddress', () => {
+  it('blocks IPv4 private and loopback ranges', () => {
+    expect(SafeFetch.isBlockedAddress('127.0.0.1')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('10.1.2.3')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('169.254.169.254')).toBe(true)
+  })
+
+  it('blocks IPv6 addresses that embed a non-public IPv4 address', () => {
+    expect(SafeFetch.isBlockedAddress('::127.0.0.1')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('::7f00:1')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('::ffff:10.0.0.1')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('64:ff9b::a9fe:a9fe')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('64:ff9b::192.168.1.1')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('2002:7f00:1::')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('2002:a00:1:1::1')).toBe(true)
+    expect(SafeFetch.isBlockedAddress('2001:0:4136:e378:8000:63bf:80ff:fffe')).toBe(true)
+  })
+
+  it('allows public addresses, embedded or not', () => {
+    expect(SafeFetch.isBlockedAddress('93.184.216.34')).toBe(false)
+    expect(SafeFetch.isBlockedAddress('2606:2800:220:1:248:1893:25c8:1946')).toBe(false)
+    expect(SafeFetch.isBlockedAddress('::ffff:93.184.216.34')).toBe(false)
+    expect(SafeFetch.isBlockedAddress('64:ff9b::5db8:d822')).toBe(false)
+    expect(SafeFetch.isBlockedAddress('2002:5db8:d822::1')).toBe(false)
+  })
+
+  it('blocks anything that is not an IP address', () => {
+    expect(SafeFetch.isBlockedAddress('example.com')).toBe(true)
+  })
+})
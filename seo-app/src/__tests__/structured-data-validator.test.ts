@@ -0,0 +1,35 @@
+import * as cheerio from 'cheerio'
+import { describe, expect, it } from 'vitest'
+import { StructuredDataValidator } from '@/lib/structured-data-validator'
+
+const html = [
+  '<html>',
+  '<head>',
+  '<script type="application/ld+json">{"@type": "Thing",}</script>',
+  '<script type="application/ld+json">',
+  '{',
+  '  "name": "Example"',
+  '  "url": "https://example.com/"',
+  '}',
+  '</script>',
+  '</head>',
+  '</html>'
+].join('\n')
+
+describe('StructuredDataValidator syntax errors', () => {
+  it('reports page lines and columns from the page source', () => {
+    const { syntaxErrors } = StructuredDataValidator.analyze(cheerio.load(html), html)
+    expect(syntaxErrors.map(({ block, line, column }) => ({ block, line, column }))).toEqual([
+      { block: 1, line: 3, column: 54 },
+      { block: 2, line: 7, column: 3 }
+    ])
+  })
+
+  it('falls back to block lines without the page source', () => {
+    const { syntaxErrors } = StructuredDataValidator.analyze(cheerio.load(html))
+    expect(syntaxErrors.map(({ line, column }) => ({ line, column }))).toEqual([
+      { line: 1, column: 19 },
+      { line: 4, column: 3 }
+    ])
+  })
+})
@@ -8,6 +8,7 @@ import { Badge } from '@/components/ui/badge'
 // import { ScrollArea } from '@/components/ui/scroll-area' // Using simple div for now
 import { Loader2, Send, Globe, Bot, User, Sparkles, Brain, MessageCircle, Zap } from 'lucide-react'
 import { useAuth } from '@/contexts/auth-context'
+import { SEOAnalysis } from '@/types/seo'
 
 interface ChatMessage {
   id: string
@@ -16,19 +17,6 @@ interface ChatMessage {
   timestamp: Date
 }
 
-interface SEOAnalysis {
-  url: string
-  title?: string
-  description?: string
-  keywords?: string[]
-  h1Tags?: string[]
-  h2Tags?: string[]
-  images?: { src: string; alt: string }[]
-  links?: { href: string; text: string }[]
-  issues?: string[]
-  recommendations?: string[]
-}
-
 export default function AIAnalysisPage() {
   const { user, profile } = useAuth()
   const [url, setUrl] = useState('')
@@ -53,7 +41,7 @@ export default function AIAnalysisPage() {
 
     setIsAnalyzing(true)
     try {
-      const response = await fetch('/api/analyze-seo', {
+      const response = await fetch('/api/scan', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -66,7 +54,8 @@ export default function AIAnalysisPage() {
       }
 
       const data = await response.json()
-      setAnalysis(data.analysis)
+      const scanned: SEOAnalysis = data.data
+      setAnalysis(scanned)
       setIsScanned(true)
 
       // Generate conversational AI analysis
@@ -76,7 +65,7 @@ export default function AIAnalysisPage() {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify({
-          analysis: data.analysis,
+          analysis: scanned,
           url: url,
           userName: profile?.full_name || user?.user_metadata?.full_name || 'there',
         }),
@@ -96,7 +85,7 @@ export default function AIAnalysisPage() {
         const fallbackMessage: ChatMessage = {
           id: Date.now().toString(),
           type: 'ai',
-          content: `Hi! I've just finished analyzing ${url}. I found ${data.analysis.issues?.length || 0} SEO issues that need attention and have ${data.analysis.recommendations?.length || 0} recommendations to help improve your rankings. Let me know what specific aspects of your SEO you'd like to discuss!`,
+          content: `Hi! I've just finished analyzing ${url}. It scored ${Math.round(scanned.overallScore)}/100 and I found ${scanned.issues.length} SEO issues that need attention, each with a recommended fix. Let me know what specific aspects of your SEO you'd like to discuss!`,
           timestamp: new Date(),
         }
         setMessages([fallbackMessage])
@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import Anthropic from '@anthropic-ai/sdk'
 import OpenAI from 'openai'
+import { SEOAnalysis } from '@/types/seo'
+import { AnalysisSummary } from '@/lib/analysis-summary'
 
 // Initialize AI providers
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY || '')
@@ -12,37 +14,6 @@ const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY || '',
 })
 
-interface SEOAnalysis {
-  url: string
-  title?: string
-  description?: string
-  keywords?: string[]
-  h1Tags?: string[]
-  h2Tags?: string[]
-  h3Tags?: string[]
-  images?: { src: string; alt: string }[]
-  links?: { href: string; text: string; type: 'internal' | 'external' }[]
-  issues?: string[]
-  recommendations?: string[]
-  metaKeywords?: string
-  canonicalUrl?: string
-  robots?: string
-  openGraph?: {
-    title?: string
-    description?: string
-    image?: string
-    type?: string
-  }
-  twitterCard?: {
-    title?: string
-    description?: string
-    image?: string
-  }
-  structuredData?: any[]
-  loadTime?: number
-  wordCount?: number
-}
-
 function isOffTopicQuestion(message: string): boolean {
   const offTopicKeywords = [
     'weather', 'cooking', 'sports', 'politics', 'entertainment', 'music', 'movies',
@@ -93,28 +64,11 @@ function createSystemPrompt(analysis: SEOAnalysis, url: string): string {
 You are a senior SEO expert and digital growth strategist hired to assess and optimize the website "${url}". You just completed a full SEO audit and must now share insightful, actionable, and prioritized recommendations to help it perform better in search rankings.
 
 🎯 PRIORITY INSIGHTS (What matters most right now):
-- ⚠️ Major SEO issues: ${analysis.issues?.slice(0, 3).map(i => `• ${i}`).join('\n') || 'None detected'}
-- 🧠 Most impactful recommendations: ${analysis.recommendations?.slice(0, 3).map(r => `• ${r}`).join('\n') || 'No urgent suggestions'}
-
-📊 TECHNICAL SEO SNAPSHOT:
-- Page Load Time: ${analysis.loadTime ? `${analysis.loadTime}ms` : 'Unknown'}
-- Canonical URL: ${analysis.canonicalUrl || 'Not set'}
-- Robots Meta: ${analysis.robots || 'Not set'}
-- Structured Data: ${analysis.structuredData?.length || 0} item(s)
-- Open Graph: ${analysis.openGraph?.title ? '✅ Configured' : '❌ Missing'}
-- Twitter Cards: ${analysis.twitterCard?.title ? '✅ Configured' : '❌ Missing'}
-
-🔎 CONTENT & ON-PAGE SEO:
-- Title: ${analysis.title || '❌ Not found'}
-- Meta Description: ${analysis.description || '❌ Not found'}
-- Word Count: ${analysis.wordCount || 'Unknown'}
-- H1: ${analysis.h1Tags?.join(', ') || '❌ None found'}
-- Top H2s: ${analysis.h2Tags?.slice(0, 5).join(', ') || 'None found'}${analysis.h2Tags && analysis.h2Tags.length > 5 ? ` (+${analysis.h2Tags.length - 5} more)` : ''}
-- Images: ${analysis.images?.length || 0} total • ${analysis.images?.filter(img => !img.alt).length || 0} missing alt text
+- ⚠️ Major SEO issues: ${analysis.issues.slice(0, 3).map(i => `• ${i.message}`).join('\n') || 'None detected'}
+- 🧠 Most impactful recommendations: ${analysis.issues.slice(0, 3).map(i => `• ${i.fix.summary}`).join('\n') || 'No urgent suggestions'}
 
-🔗 LINK STRUCTURE:
-- Internal Links: ${analysis.links?.filter(link => link.type === 'internal').length || 0}
-- External Links: ${analysis.links?.filter(link => link.type === 'external').length || 0}
+📊 FULL AUDIT DATA:
+${AnalysisSummary.forPrompt(analysis)}
 
 📌 YOUR ROLE:
 You are to provide:
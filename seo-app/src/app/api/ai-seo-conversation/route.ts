@@ -2,6 +2,8 @@ import { NextRequest, NextResponse } from 'next/server'
 import { GoogleGenerativeAI } from '@google/generative-ai'
 import Anthropic from '@anthropic-ai/sdk'
 import OpenAI from 'openai'
+import { SEOAnalysis } from '@/types/seo'
+import { AnalysisSummary } from '@/lib/analysis-summary'
 
 // Initialize AI providers
 const genAI = new GoogleGenerativeAI(process.env.GOOGLE_GENERATIVE_AI_API_KEY || '')
@@ -12,61 +14,13 @@ const anthropic = new Anthropic({
   apiKey: process.env.ANTHROPIC_API_KEY || '',
 })
 
-interface SEOAnalysis {
-  url: string
-  title?: string
-  description?: string
-  keywords?: string[]
-  h1Tags?: string[]
-  h2Tags?: string[]
-  h3Tags?: string[]
-  images?: { src: string; alt: string }[]
-  links?: { href: string; text: string; type: 'internal' | 'external' }[]
-  issues?: string[]
-  recommendations?: string[]
-  metaKeywords?: string
-  canonicalUrl?: string
-  robots?: string
-  openGraph?: {
-    title?: string
-    description?: string
-    image?: string
-    type?: string
-  }
-  twitterCard?: {
-    title?: string
-    description?: string
-    image?: string
-  }
-  structuredData?: any[]
-  loadTime?: number
-  wordCount?: number
-}
-
 function createConversationalPrompt(analysis: SEOAnalysis, url: string, userName?: string): string {
   return `You are an enthusiastic and friendly SEO expert who has just finished analyzing a website. You're excited to share your findings and help improve the website's performance.
 
 WEBSITE ANALYZED: ${url}
 
 ANALYSIS RESULTS:
-- Page Title: ${analysis.title || 'Not found'}
-- Meta Description: ${analysis.description || 'Not found'}
-- H1 Tags Found: ${analysis.h1Tags?.length || 0} (${analysis.h1Tags?.join(', ') || 'None'})
-- H2 Tags Found: ${analysis.h2Tags?.length || 0} ${analysis.h2Tags?.length ? `(First few: ${analysis.h2Tags.slice(0, 3).join(', ')})` : ''}
-- Total Images: ${analysis.images?.length || 0}
-- Images Missing Alt Text: ${analysis.images?.filter(img => !img.alt).length || 0}
-- Internal Links: ${analysis.links?.filter(link => link.type === 'internal').length || 0}
-- External Links: ${analysis.links?.filter(link => link.type === 'external').length || 0}
-- Content Word Count: ${analysis.wordCount || 'Unknown'}
-- Page Load Time: ${analysis.loadTime ? `${analysis.loadTime}ms` : 'Not measured'}
-- Open Graph Setup: ${analysis.openGraph?.title ? 'Yes' : 'No'}
-- Structured Data: ${analysis.structuredData?.length || 0} items
-
-MAIN ISSUES DETECTED:
-${analysis.issues?.map(issue => `• ${issue}`).join('\n') || 'No major issues found'}
-
-TOP RECOMMENDATIONS:
-${analysis.recommendations?.slice(0, 5).map(rec => `• ${rec}`).join('\n') || 'No specific recommendations'}
+${AnalysisSummary.forPrompt(analysis)}
 
 YOUR TASK:
 Write a friendly, conversational opening message as if you're a real SEO consultant who just finished analyzing their website. Be enthusiastic and helpful. Your message should:
@@ -83,7 +37,9 @@ Write your response in a natural, conversational style as if you're speaking dir
 }
 
 export async function POST(request: NextRequest) {
-  let analysis, url, userName
+  let analysis: SEOAnalysis | undefined
+  let url: string | undefined
+  let userName: string | undefined
   
   try {
     const requestData = await request.json()
@@ -159,9 +115,9 @@ export async function POST(request: NextRequest) {
           return NextResponse.json({
             response: `Hey ${userName || 'there'}! 👋 I've just finished analyzing ${url} and I'm excited to share what I found! 
 
-I discovered ${analysis.issues?.length || 0} areas where we can improve your SEO performance. ${analysis.issues?.length > 0 ? `The main issues I spotted are ${analysis.issues.slice(0, 2).join(' and ')}.` : 'Your site is looking pretty good overall!'}
+I discovered ${analysis.issues.length} areas where we can improve your SEO performance. ${analysis.issues.length > 0 ? `The main issues I spotted are ${analysis.issues.slice(0, 2).map(issue => issue.message).join(' and ')}.` : 'Your site is looking pretty good overall!'}
 
-${analysis.recommendations?.length > 0 ? `I've got ${analysis.recommendations.length} specific recommendations that could really boost your search rankings.` : ''}
+Your overall SEO score is ${Math.round(analysis.overallScore)}/100, and every issue I found comes with a specific fix that could really boost your search rankings.
 
 What aspect of your website's SEO would you like to dive into first? I'm here to help you improve your search visibility! 🚀`
           })
@@ -174,9 +130,9 @@ What aspect of your website's SEO would you like to dive into first? I'm here to
       return NextResponse.json({
         response: `Hi there! 👋 I just finished analyzing ${url} and I have some interesting findings to share with you!
 
-I found ${analysis.issues?.length || 0} SEO issues that we can work on together${analysis.issues?.length > 0 ? `, including ${analysis.issues[0].toLowerCase()}` : ', but overall your site looks good'}. 
+I found ${analysis.issues.length} SEO issues that we can work on together${analysis.issues.length > 0 ? `, including ${analysis.issues[0].message.toLowerCase()}` : ', but overall your site looks good'}. 
 
-${analysis.recommendations?.length > 0 ? `I've prepared ${analysis.recommendations.length} actionable recommendations that could really help improve your search rankings.` : ''}
+Your overall SEO score is ${Math.round(analysis.overallScore)}/100, and I've prepared an actionable fix for each issue that could really help improve your search rankings.
 
 What would you like to know about your website's SEO performance? I'm here to help you boost your search visibility! 🚀`
       })
@@ -1,20 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseClient } from '@/lib/supabase'
+import { RequestAuth } from '@/lib/request-auth'
 
 export async function GET(request: NextRequest) {
   try {
+    const auth = await RequestAuth.authenticate(request)
+    if (auth.response) return auth.response
+    const { identity } = auth
+    const { userId, supabase } = identity
+
     const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
     const timeframe = searchParams.get('timeframe') || '30d'
 
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
-    }
-
-    const supabase = createSupabaseClient()
+    const forbidden = RequestAuth.forbidOtherUser(identity, searchParams.get('userId'))
+    if (forbidden) return forbidden
 
     // Calculate date range
     const now = new Date()
@@ -103,7 +101,7 @@ export async function GET(request: NextRequest) {
       poor: reports.filter(r => r.overall_score < 50).length,
     }
 
-    return NextResponse.json({
+    return RequestAuth.json(identity, {
       success: true,
       analytics: {
         totalScans: scanLogs.length,
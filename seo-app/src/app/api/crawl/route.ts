@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { SiteCrawler } from '@/lib/site-crawler'
+import { ScoringProfiles } from '@/lib/scoring-profiles'
+import { CrawlerIdentity } from '@/lib/crawler-identity'
+import { normalizeUrl, validateUrl } from '@/lib/utils'
+
+export async function POST(request: NextRequest) {
+  try {
+    const { url, maxDepth, maxPages, concurrency, includeSitemap, sitemapSampleSize, scoringProfile, crawler: crawlerInput } = await request.json()
+
+    if (!url) {
+      return NextResponse.json(
+        { error: 'URL is required' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedUrl = normalizeUrl(url)
+
+    if (!validateUrl(normalizedUrl)) {
+      return NextResponse.json(
+        { error: 'Invalid URL format' },
+        { status: 400 }
+      )
+    }
+
+    // Larger values are clamped inside SiteCrawler, but anything that is not a whole number is rejected
+    const limits = { maxDepth: { value: maxDepth, min: 0 }, maxPages: { value: maxPages, min: 1 }, concurrency: { value: concurrency, min: 1 } }
+    for (const [name, { value, min }] of Object.entries(limits)) {
+      if (value !== undefined && (!Number.isInteger(value) || value < min)) {
+        return NextResponse.json(
+          { error: `${name} must be a whole number of at least ${min}` },
+          { status: 400 }
+        )
+      }
+    }
+
+    if (!ScoringProfiles.get(scoringProfile)) {
+      return NextResponse.json(
+        { error: `Unknown scoring profile: ${scoringProfile}` },
+        { status: 400 }
+      )
+    }
+
+    const crawler = CrawlerIdentity.parse(crawlerInput)
+    if (crawler.error) {
+      return NextResponse.json(
+        { error: crawler.error },
+        { status: 400 }
+      )
+    }
+
+    // Crawl the site
+    const result = await SiteCrawler.crawl(normalizedUrl, {
+      maxDepth,
+      maxPages,
+      concurrency,
+      includeSitemap,
+      sitemapSampleSize,
+      scoringProfile
+    }, crawler.settings)
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Site crawl error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to crawl site',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
+
+export async function GET() {
+  return NextResponse.json(
+    { message: 'Site Crawler API - Use POST with a seed URL to crawl a site' },
+    { status: 200 }
+  )
+}
@@ -1,21 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
 import Stripe from 'stripe'
-import { createClient } from '@supabase/supabase-js'
+import { RequestAuth } from '@/lib/request-auth'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
   apiVersion: '2023-10-16',
 })
 
-const supabase = createClient(
-  process.env.NEXT_PUBLIC_SUPABASE_URL!,
-  process.env.SUPABASE_SERVICE_ROLE_KEY!
-)
-
 export async function POST(request: NextRequest) {
   try {
-    const { priceId, userId, planName } = await request.json()
+    const auth = await RequestAuth.authenticate(request)
+    if (auth.response) return auth.response
+    const { identity } = auth
+    const { userId, supabase } = identity
+
+    const { priceId, userId: requestedUserId, planName } = await request.json()
+
+    const forbidden = RequestAuth.forbidOtherUser(identity, requestedUserId)
+    if (forbidden) return forbidden
 
-    if (!priceId || !userId) {
+    if (!priceId) {
       return NextResponse.json(
         { error: 'Missing required parameters' },
         { status: 400 }
@@ -63,7 +66,7 @@ export async function POST(request: NextRequest) {
       payment_method_collection: 'always',
     })
 
-    return NextResponse.json({ url: session.url })
+    return RequestAuth.json(identity, { url: session.url })
   } catch (error) {
     console.error('Error creating checkout session:', error)
     return NextResponse.json(
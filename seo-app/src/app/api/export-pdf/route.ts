@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import puppeteer from 'puppeteer'
-import { SEOAnalysis } from '@/types/seo'
+import { ScoreLedgerEntry, SEOAnalysis, VitalMetric } from '@/types/seo'
 
 export async function POST(request: NextRequest) {
   try {
@@ -95,12 +95,49 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
     return '#ef4444' // red
   }
 
+  // Reports saved before INP replaced FID only hold FID, and older reports hold no vitals at all
+  const vitals = analysis.sections?.performance?.coreWebVitals
+  const vitalCards: Array<{ label: string; metric?: VitalMetric }> = [
+    { label: 'LCP', metric: vitals?.lcp },
+    vitals?.inp || !vitals?.fid ? { label: 'INP', metric: vitals?.inp } : { label: 'FID', metric: vitals.fid },
+    { label: 'CLS', metric: vitals?.cls },
+    { label: 'TTFB', metric: vitals?.ttfb }
+  ]
+  const getVitalColor = (metric?: VitalMetric) => {
+    if (!metric || metric.displayValue === 'N/A') return '#6b7280'
+    if (metric.category === 'good') return '#22c55e'
+    if (metric.category === 'needs-improvement') return '#f59e0b'
+    return '#ef4444'
+  }
+
   const getScoreStatus = (score: number) => {
     if (score >= 80) return 'Excellent'
     if (score >= 60) return 'Good'
     return 'Needs Work'
   }
 
+  // Reports saved before score ledgers have no breakdown to show
+  const renderLedger = (ledger?: ScoreLedgerEntry[]) => ledger?.length ? `
+    <div class="ledger">
+      <h4>How this score was calculated</h4>
+      <table>
+        <tr><th>Rule</th><th>Points</th><th>Reason</th></tr>
+        ${ledger.map(entry => `
+          <tr>
+            <td>${entry.check}</td>
+            <td class="points" style="color: ${entry.points === entry.maxPoints ? '#22c55e' : '#ef4444'}">${entry.points} / ${entry.maxPoints}</td>
+            <td>${entry.reason}</td>
+          </tr>
+        `).join('')}
+        <tr class="total">
+          <td>Total</td>
+          <td class="points">${ledger.reduce((sum, entry) => sum + entry.points, 0)} / ${ledger.reduce((sum, entry) => sum + entry.maxPoints, 0)}</td>
+          <td>Score = points earned ÷ points possible × 100</td>
+        </tr>
+      </table>
+    </div>
+  ` : ''
+
   return `
     <!DOCTYPE html>
     <html lang="en">
@@ -177,6 +214,12 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
           background: ${getScoreColor(analysis.overallScore)};
         }
         
+        .score-profile {
+          margin-top: 10px;
+          font-size: 12px;
+          color: #6b7280;
+        }
+
         .score-status {
           display: inline-block;
           padding: 6px 12px;
@@ -262,6 +305,41 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
           left: 0;
         }
         
+        .ledger {
+          margin-top: 15px;
+          page-break-inside: avoid;
+        }
+
+        .ledger h4 {
+          font-size: 14px;
+          color: #374151;
+          margin-bottom: 8px;
+        }
+
+        .ledger table {
+          width: 100%;
+          border-collapse: collapse;
+          font-size: 12px;
+        }
+
+        .ledger th, .ledger td {
+          text-align: left;
+          padding: 4px 8px 4px 0;
+          border-bottom: 1px solid #f3f4f6;
+          vertical-align: top;
+        }
+
+        .ledger .points {
+          text-align: right;
+          white-space: nowrap;
+          font-family: monospace;
+        }
+
+        .ledger .total td {
+          font-weight: 600;
+          border-bottom: none;
+        }
+
         .recommendations {
           background: #f0f9ff;
           border: 1px solid #bae6fd;
@@ -326,6 +404,7 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
           <div class="score-circle">${Math.round(analysis.overallScore)}</div>
           <h2>Overall SEO Score</h2>
           <div class="score-status">${getScoreStatus(analysis.overallScore)}</div>
+          ${analysis.scoringProfile ? `<div class="score-profile">Scored with the ${analysis.scoringProfile.name} profile (v${analysis.scoringProfile.version})</div>` : ''}
         </div>
 
         <!-- Analysis Sections -->
@@ -354,6 +433,7 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
                 </ul>
               </div>
             ` : ''}
+            ${renderLedger(analysis.sections?.meta?.ledger)}
           </div>
 
           <!-- Performance -->
@@ -430,6 +510,7 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
                 </ul>
               </div>
             ` : ''}
+            ${renderLedger(analysis.sections?.performance?.ledger)}
           </div>
 
           <!-- Page Quality -->
@@ -488,6 +569,7 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
                 </ul>
               </div>
             ` : ''}
+            ${renderLedger(analysis.sections?.pageQuality?.ledger)}
           </div>
 
           <div class="section">
@@ -518,8 +600,18 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
               <h4 style="font-size: 16px; margin-bottom: 10px; color: #374151;">✅ Good Practices</h4>
               ${(analysis.sections?.linkStructure?.internalLinks || 0) > 0 ? '<div style="color: #22c55e; font-size: 14px; margin-bottom: 5px;">✅ Good internal linking structure</div>' : ''}
               ${(analysis.sections?.linkStructure?.externalLinks || 0) > 0 ? '<div style="color: #22c55e; font-size: 14px; margin-bottom: 5px;">✅ Contains external references</div>' : ''}
-              <div style="color: #22c55e; font-size: 14px; margin-bottom: 5px;">✅ No broken links detected</div>
+              ${!analysis.sections?.linkStructure?.brokenLinks?.length ? '<div style="color: #22c55e; font-size: 14px; margin-bottom: 5px;">✅ No broken links detected</div>' : ''}
             </div>
+
+            ${analysis.sections?.linkStructure?.brokenLinks?.length ? `
+              <div class="issues">
+                <h4>Broken Links (${analysis.sections.linkStructure.brokenLinks.length})</h4>
+                <ul>
+                  ${analysis.sections.linkStructure.brokenLinks.map(link => `<li>${link.url} — "${link.anchorText || 'no anchor text'}" (${link.timedOut ? 'timeout' : link.statusCode ?? 'error'})</li>`).join('')}
+                </ul>
+              </div>
+            ` : ''}
+            ${renderLedger(analysis.sections?.linkStructure?.ledger)}
           </div></div>
 
           <!-- Crawlability -->
@@ -560,7 +652,7 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
                   </div>
                   <div class="metric">
                     <span class="metric-label">Meta Robots</span>
-                    <span class="metric-value">Not analyzed</span>
+                    <span class="metric-value" style="color: ${analysis.sections?.crawlability?.indexability?.noindex ? '#ef4444' : '#22c55e'}">${analysis.sections?.crawlability?.indexability ? (analysis.sections.crawlability.indexability.noindex ? '❌ Noindex' : '✅ Indexable') : 'Not analyzed'}</span>
                   </div>
                 </div>
               </div>
@@ -574,8 +666,84 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
                 </ul>
               </div>
             ` : ''}
+            ${renderLedger(analysis.sections?.crawlability?.ledger)}
           </div>
           
+          ${analysis.sections?.redirects ? `
+          <!-- Redirects -->
+          <div class="section">
+            <h3>🔀 Redirects & HTTP Status</h3>
+            <div class="metric">
+              <span class="metric-label">Score</span>
+              <span class="metric-value" style="color: ${getScoreColor(analysis.sections.redirects.score)}">${Math.round(analysis.sections.redirects.score)}/100</span>
+            </div>
+            <div class="metric">
+              <span class="metric-label">Final URL</span>
+              <span class="metric-value">${analysis.sections.redirects.finalUrl} (${analysis.sections.redirects.finalStatusCode ?? 'error'})</span>
+            </div>
+            <div class="metric">
+              <span class="metric-label">HTTP → HTTPS</span>
+              <span class="metric-value">${analysis.sections.redirects.httpsEnforced === undefined ? 'Not applicable' : analysis.sections.redirects.httpsEnforced ? '✅ Enforced' : '❌ Missing'}</span>
+            </div>
+            ${analysis.sections.redirects.hops.length ? `
+              <div style="margin-top: 15px;">
+                <h4 style="font-size: 16px; margin-bottom: 10px; color: #374151;">Redirect Chain</h4>
+                ${analysis.sections.redirects.hops.map(hop => `
+                  <div class="metric">
+                    <span class="metric-label">${hop.url}</span>
+                    <span class="metric-value">${hop.statusCode} → ${hop.location || ''}</span>
+                  </div>
+                `).join('')}
+              </div>
+            ` : ''}
+            ${analysis.sections.redirects.issues.length ? `
+              <div class="issues">
+                <h4>Redirect Issues</h4>
+                <ul>
+                  ${analysis.sections.redirects.issues.map(issue => `<li>${issue}</li>`).join('')}
+                </ul>
+              </div>
+            ` : ''}
+            ${renderLedger(analysis.sections?.redirects?.ledger)}
+          </div>
+          ` : ''}
+
+          ${analysis.sections?.headers ? `
+          <!-- HTTP Headers -->
+          <div class="section">
+            <h3>📨 HTTP Response Headers</h3>
+            <div class="metric">
+              <span class="metric-label">Score</span>
+              <span class="metric-value" style="color: ${getScoreColor(analysis.sections.headers.score)}">${Math.round(analysis.sections.headers.score)}/100</span>
+            </div>
+            <div class="metric">
+              <span class="metric-label">X-Robots-Tag</span>
+              <span class="metric-value">${analysis.sections.headers.xRobotsTag || 'Not set'}</span>
+            </div>
+            <div class="metric">
+              <span class="metric-label">Caching</span>
+              <span class="metric-value">${analysis.sections.headers.caching.isCacheable ? '✅' : '⚠️'} ${analysis.sections.headers.caching.cacheControl || 'No Cache-Control'}</span>
+            </div>
+            <div class="metric">
+              <span class="metric-label">Compression</span>
+              <span class="metric-value">${analysis.sections.headers.compression.isCompressed ? `✅ ${analysis.sections.headers.compression.contentEncoding}` : '❌ None'}</span>
+            </div>
+            <div class="metric">
+              <span class="metric-label">Charset</span>
+              <span class="metric-value">${analysis.sections.headers.contentType.charset || '⚠️ Not declared'}</span>
+            </div>
+            ${analysis.sections.headers.issues.length ? `
+              <div class="issues">
+                <h4>Header Issues</h4>
+                <ul>
+                  ${analysis.sections.headers.issues.map(issue => `<li>${issue}</li>`).join('')}
+                </ul>
+              </div>
+            ` : ''}
+            ${renderLedger(analysis.sections?.headers?.ledger)}
+          </div>
+          ` : ''}
+
           <!-- External Factors -->
           <div class="section">
             <h3>🌐 External Factors</h3>
@@ -617,6 +785,7 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
                 <span class="metric-value" style="color: #f59e0b;">23% behind leaders</span>
               </div>
             </div>
+            ${renderLedger(analysis.sections?.externalFactors?.ledger)}
           </div>
           
           <!-- Advanced SEO Metrics -->
@@ -626,19 +795,12 @@ function generateStyledHTML(analysis: SEOAnalysis): string {
             <!-- Core Web Vitals -->
             <div style="margin-top: 15px;">
               <h4 style="font-size: 16px; margin-bottom: 10px; color: #374151;">⚡ Core Web Vitals</h4>
-              <div class="two-column" style="display: grid; grid-template-columns: repeat(3, 1fr); gap: 15px;">
+              <div class="two-column" style="display: grid; grid-template-columns: repeat(4, 1fr); gap: 15px;">
+                ${vitalCards.map(card => `
                 <div style="text-center; background: #f0f9ff; padding: 10px; border-radius: 8px;">
-                  <div style="font-size: 20px; font-weight: bold; color: #22c55e;">2.1s</div>
-                  <div style="font-size: 12px; color: #6b7280;">LCP</div>
-                </div>
-                <div style="text-center; background: #f0f9ff; padding: 10px; border-radius: 8px;">
-                  <div style="font-size: 20px; font-weight: bold; color: #22c55e;">85ms</div>
-                  <div style="font-size: 12px; color: #6b7280;">FID</div>
-                </div>
-                <div style="text-center; background: #f0f9ff; padding: 10px; border-radius: 8px;">
-                  <div style="font-size: 20px; font-weight: bold; color: #22c55e;">0.08</div>
-                  <div style="font-size: 12px; color: #6b7280;">CLS</div>
-                </div>
+                  <div style="font-size: 20px; font-weight: bold; color: ${getVitalColor(card.metric)};">${card.metric?.displayValue || 'N/A'}</div>
+                  <div style="font-size: 12px; color: #6b7280;">${card.label}</div>
+                </div>`).join('')}
               </div>
             </div>
             
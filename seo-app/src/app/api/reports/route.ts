@@ -1,20 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseClient } from '@/lib/supabase'
-import { SEOAnalysis } from '@/types/seo'
+import { RequestAuth } from '@/lib/request-auth'
 
 export async function POST(request: NextRequest) {
   try {
-    const { analysis, userId } = await request.json()
+    const auth = await RequestAuth.authenticate(request)
+    if (auth.response) return auth.response
+    const { identity } = auth
+    const { userId, supabase } = identity
 
-    if (!analysis || !userId) {
+    const { analysis, userId: requestedUserId } = await request.json()
+
+    const forbidden = RequestAuth.forbidOtherUser(identity, requestedUserId)
+    if (forbidden) return forbidden
+
+    if (!analysis) {
       return NextResponse.json(
-        { error: 'Analysis data and user ID are required' },
+        { error: 'Analysis data is required' },
         { status: 400 }
       )
     }
 
-    const supabase = createSupabaseClient()
-
     // Check if user exists and get their current usage
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
@@ -103,7 +108,7 @@ export async function POST(request: NextRequest) {
       console.error('Error logging usage:', logError)
     }
 
-    return NextResponse.json({
+    return RequestAuth.json(identity, {
       success: true,
       report,
       usage: {
@@ -128,22 +133,20 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
-    }
+    const auth = await RequestAuth.authenticate(request)
+    if (auth.response) return auth.response
+    const { identity } = auth
+    const { userId, supabase } = identity
 
-    const supabase = createSupabaseClient()
+    const { searchParams } = new URL(request.url)
+    const forbidden = RequestAuth.forbidOtherUser(identity, searchParams.get('userId'))
+    if (forbidden) return forbidden
 
     const { data: reports, error } = await supabase
       .from('scan_reports')
       .select('*')
       .eq('user_id', userId)
+      .eq('status', 'completed')
       .order('created_at', { ascending: false })
 
     if (error) {
@@ -154,7 +157,7 @@ export async function GET(request: NextRequest) {
       )
     }
 
-    return NextResponse.json({
+    return RequestAuth.json(identity, {
       success: true,
       reports
     })
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RobotsSitemapAnalyzer } from '@/lib/robots-sitemap-analyzer'
+import { SEOAnalyzer } from '@/lib/seo-analyzer'
+import { normalizeUrl, validateUrl } from '@/lib/utils'
+
+const MAX_PATHS = 50
+
+export async function POST(request: NextRequest) {
+  try {
+    const { url, paths, userAgents } = await request.json()
+
+    if (!url) {
+      return NextResponse.json(
+        { error: 'URL is required' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedUrl = normalizeUrl(url)
+
+    if (!validateUrl(normalizedUrl)) {
+      return NextResponse.json(
+        { error: 'Invalid URL format' },
+        { status: 400 }
+      )
+    }
+
+    if (!Array.isArray(paths) || paths.length === 0) {
+      return NextResponse.json(
+        { error: 'At least one path is required' },
+        { status: 400 }
+      )
+    }
+
+    if (paths.length > MAX_PATHS) {
+      return NextResponse.json(
+        { error: `At most ${MAX_PATHS} paths can be tested at once` },
+        { status: 400 }
+      )
+    }
+
+    // Paths resolve against the site; absolute URLs must stay on it, as only its robots.txt is fetched
+    const origin = new URL(normalizedUrl).origin
+    const tests: Array<{ path: string; url: string }> = []
+    for (const path of paths.map(String)) {
+      let testUrl: URL
+      try {
+        testUrl = new URL(path, normalizedUrl)
+      } catch {
+        return NextResponse.json(
+          { error: `Invalid path: ${path}` },
+          { status: 400 }
+        )
+      }
+
+      if (testUrl.origin !== origin) {
+        return NextResponse.json(
+          { error: `${path} is not on ${origin}; only paths of the tested site can be checked` },
+          { status: 400 }
+        )
+      }
+      tests.push({ path, url: testUrl.href })
+    }
+
+    const agents: string[] = Array.isArray(userAgents) && userAgents.length > 0
+      ? userAgents.map(String)
+      : RobotsSitemapAnalyzer.TEST_USER_AGENTS
+
+    // Always test against the live robots.txt; an unreachable one disallows every path
+    const robotsTxt = await SEOAnalyzer.fetchRobotsTxt(normalizedUrl)
+    const robots = SEOAnalyzer.robotsRules(robotsTxt)
+    const issues = robotsTxt.exists
+      ? robots!.issues
+      : [robotsTxt.unreachable
+        ? `robots.txt could not be fetched (${robotsTxt.status ? `status ${robotsTxt.status}` : 'no response'}), so every path is disallowed`
+        : `robots.txt not found${robotsTxt.status ? ` (${robotsTxt.status})` : ''}, so every path is allowed`]
+
+    const results = tests.map(({ path, url: testUrl }) => ({
+      path,
+      url: testUrl,
+      access: agents.map(userAgent =>
+        robots ? SEOAnalyzer.toAccessResult(RobotsSitemapAnalyzer.matchUrl(robots, testUrl, userAgent)) : { userAgent, allowed: true }
+      )
+    }))
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        robotsTxtUrl: `${origin}/robots.txt`,
+        robotsTxtFound: robotsTxt.exists,
+        robotsTxtStatus: robotsTxt.status,
+        robotsTxtUnreachable: robotsTxt.unreachable === true,
+        issues,
+        warnings: robotsTxt.exists ? robots!.warnings : [],
+        results
+      }
+    })
+
+  } catch (error) {
+    console.error('robots.txt test error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to test robots.txt',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
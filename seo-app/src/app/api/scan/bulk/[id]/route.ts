@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BulkScanner } from '@/lib/bulk-scanner'
+import { RequestAuth } from '@/lib/request-auth'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await RequestAuth.authenticate(request)
+  if (auth.response) return auth.response
+  const { identity } = auth
+
+  const { id } = await params
+  // Other users' batches are reported as missing rather than forbidden, for the CSV export too
+  const batch = await BulkScanner.get(id, identity.userId)
+
+  if (!batch) {
+    return NextResponse.json(
+      { error: 'Bulk scan not found' },
+      { status: 404 }
+    )
+  }
+
+  // ?format=csv downloads the aggregate table
+  if (request.nextUrl.searchParams.get('format') === 'csv') {
+    return new Response(BulkScanner.toCsv(batch), {
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="bulk-scan-${id}.csv"`
+      }
+    })
+  }
+
+  return RequestAuth.json(identity, {
+    success: true,
+    data: batch
+  })
+}
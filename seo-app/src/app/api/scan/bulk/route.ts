@@ -0,0 +1,115 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { BulkScanner, MAX_BULK_URLS } from '@/lib/bulk-scanner'
+import { RequestAuth } from '@/lib/request-auth'
+import { ScoringProfiles } from '@/lib/scoring-profiles'
+import { CrawlerIdentity } from '@/lib/crawler-identity'
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await RequestAuth.authenticate(request)
+    if (auth.response) return auth.response
+    const { identity } = auth
+
+    let input: string | string[] | undefined
+    let scoringProfile: string | undefined
+    let concurrency: number | undefined
+    let crawlerInput: unknown
+    let requestedUserId: string | undefined
+
+    // A CSV upload arrives as multipart form data; API clients send JSON
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData()
+      const file = form.get('file')
+      input = file instanceof Blob ? await file.text() : form.get('urls')?.toString()
+      scoringProfile = form.get('scoringProfile')?.toString() || undefined
+      concurrency = Number(form.get('concurrency')) || undefined
+      requestedUserId = form.get('userId')?.toString() || undefined
+      // Crawler settings travel as a JSON field next to the file
+      const crawlerField = form.get('crawler')?.toString()
+      try {
+        crawlerInput = crawlerField ? JSON.parse(crawlerField) : undefined
+      } catch {
+        crawlerInput = crawlerField
+      }
+    } else {
+      const body = await request.json()
+      input = body.urls
+      scoringProfile = body.scoringProfile
+      concurrency = body.concurrency
+      requestedUserId = body.userId
+      crawlerInput = body.crawler
+    }
+
+    // Batches are always filed under the caller; a userId in the request only gets checked
+    const forbidden = RequestAuth.forbidOtherUser(identity, requestedUserId)
+    if (forbidden) return forbidden
+
+    if (!input || (typeof input !== 'string' && !Array.isArray(input))) {
+      return NextResponse.json(
+        { error: 'A list of URLs or a CSV file is required' },
+        { status: 400 }
+      )
+    }
+
+    const urls = BulkScanner.parseUrls(input)
+
+    if (urls.length === 0) {
+      return NextResponse.json(
+        { error: 'No valid URLs found' },
+        { status: 400 }
+      )
+    }
+
+    if (urls.length > MAX_BULK_URLS) {
+      return NextResponse.json(
+        { error: `Too many URLs: ${urls.length} (maximum ${MAX_BULK_URLS})` },
+        { status: 400 }
+      )
+    }
+
+    const profile = ScoringProfiles.get(scoringProfile)
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown scoring profile: ${scoringProfile}` },
+        { status: 400 }
+      )
+    }
+
+    const crawler = CrawlerIdentity.parse(crawlerInput)
+    if (crawler.error) {
+      return NextResponse.json(
+        { error: crawler.error },
+        { status: 400 }
+      )
+    }
+
+    // Every URL is charged up front, so a batch that would go over the daily quota is refused whole
+    const quotaResponse = await RequestAuth.checkScanQuota(identity, urls.length + BulkScanner.queuedUrls(identity.userId))
+    if (quotaResponse) return quotaResponse
+
+    const batch = BulkScanner.start(urls, { concurrency, scoringProfile: profile, crawler: crawler.settings }, identity.userId)
+
+    return RequestAuth.json(
+      identity,
+      {
+        success: true,
+        data: {
+          batch,
+          statusUrl: `/api/scan/bulk/${batch.id}`
+        }
+      },
+      { status: 202 }
+    )
+
+  } catch (error) {
+    console.error('Bulk scan error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to start bulk scan',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RequestAuth } from '@/lib/request-auth'
+import { ScanJob, ScanJobs } from '@/lib/scan-jobs'
+
+const encoder = new TextEncoder()
+
+// progress while pending, then a single completed or failed event
+function formatEvent(job: ScanJob): Uint8Array {
+  const event = job.status === 'pending' ? 'progress' : job.status
+  return encoder.encode(`event: ${event}\ndata: ${JSON.stringify(job)}\n\n`)
+}
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await RequestAuth.authenticate(request)
+  if (auth.response) return auth.response
+  const { identity } = auth
+
+  const { id } = await params
+  // Other users' jobs are reported as missing rather than forbidden
+  const job = await ScanJobs.get(id, identity.userId)
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Scan job not found' },
+      { status: 404 }
+    )
+  }
+
+  let unsubscribe = () => {}
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const close = () => {
+        unsubscribe()
+        controller.close()
+      }
+
+      controller.enqueue(formatEvent(job))
+      if (job.status !== 'pending') {
+        close()
+        return
+      }
+
+      unsubscribe = ScanJobs.subscribe(id, current => {
+        controller.enqueue(formatEvent(current))
+        if (current.status !== 'pending') close()
+      })
+
+      request.signal.addEventListener('abort', () => unsubscribe())
+    },
+    cancel() {
+      unsubscribe()
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive'
+    }
+  })
+}
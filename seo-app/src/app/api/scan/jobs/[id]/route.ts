@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RequestAuth } from '@/lib/request-auth'
+import { ScanJobs } from '@/lib/scan-jobs'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await RequestAuth.authenticate(request)
+  if (auth.response) return auth.response
+  const { identity } = auth
+
+  const { id } = await params
+  // Other users' jobs are reported as missing rather than forbidden
+  const job = await ScanJobs.get(id, identity.userId)
+
+  if (!job) {
+    return NextResponse.json(
+      { error: 'Scan job not found' },
+      { status: 404 }
+    )
+  }
+
+  return RequestAuth.json(identity, {
+    success: true,
+    data: job
+  })
+}
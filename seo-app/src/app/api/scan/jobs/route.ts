@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { RequestAuth } from '@/lib/request-auth'
+import { ScanJobs } from '@/lib/scan-jobs'
+import { ScoringProfiles } from '@/lib/scoring-profiles'
+import { CrawlerIdentity } from '@/lib/crawler-identity'
+import { normalizeUrl, validateUrl } from '@/lib/utils'
+
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await RequestAuth.authenticate(request)
+    if (auth.response) return auth.response
+    const { identity } = auth
+
+    const { url, sitemapSampleSize, renderJavaScript, scoringProfile, crawler: crawlerInput, checkCloaking, userId: requestedUserId } = await request.json()
+
+    // Jobs are always filed under the caller; a userId in the body only gets checked
+    const forbidden = RequestAuth.forbidOtherUser(identity, requestedUserId)
+    if (forbidden) return forbidden
+
+    if (!url) {
+      return NextResponse.json(
+        { error: 'URL is required' },
+        { status: 400 }
+      )
+    }
+
+    if (!validateUrl(url)) {
+      return NextResponse.json(
+        { error: 'Invalid URL format' },
+        { status: 400 }
+      )
+    }
+
+    const profile = ScoringProfiles.get(scoringProfile)
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown scoring profile: ${scoringProfile}` },
+        { status: 400 }
+      )
+    }
+
+    const crawler = CrawlerIdentity.parse(crawlerInput)
+    if (crawler.error) {
+      return NextResponse.json(
+        { error: crawler.error },
+        { status: 400 }
+      )
+    }
+
+    const quotaResponse = await RequestAuth.checkScanQuota(identity)
+    if (quotaResponse) return quotaResponse
+
+    // Start the analysis and return straight away; progress is polled or streamed per job
+    const job = await ScanJobs.create(
+      normalizeUrl(url),
+      { sitemapSampleSize, renderJavaScript: renderJavaScript === true, scoringProfile: profile, crawler: crawler.settings, checkCloaking: checkCloaking === true },
+      identity.userId
+    )
+
+    return RequestAuth.json(
+      identity,
+      {
+        success: true,
+        data: {
+          job,
+          statusUrl: `/api/scan/jobs/${job.id}`,
+          eventsUrl: `/api/scan/jobs/${job.id}/events`
+        }
+      },
+      { status: 202 }
+    )
+
+  } catch (error) {
+    console.error('Scan job creation error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to start scan',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
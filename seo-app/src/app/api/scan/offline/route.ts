@@ -0,0 +1,106 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { MAX_ZIP_BYTES, OfflineAnalyzer } from '@/lib/offline-analyzer'
+import { ScoringProfiles } from '@/lib/scoring-profiles'
+import { normalizeUrl, validateUrl } from '@/lib/utils'
+
+export async function POST(request: NextRequest) {
+  try {
+    let html: string | undefined
+    let file: File | undefined
+    let baseUrl: string | undefined
+    let scoringProfile: string | undefined
+
+    // File uploads arrive as multipart form data; pasted HTML can also be sent as JSON
+    if (request.headers.get('content-type')?.includes('multipart/form-data')) {
+      const form = await request.formData()
+      const upload = form.get('file')
+      file = upload instanceof File ? upload : undefined
+      html = form.get('html')?.toString() || undefined
+      baseUrl = form.get('baseUrl')?.toString() || undefined
+      scoringProfile = form.get('scoringProfile')?.toString() || undefined
+    } else {
+      const body = await request.json()
+      html = body.html
+      baseUrl = body.baseUrl
+      scoringProfile = body.scoringProfile
+    }
+
+    if (!baseUrl) {
+      return NextResponse.json(
+        { error: 'Base URL is required' },
+        { status: 400 }
+      )
+    }
+
+    const normalizedBaseUrl = normalizeUrl(baseUrl)
+
+    if (!validateUrl(normalizedBaseUrl)) {
+      return NextResponse.json(
+        { error: 'Invalid base URL format' },
+        { status: 400 }
+      )
+    }
+
+    if (!file && !html) {
+      return NextResponse.json(
+        { error: 'Paste HTML or upload an .html or .zip file' },
+        { status: 400 }
+      )
+    }
+
+    const profile = ScoringProfiles.get(scoringProfile)
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown scoring profile: ${scoringProfile}` },
+        { status: 400 }
+      )
+    }
+
+    if (file && /\.zip$/i.test(file.name)) {
+      if (file.size > MAX_ZIP_BYTES) {
+        return NextResponse.json(
+          { error: `Zip is larger than ${MAX_ZIP_BYTES / 1024 / 1024}MB` },
+          { status: 413 }
+        )
+      }
+
+      const result = await OfflineAnalyzer.analyzeZip(new Uint8Array(await file.arrayBuffer()), normalizedBaseUrl, { scoringProfile: profile })
+      if (result.pages.length === 0) {
+        return NextResponse.json(
+          { error: 'No .html files found in the zip' },
+          { status: 400 }
+        )
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result
+      })
+    }
+
+    if (file && !/\.html?$/i.test(file.name)) {
+      return NextResponse.json(
+        { error: 'Only .html and .zip files are supported' },
+        { status: 400 }
+      )
+    }
+
+    const result = await OfflineAnalyzer.analyzeHtml(file ? await file.text() : html!, normalizedBaseUrl, { scoringProfile: profile })
+
+    return NextResponse.json({
+      success: true,
+      data: result
+    })
+
+  } catch (error) {
+    console.error('Offline analysis error:', error)
+
+    return NextResponse.json(
+      {
+        error: 'Failed to analyze upload',
+        details: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,10 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { SEOAnalyzer } from '@/lib/seo-analyzer'
+import { ScoringProfiles } from '@/lib/scoring-profiles'
+import { CrawlerIdentity } from '@/lib/crawler-identity'
 import { normalizeUrl, validateUrl } from '@/lib/utils'
 
 export async function POST(request: NextRequest) {
   try {
-    const { url } = await request.json()
+    const { url, sitemapSampleSize, renderJavaScript, scoringProfile, crawler: crawlerInput, checkCloaking } = await request.json()
 
     if (!url) {
       return NextResponse.json(
@@ -20,10 +22,32 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const profile = ScoringProfiles.get(scoringProfile)
+    if (!profile) {
+      return NextResponse.json(
+        { error: `Unknown scoring profile: ${scoringProfile}` },
+        { status: 400 }
+      )
+    }
+
+    const crawler = CrawlerIdentity.parse(crawlerInput)
+    if (crawler.error) {
+      return NextResponse.json(
+        { error: crawler.error },
+        { status: 400 }
+      )
+    }
+
     const normalizedUrl = normalizeUrl(url)
 
     // Perform SEO analysis
-    const analysis = await SEOAnalyzer.analyze(normalizedUrl)
+    const analysis = await SEOAnalyzer.analyze(normalizedUrl, {
+      sitemapSampleSize,
+      renderJavaScript: renderJavaScript === true,
+      scoringProfile: profile,
+      crawler: crawler.settings,
+      checkCloaking: checkCloaking === true
+    })
 
     return NextResponse.json({
       success: true,
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { createSupabaseClient } from '@/lib/supabase'
+import { RequestAuth } from '@/lib/request-auth'
 import Stripe from 'stripe'
 
 const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
@@ -8,17 +8,23 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY!, {
 
 export async function POST(request: NextRequest) {
   try {
-    const { priceId, userId, billingPeriod } = await request.json()
+    const auth = await RequestAuth.authenticate(request)
+    if (auth.response) return auth.response
+    const { identity } = auth
+    const { userId, supabase } = identity
 
-    if (!priceId || !userId) {
+    const { priceId, userId: requestedUserId, billingPeriod } = await request.json()
+
+    const forbidden = RequestAuth.forbidOtherUser(identity, requestedUserId)
+    if (forbidden) return forbidden
+
+    if (!priceId) {
       return NextResponse.json(
-        { error: 'Price ID and user ID are required' },
+        { error: 'Price ID is required' },
         { status: 400 }
       )
     }
 
-    const supabase = createSupabaseClient()
-
     // Get user details
     const { data: profile, error: profileError } = await supabase
       .from('profiles')
@@ -92,7 +98,7 @@ export async function POST(request: NextRequest) {
         }
       })
 
-    return NextResponse.json({
+    return RequestAuth.json(identity, {
       success: true,
       sessionId: session.id,
       url: session.url
@@ -113,17 +119,14 @@ export async function POST(request: NextRequest) {
 
 export async function GET(request: NextRequest) {
   try {
-    const { searchParams } = new URL(request.url)
-    const userId = searchParams.get('userId')
-
-    if (!userId) {
-      return NextResponse.json(
-        { error: 'User ID is required' },
-        { status: 400 }
-      )
-    }
+    const auth = await RequestAuth.authenticate(request)
+    if (auth.response) return auth.response
+    const { identity } = auth
+    const { userId, supabase } = identity
 
-    const supabase = createSupabaseClient()
+    const { searchParams } = new URL(request.url)
+    const forbidden = RequestAuth.forbidOtherUser(identity, searchParams.get('userId'))
+    if (forbidden) return forbidden
 
     // Get user's subscription status
     const { data: profile, error } = await supabase
@@ -148,7 +151,7 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    return NextResponse.json({
+    return RequestAuth.json(identity, {
       success: true,
       subscription: {
         tier: profile.subscription_tier,
@@ -0,0 +1,7 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { OpenApi } from '@/lib/openapi'
+
+// Public, so API clients and documentation tools can fetch it without a key
+export async function GET(request: NextRequest) {
+  return NextResponse.json(OpenApi.document(new URL(request.url).origin))
+}
@@ -0,0 +1,150 @@
+import { NextRequest } from 'next/server'
+import { CrawlerIdentity } from '@/lib/crawler-identity'
+import { PublicApi, REPORT_SUMMARY_COLUMNS } from '@/lib/public-api'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { normalizeUrl, validateUrl } from '@/lib/utils'
+
+const RECENT_REPORTS = 10
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  const { id } = await params
+  const supabase = getServiceSupabaseClient()!
+
+  const { data: project, error } = await supabase
+    .from('projects')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', context.userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching API project:', error)
+    return PublicApi.error('Failed to fetch project', 500, context)
+  }
+
+  if (!project) {
+    return PublicApi.error('Project not found', 404, context)
+  }
+
+  const { data: reports } = await supabase
+    .from('scan_reports')
+    .select(REPORT_SUMMARY_COLUMNS)
+    .eq('project_id', id)
+    .eq('user_id', context.userId)
+    .order('created_at', { ascending: false })
+    .limit(RECENT_REPORTS)
+
+  return PublicApi.json(context, {
+    success: true,
+    data: {
+      ...PublicApi.project(project),
+      recentReports: (reports || []).map(row => PublicApi.reportSummary(row))
+    }
+  })
+}
+
+// Only the fields sent are changed; crawler settings are replaced as a whole, and masked values keep the saved ones
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  try {
+    const { id } = await params
+    const { name, url, crawler: crawlerInput } = await request.json()
+    const changes: Record<string, unknown> = {}
+
+    if (name !== undefined) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return PublicApi.error('Project name cannot be empty', 400, context)
+      }
+      changes.name = name.trim()
+    }
+
+    if (url !== undefined) {
+      if (!url || !validateUrl(url)) {
+        return PublicApi.error('A valid project URL is required', 400, context)
+      }
+      changes.url = normalizeUrl(url)
+    }
+
+    if (crawlerInput !== undefined) {
+      const { data: saved } = await getServiceSupabaseClient()!
+        .from('projects')
+        .select('crawler_settings')
+        .eq('id', id)
+        .eq('user_id', context.userId)
+        .maybeSingle()
+
+      if (!saved) {
+        return PublicApi.error('Project not found', 404, context)
+      }
+
+      const crawler = CrawlerIdentity.parse(crawlerInput, saved.crawler_settings || undefined)
+      if (crawler.error) {
+        return PublicApi.error(crawler.error, 400, context)
+      }
+      changes.crawler_settings = crawler.settings
+    }
+
+    if (Object.keys(changes).length === 0) {
+      return PublicApi.error('Nothing to update', 400, context)
+    }
+
+    const { data: project, error } = await getServiceSupabaseClient()!
+      .from('projects')
+      .update(changes)
+      .eq('id', id)
+      .eq('user_id', context.userId)
+      .select()
+      .maybeSingle()
+
+    if (error) {
+      console.error('Error updating API project:', error)
+      return PublicApi.error('Failed to update project', 500, context)
+    }
+
+    if (!project) {
+      return PublicApi.error('Project not found', 404, context)
+    }
+
+    return PublicApi.json(context, {
+      success: true,
+      data: PublicApi.project(project)
+    })
+
+  } catch (error) {
+    console.error('API project update error:', error)
+    return PublicApi.error('Failed to update project', 500, context)
+  }
+}
+
+// Reports of a deleted project are kept and simply lose their project
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  const { id } = await params
+  const { data, error } = await getServiceSupabaseClient()!
+    .from('projects')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', context.userId)
+    .select('id')
+
+  if (error) {
+    console.error('Error deleting API project:', error)
+    return PublicApi.error('Failed to delete project', 500, context)
+  }
+
+  if (!data || data.length === 0) {
+    return PublicApi.error('Project not found', 404, context)
+  }
+
+  return PublicApi.json(context, { success: true })
+}
@@ -0,0 +1,75 @@
+import { NextRequest } from 'next/server'
+import { CrawlerIdentity } from '@/lib/crawler-identity'
+import { PublicApi } from '@/lib/public-api'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { normalizeUrl, validateUrl } from '@/lib/utils'
+
+export async function GET(request: NextRequest) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  const { data, error } = await getServiceSupabaseClient()!
+    .from('projects')
+    .select('*')
+    .eq('user_id', context.userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    console.error('Error fetching API projects:', error)
+    return PublicApi.error('Failed to fetch projects', 500, context)
+  }
+
+  return PublicApi.json(context, {
+    success: true,
+    data: (data || []).map(row => PublicApi.project(row))
+  })
+}
+
+export async function POST(request: NextRequest) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  try {
+    const { name, url, crawler: crawlerInput } = await request.json()
+
+    if (!name || typeof name !== 'string' || !name.trim()) {
+      return PublicApi.error('Project name is required', 400, context)
+    }
+
+    if (!url || !validateUrl(url)) {
+      return PublicApi.error('A valid project URL is required', 400, context)
+    }
+
+    const crawler = CrawlerIdentity.parse(crawlerInput)
+    if (crawler.error) {
+      return PublicApi.error(crawler.error, 400, context)
+    }
+
+    const { data: project, error } = await getServiceSupabaseClient()!
+      .from('projects')
+      .insert({
+        user_id: context.userId,
+        name: name.trim(),
+        url: normalizeUrl(url),
+        crawler_settings: crawler.settings
+      })
+      .select()
+      .single()
+
+    if (error) {
+      console.error('Error creating API project:', error)
+      return PublicApi.error('Failed to create project', 500, context)
+    }
+
+    return PublicApi.json(context, {
+      success: true,
+      data: PublicApi.project(project)
+    }, { status: 201 })
+
+  } catch (error) {
+    console.error('API project creation error:', error)
+    return PublicApi.error('Failed to create project', 500, context)
+  }
+}
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server'
+import { PublicApi } from '@/lib/public-api'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  const { id } = await params
+  const { data: report, error } = await getServiceSupabaseClient()!
+    .from('scan_reports')
+    .select('*')
+    .eq('id', id)
+    .eq('user_id', context.userId)
+    .maybeSingle()
+
+  if (error) {
+    console.error('Error fetching API report:', error)
+    return PublicApi.error('Failed to fetch report', 500, context)
+  }
+
+  if (!report) {
+    return PublicApi.error('Report not found', 404, context)
+  }
+
+  return PublicApi.json(context, {
+    success: true,
+    data: PublicApi.report(report)
+  })
+}
+
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  const { id } = await params
+  const { data, error } = await getServiceSupabaseClient()!
+    .from('scan_reports')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', context.userId)
+    .select('id')
+
+  if (error) {
+    console.error('Error deleting API report:', error)
+    return PublicApi.error('Failed to delete report', 500, context)
+  }
+
+  if (!data || data.length === 0) {
+    return PublicApi.error('Report not found', 404, context)
+  }
+
+  return PublicApi.json(context, { success: true })
+}
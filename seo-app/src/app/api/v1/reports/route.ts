@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server'
+import { PublicApi, REPORT_SUMMARY_COLUMNS } from '@/lib/public-api'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+
+const DEFAULT_PAGE_SIZE = 20
+const MAX_PAGE_SIZE = 100
+
+export async function GET(request: NextRequest) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  const { searchParams } = new URL(request.url)
+  const limit = Math.min(MAX_PAGE_SIZE, Math.max(1, Number(searchParams.get('limit')) || DEFAULT_PAGE_SIZE))
+  const offset = Math.max(0, Number(searchParams.get('offset')) || 0)
+  const projectId = searchParams.get('projectId')
+  const url = searchParams.get('url')
+
+  let query = getServiceSupabaseClient()!
+    .from('scan_reports')
+    .select(REPORT_SUMMARY_COLUMNS, { count: 'exact' })
+    .eq('user_id', context.userId)
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1)
+
+  if (projectId) query = query.eq('project_id', projectId)
+  if (url) query = query.eq('url', url)
+
+  const { data, count, error } = await query
+
+  if (error) {
+    console.error('Error fetching API reports:', error)
+    return PublicApi.error('Failed to fetch reports', 500, context)
+  }
+
+  return PublicApi.json(context, {
+    success: true,
+    data: (data || []).map(row => PublicApi.reportSummary(row)),
+    pagination: { limit, offset, total: count || 0 }
+  })
+}
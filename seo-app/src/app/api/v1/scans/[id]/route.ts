@@ -0,0 +1,21 @@
+import { NextRequest } from 'next/server'
+import { PublicApi } from '@/lib/public-api'
+import { ScanJobs } from '@/lib/scan-jobs'
+
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  const { id } = await params
+  // Other users' scans are reported as missing rather than forbidden
+  const job = await ScanJobs.get(id, context.userId)
+  if (!job) {
+    return PublicApi.error('Scan not found', 404, context)
+  }
+
+  return PublicApi.json(context, {
+    success: true,
+    data: job
+  })
+}
@@ -0,0 +1,80 @@
+import { NextRequest } from 'next/server'
+import { CrawlerIdentity, CrawlerSettings } from '@/lib/crawler-identity'
+import { PublicApi } from '@/lib/public-api'
+import { ScanJobs } from '@/lib/scan-jobs'
+import { ScoringProfiles } from '@/lib/scoring-profiles'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { normalizeUrl, validateUrl } from '@/lib/utils'
+
+export async function POST(request: NextRequest) {
+  const auth = await PublicApi.authenticate(request)
+  if (auth.response) return auth.response
+  const { context } = auth
+
+  try {
+    const { url, sitemapSampleSize, renderJavaScript, scoringProfile, projectId, crawler: crawlerInput, checkCloaking } = await request.json()
+
+    if (!url) {
+      return PublicApi.error('URL is required', 400, context)
+    }
+
+    if (!validateUrl(url)) {
+      return PublicApi.error('Invalid URL format', 400, context)
+    }
+
+    const profile = ScoringProfiles.get(scoringProfile)
+    if (!profile) {
+      return PublicApi.error(`Unknown scoring profile: ${scoringProfile}`, 400, context)
+    }
+
+    const crawler = CrawlerIdentity.parse(crawlerInput)
+    if (crawler.error) {
+      return PublicApi.error(crawler.error, 400, context)
+    }
+
+    // The project's crawler settings apply first, then the scan's own
+    let projectCrawler: CrawlerSettings | undefined
+    if (projectId) {
+      const { data: project } = await getServiceSupabaseClient()!
+        .from('projects')
+        .select('id, crawler_settings')
+        .eq('id', projectId)
+        .eq('user_id', context.userId)
+        .maybeSingle()
+
+      if (!project) {
+        return PublicApi.error('Project not found', 404, context)
+      }
+      projectCrawler = project.crawler_settings || undefined
+    }
+
+    const quotaResponse = await PublicApi.checkScanQuota(context)
+    if (quotaResponse) return quotaResponse
+
+    const job = await ScanJobs.create(
+      normalizeUrl(url),
+      {
+        sitemapSampleSize,
+        renderJavaScript: renderJavaScript === true,
+        scoringProfile: profile,
+        crawler: CrawlerIdentity.merge(projectCrawler, crawler.settings),
+        checkCloaking: checkCloaking === true
+      },
+      context.userId,
+      projectId
+    )
+
+    return PublicApi.json(context, {
+      success: true,
+      data: {
+        job,
+        statusUrl: `/api/v1/scans/${job.id}`,
+        reportUrl: `/api/v1/reports/${job.id}`
+      }
+    }, { status: 202 })
+
+  } catch (error) {
+    console.error('API scan error:', error)
+    return PublicApi.error('Failed to start scan', 500, context)
+  }
+}
@@ -3,7 +3,7 @@
 import React, { useState, useEffect } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import { Navigation } from '@/components/layout/navigation'
-import { HeroSection } from '@/components/landing/hero-section'
+import { HeroSection, OfflineScanInput, ScanOptionsInput } from '@/components/landing/hero-section'
 import { ModernLanding } from '@/components/landing/modern-landing'
 import { ResultsDashboard } from '@/components/seo/results-dashboard'
 import { UserDashboard } from '@/components/dashboard/user-dashboard'
@@ -13,73 +13,141 @@ import { exportToPDF } from '@/lib/pdf-export'
 import { useAuth } from '@/contexts/auth-context'
 import AIAnalysisPage from './ai-analysis/page'
 import { ProfilePage } from '@/components/profile/profile-page'
-import { scanReportService, profileService } from '@/lib/supabase'
+import { profileService } from '@/lib/supabase'
+import type { ScanJob } from '@/lib/scan-jobs'
+import type { OfflinePage } from '@/lib/offline-analyzer'
+
+const SCAN_STAGE_LABELS: Record<string, string> = {
+  fetch: 'Fetching page',
+  render: 'Rendering JavaScript',
+  cloaking: 'Comparing Googlebot and browser',
+  performance: 'Measuring performance',
+  meta: 'Checking meta tags',
+  content: 'Checking content',
+  links: 'Checking links',
+  structure: 'Checking page structure',
+  crawlability: 'Checking crawlability',
+  'external-factors': 'Checking external factors',
+  redirects: 'Tracing redirects',
+  headers: 'Checking headers',
+  scoring: 'Scoring'
+}
+
+// Stream a scan job's progress until it completes or fails
+function followScanJob(eventsUrl: string, onProgress: (job: ScanJob) => void): Promise<ScanJob> {
+  return new Promise((resolve, reject) => {
+    const source = new EventSource(eventsUrl)
+    const settle = (event: MessageEvent) => {
+      source.close()
+      resolve(JSON.parse(event.data))
+    }
+    source.addEventListener('progress', (event) => onProgress(JSON.parse((event as MessageEvent).data)))
+    source.addEventListener('completed', (event) => settle(event as MessageEvent))
+    source.addEventListener('failed', (event) => settle(event as MessageEvent))
+    source.onerror = () => {
+      source.close()
+      reject(new Error('Lost connection to the scan'))
+    }
+  })
+}
 
 export default function Home() {
   const [currentPage, setCurrentPage] = useState<'home' | 'dashboard' | 'pricing' | 'ai-analysis' | 'profile'>('home')
   const [isScanning, setIsScanning] = useState(false)
+  const [scanStatus, setScanStatus] = useState<string>()
   const [analysis, setAnalysis] = useState<SEOAnalysis | null>(null)
+  // Every analyzed page of an uploaded static build
+  const [offlinePages, setOfflinePages] = useState<OfflinePage[]>([])
   const [isExporting, setIsExporting] = useState(false)
   const { user, profile } = useAuth()
 
-  const handleScan = async (url: string) => {
+  const handleScan = async (url: string, options: ScanOptionsInput = {}) => {
     setIsScanning(true)
+    setScanStatus(undefined)
     setAnalysis(null)
+    setOfflinePages([])
     
     try {
-      const response = await fetch('/api/scan', {
+      const scanRequest = {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ url }),
-      })
+        body: JSON.stringify({
+          url,
+          renderJavaScript: options.renderJavaScript,
+          scoringProfile: options.scoringProfile,
+          crawler: options.userAgent ? { userAgent: options.userAgent } : undefined,
+          checkCloaking: options.checkCloaking
+        }),
+      }
 
-      const result = await response.json()
+      if (user) {
+        // Signed-in scans run as jobs that are saved server-side as they run
+        const response = await fetch('/api/scan/jobs', scanRequest)
+        const result = await response.json()
 
-      if (!response.ok) {
-        throw new Error(result.error || 'Failed to analyze URL')
-      }
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to analyze URL')
+        }
 
-      const analysisData = result.data
-      setAnalysis(analysisData)
+        const job = await followScanJob(result.data.eventsUrl, (current) => {
+          setScanStatus(`${SCAN_STAGE_LABELS[current.stage ?? ''] || 'Analyzing'}... ${current.progress}%`)
+        })
 
-      // Save report if user is authenticated
-      if (user && profile) {
-        try {
-          console.log('Attempting to save scan report for user:', user.id)
-          console.log('Analysis data:', analysisData)
-          
-          // Save to Supabase using scanReportService
-          const savedReport = await scanReportService.createScanReport({
-            user_id: user.id,
-            url: url,
-            title: analysisData.title || `SEO Analysis - ${new URL(url).hostname}`,
-            description: analysisData.description || `SEO analysis for ${url}`,
-            seo_score: Math.round(analysisData.sections?.seo?.score || analysisData.overallScore || 0) || undefined,
-            performance_score: analysisData.sections?.performance?.score ? Math.round(analysisData.sections.performance.score) : undefined,
-            accessibility_score: analysisData.sections?.accessibility?.score ? Math.round(analysisData.sections.accessibility.score) : undefined,
-            best_practices_score: analysisData.sections?.bestPractices?.score ? Math.round(analysisData.sections.bestPractices.score) : undefined,
-            report_data: analysisData
-          })
-
-          if (savedReport) {
-            // Increment scan count
-            await profileService.incrementScanCount(user.id)
-            console.log('Scan report saved successfully:', savedReport.id)
-          } else {
-            console.error('Failed to save scan report - no data returned')
-          }
-        } catch (saveError) {
-          console.error('Error saving report:', saveError)
-          console.log('Failed to save scan report')
+        if (job.status === 'failed' || !job.result) {
+          throw new Error(job.error || 'Failed to analyze URL')
         }
+
+        setAnalysis(job.result)
       } else {
-        console.log('User not authenticated, skipping save')
+        // Anonymous scans are analyzed in a single request and not saved
+        const response = await fetch('/api/scan', scanRequest)
+        const result = await response.json()
+
+        if (!response.ok) {
+          throw new Error(result.error || 'Failed to analyze URL')
+        }
+
+        setAnalysis(result.data)
+      }
+
+      if (user && profile) {
+        await profileService.incrementScanCount(user.id)
       }
     } catch (error) {
       console.error('Scan error:', error)
       alert(`Failed to analyze URL: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    } finally {
+      setIsScanning(false)
+      setScanStatus(undefined)
+    }
+  }
+
+  const handleOfflineScan = async ({ baseUrl, html, file, scoringProfile }: OfflineScanInput) => {
+    setIsScanning(true)
+    setAnalysis(null)
+    setOfflinePages([])
+
+    try {
+      const form = new FormData()
+      form.append('baseUrl', baseUrl)
+      if (file) form.append('file', file)
+      if (html) form.append('html', html)
+      if (scoringProfile) form.append('scoringProfile', scoringProfile)
+
+      const response = await fetch('/api/scan/offline', { method: 'POST', body: form })
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to analyze upload')
+      }
+
+      setOfflinePages(result.data.pages)
+      setAnalysis(result.data.pages[0].analysis)
+    } catch (error) {
+      console.error('Offline scan error:', error)
+      alert(`Failed to analyze upload: ${error instanceof Error ? error.message : 'Unknown error'}`)
     } finally {
       setIsScanning(false)
     }
@@ -101,6 +169,7 @@ export default function Home() {
 
   const handleBackToHome = () => {
     setAnalysis(null)
+    setOfflinePages([])
   }
 
   const renderCurrentPage = () => {
@@ -139,6 +208,7 @@ export default function Home() {
                 }
               }}
               isScanning={isScanning} 
+              scanStatus={scanStatus}
             />
           )
         }
@@ -146,9 +216,23 @@ export default function Home() {
         // Show original hero section for authenticated users or when analysis is present
         return (
           <>
-            <HeroSection onScan={handleScan} isScanning={isScanning} />
+            <HeroSection onScan={handleScan} onOfflineScan={handleOfflineScan} isScanning={isScanning} scanStatus={scanStatus} />
             {analysis && (
               <div className="py-16">
+                {offlinePages.length > 1 && (
+                  <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 flex items-center space-x-2 text-sm text-gray-600">
+                    <span>Page</span>
+                    <select
+                      value={analysis.offline?.path}
+                      onChange={(e) => setAnalysis(offlinePages.find(page => page.path === e.target.value)?.analysis ?? analysis)}
+                      className="border rounded-md px-2 py-1 bg-white"
+                    >
+                      {offlinePages.map(page => (
+                        <option key={page.path} value={page.path}>{page.path} · {Math.round(page.analysis.overallScore)}</option>
+                      ))}
+                    </select>
+                  </div>
+                )}
                 <ResultsDashboard
                   analysis={analysis}
                   isExporting={isExporting}
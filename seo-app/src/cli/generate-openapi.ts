@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs'
+import path from 'path'
+import ts from 'typescript'
+
+// Regenerates the JSON Schemas of the analysis types that the OpenAPI document serves.
+// Run `npm run openapi` after changing src/types/seo.ts.
+const TYPES_FILE = path.resolve('src/types/seo.ts')
+const OUTPUT_FILE = path.resolve('src/lib/seo-analysis.schema.json')
+const ROOT_TYPE = 'SEOAnalysis'
+
+type JsonSchema = Record<string, unknown>
+
+const program = ts.createProgram([TYPES_FILE], { strict: true, target: ts.ScriptTarget.ES2017 })
+const checker = program.getTypeChecker()
+const sourceFile = program.getSourceFile(TYPES_FILE)
+if (!sourceFile) throw new Error(`Cannot read ${TYPES_FILE}`)
+
+const schemas: Record<string, JsonSchema> = {}
+
+// The `//` comment above a declaration becomes its description
+function description(node: ts.Node): string | undefined {
+  const text = sourceFile!.getFullText()
+  const comments = ts.getLeadingCommentRanges(text, node.getFullStart()) || []
+  const lines = comments
+    .filter(comment => comment.kind === ts.SyntaxKind.SingleLineCommentTrivia)
+    .map(comment => text.slice(comment.pos + 2, comment.end).trim())
+  return lines.length > 0 ? lines.join(' ') : undefined
+}
+
+// Named interfaces of the types file become shared components; everything else is inlined
+function componentName(type: ts.Type): string | undefined {
+  const declaration = type.getSymbol()?.getDeclarations()?.[0]
+  return declaration && ts.isInterfaceDeclaration(declaration) && declaration.getSourceFile() === sourceFile
+    ? declaration.name.text
+    : undefined
+}
+
+function toSchema(type: ts.Type): JsonSchema {
+  if (type.isUnion()) {
+    const members = type.types.filter(member => !(member.flags & ts.TypeFlags.Undefined))
+    if (members.every(member => member.flags & ts.TypeFlags.BooleanLiteral)) return { type: 'boolean' }
+    if (members.every(member => member.isStringLiteral())) {
+      return { type: 'string', enum: members.map(member => (member as ts.StringLiteralType).value) }
+    }
+    if (members.length === 1) return toSchema(members[0])
+    return { oneOf: members.map(toSchema) }
+  }
+
+  if (type.isStringLiteral()) return { type: 'string', enum: [type.value] }
+  if (type.flags & ts.TypeFlags.String) return { type: 'string' }
+  if (type.flags & ts.TypeFlags.Number) return { type: 'number' }
+  if (type.flags & (ts.TypeFlags.Boolean | ts.TypeFlags.BooleanLiteral)) return { type: 'boolean' }
+  if (type.flags & (ts.TypeFlags.Any | ts.TypeFlags.Unknown)) return {}
+
+  if (type.getSymbol()?.getName() === 'Array') {
+    const [item] = checker.getTypeArguments(type as ts.TypeReference)
+    return { type: 'array', items: toSchema(item) }
+  }
+
+  const name = componentName(type)
+  if (name) {
+    if (!schemas[name]) {
+      // Reserve the name first so self-referencing types such as SitemapAnalysis terminate
+      schemas[name] = {}
+      schemas[name] = objectSchema(type)
+    }
+    return { $ref: `#/components/schemas/${name}` }
+  }
+
+  return objectSchema(type)
+}
+
+function objectSchema(type: ts.Type): JsonSchema {
+  const properties: Record<string, JsonSchema> = {}
+  const required: string[] = []
+
+  for (const property of checker.getPropertiesOfType(type)) {
+    const declaration = property.getDeclarations()?.[0]
+    if (!declaration) continue
+    const schema = toSchema(checker.getTypeOfSymbolAtLocation(property, declaration))
+    const text = description(declaration)
+    // $ref siblings are ignored by OpenAPI 3.0, so described references are wrapped
+    properties[property.getName()] = text ? (schema.$ref ? { allOf: [schema], description: text } : { ...schema, description: text }) : schema
+    if (!(property.getFlags() & ts.SymbolFlags.Optional)) required.push(property.getName())
+  }
+
+  const indexType = type.getStringIndexType()
+  const schema: JsonSchema = { type: 'object', properties }
+  if (required.length > 0) schema.required = required
+  if (indexType) schema.additionalProperties = toSchema(indexType)
+
+  const declaration = type.getSymbol()?.getDeclarations()?.[0]
+  const text = declaration && ts.isInterfaceDeclaration(declaration) ? description(declaration) : undefined
+  return text ? { description: text, ...schema } : schema
+}
+
+async function main() {
+  const root = sourceFile!.statements.find(
+    (statement): statement is ts.InterfaceDeclaration => ts.isInterfaceDeclaration(statement) && statement.name.text === ROOT_TYPE
+  )
+  if (!root) throw new Error(`${ROOT_TYPE} not found in ${TYPES_FILE}`)
+
+  toSchema(checker.getTypeAtLocation(root))
+
+  const sorted = Object.fromEntries(Object.keys(schemas).sort().map(name => [name, schemas[name]]))
+  await fs.writeFile(OUTPUT_FILE, `${JSON.stringify(sorted, null, 2)}\n`)
+  console.log(`Wrote ${Object.keys(sorted).length} schemas to ${path.relative(process.cwd(), OUTPUT_FILE)}`)
+}
+
+main().catch(error => {
+  console.error(error)
+  process.exit(1)
+})
@@ -0,0 +1,250 @@
+#!/usr/bin/env node
+import { promises as fs } from 'fs'
+import path from 'path'
+import { parseArgs } from 'util'
+import { AuditedPage, CiAudit, FailOnSeverity } from '@/lib/ci-audit'
+import { CrawlerIdentity, CrawlerSettings, USER_AGENT_PRESETS } from '@/lib/crawler-identity'
+import { FetchCache } from '@/lib/fetch-cache'
+import { OfflineAnalyzer } from '@/lib/offline-analyzer'
+import { RobotsSitemapAnalyzer } from '@/lib/robots-sitemap-analyzer'
+import { RuleEngine } from '@/lib/rule-engine'
+import { SafeFetch } from '@/lib/safe-fetch'
+import { ScoringProfile, ScoringProfiles, SCORING_PROFILES } from '@/lib/scoring-profiles'
+import { SEOAnalyzer } from '@/lib/seo-analyzer'
+import { mapWithConcurrency, normalizeUrl, validateUrl } from '@/lib/utils'
+
+// Exit codes: 0 when every gate passes, 1 when one fails, 2 when the audit could not run
+const EXIT_FAILED = 1
+const EXIT_ERROR = 2
+
+const FORMATS = ['text', 'json', 'junit'] as const
+const FAIL_ON: FailOnSeverity[] = ['error', 'warning', 'notice', 'none']
+const DEFAULT_MAX_PAGES = 20
+const SCAN_CONCURRENCY = 3
+// Files the offline analyzer reads; everything else only needs to exist for link checks
+const READABLE_FILE = /\.(html?|txt|xml|gz)$/i
+// Pages audited in one run share robots.txt and sitemap responses for this long
+const SHARED_CACHE_TTL_SECONDS = 600
+
+const USAGE = `Usage: seo-audit <url|dir> [options]
+
+Audits a live URL or a static build directory and exits non-zero when a gate fails.
+
+Options:
+  --profile <id>        Scoring profile: ${SCORING_PROFILES.map(profile => profile.id).join(', ')} (default ${SCORING_PROFILES[0].id})
+  --min-score <n>       Fail pages whose overall score is below n
+  --fail-on <severity>  Fail on issues of this severity or worse: ${FAIL_ON.join(', ')} (default error)
+  --fail-rule <id>      Fail whenever this rule triggers; repeat or comma-separate for several
+  --format <format>     Report format: ${FORMATS.join(', ')} (default text)
+  --output <file>       Write the report to a file instead of stdout
+  --base-url <url>      Canonical URL a build directory will be served from (required for directories)
+  --sitemap             Also audit the URLs listed in the site's sitemaps
+  --max-pages <n>       Most sitemap URLs to audit (default ${DEFAULT_MAX_PAGES})
+  --render              Render JavaScript before analyzing live URLs
+  --cloaking            Also compare each live page as served to Googlebot and to a browser
+  --user-agent <ua>     Preset (${USER_AGENT_PRESETS.map(preset => preset.id).join(', ')}) or a literal user agent
+  --header <h>          Extra "Name: value" header for the audited site; repeat for several
+  --cookie <c>          "name=value" cookie for the audited site; repeat for several
+  --auth <user:pass>    HTTP basic credentials for the audited site, e.g. a staging server
+  --allow-private       Allow URLs on localhost and private networks, e.g. a preview server in CI
+  -h, --help            Show this help`
+
+class UsageError extends Error {}
+
+function parseCommandLine() {
+  try {
+    return parseArgs({
+      allowPositionals: true,
+      options: {
+        profile: { type: 'string' },
+        'min-score': { type: 'string' },
+        'fail-on': { type: 'string', default: 'error' },
+        'fail-rule': { type: 'string', multiple: true, default: [] },
+        format: { type: 'string', default: 'text' },
+        output: { type: 'string' },
+        'base-url': { type: 'string' },
+        sitemap: { type: 'boolean', default: false },
+        'max-pages': { type: 'string' },
+        render: { type: 'boolean', default: false },
+        cloaking: { type: 'boolean', default: false },
+        'user-agent': { type: 'string' },
+        header: { type: 'string', multiple: true, default: [] },
+        cookie: { type: 'string', multiple: true, default: [] },
+        auth: { type: 'string' },
+        'allow-private': { type: 'boolean', default: false },
+        help: { type: 'boolean', short: 'h', default: false }
+      }
+    })
+  } catch (error) {
+    throw new UsageError(error instanceof Error ? error.message : 'Invalid arguments')
+  }
+}
+
+async function main(): Promise<number> {
+  const { values, positionals } = parseCommandLine()
+
+  if (values.help) {
+    writeReport(USAGE)
+    return 0
+  }
+
+  const target = positionals[0]
+  if (!target || positionals.length > 1) throw new UsageError('Expected exactly one URL or directory')
+
+  const profile = ScoringProfiles.get(values.profile)
+  if (!profile) throw new UsageError(`Unknown scoring profile: ${values.profile}`)
+
+  const failOn = values['fail-on'] as FailOnSeverity
+  if (!FAIL_ON.includes(failOn)) throw new UsageError(`--fail-on must be one of ${FAIL_ON.join(', ')}`)
+
+  const format = values.format as typeof FORMATS[number]
+  if (!FORMATS.includes(format)) throw new UsageError(`--format must be one of ${FORMATS.join(', ')}`)
+
+  const minScore = values['min-score'] === undefined ? undefined : Number(values['min-score'])
+  if (minScore !== undefined && (!Number.isFinite(minScore) || minScore < 0 || minScore > 100)) {
+    throw new UsageError('--min-score must be a number from 0 to 100')
+  }
+
+  const maxPages = values['max-pages'] === undefined ? DEFAULT_MAX_PAGES : Number(values['max-pages'])
+  if (!Number.isInteger(maxPages) || maxPages < 1) throw new UsageError('--max-pages must be a positive whole number')
+
+  const failRules = values['fail-rule'].flatMap(value => value.split(',')).map(id => id.trim()).filter(Boolean)
+  const unknownRule = failRules.find(id => !RuleEngine.getRule(id))
+  if (unknownRule) throw new UsageError(`Unknown rule ID: ${unknownRule}`)
+
+  const crawler = crawlerSettings(values['user-agent'], values.header, values.cookie, values.auth)
+
+  if (values['allow-private']) SafeFetch.setAllowPrivateNetworks(true)
+  if (!process.env.FETCH_CACHE_TTL_SECONDS) FetchCache.setSharedTtl(SHARED_CACHE_TTL_SECONDS)
+
+  const isDirectory = await fs.stat(target).then(stat => stat.isDirectory(), () => false)
+  const pages = isDirectory
+    ? await auditDirectory(target, values['base-url'], profile)
+    : await auditUrl(target, profile, { sitemap: values.sitemap, maxPages, renderJavaScript: values.render, checkCloaking: values.cloaking, crawler })
+
+  const result = CiAudit.evaluate(target, pages, { minScore, failOn, failRules })
+  const report = format === 'json' ? CiAudit.toJson(result) : format === 'junit' ? CiAudit.toJUnit(result) : CiAudit.toText(result)
+
+  if (values.output) {
+    await fs.writeFile(values.output, report)
+    // Keep the build log readable when the report itself goes to a file
+    if (format !== 'text') writeReport(CiAudit.toText(result))
+  } else {
+    writeReport(report)
+  }
+
+  return result.passed ? 0 : EXIT_FAILED
+}
+
+/**
+ * Crawler settings from the command line, validated like those sent to the API
+ */
+function crawlerSettings(userAgent: string | undefined, headers: string[], cookies: string[], auth: string | undefined): CrawlerSettings {
+  const split = (value: string, separator: string, flag: string): [string, string] => {
+    const index = value.indexOf(separator)
+    if (index <= 0) throw new UsageError(`${flag} expects ${flag === '--header' ? '"Name: value"' : '"name=value"'}, got: ${value}`)
+    return [value.slice(0, index).trim(), value.slice(index + 1).trim()]
+  }
+
+  const credentials = auth === undefined ? undefined : auth.indexOf(':')
+  if (credentials !== undefined && credentials <= 0) throw new UsageError('--auth expects user:password')
+
+  const isPreset = USER_AGENT_PRESETS.some(preset => preset.id === userAgent)
+  const parsed = CrawlerIdentity.parse({
+    userAgent: userAgent === undefined ? undefined : isPreset ? userAgent : 'custom',
+    customUserAgent: userAgent !== undefined && !isPreset ? userAgent : undefined,
+    headers: headers.length > 0 ? Object.fromEntries(headers.map(header => split(header, ':', '--header'))) : undefined,
+    cookies: cookies.length > 0 ? Object.fromEntries(cookies.map(cookie => split(cookie, '=', '--cookie'))) : undefined,
+    basicAuth: auth && credentials ? { username: auth.slice(0, credentials), password: auth.slice(credentials + 1) } : undefined
+  })
+  if (!parsed.settings) throw new UsageError(parsed.error)
+  return parsed.settings
+}
+
+async function auditUrl(target: string, profile: ScoringProfile, options: { sitemap: boolean; maxPages: number; renderJavaScript: boolean; checkCloaking: boolean; crawler: CrawlerSettings }): Promise<AuditedPage[]> {
+  const url = normalizeUrl(target)
+  if (!validateUrl(url)) throw new UsageError(`Not a URL or directory: ${target}`)
+
+  // Sitemaps of a staging site need the same credentials as its pages
+  const urls = options.sitemap
+    ? await SafeFetch.withIdentity(new CrawlerIdentity(options.crawler, url), () => sitemapUrls(url, options.maxPages))
+    : [url]
+
+  return mapWithConcurrency(urls, SCAN_CONCURRENCY, async pageUrl => {
+    try {
+      progress(`Analyzing ${pageUrl}`)
+      const analysis = await SEOAnalyzer.analyze(pageUrl, {
+        scoringProfile: profile,
+        renderJavaScript: options.renderJavaScript,
+        checkCloaking: options.checkCloaking,
+        crawler: options.crawler
+      })
+      return { url: pageUrl, analysis }
+    } catch (error) {
+      return { url: pageUrl, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+  })
+}
+
+/**
+ * The start URL followed by sitemap URLs that robots.txt lets Googlebot crawl
+ */
+async function sitemapUrls(url: string, maxPages: number): Promise<string[]> {
+  const origin = new URL(url).origin
+  const robots = await RobotsSitemapAnalyzer.analyzeRobotsTxt(origin)
+  const sitemaps = robots.sitemapUrls.length > 0 ? robots.sitemapUrls : [`${origin}/sitemap.xml`]
+  const { entries } = await RobotsSitemapAnalyzer.collectSitemapEntries(sitemaps, { siteUrl: origin })
+
+  const urls = new Set([url])
+  for (const entry of entries) {
+    if (urls.size >= maxPages) break
+    if (robots.exists && !RobotsSitemapAnalyzer.isUrlAllowed(robots, entry.loc, 'Googlebot')) continue
+    urls.add(entry.loc)
+  }
+
+  progress(`Found ${entries.length} sitemap URLs, auditing ${urls.size}`)
+  return Array.from(urls)
+}
+
+async function auditDirectory(dir: string, baseUrl: string | undefined, profile: ScoringProfile): Promise<AuditedPage[]> {
+  if (!baseUrl) throw new UsageError('--base-url is required when auditing a directory')
+  const normalizedBaseUrl = normalizeUrl(baseUrl)
+  if (!validateUrl(normalizedBaseUrl)) throw new UsageError(`Invalid --base-url: ${baseUrl}`)
+
+  const files = new Map<string, Uint8Array>()
+  const entries = await fs.readdir(dir, { recursive: true, withFileTypes: true })
+  for (const entry of entries) {
+    if (!entry.isFile()) continue
+    const fullPath = path.join(entry.parentPath, entry.name)
+    const relativePath = path.relative(dir, fullPath).split(path.sep).join('/')
+    files.set(relativePath, READABLE_FILE.test(entry.name) ? await fs.readFile(fullPath) : new Uint8Array())
+  }
+
+  progress(`Analyzing ${dir} as ${normalizedBaseUrl}`)
+  const site = await OfflineAnalyzer.analyzeFiles(files, normalizedBaseUrl, { scoringProfile: profile })
+  if (site.pages.length === 0) throw new UsageError(`No .html files found in ${dir}`)
+  if (site.pagesSkipped.length > 0) progress(`Skipped ${site.pagesSkipped.length} pages over the page limit`)
+
+  return site.pages
+}
+
+// Progress goes to stderr so stdout holds only the report
+function progress(message: string) {
+  process.stderr.write(`${message}\n`)
+}
+
+function writeReport(report: string) {
+  process.stdout.write(`${report}\n`)
+}
+
+// The analyzers log as they go; keep that off stdout so JSON and JUnit reports can be piped
+console.log = console.error
+console.info = console.error
+
+main().then(
+  code => process.exit(code),
+  (error: unknown) => {
+    console.error(error instanceof UsageError ? `${error.message}\n\n${USAGE}` : `Audit failed: ${error instanceof Error ? error.message : error}`)
+    process.exit(EXIT_ERROR)
+  }
+)
@@ -0,0 +1,176 @@
+'use client'
+
+import React, { useState, useEffect } from 'react'
+import { Download, Layers, Upload } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { Progress } from '@/components/ui/progress'
+import { getScoreColor } from '@/lib/utils'
+import type { BulkScan as BulkScanResult } from '@/lib/bulk-scanner'
+
+const POLL_INTERVAL_MS = 3000
+
+export function BulkScan() {
+  const [urlText, setUrlText] = useState('')
+  const [file, setFile] = useState<File | null>(null)
+  const [batch, setBatch] = useState<BulkScanResult | null>(null)
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const batchId = batch?.id
+  const isRunning = batch?.status === 'pending'
+
+  // Poll the batch until every URL has been scanned
+  useEffect(() => {
+    if (!batchId || !isRunning) return
+
+    const intervalId = setInterval(async () => {
+      const response = await fetch(`/api/scan/bulk/${batchId}`)
+      if (response.ok) {
+        const result = await response.json()
+        setBatch(result.data)
+      }
+    }, POLL_INTERVAL_MS)
+
+    return () => clearInterval(intervalId)
+  }, [batchId, isRunning])
+
+  const startBulkScan = async () => {
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      let response: Response
+      if (file) {
+        const form = new FormData()
+        form.append('file', file)
+        response = await fetch('/api/scan/bulk', { method: 'POST', body: form })
+      } else {
+        response = await fetch('/api/scan/bulk', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ urls: urlText })
+        })
+      }
+
+      const result = await response.json()
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to start bulk scan')
+      }
+
+      setBatch(result.data.batch)
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to start bulk scan')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  const scanned = batch ? batch.summary.completed + batch.summary.failed : 0
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Layers className="w-5 h-5 text-blue-600" />
+          <span>Bulk Scan</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <textarea
+          value={urlText}
+          onChange={(e) => setUrlText(e.target.value)}
+          placeholder="One URL per line, up to 200"
+          rows={4}
+          disabled={isRunning || !!file}
+          className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm"
+        />
+
+        <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+          <label className="flex items-center space-x-2 text-sm text-gray-600">
+            <Upload className="w-4 h-4" />
+            <span>or upload a CSV:</span>
+            <input
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              onChange={(e) => setFile(e.target.files?.[0] || null)}
+              disabled={isRunning}
+            />
+          </label>
+
+          <Button onClick={startBulkScan} disabled={submitting || isRunning || (!urlText.trim() && !file)}>
+            {isRunning ? 'Scanning...' : 'Start Bulk Scan'}
+          </Button>
+        </div>
+
+        {error && <p className="text-red-500 text-sm">{error}</p>}
+
+        {batch && (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  {scanned} of {batch.summary.total} scanned
+                  {batch.summary.failed > 0 && ` · ${batch.summary.failed} failed`}
+                  {batch.summary.completed > 0 && ` · average score ${batch.summary.averageScore}`}
+                </span>
+                {!isRunning && (
+                  <a href={`/api/scan/bulk/${batch.id}?format=csv`} className="flex items-center space-x-1 text-blue-600 hover:underline">
+                    <Download className="w-4 h-4" />
+                    <span>Download CSV</span>
+                  </a>
+                )}
+              </div>
+              <Progress value={batch.summary.total > 0 ? (scanned / batch.summary.total) * 100 : 0} className="h-2" />
+            </div>
+
+            {batch.summary.sharedIssues.length > 0 && (
+              <div>
+                <h4 className="text-sm font-semibold text-gray-900 mb-2">Issues shared across pages</h4>
+                <div className="flex flex-wrap gap-2">
+                  {batch.summary.sharedIssues.slice(0, 10).map(issue => (
+                    <Badge key={issue.id} variant={issue.severity === 'error' ? 'destructive' : 'secondary'}>
+                      {issue.title} · {issue.pageCount} pages
+                    </Badge>
+                  ))}
+                </div>
+              </div>
+            )}
+
+            {batch.rows.length > 0 && (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4">URL</th>
+                      <th className="py-2 pr-4">Score</th>
+                      <th className="py-2 pr-4">Issues</th>
+                      <th className="py-2">Top issues</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {batch.rows.map(row => (
+                      <tr key={row.url} className="border-b last:border-0 align-top">
+                        <td className="py-2 pr-4 max-w-xs truncate" title={row.url}>{row.url}</td>
+                        {row.status === 'completed' ? (
+                          <>
+                            <td className={`py-2 pr-4 font-semibold ${getScoreColor(row.overallScore ?? 0)}`}>{row.overallScore}</td>
+                            <td className="py-2 pr-4">{row.issueCount}</td>
+                            <td className="py-2 text-gray-600">{row.topIssues?.map(issue => issue.title).join(', ') || 'None'}</td>
+                          </>
+                        ) : (
+                          <td colSpan={3} className="py-2 text-red-600">Failed: {row.error}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -10,6 +10,7 @@ import { Badge } from '@/components/ui/badge'
 import { ScoreCircle } from '@/components/ui/score-circle'
 import { useAuth } from '@/contexts/auth-context'
 import { createSupabaseClient, ScanReport } from '@/lib/supabase'
+import { BulkScan } from './bulk-scan'
 
 export function UserDashboard() {
   const [reports, setReports] = useState<ScanReport[]>([])
@@ -77,6 +78,7 @@ export function UserDashboard() {
         .from('scan_reports')
         .select('id, user_id, url, title, description, seo_score, performance_score, accessibility_score, best_practices_score, report_data, created_at')
         .eq('user_id', user.id)
+        .eq('status', 'completed')
         .order('created_at', { ascending: false })
         .limit(limit)
         .abortSignal(abortControllerRef.current.signal)
@@ -302,6 +304,16 @@ export function UserDashboard() {
           </Card>
         </motion.div>
 
+        {/* Bulk Scan */}
+        <motion.div
+          initial={{ opacity: 0, y: 20 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ delay: 0.15 }}
+          className="mb-8"
+        >
+          <BulkScan />
+        </motion.div>
+
         {/* Filters and Search */}
         <motion.div
           initial={{ opacity: 0, y: 20 }}
@@ -2,21 +2,49 @@
 
 import React, { useState } from "react"
 import { motion } from "framer-motion"
-import { Search, Zap, BarChart3, Shield, ArrowRight, CheckCircle2 } from "lucide-react"
+import { Search, Zap, BarChart3, Shield, ArrowRight, CheckCircle2, Upload } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Card, CardContent } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { validateUrl, normalizeUrl } from "@/lib/utils"
+import { SCORING_PROFILES, DEFAULT_SCORING_PROFILE } from "@/lib/scoring-profiles"
+import { USER_AGENT_PRESETS, UserAgentPreset } from "@/lib/crawler-identity"
+
+export interface OfflineScanInput {
+  // Canonical URL the pages will be served from
+  baseUrl: string
+  html?: string
+  file?: File
+  scoringProfile?: string
+}
+
+export interface ScanOptionsInput {
+  renderJavaScript?: boolean
+  scoringProfile?: string
+  userAgent?: UserAgentPreset
+  checkCloaking?: boolean
+}
 
 interface HeroSectionProps {
-  onScan: (url: string) => void
+  onScan: (url: string, options?: ScanOptionsInput) => void
+  // Enables the pasted HTML / uploaded files mode
+  onOfflineScan?: (input: OfflineScanInput) => void
   isScanning?: boolean
+  // Current stage of a running scan, shown on the button
+  scanStatus?: string
 }
 
-export function HeroSection({ onScan, isScanning = false }: HeroSectionProps) {
+export function HeroSection({ onScan, onOfflineScan, isScanning = false, scanStatus }: HeroSectionProps) {
+  const [mode, setMode] = useState<"url" | "offline">("url")
   const [url, setUrl] = useState("")
+  const [html, setHtml] = useState("")
+  const [file, setFile] = useState<File | null>(null)
   const [error, setError] = useState("")
+  const [renderJavaScript, setRenderJavaScript] = useState(false)
+  const [scoringProfile, setScoringProfile] = useState(DEFAULT_SCORING_PROFILE.id)
+  const [userAgent, setUserAgent] = useState<UserAgentPreset>("browser")
+  const [checkCloaking, setCheckCloaking] = useState(false)
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
@@ -33,7 +61,17 @@ export function HeroSection({ onScan, isScanning = false }: HeroSectionProps) {
     }
 
     const normalizedUrl = normalizeUrl(url)
-    onScan(normalizedUrl)
+
+    if (mode === "offline") {
+      if (!html.trim() && !file) {
+        setError("Paste HTML or upload an .html or .zip file")
+        return
+      }
+      onOfflineScan?.({ baseUrl: normalizedUrl, html: file ? undefined : html, file: file || undefined, scoringProfile })
+      return
+    }
+
+    onScan(normalizedUrl, { renderJavaScript, scoringProfile, userAgent, checkCloaking })
   }
 
   const features = [
@@ -85,16 +123,26 @@ export function HeroSection({ onScan, isScanning = false }: HeroSectionProps) {
             <motion.div initial={{ opacity: 0, y: 20 }} animate={{ opacity: 1, y: 0 }} transition={{ delay: 0.5 }} className="max-w-2xl mx-auto mb-12">
               <Card className="p-6 shadow-xl border-0 bg-white/80 backdrop-blur-sm">
                 <form onSubmit={handleSubmit} className="space-y-4">
+                  {onOfflineScan && (
+                    <div className="flex justify-center gap-2">
+                      <Button type="button" size="sm" variant={mode === "url" ? "default" : "outline"} onClick={() => setMode("url")} disabled={isScanning}>
+                        Live URL
+                      </Button>
+                      <Button type="button" size="sm" variant={mode === "offline" ? "default" : "outline"} onClick={() => setMode("offline")} disabled={isScanning}>
+                        HTML or files
+                      </Button>
+                    </div>
+                  )}
                   <div className="flex flex-col sm:flex-row gap-3">
                     <div className="flex-1">
-                      <Input type="url" name="url" id="url" placeholder="Enter your website URL (e.g., https://example.com)" value={url} onChange={e => setUrl(e.target.value)} className="h-12 text-lg" disabled={isScanning} />
+                      <Input type="url" name="url" id="url" placeholder={mode === "offline" ? "Canonical base URL the pages will live at (e.g., https://example.com)" : "Enter your website URL (e.g., https://example.com)"} value={url} onChange={e => setUrl(e.target.value)} className="h-12 text-lg" disabled={isScanning} />
                       {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
                     </div>
                     <Button type="submit" size="lg" disabled={isScanning} className="h-12 px-8 bg-gradient-to-r from-blue-600 to-purple-600 hover:from-blue-700 hover:to-purple-700 text-white font-semibold">
                       {isScanning ? (
                         <div className="flex items-center space-x-2">
                           <div className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                          <span>Analyzing...</span>
+                          <span>{scanStatus || "Analyzing..."}</span>
                         </div>
                       ) : (
                         <div className="flex items-center space-x-2">
@@ -105,6 +153,45 @@ export function HeroSection({ onScan, isScanning = false }: HeroSectionProps) {
                       )}
                     </Button>
                   </div>
+                  {mode === "offline" && (
+                    <div className="space-y-3">
+                      <textarea value={html} onChange={e => setHtml(e.target.value)} placeholder="Paste the page HTML" rows={6} disabled={isScanning || !!file} className="w-full border border-gray-300 rounded-md px-3 py-2 text-sm font-mono" />
+                      <label className="flex items-center justify-center space-x-2 text-sm text-gray-600">
+                        <Upload className="w-4 h-4" />
+                        <span>or upload an .html page or a .zip of a static build:</span>
+                        <input type="file" accept=".html,.htm,.zip,text/html,application/zip" onChange={e => setFile(e.target.files?.[0] || null)} disabled={isScanning} />
+                      </label>
+                      <p className="text-xs text-gray-500 text-center">Redirects, HTTP headers and response time need a live server and are skipped. Links, robots.txt and sitemaps are checked against the files in a zip.</p>
+                    </div>
+                  )}
+                  {mode === "url" && (
+                    <>
+                      <label className="flex items-center justify-center space-x-2 text-sm text-gray-600">
+                        <input type="checkbox" checked={renderJavaScript} onChange={e => setRenderJavaScript(e.target.checked)} disabled={isScanning} />
+                        <span>Render JavaScript (for client-rendered sites, slower)</span>
+                      </label>
+                      <label className="flex items-center justify-center space-x-2 text-sm text-gray-600">
+                        <input type="checkbox" checked={checkCloaking} onChange={e => setCheckCloaking(e.target.checked)} disabled={isScanning} />
+                        <span>Compare as Googlebot vs browser (cloaking check)</span>
+                      </label>
+                      <label className="flex items-center justify-center space-x-2 text-sm text-gray-600">
+                        <span>Crawl as</span>
+                        <select value={userAgent} onChange={e => setUserAgent(e.target.value as UserAgentPreset)} disabled={isScanning} className="border rounded-md px-2 py-1 bg-white">
+                          {USER_AGENT_PRESETS.map(preset => (
+                            <option key={preset.id} value={preset.id}>{preset.name}</option>
+                          ))}
+                        </select>
+                      </label>
+                    </>
+                  )}
+                  <label className="flex items-center justify-center space-x-2 text-sm text-gray-600">
+                    <span>Scoring profile</span>
+                    <select value={scoringProfile} onChange={e => setScoringProfile(e.target.value)} disabled={isScanning} title={SCORING_PROFILES.find(profile => profile.id === scoringProfile)?.description} className="border rounded-md px-2 py-1 bg-white">
+                      {SCORING_PROFILES.map(profile => (
+                        <option key={profile.id} value={profile.id}>{profile.name}</option>
+                      ))}
+                    </select>
+                  </label>
                   <p className="text-sm text-gray-500 text-center">✨ Free analysis • No registration required • Instant results</p>
                 </form>
               </Card>
@@ -27,9 +27,11 @@ interface ModernLandingProps {
   onScan: (url: string) => void
   onNavigate: (page: 'pricing' | 'auth') => void
   isScanning?: boolean
+  // Current stage of a running scan, shown on the button
+  scanStatus?: string
 }
 
-export function ModernLanding({ onScan, onNavigate, isScanning = false }: ModernLandingProps) {
+export function ModernLanding({ onScan, onNavigate, isScanning = false, scanStatus }: ModernLandingProps) {
   const [url, setUrl] = useState("")
   const [error, setError] = useState("")
   const { user } = useAuth()
@@ -243,7 +245,7 @@ export function ModernLanding({ onScan, onNavigate, isScanning = false }: Modern
                       {isScanning ? (
                         <div className="flex items-center space-x-2">
                           <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin" />
-                          <span>Analyzing...</span>
+                          <span>{scanStatus || "Analyzing..."}</span>
                         </div>
                       ) : (
                         <div className="flex items-center space-x-2">
@@ -32,9 +32,9 @@ export function PricingPage({ onSignUp }: PricingPageProps) {
       const response = await fetch('/api/create-checkout-session', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
+        // The server takes the user from the session cookie
         body: JSON.stringify({ 
           priceId, 
-          userId: user.id, 
           planName 
         })
       })
@@ -28,9 +28,12 @@ import {
   Shield,
   Bell,
   Globe,
-  Zap
+  Zap,
+  Key,
+  Copy
 } from 'lucide-react'
-import { scanReportService, usageLogService, userSettingsService, ScanReport, UsageLog } from '@/lib/supabase'
+import { scanReportService, usageLogService, userSettingsService, apiKeyService, ScanReport, UsageLog, ApiKey } from '@/lib/supabase'
+import { API_TIER_LIMITS } from '@/lib/api-keys'
 
 interface ProfilePageProps {
   onClose?: () => void
@@ -45,6 +48,10 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
   })
   const [scanReports, setScanReports] = useState<ScanReport[]>([])
   const [usageLogs, setUsageLogs] = useState<UsageLog[]>([])
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([])
+  const [newKeyName, setNewKeyName] = useState('')
+  // Shown once, right after the key is created
+  const [createdKey, setCreatedKey] = useState<string | null>(null)
   const [settings, setSettings] = useState({
     emailNotifications: true,
     scanReminders: false,
@@ -78,6 +85,8 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
       console.log('Loaded usage logs:', logs.length)
       setUsageLogs(logs || [])
 
+      setApiKeys(await apiKeyService.getApiKeys(user.id))
+
       // Load user settings with error handling
       console.log('Loading user settings...')
       const userSettings = await userSettingsService.getSettings(user.id)
@@ -160,6 +169,33 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
     }
   }
 
+  const handleCreateApiKey = async () => {
+    if (!user || !newKeyName.trim()) return
+
+    const result = await apiKeyService.createApiKey(user.id, newKeyName.trim())
+    if (result) {
+      setApiKeys(prev => [result.apiKey, ...prev])
+      setCreatedKey(result.key)
+      setNewKeyName('')
+    } else {
+      alert('Failed to create API key')
+    }
+  }
+
+  const handleRevokeApiKey = async (keyId: string) => {
+    if (!user) return
+
+    const confirmed = window.confirm('Revoke this API key? Requests using it will be rejected straight away.')
+    if (!confirmed) return
+
+    const success = await apiKeyService.revokeApiKey(keyId)
+    if (success) {
+      setApiKeys(prev => prev.map(key => key.id === keyId ? { ...key, revoked_at: new Date().toISOString() } : key))
+    } else {
+      alert('Failed to revoke API key')
+    }
+  }
+
   const getInitials = (name?: string) => {
     if (!name) return 'U'
     return name.split(' ').map(n => n[0]).join('').toUpperCase()
@@ -279,7 +315,7 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
 
       {/* Tabs */}
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-4">
           <TabsTrigger value="profile" className="flex items-center space-x-2">
             <User className="w-4 h-4" />
             <span>Profile</span>
@@ -288,6 +324,10 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
             <History className="w-4 h-4" />
             <span>History</span>
           </TabsTrigger>
+          <TabsTrigger value="api" className="flex items-center space-x-2">
+            <Key className="w-4 h-4" />
+            <span>API</span>
+          </TabsTrigger>
           <TabsTrigger value="settings" className="flex items-center space-x-2">
             <Settings className="w-4 h-4" />
             <span>Settings</span>
@@ -443,6 +483,78 @@ export function ProfilePage({ onClose }: ProfilePageProps) {
           </Card>
         </TabsContent>
 
+        {/* API Tab */}
+        <TabsContent value="api" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <CardTitle>API Keys</CardTitle>
+              <CardDescription>
+                Use the public API at /api/v1 with <code>Authorization: Bearer &lt;key&gt;</code>.
+                Your {profile.subscription_tier} plan allows {API_TIER_LIMITS[profile.subscription_tier || 'free'].requestsPerMinute} requests per minute per key
+                and {API_TIER_LIMITS[profile.subscription_tier || 'free'].scansPerDay} scans per day.
+                See the <a href="/api/v1/openapi.json" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">OpenAPI document</a>.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="flex items-end space-x-2">
+                <div className="flex-1">
+                  <Label htmlFor="apiKeyName">New key name</Label>
+                  <Input
+                    id="apiKeyName"
+                    value={newKeyName}
+                    onChange={(e) => setNewKeyName(e.target.value)}
+                    placeholder="e.g. Deploy pipeline"
+                  />
+                </div>
+                <Button onClick={handleCreateApiKey} disabled={!newKeyName.trim()}>
+                  <Key className="w-4 h-4 mr-2" />
+                  Create Key
+                </Button>
+              </div>
+
+              {createdKey && (
+                <div className="p-4 border border-green-200 bg-green-50 rounded-lg space-y-2">
+                  <p className="text-sm text-green-800">Copy your new key now. It will not be shown again.</p>
+                  <div className="flex items-center space-x-2">
+                    <code className="flex-1 font-mono text-xs bg-white border rounded px-2 py-1 break-all">{createdKey}</code>
+                    <Button size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(createdKey)}>
+                      <Copy className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+
+              <Separator />
+
+              {apiKeys.length === 0 ? (
+                <p className="text-sm text-gray-500 text-center py-4">No API keys yet</p>
+              ) : (
+                <div className="space-y-3">
+                  {apiKeys.map((apiKey) => (
+                    <div key={apiKey.id} className="flex items-center justify-between p-3 border rounded-lg">
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">{apiKey.name}</span>
+                          <code className="font-mono text-xs text-gray-500">{apiKey.key_prefix}…</code>
+                          {apiKey.revoked_at && <Badge variant="destructive">Revoked</Badge>}
+                        </div>
+                        <div className="text-sm text-gray-500 mt-1">
+                          Created {formatDate(apiKey.created_at)} • {apiKey.last_used_at ? `Last used ${formatDate(apiKey.last_used_at)}` : 'Never used'}
+                        </div>
+                      </div>
+                      {!apiKey.revoked_at && (
+                        <Button size="sm" variant="outline" onClick={() => handleRevokeApiKey(apiKey.id)}>
+                          Revoke
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
         {/* Settings Tab */}
         <TabsContent value="settings" className="space-y-6">
           <Card>
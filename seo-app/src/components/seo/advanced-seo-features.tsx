@@ -22,6 +22,7 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Button } from '@/components/ui/button'
+import { VitalMetric } from '@/types/seo'
 
 interface AdvancedSEOFeaturesProps {
   analysis: any
@@ -38,36 +39,31 @@ export function AdvancedSEOFeatures({ analysis, url }: AdvancedSEOFeaturesProps)
     const pageQuality = analysis.sections.pageQuality
     const metaSection = analysis.sections.meta
     
-    // Calculate realistic Core Web Vitals based on performance data
-    const responseTime = perfSection.responseTime / 1000 // Convert to seconds
-    const pageSize = perfSection.pageSize
-    
-    const lcp = Math.max(1.2, responseTime * 1.5) // LCP typically 1.5x response time
-    const fid = pageSize > 1000000 ? 120 : 80 // Larger pages = higher FID
-    const cls = pageSize > 2000000 ? 0.15 : 0.05 // Larger pages = more layout shift
+    // Core Web Vitals come from PageSpeed Insights or the local lab run; nothing is estimated
+    const vitals = perfSection.coreWebVitals
+    const toVital = (metric: VitalMetric | undefined, threshold: number, unit: 'ms' | 's' | '') => ({
+      value: metric && metric.displayValue !== 'N/A'
+        ? unit === 's' ? parseFloat((metric.value / 1000).toFixed(1)) : metric.value
+        : null,
+      threshold,
+      status: metric?.displayValue === 'N/A' ? 'unmeasured' : metric?.category || 'unmeasured'
+    })
+    const toSeconds = (metric: VitalMetric | undefined) =>
+      metric && metric.displayValue !== 'N/A' ? parseFloat((metric.value / 1000).toFixed(2)) : null
     
     return {
       performance: {
         coreWebVitals: {
-          lcp: { 
-            value: parseFloat(lcp.toFixed(1)), 
-            threshold: 2.5, 
-            status: lcp <= 2.5 ? 'good' : lcp <= 4.0 ? 'needs-improvement' : 'poor'
-          },
-          fid: { 
-            value: fid, 
-            threshold: 100, 
-            status: fid <= 100 ? 'good' : fid <= 300 ? 'needs-improvement' : 'poor'
-          },
-          cls: { 
-            value: cls, 
-            threshold: 0.1, 
-            status: cls <= 0.1 ? 'good' : cls <= 0.25 ? 'needs-improvement' : 'poor'
-          },
+          lcp: toVital(vitals?.lcp, 2.5, 's'),
+          // Historical reports only hold FID
+          inp: vitals?.inp ? toVital(vitals.inp, 200, 'ms') : toVital(vitals?.fid, 100, 'ms'),
+          inpLabel: vitals?.inp || !vitals?.fid ? 'INP' : 'FID',
+          cls: toVital(vitals?.cls, 0.1, ''),
+          ttfb: toVital(vitals?.ttfb, 800, 'ms'),
         },
-        speedIndex: responseTime * 1.2,
-        ttfb: responseTime * 0.3, // TTFB typically 30% of total response time
-        totalBlockingTime: pageSize > 1000000 ? 200 : 100,
+        speedIndex: toSeconds(vitals?.speedIndex),
+        ttfb: toSeconds(vitals?.ttfb),
+        totalBlockingTime: vitals?.tbt && vitals.tbt.displayValue !== 'N/A' ? vitals.tbt.value : null,
       },
       mobile: {
         responsiveDesign: extFactors.https ? 95 : 85, // HTTPS sites typically more mobile-friendly
@@ -134,20 +130,26 @@ export function AdvancedSEOFeatures({ analysis, url }: AdvancedSEOFeaturesProps)
               <div className="space-y-2">
                 <div className="flex justify-between items-center">
                   <span className="text-xs text-gray-600">LCP</span>
-                  <Badge variant={advancedMetrics.performance.coreWebVitals.lcp.status === 'good' ? 'default' : 'destructive'}>
-                    {advancedMetrics.performance.coreWebVitals.lcp.value}s
+                  <Badge variant={advancedMetrics.performance.coreWebVitals.lcp.status === 'good' ? 'default' : advancedMetrics.performance.coreWebVitals.lcp.status === 'unmeasured' ? 'outline' : 'destructive'}>
+                    {advancedMetrics.performance.coreWebVitals.lcp.value ?? 'N/A'}{advancedMetrics.performance.coreWebVitals.lcp.value !== null && 's'}
                   </Badge>
                 </div>
                 <div className="flex justify-between items-center">
-                  <span className="text-xs text-gray-600">FID</span>
-                  <Badge variant={advancedMetrics.performance.coreWebVitals.fid.status === 'good' ? 'default' : 'destructive'}>
-                    {advancedMetrics.performance.coreWebVitals.fid.value}ms
+                  <span className="text-xs text-gray-600">{advancedMetrics.performance.coreWebVitals.inpLabel}</span>
+                  <Badge variant={advancedMetrics.performance.coreWebVitals.inp.status === 'good' ? 'default' : advancedMetrics.performance.coreWebVitals.inp.status === 'unmeasured' ? 'outline' : 'destructive'}>
+                    {advancedMetrics.performance.coreWebVitals.inp.value ?? 'N/A'}{advancedMetrics.performance.coreWebVitals.inp.value !== null && 'ms'}
                   </Badge>
                 </div>
                 <div className="flex justify-between items-center">
                   <span className="text-xs text-gray-600">CLS</span>
-                  <Badge variant={advancedMetrics.performance.coreWebVitals.cls.status === 'good' ? 'default' : 'destructive'}>
-                    {advancedMetrics.performance.coreWebVitals.cls.value}
+                  <Badge variant={advancedMetrics.performance.coreWebVitals.cls.status === 'good' ? 'default' : advancedMetrics.performance.coreWebVitals.cls.status === 'unmeasured' ? 'outline' : 'destructive'}>
+                    {advancedMetrics.performance.coreWebVitals.cls.value ?? 'N/A'}
+                  </Badge>
+                </div>
+                <div className="flex justify-between items-center">
+                  <span className="text-xs text-gray-600">TTFB</span>
+                  <Badge variant={advancedMetrics.performance.coreWebVitals.ttfb.status === 'good' ? 'default' : advancedMetrics.performance.coreWebVitals.ttfb.status === 'unmeasured' ? 'outline' : 'destructive'}>
+                    {advancedMetrics.performance.coreWebVitals.ttfb.value ?? 'N/A'}{advancedMetrics.performance.coreWebVitals.ttfb.value !== null && 'ms'}
                   </Badge>
                 </div>
               </div>
@@ -248,23 +250,23 @@ export function AdvancedSEOFeatures({ analysis, url }: AdvancedSEOFeaturesProps)
                       <div>
                         <div className="flex justify-between mb-1">
                           <span className="text-sm">Speed Index</span>
-                          <span className="text-sm font-medium">{advancedMetrics.performance.speedIndex}s</span>
+                          <span className="text-sm font-medium">{advancedMetrics.performance.speedIndex !== null ? `${advancedMetrics.performance.speedIndex}s` : 'N/A'}</span>
                         </div>
-                        <Progress value={(4 - advancedMetrics.performance.speedIndex) / 4 * 100} />
+                        <Progress value={advancedMetrics.performance.speedIndex !== null ? (4 - advancedMetrics.performance.speedIndex) / 4 * 100 : 0} />
                       </div>
                       <div>
                         <div className="flex justify-between mb-1">
                           <span className="text-sm">Time to First Byte</span>
-                          <span className="text-sm font-medium">{advancedMetrics.performance.ttfb}s</span>
+                          <span className="text-sm font-medium">{advancedMetrics.performance.ttfb !== null ? `${advancedMetrics.performance.ttfb}s` : 'N/A'}</span>
                         </div>
-                        <Progress value={(2 - advancedMetrics.performance.ttfb) / 2 * 100} />
+                        <Progress value={advancedMetrics.performance.ttfb !== null ? (2 - advancedMetrics.performance.ttfb) / 2 * 100 : 0} />
                       </div>
                       <div>
                         <div className="flex justify-between mb-1">
                           <span className="text-sm">Total Blocking Time</span>
-                          <span className="text-sm font-medium">{advancedMetrics.performance.totalBlockingTime}ms</span>
+                          <span className="text-sm font-medium">{advancedMetrics.performance.totalBlockingTime !== null ? `${advancedMetrics.performance.totalBlockingTime}ms` : 'N/A'}</span>
                         </div>
-                        <Progress value={(300 - advancedMetrics.performance.totalBlockingTime) / 300 * 100} />
+                        <Progress value={advancedMetrics.performance.totalBlockingTime !== null ? (300 - advancedMetrics.performance.totalBlockingTime) / 300 * 100 : 0} />
                       </div>
                     </div>
                   </div>
@@ -0,0 +1,107 @@
+import React from 'react'
+import { Bot, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { CloakingAnalysis } from '@/types/seo'
+
+interface CloakingSectionProps {
+  data: CloakingAnalysis
+}
+
+export function CloakingSection({ data }: CloakingSectionProps) {
+  const fields = [
+    { label: 'Status code', value: { browser: String(data.status.browser), googlebot: String(data.status.googlebot), changed: data.status.browser !== data.status.googlebot } },
+    { label: 'Final URL', value: { browser: data.finalUrl.browser, googlebot: data.finalUrl.googlebot, changed: data.finalUrl.browser !== data.finalUrl.googlebot } },
+    { label: 'Title', value: data.diff.title },
+    { label: 'Meta description', value: data.diff.description },
+    { label: 'Canonical', value: data.diff.canonical },
+    { label: 'Meta robots', value: data.diff.metaRobots },
+    { label: 'H1', value: data.diff.h1 }
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Bot className="w-5 h-5" />
+            <span>Googlebot vs Browser</span>
+          </div>
+          <Badge variant={data.issues.length > 0 ? 'destructive' : 'outline'}>
+            {data.issues.length > 0 ? 'Differences found' : 'Same response'}
+          </Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {/* Counts */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="text-center p-4 bg-blue-50 rounded-lg">
+              <div className="text-2xl font-bold text-blue-600">
+                {data.diff.wordCount.browser} / {data.diff.wordCount.googlebot}
+              </div>
+              <div className="text-sm text-blue-700">Words (browser / Googlebot)</div>
+            </div>
+            <div className="text-center p-4 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">
+                {data.diff.linkCount.browser} / {data.diff.linkCount.googlebot}
+              </div>
+              <div className="text-sm text-green-700">Links (browser / Googlebot)</div>
+            </div>
+          </div>
+
+          {/* Browser vs Googlebot */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Signal</th>
+                  <th className="py-2 pr-4 font-medium">Browser</th>
+                  <th className="py-2 pr-4 font-medium">Googlebot</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map(field => (
+                  <tr key={field.label} className={`border-b last:border-0 ${field.value.changed ? 'bg-yellow-50' : ''}`}>
+                    <td className="py-2 pr-4 font-medium">{field.label}</td>
+                    <td className="py-2 pr-4 text-xs truncate max-w-xs">{field.value.browser || '—'}</td>
+                    <td className="py-2 pr-4 text-xs truncate max-w-xs">{field.value.googlebot || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Links served to one side only */}
+          {data.diff.linksOnlyForGooglebot.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Links only served to Googlebot</h4>
+              <div className="max-h-32 overflow-y-auto space-y-1">
+                {data.diff.linksOnlyForGooglebot.map(link => (
+                  <div key={link} className="p-2 bg-gray-50 rounded text-xs font-mono truncate">{link}</div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Issues */}
+          {data.issues.length > 0 ? (
+            <div className="space-y-1">
+              {data.issues.map((issue, index) => (
+                <div key={index} className="flex items-center space-x-2 text-sm text-yellow-700">
+                  <AlertTriangle className="w-3 h-3" />
+                  <span>{issue}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2 text-sm text-green-600">
+              <CheckCircle2 className="w-3 h-3" />
+              <span>Googlebot and browsers are served the same page</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,20 +2,83 @@ import React from 'react'
 import { Search, Globe, FileText, AlertTriangle, CheckCircle2, ExternalLink } from 'lucide-react'
 import { SectionCard } from './section-card'
 import { Badge } from '@/components/ui/badge'
-import { CrawlabilityAnalysis } from '@/types/seo'
+import { CrawlabilityAnalysis, SitemapAnalysis } from '@/types/seo'
 
 interface CrawlabilitySectionProps {
   data: CrawlabilityAnalysis
 }
 
+function SitemapTree({ sitemap, depth = 0 }: { sitemap: SitemapAnalysis; depth?: number }) {
+  const extensions = [
+    sitemap.imageCount && `${sitemap.imageCount} images`,
+    sitemap.videoCount && `${sitemap.videoCount} videos`,
+    sitemap.newsCount && `${sitemap.newsCount} news`,
+    sitemap.hreflangCount && `${sitemap.hreflangCount} hreflang links`
+  ].filter(Boolean)
+
+  return (
+    <div className="space-y-1" style={{ marginLeft: depth * 12 }}>
+      <div className="p-2 bg-gray-50 rounded text-xs space-y-1">
+        <div className="flex items-center justify-between">
+          <span className="font-mono truncate">{sitemap.url}</span>
+          <Badge variant={!sitemap.exists ? 'outline' : sitemap.isValid ? 'success' : 'warning'} className="ml-2 flex-shrink-0">
+            {!sitemap.exists ? 'Missing' : sitemap.type === 'sitemapindex' ? 'Index' : `${sitemap.urlCount} URLs`}
+          </Badge>
+        </div>
+        {(sitemap.isCompressed || extensions.length > 0) && (
+          <div className="text-gray-500">
+            {[sitemap.isCompressed && 'gzip', ...extensions].filter(Boolean).join(' · ')}
+          </div>
+        )}
+        {sitemap.issues.map((issue, index) => (
+          <div key={index} className="flex items-center space-x-2 text-yellow-700">
+            <AlertTriangle className="w-3 h-3 flex-shrink-0" />
+            <span>{issue}</span>
+          </div>
+        ))}
+      </div>
+      {sitemap.children?.map(child => (
+        <SitemapTree key={child.url} sitemap={child} depth={depth + 1} />
+      ))}
+    </div>
+  )
+}
+
 export function CrawlabilitySection({ data }: CrawlabilitySectionProps) {
   return (
     <SectionCard
       title="Crawlability"
       score={data.score}
+      ledger={data.ledger}
       icon={<Search className="w-5 h-5" />}
     >
       <div className="space-y-6">
+        {/* Indexability */}
+        {data.indexability && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Indexability</h4>
+              <Badge variant={data.indexability.noindex ? 'error' : 'success'}>
+                {data.indexability.noindex ? 'Noindex' : 'Indexable'}
+              </Badge>
+            </div>
+            {(data.indexability.metaRobots || data.indexability.xRobotsTag) && (
+              <div className="space-y-1">
+                {data.indexability.metaRobots && (
+                  <div className="p-2 bg-gray-50 rounded text-xs font-mono truncate">
+                    meta robots: {data.indexability.metaRobots}
+                  </div>
+                )}
+                {data.indexability.xRobotsTag && (
+                  <div className="p-2 bg-gray-50 rounded text-xs font-mono truncate">
+                    X-Robots-Tag: {data.indexability.xRobotsTag}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Robots.txt */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -23,8 +86,8 @@ export function CrawlabilitySection({ data }: CrawlabilitySectionProps) {
               <FileText className="w-4 h-4" />
               <span>Robots.txt</span>
             </h4>
-            <Badge variant={data.robotsTxt.exists ? 'success' : 'warning'}>
-              {data.robotsTxt.exists ? 'Found' : 'Missing'}
+            <Badge variant={data.robotsTxt.exists ? 'success' : data.robotsTxt.unreachable ? 'error' : 'warning'}>
+              {data.robotsTxt.exists ? 'Found' : data.robotsTxt.unreachable ? 'Unreachable' : 'Missing'}
             </Badge>
           </div>
           
@@ -35,6 +98,25 @@ export function CrawlabilitySection({ data }: CrawlabilitySectionProps) {
                 <span>robots.txt file found</span>
               </div>
               
+              {data.robotsTxt.access && data.robotsTxt.access.length > 0 && (
+                <div className="space-y-1">
+                  <h5 className="text-sm font-medium">Crawler access to this page:</h5>
+                  {data.robotsTxt.access.map(access => (
+                    <div key={access.userAgent} className="flex items-center justify-between text-sm">
+                      <span>{access.userAgent}</span>
+                      <div className="flex items-center space-x-2">
+                        {access.matchedRule && (
+                          <span className="text-xs text-gray-500 font-mono">{access.matchedRule}</span>
+                        )}
+                        <Badge variant={access.allowed ? 'success' : 'error'}>
+                          {access.allowed ? 'Allowed' : 'Blocked'}
+                        </Badge>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+
               {data.robotsTxt.blocks.length > 0 && (
                 <div className="space-y-2">
                   <h5 className="text-sm font-medium">Disallowed paths:</h5>
@@ -53,6 +135,13 @@ export function CrawlabilitySection({ data }: CrawlabilitySectionProps) {
                 </div>
               )}
             </div>
+          ) : data.robotsTxt.unreachable ? (
+            <div className="flex items-center space-x-2 text-sm text-red-600">
+              <AlertTriangle className="w-3 h-3" />
+              <span>
+                robots.txt could not be fetched{data.robotsTxt.status ? ` (status ${data.robotsTxt.status})` : ''}, so crawlers treat the whole site as disallowed
+              </span>
+            </div>
           ) : (
             <div className="flex items-center space-x-2 text-sm text-yellow-600">
               <AlertTriangle className="w-3 h-3" />
@@ -77,9 +166,15 @@ export function CrawlabilitySection({ data }: CrawlabilitySectionProps) {
             <div className="space-y-2">
               <div className="flex items-center space-x-2 text-sm text-green-600">
                 <CheckCircle2 className="w-3 h-3" />
-                <span>Sitemap found in robots.txt</span>
+                <span>Sitemap found</span>
               </div>
-              {data.sitemap.url && (
+              {data.sitemaps && data.sitemaps.length > 0 ? (
+                <div className="max-h-64 overflow-y-auto space-y-1">
+                  {data.sitemaps.map(sitemap => (
+                    <SitemapTree key={sitemap.url} sitemap={sitemap} />
+                  ))}
+                </div>
+              ) : data.sitemap.url && (
                 <div className="p-2 bg-gray-50 rounded text-xs font-mono flex items-center justify-between">
                   <span className="truncate">{data.sitemap.url}</span>
                   <ExternalLink className="w-3 h-3 text-gray-500 flex-shrink-0 ml-2" />
@@ -94,6 +189,40 @@ export function CrawlabilitySection({ data }: CrawlabilitySectionProps) {
           )}
         </div>
 
+        {/* Sitemap URL Health */}
+        {data.sitemapHealth && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Sitemap URL Health</h4>
+              <Badge variant={data.sitemapHealth.problems.length === 0 ? 'success' : 'warning'}>
+                {data.sitemapHealth.healthyUrls}/{data.sitemapHealth.sampledUrls} healthy
+              </Badge>
+            </div>
+            <div className="text-xs text-gray-500">
+              Checked {data.sitemapHealth.sampledUrls} of {data.sitemapHealth.totalUrls} listed URLs
+            </div>
+            {data.sitemapHealth.problems.length > 0 && (
+              <div className="max-h-48 overflow-y-auto space-y-1">
+                {data.sitemapHealth.problems.map(problem => (
+                  <div key={problem.url} className="p-2 bg-gray-50 rounded text-xs space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-mono truncate">{problem.url}</span>
+                      {problem.statusCode && (
+                        <Badge variant={problem.statusCode === 200 ? 'outline' : 'error'} className="ml-2 flex-shrink-0">
+                          {problem.statusCode}
+                        </Badge>
+                      )}
+                    </div>
+                    {problem.issues.map((issue, index) => (
+                      <div key={index} className="text-yellow-700">{issue}</div>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Canonical URL */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
@@ -2,7 +2,8 @@ import React, { ReactNode } from "react"
 import { Shield, Share2, Twitter, Facebook, AlertTriangle, CheckCircle2, Globe } from "lucide-react"
 import { SectionCard } from "./section-card"
 import { Badge } from "@/components/ui/badge"
-import { ExternalFactorsAnalysis } from "@/types/seo"
+import { ExternalFactorsAnalysis, StructuredDataAnalysis } from "@/types/seo"
+import { STRUCTURED_DATA_SYNTAX_NAMES } from "@/lib/structured-data-validator"
 
 interface ExternalFactorsSectionProps {
   data: ExternalFactorsAnalysis
@@ -11,7 +12,7 @@ interface ExternalFactorsSectionProps {
 export function ExternalFactorsSection({ data }: ExternalFactorsSectionProps) {
   // console.log(data)
   return (
-    <SectionCard title="External Factors" score={data.score} icon={<Globe className="w-5 h-5" />}>
+    <SectionCard title="External Factors" score={data.score} ledger={data.ledger} icon={<Globe className="w-5 h-5" />}>
       <div className="space-y-6">
         {/* HTTPS Security */}
         <SectionElement icon={<Shield className="w-4 h-4" />} title="HTTPS Security" element={{ exists: !!data?.https }} successMessage="Site uses HTTPS encryption" warningMessage="Site is not using HTTPS - this affects SEO rankings" />
@@ -125,6 +126,7 @@ export function ExternalFactorsSection({ data }: ExternalFactorsSectionProps) {
               </Badge>
             ))}
           </div>
+          {data.schemaMarkup.validation && <StructuredDataDetails validation={data.schemaMarkup.validation} />}
         </SectionElement>
 
         {/* Issues */}
@@ -158,6 +160,67 @@ export function ExternalFactorsSection({ data }: ExternalFactorsSectionProps) {
   )
 }
 
+function StructuredDataDetails({ validation }: { validation: StructuredDataAnalysis }) {
+  const incomplete = validation.entities.filter(entity => entity.missingRequired.length > 0 || entity.missingRecommended.length > 0)
+
+  return (
+    <div className="space-y-3">
+      {/* Syntaxes found */}
+      {validation.syntaxes.length > 0 && (
+        <div className="text-xs text-gray-500">Found as {validation.syntaxes.map(syntax => STRUCTURED_DATA_SYNTAX_NAMES[syntax]).join(", ")}</div>
+      )}
+
+      {/* Rich result eligibility */}
+      {validation.richResults.length > 0 && (
+        <div className="space-y-1">
+          <h5 className="text-sm font-medium">Rich Results</h5>
+          {validation.richResults.map(result => (
+            <div key={result.name} className={`flex items-center space-x-2 text-sm ${result.eligible ? "text-green-600" : "text-yellow-600"}`}>
+              {result.eligible ? <CheckCircle2 className="w-3 h-3" /> : <AlertTriangle className="w-3 h-3" />}
+              <span>
+                {result.name}: {result.eligible ? "eligible" : `missing ${result.missing.join(", ")}`}
+              </span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* JSON syntax errors */}
+      {validation.syntaxErrors.map(error => (
+        <div key={error.block} className="p-2 bg-red-50 rounded text-xs text-red-700 font-mono">
+          Block {error.block}, line {error.line}, column {error.column}: {error.message}
+        </div>
+      ))}
+
+      {/* Properties the syntaxes disagree on */}
+      {validation.conflicts.map(conflict => (
+        <div key={`${conflict.schemaType}-${conflict.property}-${conflict.values.map(entry => entry.syntax).join("-")}`} className="p-2 bg-yellow-50 rounded text-xs text-yellow-800">
+          <strong>
+            {conflict.schemaType}.{conflict.property}:
+          </strong>{" "}
+          {conflict.values.map(entry => `"${entry.value}" (${STRUCTURED_DATA_SYNTAX_NAMES[entry.syntax]})`).join(" vs ")}
+        </div>
+      ))}
+
+      {/* Missing properties per entity */}
+      {incomplete.length > 0 && (
+        <div className="max-h-48 overflow-y-auto space-y-1">
+          {incomplete.map(entity => (
+            <div key={`${entity.syntax}-${entity.block}-${entity.path}`} className="p-2 bg-gray-50 rounded text-xs">
+              <div className="font-medium">
+                {entity.types.join(", ")} <span className="font-mono text-gray-500">{entity.path}</span>{" "}
+                <span className="text-gray-500">({STRUCTURED_DATA_SYNTAX_NAMES[entity.syntax]})</span>
+              </div>
+              {entity.missingRequired.length > 0 && <div className="text-red-600">Required: {entity.missingRequired.join(", ")}</div>}
+              {entity.missingRecommended.length > 0 && <div className="text-gray-600">Recommended: {entity.missingRecommended.join(", ")}</div>}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
 function SectionElement({ title, element, successMessage, warningMessage, icon = null, children = null }: { title: string; element: { exists: boolean; url?: string }; successMessage: string; warningMessage: string; icon?: ReactNode; children?: ReactNode }) {
   return (
     <div className="space-y-3">
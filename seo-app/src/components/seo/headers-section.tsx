@@ -0,0 +1,109 @@
+import React from 'react'
+import { FileCode, Shield, Archive, Clock, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { SectionCard } from './section-card'
+import { Badge } from '@/components/ui/badge'
+import { HeaderAnalysis } from '@/types/seo'
+
+interface HeadersSectionProps {
+  data: HeaderAnalysis
+}
+
+export function HeadersSection({ data }: HeadersSectionProps) {
+  const securityHeaders = [
+    { label: 'Strict-Transport-Security', value: data.security.hsts },
+    { label: 'Content-Security-Policy', value: data.security.csp },
+    { label: 'X-Content-Type-Options', value: data.security.xContentTypeOptions },
+    { label: 'Referrer-Policy', value: data.security.referrerPolicy }
+  ]
+
+  return (
+    <SectionCard
+      title="HTTP Headers"
+      score={data.score}
+      ledger={data.ledger}
+      icon={<FileCode className="w-5 h-5" />}
+    >
+      <div className="space-y-6">
+        {/* X-Robots-Tag */}
+        <div className="flex items-center justify-between">
+          <h4 className="font-medium">X-Robots-Tag</h4>
+          <Badge variant={data.xRobotsTag && /noindex|none/i.test(data.xRobotsTag) ? 'error' : 'success'}>
+            {data.xRobotsTag || 'Not set'}
+          </Badge>
+        </div>
+
+        {/* Caching */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium flex items-center space-x-2">
+              <Clock className="w-4 h-4" />
+              <span>Caching</span>
+            </h4>
+            <Badge variant={data.caching.isCacheable ? 'success' : 'warning'}>
+              {data.caching.isCacheable ? 'Cacheable' : 'Not cacheable'}
+            </Badge>
+          </div>
+          <div className="space-y-1 text-xs font-mono">
+            <div className="p-2 bg-gray-50 rounded truncate">Cache-Control: {data.caching.cacheControl || '—'}</div>
+            <div className="p-2 bg-gray-50 rounded truncate">ETag: {data.caching.etag || '—'}</div>
+            <div className="p-2 bg-gray-50 rounded truncate">Last-Modified: {data.caching.lastModified || '—'}</div>
+          </div>
+        </div>
+
+        {/* Compression & Content-Type */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="p-4 bg-blue-50 rounded-lg">
+            <div className="flex items-center space-x-2 text-sm text-blue-700">
+              <Archive className="w-4 h-4" />
+              <span>Compression</span>
+            </div>
+            <div className="text-lg font-bold text-blue-600 mt-1">
+              {data.compression.isCompressed ? data.compression.contentEncoding : 'None'}
+            </div>
+          </div>
+          <div className="p-4 bg-green-50 rounded-lg">
+            <div className="text-sm text-green-700">Charset</div>
+            <div className="text-lg font-bold text-green-600 mt-1">
+              {data.contentType.charset || 'Not declared'}
+            </div>
+          </div>
+        </div>
+
+        {/* Security Headers */}
+        <div className="space-y-2">
+          <h4 className="font-medium flex items-center space-x-2">
+            <Shield className="w-4 h-4" />
+            <span>Security Headers</span>
+          </h4>
+          <div className="space-y-1">
+            {securityHeaders.map(header => (
+              <div key={header.label} className="flex items-center justify-between text-sm">
+                <span>{header.label}</span>
+                {header.value ? (
+                  <CheckCircle2 className="w-4 h-4 text-green-600" />
+                ) : (
+                  <AlertTriangle className="w-4 h-4 text-yellow-600" />
+                )}
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Issues */}
+        {data.issues.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-yellow-600">Recommendations</h4>
+            <div className="space-y-1">
+              {data.issues.map((issue, index) => (
+                <div key={index} className="flex items-center space-x-2 text-sm text-yellow-700">
+                  <AlertTriangle className="w-3 h-3" />
+                  <span>{issue}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </SectionCard>
+  )
+}
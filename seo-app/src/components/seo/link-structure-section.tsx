@@ -15,6 +15,7 @@ export function LinkStructureSection({ data }: LinkStructureSectionProps) {
     <SectionCard
       title="Link Structure"
       score={data.score}
+      ledger={data.ledger}
       icon={<Link className="w-5 h-5" />}
     >
       <div className="space-y-6">
@@ -52,6 +53,11 @@ export function LinkStructureSection({ data }: LinkStructureSectionProps) {
             <Badge variant="outline">{totalLinks}</Badge>
           </div>
           
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Links Checked</span>
+            <Badge variant="outline">{data.linksChecked}</Badge>
+          </div>
+
           {data.noFollowLinks > 0 && (
             <div className="flex items-center justify-between">
               <span className="text-sm font-medium">NoFollow Links</span>
@@ -68,13 +74,41 @@ export function LinkStructureSection({ data }: LinkStructureSectionProps) {
               <span>Broken Links Found</span>
               <Badge variant="error">{data.brokenLinks.length}</Badge>
             </h4>
-            <div className="space-y-2 max-h-32 overflow-y-auto">
+            <div className="space-y-2 max-h-48 overflow-y-auto">
               {data.brokenLinks.map((link, index) => (
                 <div key={index} className="p-2 bg-red-50 rounded text-sm">
-                  <div className="flex items-center space-x-2">
-                    <ExternalLink className="w-3 h-3 text-red-600 flex-shrink-0" />
-                    <span className="text-red-700 truncate">{link}</span>
+                  <div className="flex items-center justify-between space-x-2">
+                    <div className="flex items-center space-x-2 min-w-0">
+                      <ExternalLink className="w-3 h-3 text-red-600 flex-shrink-0" />
+                      <span className="text-red-700 truncate">{link.url}</span>
+                    </div>
+                    <Badge variant="error" className="flex-shrink-0">
+                      {link.timedOut ? 'Timeout' : link.statusCode ?? 'Error'}
+                    </Badge>
                   </div>
+                  <div className="text-xs text-red-600 mt-1 truncate">
+                    Anchor: {link.anchorText || <em>(no anchor text)</em>}
+                    {link.error && !link.timedOut && <span> · {link.error}</span>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Redirected Links */}
+        {data.redirectedLinks.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="font-medium text-yellow-600 flex items-center space-x-2">
+              <AlertTriangle className="w-4 h-4" />
+              <span>Redirected Links</span>
+              <Badge variant="warning">{data.redirectedLinks.length}</Badge>
+            </h4>
+            <div className="space-y-2 max-h-32 overflow-y-auto">
+              {data.redirectedLinks.map((link, index) => (
+                <div key={index} className="p-2 bg-yellow-50 rounded text-xs">
+                  <div className="text-yellow-800 truncate">{link.url}</div>
+                  <div className="text-yellow-700 truncate">→ {link.redirectedTo}</div>
                 </div>
               ))}
             </div>
@@ -14,6 +14,7 @@ export function MetaSection({ data }: MetaSectionProps) {
     <SectionCard
       title="Meta Information"
       score={data.score}
+      ledger={data.ledger}
       icon={<FileText className="w-5 h-5" />}
     >
       <div className="space-y-6">
@@ -17,6 +17,7 @@ export function PageQualitySection({ data }: PageQualitySectionProps) {
     <SectionCard
       title="Page Quality"
       score={data.score}
+      ledger={data.ledger}
       icon={<FileCheck className="w-5 h-5" />}
     >
       <div className="space-y-6">
@@ -1,9 +1,9 @@
 import React from 'react'
-import { Zap, Clock, HardDrive, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { Zap, Clock, HardDrive, AlertTriangle, CheckCircle2, Gauge } from 'lucide-react'
 import { SectionCard } from './section-card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
-import { PerformanceAnalysis } from '@/types/seo'
+import { PerformanceAnalysis, VitalMetric } from '@/types/seo'
 
 interface PerformanceSectionProps {
   data: PerformanceAnalysis
@@ -23,13 +23,97 @@ export function PerformanceSection({ data }: PerformanceSectionProps) {
     return `${(ms / 1000).toFixed(2)}s`
   }
 
+  const getVitalVariant = (metric: VitalMetric) => {
+    if (metric.displayValue === 'N/A') return 'outline' as const
+    if (metric.category === 'good') return 'success' as const
+    if (metric.category === 'needs-improvement') return 'warning' as const
+    return 'error' as const
+  }
+
+  const sourceLabels = {
+    pagespeed: 'PageSpeed Insights',
+    lab: 'Local lab (headless Chromium)',
+    estimate: 'Estimated from response time',
+    offline: 'Offline (page weight only)'
+  }
+
+  const vitals = data.coreWebVitals
+  // Reports saved before INP replaced FID have neither INP nor TTFB
+  const vitalRows = vitals ? [
+    { label: 'Largest Contentful Paint', metric: vitals.lcp },
+    vitals.inp
+      ? { label: 'Interaction to Next Paint', metric: vitals.inp }
+      : { label: 'First Input Delay (legacy)', metric: vitals.fid },
+    { label: 'Cumulative Layout Shift', metric: vitals.cls },
+    { label: 'Time to First Byte', metric: vitals.ttfb },
+    { label: 'First Contentful Paint', metric: vitals.fcp },
+    { label: 'Total Blocking Time', metric: vitals.tbt }
+  ].filter((row): row is { label: string; metric: VitalMetric } => !!row.metric) : []
+  const slowestResources = [...(data.labRuns?.[0]?.waterfall || [])]
+    .sort((a, b) => b.duration - a.duration)
+    .slice(0, 8)
+
   return (
     <SectionCard
       title="Performance"
       score={data.score}
+      ledger={data.ledger}
       icon={<Zap className="w-5 h-5" />}
     >
       <div className="space-y-6">
+        {/* Core Web Vitals */}
+        {vitals && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium flex items-center space-x-2">
+                <Gauge className="w-4 h-4" />
+                <span>Core Web Vitals</span>
+              </h4>
+              {data.source && <Badge variant="outline">{sourceLabels[data.source]}</Badge>}
+            </div>
+            <div className="space-y-1">
+              {vitalRows.map(row => (
+                <div key={row.label} className="flex items-center justify-between text-sm">
+                  <span>{row.label}</span>
+                  <Badge variant={getVitalVariant(row.metric)}>{row.metric.displayValue}</Badge>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Lab Runs */}
+        {data.labRuns && data.labRuns.length > 0 && (
+          <div className="grid grid-cols-2 gap-3">
+            {data.labRuns.map(run => (
+              <div key={run.profile} className="text-center p-3 bg-gray-50 rounded-lg">
+                <div className="text-lg font-semibold">{run.performanceScore}</div>
+                <div className="text-xs text-gray-600 capitalize">{run.profile} lab score</div>
+                <div className="text-xs text-gray-500 mt-1">
+                  {run.requestCount} requests · {formatFileSize(run.totalBytes)}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {/* Waterfall */}
+        {slowestResources.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Slowest Resources</h4>
+            <div className="space-y-1">
+              {slowestResources.map((entry, index) => (
+                <div key={index} className="flex items-center justify-between p-2 bg-gray-50 rounded text-xs">
+                  <span className="font-mono truncate">{entry.url}</span>
+                  <span className="flex-shrink-0 ml-2 text-gray-500">
+                    {entry.type} · {formatResponseTime(entry.duration)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Response Time */}
         <div className="space-y-3">
           <div className="flex items-center justify-between">
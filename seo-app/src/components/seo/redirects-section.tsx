@@ -0,0 +1,104 @@
+import React from 'react'
+import { Shuffle, ArrowDown, AlertTriangle, CheckCircle2, Lock } from 'lucide-react'
+import { SectionCard } from './section-card'
+import { Badge } from '@/components/ui/badge'
+import { RedirectAnalysis } from '@/types/seo'
+
+interface RedirectsSectionProps {
+  data: RedirectAnalysis
+}
+
+export function RedirectsSection({ data }: RedirectsSectionProps) {
+  const getStatusVariant = (statusCode?: number) => {
+    if (!statusCode) return 'outline' as const
+    if (statusCode === 301 || statusCode === 308 || statusCode < 300) return 'success' as const
+    if (statusCode < 400) return 'warning' as const
+    return 'error' as const
+  }
+
+  return (
+    <SectionCard
+      title="Redirects & HTTP Status"
+      score={data.score}
+      ledger={data.ledger}
+      icon={<Shuffle className="w-5 h-5" />}
+    >
+      <div className="space-y-6">
+        {/* Overview */}
+        <div className="grid grid-cols-2 gap-4">
+          <div className="text-center p-4 bg-blue-50 rounded-lg">
+            <div className="text-2xl font-bold text-blue-600">{data.hops.length}</div>
+            <div className="text-sm text-blue-700">Redirect Hops</div>
+          </div>
+          <div className="text-center p-4 bg-green-50 rounded-lg">
+            <div className="text-2xl font-bold text-green-600">{data.finalStatusCode ?? '—'}</div>
+            <div className="text-sm text-green-700">Final Status</div>
+          </div>
+        </div>
+
+        {/* Redirect Chain */}
+        <div className="space-y-3">
+          <h4 className="font-medium">Redirect Chain</h4>
+          {data.hops.length === 0 ? (
+            <div className="flex items-center space-x-2 text-sm text-green-600">
+              <CheckCircle2 className="w-3 h-3" />
+              <span>URL responds directly without redirects</span>
+            </div>
+          ) : (
+            <div className="space-y-1">
+              {data.hops.map((hop, index) => (
+                <div key={index} className="space-y-1">
+                  <div className="p-2 bg-gray-50 rounded text-xs font-mono flex items-center justify-between">
+                    <span className="truncate">{hop.url}</span>
+                    <Badge variant={getStatusVariant(hop.statusCode)} className="ml-2 flex-shrink-0">
+                      {hop.statusCode}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center space-x-2 text-xs text-gray-500 pl-2">
+                    <ArrowDown className="w-3 h-3" />
+                    {hop.protocolChange && <span>{hop.protocolChange === 'http-to-https' ? 'HTTP → HTTPS' : 'HTTPS → HTTP'}</span>}
+                    {hop.wwwChange && <span>{hop.wwwChange === 'added' ? 'adds www' : 'removes www'}</span>}
+                  </div>
+                </div>
+              ))}
+              <div className="p-2 bg-gray-50 rounded text-xs font-mono flex items-center justify-between">
+                <span className="truncate">{data.finalUrl}</span>
+                <Badge variant={getStatusVariant(data.finalStatusCode)} className="ml-2 flex-shrink-0">
+                  {data.finalStatusCode ?? 'Error'}
+                </Badge>
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* HTTPS Enforcement */}
+        {data.httpsEnforced !== undefined && (
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium flex items-center space-x-2">
+              <Lock className="w-4 h-4" />
+              <span>HTTP → HTTPS Redirect</span>
+            </h4>
+            <Badge variant={data.httpsEnforced ? 'success' : 'error'}>
+              {data.httpsEnforced ? 'Enforced' : 'Missing'}
+            </Badge>
+          </div>
+        )}
+
+        {/* Issues */}
+        {data.issues.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium text-red-600">Redirect Issues</h4>
+            <div className="space-y-1">
+              {data.issues.map((issue, index) => (
+                <div key={index} className="flex items-center space-x-2 text-sm text-red-600">
+                  <AlertTriangle className="w-3 h-3" />
+                  <span>{issue}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </SectionCard>
+  )
+}
@@ -0,0 +1,103 @@
+import React from 'react'
+import { Code2, AlertTriangle, CheckCircle2 } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import { RenderingAnalysis } from '@/types/seo'
+
+interface RenderingSectionProps {
+  data: RenderingAnalysis
+}
+
+export function RenderingSection({ data }: RenderingSectionProps) {
+  const fields = [
+    { label: 'Title', value: data.diff.title },
+    { label: 'Meta description', value: data.diff.description },
+    { label: 'Canonical', value: data.diff.canonical },
+    { label: 'Meta robots', value: data.diff.metaRobots },
+    { label: 'H1', value: data.diff.h1 }
+  ]
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Code2 className="w-5 h-5" />
+            <span>JavaScript Rendering</span>
+          </div>
+          <Badge variant="outline">Rendered in {(data.renderTimeMs / 1000).toFixed(1)}s</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-6">
+          {/* Counts */}
+          <div className="grid grid-cols-2 gap-4">
+            <div className="text-center p-4 bg-blue-50 rounded-lg">
+              <div className="text-2xl font-bold text-blue-600">
+                {data.diff.wordCount.raw} → {data.diff.wordCount.rendered}
+              </div>
+              <div className="text-sm text-blue-700">Words (raw → rendered)</div>
+            </div>
+            <div className="text-center p-4 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">
+                {data.diff.linkCount.raw} → {data.diff.linkCount.rendered}
+              </div>
+              <div className="text-sm text-green-700">Links (raw → rendered)</div>
+            </div>
+          </div>
+
+          {/* Raw vs Rendered */}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500 border-b">
+                  <th className="py-2 pr-4 font-medium">Signal</th>
+                  <th className="py-2 pr-4 font-medium">Raw HTML</th>
+                  <th className="py-2 pr-4 font-medium">Rendered DOM</th>
+                </tr>
+              </thead>
+              <tbody>
+                {fields.map(field => (
+                  <tr key={field.label} className={`border-b last:border-0 ${field.value.changed ? 'bg-yellow-50' : ''}`}>
+                    <td className="py-2 pr-4 font-medium">{field.label}</td>
+                    <td className="py-2 pr-4 text-xs truncate max-w-xs">{field.value.raw || '—'}</td>
+                    <td className="py-2 pr-4 text-xs truncate max-w-xs">{field.value.rendered || '—'}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {/* Links added by JavaScript */}
+          {data.diff.linksOnlyInRendered.length > 0 && (
+            <div className="space-y-2">
+              <h4 className="font-medium">Links only present after rendering</h4>
+              <div className="max-h-32 overflow-y-auto space-y-1">
+                {data.diff.linksOnlyInRendered.map(link => (
+                  <div key={link} className="p-2 bg-gray-50 rounded text-xs font-mono truncate">{link}</div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {/* Issues */}
+          {data.issues.length > 0 ? (
+            <div className="space-y-1">
+              {data.issues.map((issue, index) => (
+                <div key={index} className="flex items-center space-x-2 text-sm text-yellow-700">
+                  <AlertTriangle className="w-3 h-3" />
+                  <span>{issue}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2 text-sm text-green-600">
+              <CheckCircle2 className="w-3 h-3" />
+              <span>Key SEO signals are present in the raw HTML</span>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -2,7 +2,7 @@
 
 import React from 'react'
 import { motion } from 'framer-motion'
-import { Download, ExternalLink, BarChart3 } from 'lucide-react'
+import { Download, ExternalLink, BarChart3, FileCode } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
@@ -19,6 +19,12 @@ import { LinkStructureSection } from './link-structure-section'
 import { PerformanceSection } from './performance-section'
 import { CrawlabilitySection } from './crawlability-section'
 import { ExternalFactorsSection } from './external-factors-section'
+import { RedirectsSection } from './redirects-section'
+import { HeadersSection } from './headers-section'
+import { RobotsTester } from './robots-tester'
+import { RenderingSection } from './rendering-section'
+import { CloakingSection } from './cloaking-section'
+import { USER_AGENT_PRESETS } from '@/lib/crawler-identity'
 import { SEOAnalysis } from '@/types/seo'
 import { getScoreColor } from '@/lib/utils'
 
@@ -46,6 +52,7 @@ export function ResultsDashboard({ analysis, onExportPDF, isExporting = false }:
   }
 
   const scoreStatus = getScoreStatus(analysis.overallScore)
+  const skippedSections = analysis.offline?.skippedSections || []
 
   return (
     <div className="min-h-screen bg-gray-50 py-8">
@@ -77,6 +84,8 @@ export function ResultsDashboard({ analysis, onExportPDF, isExporting = false }:
                   </div>
                   <div className="text-sm text-gray-500">
                     Analyzed on {formatDate(analysis.timestamp)}
+                    {analysis.scoringProfile && ` · ${analysis.scoringProfile.name} scoring profile (v${analysis.scoringProfile.version})`}
+                    {analysis.crawler && analysis.crawler.preset !== 'browser' && ` · Fetched as ${USER_AGENT_PRESETS.find(preset => preset.id === analysis.crawler?.preset)?.name || analysis.crawler.userAgent}`}
                   </div>
                 </div>
               </div>
@@ -106,19 +115,41 @@ export function ResultsDashboard({ analysis, onExportPDF, isExporting = false }:
           </div>
         </motion.div>
 
-        {/* Enhanced Browser Preview */}
-        <motion.div
-          initial={{ opacity: 0, y: 20 }}
-          animate={{ opacity: 1, y: 0 }}
-          transition={{ delay: 0.1 }}
-          className="mb-8"
-        >
-          <BrowserPreview 
-            url={analysis.url} 
-            analysis={analysis}
-            loading={false}
-          />
-        </motion.div>
+        {/* Offline analyses have no live page to preview; list what could not be checked instead */}
+        {analysis.offline ? (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <FileCode className="w-5 h-5 text-blue-600" />
+                <span>Offline Analysis</span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2 text-sm text-gray-600">
+              <p>
+                Analyzed {analysis.offline.source === 'html' ? 'pasted HTML' : `${analysis.offline.path} from the uploaded build`} as if served at {analysis.url}.
+                Checks that need a live server were skipped and do not count towards the score.
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {[...skippedSections, ...analysis.offline.skippedRules].map(skipped => (
+                  <Badge key={skipped} variant="secondary">{skipped}</Badge>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ) : (
+          <motion.div
+            initial={{ opacity: 0, y: 20 }}
+            animate={{ opacity: 1, y: 0 }}
+            transition={{ delay: 0.1 }}
+            className="mb-8"
+          >
+            <BrowserPreview 
+              url={analysis.url} 
+              analysis={analysis}
+              loading={false}
+            />
+          </motion.div>
+        )}
 
         {/* SEO Analysis Sections */}
         <motion.div
@@ -127,11 +158,16 @@ export function ResultsDashboard({ analysis, onExportPDF, isExporting = false }:
           transition={{ delay: 0.2 }}
           className="space-y-6"
         >
+          {analysis.rendering && <RenderingSection data={analysis.rendering} />}
+          {analysis.cloaking && <CloakingSection data={analysis.cloaking} />}
           <MetaSection data={analysis.sections.meta} />
           <PageQualitySection data={analysis.sections.pageQuality} />
           <LinkStructureSection data={analysis.sections.linkStructure} />
           <PerformanceSection data={analysis.sections.performance} />
           <CrawlabilitySection data={analysis.sections.crawlability} />
+          {!analysis.offline && <RobotsTester url={analysis.url} />}
+          {!skippedSections.includes('redirects') && <RedirectsSection data={analysis.sections.redirects} />}
+          {!skippedSections.includes('headers') && <HeadersSection data={analysis.sections.headers} />}
           <ExternalFactorsSection data={analysis.sections.externalFactors} />
         </motion.div>
 
@@ -0,0 +1,151 @@
+'use client'
+
+import React, { useState } from 'react'
+import { Bot, CheckCircle2, XCircle, AlertTriangle } from 'lucide-react'
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Badge } from '@/components/ui/badge'
+import { RobotsAccessResult } from '@/types/seo'
+
+interface RobotsTesterProps {
+  url: string
+}
+
+interface RobotsTestResult {
+  path: string
+  url: string
+  access: RobotsAccessResult[]
+}
+
+export function RobotsTester({ url }: RobotsTesterProps) {
+  const [paths, setPaths] = useState(() => new URL(url).pathname)
+  const [results, setResults] = useState<RobotsTestResult[]>([])
+  const [warnings, setWarnings] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [isTesting, setIsTesting] = useState(false)
+
+  const handleTest = async () => {
+    const pathList = paths.split('\n').map(path => path.trim()).filter(Boolean)
+    if (pathList.length === 0) return
+
+    setIsTesting(true)
+    setError(null)
+
+    try {
+      const response = await fetch('/api/robots-test', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ url, paths: pathList }),
+      })
+
+      const result = await response.json()
+
+      if (!response.ok) {
+        throw new Error(result.error || 'Failed to test robots.txt')
+      }
+
+      setResults(result.data.results)
+      setWarnings([
+        ...result.data.issues,
+        ...result.data.warnings
+      ])
+    } catch (testError) {
+      setError(testError instanceof Error ? testError.message : 'Unknown error')
+    } finally {
+      setIsTesting(false)
+    }
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Bot className="w-5 h-5" />
+          <span>robots.txt Tester</span>
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <label htmlFor="robots-test-paths" className="text-sm font-medium">
+              Paths or URLs to test (one per line)
+            </label>
+            <textarea
+              id="robots-test-paths"
+              value={paths}
+              onChange={(event) => setPaths(event.target.value)}
+              rows={4}
+              className="w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono"
+              placeholder={'/\n/blog/\n/search?q=test'}
+            />
+          </div>
+
+          <Button onClick={handleTest} disabled={isTesting} size="sm">
+            {isTesting ? 'Testing...' : 'Test against live robots.txt'}
+          </Button>
+
+          {error && (
+            <div className="flex items-center space-x-2 text-sm text-red-600">
+              <AlertTriangle className="w-3 h-3" />
+              <span>{error}</span>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="space-y-1">
+              {warnings.map((warning, index) => (
+                <div key={index} className="flex items-center space-x-2 text-xs text-yellow-700">
+                  <AlertTriangle className="w-3 h-3" />
+                  <span>{warning}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {results.length > 0 && (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500 border-b">
+                    <th className="py-2 pr-4 font-medium">Path</th>
+                    {results[0].access.map(access => (
+                      <th key={access.userAgent} className="py-2 pr-4 font-medium">{access.userAgent}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {results.map(result => (
+                    <tr key={result.url} className="border-b last:border-0">
+                      <td className="py-2 pr-4 font-mono text-xs truncate max-w-xs">{result.path}</td>
+                      {result.access.map(access => (
+                        <td key={access.userAgent} className="py-2 pr-4">
+                          <div className="flex items-center space-x-1">
+                            {access.allowed ? (
+                              <CheckCircle2 className="w-4 h-4 text-green-600" />
+                            ) : (
+                              <XCircle className="w-4 h-4 text-red-600" />
+                            )}
+                            <Badge variant={access.allowed ? 'success' : 'error'}>
+                              {access.allowed ? 'Allowed' : 'Blocked'}
+                            </Badge>
+                          </div>
+                          {access.matchedRule && (
+                            <div className="text-xs text-gray-500 font-mono mt-1">
+                              {access.matchedRule} (line {access.matchedLine})
+                            </div>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
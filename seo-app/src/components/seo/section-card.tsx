@@ -7,10 +7,12 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { ScoreCircle } from '@/components/ui/score-circle'
 import { cn, getScoreColor, getScoreBgColor } from '@/lib/utils'
+import { ScoreLedgerEntry } from '@/types/seo'
 
 interface SectionCardProps {
   title: string
   score: number
+  ledger?: ScoreLedgerEntry[]
   icon: React.ReactNode
   children: React.ReactNode
   defaultExpanded?: boolean
@@ -20,12 +22,14 @@ interface SectionCardProps {
 export function SectionCard({ 
   title, 
   score, 
+  ledger,
   icon, 
   children, 
   defaultExpanded = false,
   className 
 }: SectionCardProps) {
   const [isExpanded, setIsExpanded] = useState(defaultExpanded)
+  const [showLedger, setShowLedger] = useState(false)
 
   return (
     <Card className={cn("overflow-hidden transition-all duration-200 hover:shadow-md", className)}>
@@ -76,6 +80,49 @@ export function SectionCard({
               <div className="border-t pt-4">
                 {children}
               </div>
+              {ledger && ledger.length > 0 && (
+                <div className="border-t mt-4 pt-3">
+                  <button
+                    type="button"
+                    onClick={() => setShowLedger(!showLedger)}
+                    className="flex items-center space-x-1 text-sm text-gray-600 hover:text-gray-900"
+                  >
+                    {showLedger ? <ChevronUp size={16} /> : <ChevronDown size={16} />}
+                    <span>How this score was calculated</span>
+                  </button>
+                  {showLedger && (
+                    <table className="w-full mt-3 text-sm">
+                      <thead>
+                        <tr className="text-left text-gray-500 border-b">
+                          <th className="py-2 pr-4 font-medium">Rule</th>
+                          <th className="py-2 pr-4 font-medium text-right">Points</th>
+                          <th className="py-2 font-medium">Reason</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {ledger.map(entry => (
+                          <tr key={entry.ruleId} className="border-b last:border-0 align-top">
+                            <td className="py-2 pr-4">{entry.check}</td>
+                            <td className={cn("py-2 pr-4 text-right font-mono whitespace-nowrap", entry.points === entry.maxPoints ? 'text-green-600' : 'text-red-600')}>
+                              {entry.points} / {entry.maxPoints}
+                            </td>
+                            <td className="py-2 text-gray-600">{entry.reason}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                      <tfoot>
+                        <tr className="font-medium">
+                          <td className="pt-2 pr-4">Total</td>
+                          <td className="pt-2 pr-4 text-right font-mono whitespace-nowrap">
+                            {ledger.reduce((sum, entry) => sum + entry.points, 0)} / {ledger.reduce((sum, entry) => sum + entry.maxPoints, 0)}
+                          </td>
+                          <td className="pt-2 text-gray-600">Score = points earned ÷ points possible × 100</td>
+                        </tr>
+                      </tfoot>
+                    </table>
+                  )}
+                </div>
+              )}
             </CardContent>
           </motion.div>
         )}
@@ -24,9 +24,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Button } from '@/components/ui/button'
+import { Issue, IssueCategory, IssueSeverity, SEOAnalysis } from '@/types/seo'
 
 interface SEOActionPlanProps {
-  analysis: any
+  analysis: SEOAnalysis
   url: string
 }
 
@@ -45,232 +46,71 @@ interface ActionItem {
   kpis: string[]
 }
 
+const ACTION_CATEGORIES: Record<IssueCategory, ActionItem['category']> = {
+  meta: 'content',
+  pageQuality: 'content',
+  linkStructure: 'content',
+  pageStructure: 'content',
+  performance: 'user-experience',
+  crawlability: 'technical',
+  externalFactors: 'off-page',
+  redirects: 'technical',
+  headers: 'technical',
+  rendering: 'technical',
+  cloaking: 'technical'
+}
+
+const SEVERITY_PRIORITY: Record<IssueSeverity, ActionItem['priority']> = {
+  error: 'high',
+  warning: 'medium',
+  notice: 'low'
+}
+
+const EFFORT_TIMEFRAME: Record<ActionItem['effort'], ActionItem['timeframe']> = {
+  low: '1-2 weeks',
+  medium: '2-4 weeks',
+  high: '1-3 months'
+}
+
+const CATEGORY_RESOURCES: Record<ActionItem['category'], string[]> = {
+  technical: ['Developer', 'SEO Specialist'],
+  content: ['SEO Specialist', 'Content Writer'],
+  'off-page': ['SEO Specialist', 'Marketing Team'],
+  'user-experience': ['Frontend Developer', 'DevOps Engineer']
+}
+
+const CATEGORY_KPIS: Record<ActionItem['category'], string[]> = {
+  technical: ['Pages indexed', 'Crawl efficiency', 'Search visibility'],
+  content: ['Click-through rate', 'Search rankings', 'User engagement'],
+  'off-page': ['Rich snippet appearance', 'Social shares', 'SERP features'],
+  'user-experience': ['Core Web Vitals', 'Load time', 'Performance score']
+}
+
 export function SEOActionPlan({ analysis, url }: SEOActionPlanProps) {
   const [selectedPriority, setSelectedPriority] = useState<'all' | 'high' | 'medium' | 'low'>('all')
   const [completedTasks, setCompletedTasks] = useState<Set<string>>(new Set())
   const [showDetailedPlan, setShowDetailedPlan] = useState(false)
 
   const generateRealActionItems = (): ActionItem[] => {
-    const actions: ActionItem[] = []
-    
-    // Performance-based actions
-    const perfSection = analysis.sections.performance
-    if (perfSection.score < 80) {
-      if (perfSection.responseTime > 3000) {
-        actions.push({
-          id: 'optimize-server-response',
-          title: 'Optimize Server Response Time',
-          description: `Server response time is ${(perfSection.responseTime / 1000).toFixed(1)}s - optimize for better performance`,
-          priority: 'high',
-          effort: 'high',
-          impact: 'high',
-          category: 'technical',
-          timeframe: '1-2 weeks',
-          resources: ['Backend Developer', 'DevOps Engineer'],
-          steps: [
-            'Analyze server performance bottlenecks',
-            'Optimize database queries',
-            'Implement server-side caching',
-            'Consider CDN implementation',
-            'Monitor server metrics'
-          ],
-          completed: false,
-          kpis: ['Server response time', 'Time to First Byte', 'Performance score']
-        })
-      }
-      
-      if (perfSection.pageSize > 3000000) {
-        actions.push({
-          id: 'reduce-page-weight',
-          title: 'Reduce Page Weight',
-          description: `Page size is ${(perfSection.pageSize / 1000000).toFixed(1)}MB - optimize resources`,
-          priority: 'high',
-          effort: 'medium',
-          impact: 'high',
-          category: 'technical',
-          timeframe: '1-2 weeks',
-          resources: ['Frontend Developer'],
-          steps: [
-            'Compress and optimize images',
-            'Minify CSS and JavaScript',
-            'Remove unused resources',
-            'Implement lazy loading',
-            'Enable GZIP compression'
-          ],
-          completed: false,
-          kpis: ['Page size', 'Load time', 'Core Web Vitals']
-        })
-      }
-    }
-    
-    // Meta and content issues
-    const metaSection = analysis.sections.meta
-    if (metaSection.title.issues.length > 0) {
-      actions.push({
-        id: 'fix-title-issues',
-        title: 'Fix Title Tag Issues',
-        description: `Address title problems: ${metaSection.title.issues.join(', ')}`,
-        priority: 'high',
-        effort: 'low',
-        impact: 'high',
-        category: 'content',
-        timeframe: '1 week',
-        resources: ['SEO Specialist', 'Content Writer'],
-        steps: [
-          'Review current title tag',
-          'Optimize length (30-60 characters)',
-          'Include target keywords',
-          'Make it compelling for clicks',
-          'Test and validate changes'
-        ],
-        completed: false,
-        kpis: ['Click-through rate', 'Search rankings', 'Title tag optimization']
-      })
-    }
-    
-    if (metaSection.description.issues.length > 0) {
-      actions.push({
-        id: 'fix-meta-description',
-        title: 'Optimize Meta Description',
-        description: `Fix meta description: ${metaSection.description.issues.join(', ')}`,
-        priority: 'medium',
-        effort: 'low',
-        impact: 'medium',
-        category: 'content',
-        timeframe: '1 week',
-        resources: ['SEO Specialist', 'Content Writer'],
-        steps: [
-          'Write compelling meta descriptions',
-          'Keep within 120-160 characters',
-          'Include call-to-action',
-          'Match search intent',
-          'A/B test different versions'
-        ],
-        completed: false,
-        kpis: ['Click-through rate', 'Meta description optimization', 'SERP appearance']
-      })
-    }
-    
-    // Crawlability issues
-    const crawlSection = analysis.sections.crawlability
-    if (!crawlSection.sitemap.exists) {
-      actions.push({
-        id: 'create-xml-sitemap',
-        title: 'Create XML Sitemap',
-        description: 'Generate and submit XML sitemap to help search engines discover your pages',
-        priority: 'high',
-        effort: 'medium',
-        impact: 'high',
-        category: 'technical',
-        timeframe: '1 week',
-        resources: ['Developer', 'SEO Specialist'],
-        steps: [
-          'Generate comprehensive XML sitemap',
-          'Include all important pages',
-          'Add proper priority and frequency',
-          'Submit to Google Search Console',
-          'Monitor sitemap status'
-        ],
-        completed: false,
-        kpis: ['Pages indexed', 'Crawl efficiency', 'Search visibility']
-      })
-    }
-    
-    if (!crawlSection.robotsTxt.exists) {
-      actions.push({
-        id: 'create-robots-txt',
-        title: 'Implement robots.txt',
-        description: 'Create robots.txt file to guide search engine crawling',
-        priority: 'medium',
-        effort: 'low',
-        impact: 'medium',
-        category: 'technical',
-        timeframe: '1 week',
-        resources: ['Developer', 'SEO Specialist'],
-        steps: [
-          'Create robots.txt file',
-          'Define crawling rules',
-          'Include sitemap location',
-          'Test with robots.txt tester',
-          'Monitor crawl behavior'
-        ],
-        completed: false,
-        kpis: ['Crawl efficiency', 'Bot guidance', 'SEO compliance']
-      })
-    }
-    
-    // External factors
-    const extFactors = analysis.sections.externalFactors
-    if (!extFactors.https) {
-      actions.push({
-        id: 'enable-https',
-        title: 'Enable HTTPS Security',
-        description: 'Implement SSL certificate for secure connections and SEO benefits',
-        priority: 'high',
-        effort: 'medium',
-        impact: 'high',
-        category: 'technical',
-        timeframe: '1 week',
-        resources: ['DevOps Engineer', 'Developer'],
-        steps: [
-          'Obtain SSL certificate',
-          'Configure HTTPS redirects',
-          'Update internal links',
-          'Test security implementation',
-          'Monitor HTTPS status'
-        ],
-        completed: false,
-        kpis: ['Security score', 'Trust indicators', 'Search rankings']
-      })
-    }
-    
-    if (!extFactors.schemaMarkup.exists) {
-      actions.push({
-        id: 'implement-schema',
-        title: 'Add Structured Data',
-        description: 'Implement schema markup for rich snippets and better search appearance',
-        priority: 'medium',
-        effort: 'medium',
-        impact: 'medium',
-        category: 'technical',
-        timeframe: '1-2 weeks',
-        resources: ['Developer', 'SEO Specialist'],
-        steps: [
-          'Identify relevant schema types',
-          'Implement JSON-LD markup',
-          'Validate with testing tools',
-          'Monitor rich snippet appearance',
-          'Expand to other content types'
-        ],
+    // One action per rule finding; reports saved before the rule engine have no structured issues
+    const issues: Issue[] = analysis.issues || []
+    const actions: ActionItem[] = issues.map(issue => {
+      const category = ACTION_CATEGORIES[issue.category]
+      return {
+        id: issue.id,
+        title: issue.title,
+        description: issue.message,
+        priority: SEVERITY_PRIORITY[issue.severity],
+        effort: issue.fix.effort,
+        impact: issue.weight >= 8 ? 'high' : issue.weight >= 4 ? 'medium' : 'low',
+        category,
+        timeframe: EFFORT_TIMEFRAME[issue.fix.effort],
+        resources: CATEGORY_RESOURCES[category],
+        steps: issue.fix.steps,
         completed: false,
-        kpis: ['Rich snippet appearance', 'Click-through rate', 'SERP features']
-      })
-    }
-    
-    // Link structure improvements
-    const linkSection = analysis.sections.linkStructure
-    if (linkSection.score < 70) {
-      actions.push({
-        id: 'improve-internal-linking',
-        title: 'Optimize Internal Link Structure',
-        description: 'Improve internal linking for better SEO and user navigation',
-        priority: 'medium',
-        effort: 'medium',
-        impact: 'medium',
-        category: 'content',
-        timeframe: '2-3 weeks',
-        resources: ['SEO Specialist', 'Content Writer'],
-        steps: [
-          'Audit current link structure',
-          'Identify linking opportunities',
-          'Create topic clusters',
-          'Implement strategic internal links',
-          'Monitor link performance'
-        ],
-        completed: false,
-        kpis: ['Internal link distribution', 'Page authority flow', 'User engagement']
-      })
-    }
+        kpis: CATEGORY_KPIS[category]
+      }
+    })
     
     // If overall score is good, add maintenance tasks
     if (analysis.overallScore > 80) {
@@ -282,7 +122,7 @@ export function SEOActionPlan({ analysis, url }: SEOActionPlanProps) {
         effort: 'low',
         impact: 'medium',
         category: 'technical',
-        timeframe: '1 week',
+        timeframe: '1-2 weeks',
         resources: ['SEO Specialist'],
         steps: [
           'Set up automated monitoring',
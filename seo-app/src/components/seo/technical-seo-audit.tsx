@@ -18,169 +18,41 @@ import {
   Link,
   Image,
   Smartphone,
-  Monitor
+  Monitor,
+  Info
 } from 'lucide-react'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Badge } from '@/components/ui/badge'
 import { Progress } from '@/components/ui/progress'
 import { Button } from '@/components/ui/button'
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible'
+import { Issue, IssueCategory, IssueEvidence, IssueSeverity, SEOAnalysis } from '@/types/seo'
 
 interface TechnicalSEOAuditProps {
-  analysis: any
+  analysis: SEOAnalysis
   url: string
 }
 
-interface TechnicalIssue {
-  type: 'error' | 'warning' | 'success'
-  category: string
-  title: string
-  description: string
-  impact: 'high' | 'medium' | 'low'
-  howToFix: string
+const CATEGORY_LABELS: Record<IssueCategory, string> = {
+  meta: 'Meta Tags',
+  pageQuality: 'Content',
+  linkStructure: 'Links',
+  pageStructure: 'Structure',
+  performance: 'Performance',
+  crawlability: 'Crawlability',
+  externalFactors: 'External Factors',
+  redirects: 'Redirects',
+  headers: 'HTTP Headers',
+  rendering: 'JavaScript Rendering',
+  cloaking: 'Googlebot vs Browser'
 }
 
 export function TechnicalSEOAudit({ analysis, url }: TechnicalSEOAuditProps) {
-  const [activeCategory, setActiveCategory] = useState<'all' | 'errors' | 'warnings' | 'success'>('all')
+  const [activeCategory, setActiveCategory] = useState<'all' | IssueSeverity>('all')
   const [expandedIssues, setExpandedIssues] = useState<Set<number>>(new Set())
 
-  // 🚀 REAL Lighthouse-based technical SEO issues
-  const generateRealTechnicalIssues = (): TechnicalIssue[] => {
-    const issues: TechnicalIssue[] = []
-    
-    // Performance issues from Lighthouse opportunities
-    const perfSection = analysis.sections.performance
-    if (perfSection.score < 80) {
-      if (perfSection.responseTime > 3000) {
-        issues.push({
-          type: 'error',
-          category: 'Performance',
-          title: 'Slow Server Response Time',
-          description: `Server response time is ${(perfSection.responseTime / 1000).toFixed(1)}s (should be < 0.5s)`,
-          impact: 'high',
-          howToFix: 'Optimize server performance, use a CDN, enable caching'
-        })
-      }
-      
-      if (perfSection.pageSize > 3000000) {
-        issues.push({
-          type: 'warning',
-          category: 'Page Speed',
-          title: 'Large Page Size',
-          description: `Page size is ${(perfSection.pageSize / 1000000).toFixed(1)}MB (should be < 1MB)`,
-          impact: 'medium',
-          howToFix: 'Compress images, minify CSS/JS, remove unused resources'
-        })
-      }
-    }
-    
-    // Crawlability issues from real analysis
-    const crawlSection = analysis.sections.crawlability
-    if (!crawlSection.sitemap.exists) {
-      issues.push({
-        type: 'error',
-        category: 'Crawlability',
-        title: 'Missing XML Sitemap',
-        description: 'No XML sitemap found - search engines may miss important pages',
-        impact: 'high',
-        howToFix: 'Create and submit an XML sitemap to Google Search Console'
-      })
-    }
-    
-    if (!crawlSection.robotsTxt.exists) {
-      issues.push({
-        type: 'warning',
-        category: 'Crawlability',
-        title: 'Missing robots.txt',
-        description: 'No robots.txt file found to guide search engine crawling',
-        impact: 'medium',
-        howToFix: 'Create a robots.txt file with proper crawling instructions'
-      })
-    }
-    
-    // Meta and content issues from real analysis
-    const metaSection = analysis.sections.meta
-    if (metaSection.title.issues.length > 0) {
-      issues.push({
-        type: 'error',
-        category: 'Content',
-        title: 'Title Tag Issues',
-        description: metaSection.title.issues.join(', '),
-        impact: 'high',
-        howToFix: 'Optimize title tags to be 30-60 characters, unique and descriptive'
-      })
-    }
-    
-    if (metaSection.description.issues.length > 0) {
-      issues.push({
-        type: 'warning',
-        category: 'Content',
-        title: 'Meta Description Issues',
-        description: metaSection.description.issues.join(', '),
-        impact: 'medium',
-        howToFix: 'Write compelling meta descriptions between 120-160 characters'
-      })
-    }
-    
-    // Mobile and viewport issues
-    if (!analysis.sections.crawlability.langAttribute.exists) {
-      issues.push({
-        type: 'warning',
-        category: 'Mobile',
-        title: 'Missing Language Attribute',
-        description: 'HTML lang attribute not found',
-        impact: 'medium',
-        howToFix: 'Add lang="en" or appropriate language code to <html> tag'
-      })
-    }
-    
-    // Security and HTTPS
-    const extFactors = analysis.sections.externalFactors
-    if (!extFactors.https) {
-      issues.push({
-        type: 'error',
-        category: 'Security',
-        title: 'No HTTPS',
-        description: 'Site is not using HTTPS encryption',
-        impact: 'high',
-        howToFix: 'Enable HTTPS with a valid SSL certificate'
-      })
-    } else {
-      issues.push({
-        type: 'success',
-        category: 'Security',
-        title: 'HTTPS Enabled',
-        description: 'Site properly uses HTTPS encryption',
-        impact: 'low',
-        howToFix: 'No action needed - security properly configured'
-      })
-    }
-    
-    // Structured data
-    if (!extFactors.schemaMarkup.exists) {
-      issues.push({
-        type: 'warning',
-        category: 'Structure',
-        title: 'Missing Structured Data',
-        description: 'No schema markup found for rich snippets',
-        impact: 'medium',
-        howToFix: 'Add relevant JSON-LD structured data for better search results'
-      })
-    } else {
-      issues.push({
-        type: 'success',
-        category: 'Structure',
-        title: 'Structured Data Found',
-        description: `Found schema types: ${extFactors.schemaMarkup.types.join(', ')}`,
-        impact: 'low',
-        howToFix: 'No action needed - structured data properly implemented'
-      })
-    }
-    
-    return issues
-  }
-  
-  const technicalIssues: TechnicalIssue[] = generateRealTechnicalIssues()
+  // Reports saved before the rule engine have no structured issues
+  const technicalIssues: Issue[] = analysis.issues || []
 
   // 🚀 REAL technical metrics from actual analysis
   const technicalMetrics = {
@@ -202,8 +74,8 @@ export function TechnicalSEOAudit({ analysis, url }: TechnicalSEOAuditProps) {
     },
     indexability: {
       indexablePages: 1, // Single page analysis
-      nonIndexablePages: analysis.sections.crawlability.issues.filter(issue => 
-        issue.includes('robots') || issue.includes('noindex')
+      nonIndexablePages: technicalIssues.filter(issue =>
+        ['crawlability.noindex-header', 'crawlability.noindex-meta', 'crawlability.blocked-by-robots'].includes(issue.id)
       ).length,
       canonicalIssues: analysis.sections.crawlability.canonical.exists ? 0 : 1,
       metaRobotsIssues: 0 // Would need robots meta tag analysis
@@ -215,7 +87,7 @@ export function TechnicalSEOAudit({ analysis, url }: TechnicalSEOAuditProps) {
         '404': analysis.sections.linkStructure.externalLinks > analysis.sections.linkStructure.internalLinks ? 5 : 0 
       },
       duplicateContent: analysis.sections.meta.duplicates.title || analysis.sections.meta.duplicates.description ? 25 : 0,
-      brokenLinks: Math.max(0, analysis.sections.linkStructure.issues.length),
+      brokenLinks: analysis.sections.linkStructure.brokenLinks.length,
       redirectChains: 0 // Would need redirect chain analysis
     },
     performance: {
@@ -236,47 +108,45 @@ export function TechnicalSEOAudit({ analysis, url }: TechnicalSEOAuditProps) {
     setExpandedIssues(newExpanded)
   }
 
-  const getIssueIcon = (type: string) => {
-    switch (type) {
+  const getIssueIcon = (severity: IssueSeverity) => {
+    switch (severity) {
       case 'error': return <XCircle className="h-4 w-4 text-red-600" />
       case 'warning': return <AlertTriangle className="h-4 w-4 text-yellow-600" />
-      case 'success': return <CheckCircle className="h-4 w-4 text-green-600" />
+      case 'notice': return <Info className="h-4 w-4 text-blue-600" />
       default: return null
     }
   }
 
-  const getIssueColor = (type: string) => {
-    switch (type) {
+  const getIssueColor = (severity: IssueSeverity) => {
+    switch (severity) {
       case 'error': return 'border-red-200 bg-red-50'
       case 'warning': return 'border-yellow-200 bg-yellow-50'
-      case 'success': return 'border-green-200 bg-green-50'
+      case 'notice': return 'border-blue-200 bg-blue-50'
       default: return 'border-gray-200 bg-gray-50'
     }
   }
 
-  const getImpactBadge = (impact: string) => {
-    switch (impact) {
-      case 'high': return <Badge variant="destructive">High Impact</Badge>
-      case 'medium': return <Badge variant="secondary">Medium Impact</Badge>
-      case 'low': return <Badge variant="default">Low Impact</Badge>
-      default: return null
-    }
+  const getImpactBadge = (weight: number) => {
+    if (weight >= 8) return <Badge variant="destructive">High Impact</Badge>
+    if (weight >= 4) return <Badge variant="secondary">Medium Impact</Badge>
+    return <Badge variant="default">Low Impact</Badge>
   }
 
-  const filteredIssues = activeCategory === 'all' 
-    ? technicalIssues 
-    : technicalIssues.filter(issue => {
-        if (activeCategory === 'errors') return issue.type === 'error'
-        if (activeCategory === 'warnings') return issue.type === 'warning'
-        if (activeCategory === 'success') return issue.type === 'success'
-        return true
-      })
+  const describeEvidence = (evidence: IssueEvidence) =>
+    [evidence.selector, evidence.header, evidence.url, evidence.value !== undefined ? `= ${evidence.value}` : undefined, evidence.expected ? `(expected ${evidence.expected})` : undefined]
+      .filter(Boolean)
+      .join(' ')
+
+  const filteredIssues = activeCategory === 'all'
+    ? technicalIssues
+    : technicalIssues.filter(issue => issue.severity === activeCategory)
 
   const issueCount = {
-    errors: technicalIssues.filter(i => i.type === 'error').length,
-    warnings: technicalIssues.filter(i => i.type === 'warning').length,
-    success: technicalIssues.filter(i => i.type === 'success').length
+    error: technicalIssues.filter(i => i.severity === 'error').length,
+    warning: technicalIssues.filter(i => i.severity === 'warning').length,
+    notice: technicalIssues.filter(i => i.severity === 'notice').length
   }
+  const healthScore = Math.max(0, 100 - technicalIssues.reduce((sum, issue) => sum + issue.weight, 0))
 
   return (
     <div className="space-y-6">
@@ -291,28 +161,26 @@ export function TechnicalSEOAudit({ analysis, url }: TechnicalSEOAuditProps) {
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
             <div className="text-center p-4 bg-red-50 rounded-lg">
-              <div className="text-2xl font-bold text-red-600">{issueCount.errors}</div>
+              <div className="text-2xl font-bold text-red-600">{issueCount.error}</div>
               <div className="text-sm text-gray-600">Critical Errors</div>
             </div>
             <div className="text-center p-4 bg-yellow-50 rounded-lg">
-              <div className="text-2xl font-bold text-yellow-600">{issueCount.warnings}</div>
+              <div className="text-2xl font-bold text-yellow-600">{issueCount.warning}</div>
               <div className="text-sm text-gray-600">Warnings</div>
             </div>
-            <div className="text-center p-4 bg-green-50 rounded-lg">
-              <div className="text-2xl font-bold text-green-600">{issueCount.success}</div>
-              <div className="text-sm text-gray-600">Passed Tests</div>
-            </div>
             <div className="text-center p-4 bg-blue-50 rounded-lg">
-              <div className="text-2xl font-bold text-blue-600">
-                {Math.round((issueCount.success / technicalIssues.length) * 100)}%
-              </div>
+              <div className="text-2xl font-bold text-blue-600">{issueCount.notice}</div>
+              <div className="text-sm text-gray-600">Notices</div>
+            </div>
+            <div className="text-center p-4 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">{healthScore}%</div>
               <div className="text-sm text-gray-600">Health Score</div>
             </div>
           </div>
 
           {/* Filter Buttons */}
           <div className="flex space-x-2 mb-6">
-            {(['all', 'errors', 'warnings', 'success'] as const).map((filter) => (
+            {(['all', 'error', 'warning', 'notice'] as const).map((filter) => (
               <Button
                 key={filter}
                 variant={activeCategory === filter ? 'default' : 'outline'}
@@ -321,32 +189,38 @@ export function TechnicalSEOAudit({ analysis, url }: TechnicalSEOAuditProps) {
                 className="capitalize"
               >
                 {filter === 'all' && 'All Issues'}
-                {filter === 'errors' && `Errors (${issueCount.errors})`}
-                {filter === 'warnings' && `Warnings (${issueCount.warnings})`}
-                {filter === 'success' && `Passed (${issueCount.success})`}
+                {filter === 'error' && `Errors (${issueCount.error})`}
+                {filter === 'warning' && `Warnings (${issueCount.warning})`}
+                {filter === 'notice' && `Notices (${issueCount.notice})`}
               </Button>
             ))}
           </div>
 
           {/* Issues List */}
           <div className="space-y-3">
+            {filteredIssues.length === 0 && (
+              <div className="flex items-center gap-2 text-sm text-green-600">
+                <CheckCircle className="h-4 w-4" />
+                No issues in this category
+              </div>
+            )}
             {filteredIssues.map((issue, index) => (
-              <Collapsible key={index}>
-                <div className={`border rounded-lg p-4 ${getIssueColor(issue.type)}`}>
+              <Collapsible key={issue.id}>
+                <div className={`border rounded-lg p-4 ${getIssueColor(issue.severity)}`}>
                   <CollapsibleTrigger 
                     className="w-full"
                     onClick={() => toggleIssue(index)}
                   >
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
-                        {getIssueIcon(issue.type)}
+                        {getIssueIcon(issue.severity)}
                         <div className="text-left">
                           <div className="font-medium">{issue.title}</div>
-                          <div className="text-sm text-gray-600">{issue.category}</div>
+                          <div className="text-sm text-gray-600">{CATEGORY_LABELS[issue.category]}</div>
                         </div>
                       </div>
                       <div className="flex items-center gap-2">
-                        {getImpactBadge(issue.impact)}
+                        {getImpactBadge(issue.weight)}
                       </div>
                     </div>
                   </CollapsibleTrigger>
@@ -355,12 +229,23 @@ export function TechnicalSEOAudit({ analysis, url }: TechnicalSEOAuditProps) {
                     <div className="space-y-3 pl-7">
                       <div>
                         <div className="font-medium text-sm">Description:</div>
-                        <div className="text-sm text-gray-600">{issue.description}</div>
+                        <div className="text-sm text-gray-600">{issue.message}</div>
                       </div>
+                      {issue.evidence.length > 0 && (
+                        <div>
+                          <div className="font-medium text-sm">Evidence:</div>
+                          <ul className="text-xs text-gray-600 font-mono space-y-1">
+                            {issue.evidence.map((evidence, evidenceIndex) => (
+                              <li key={evidenceIndex} className="truncate">{describeEvidence(evidence)}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
                       <div>
                         <div className="font-medium text-sm">How to Fix:</div>
-                        <div className="text-sm text-gray-600">{issue.howToFix}</div>
+                        <div className="text-sm text-gray-600">{issue.fix.summary}</div>
                       </div>
+                      <div className="text-xs text-gray-400 font-mono">{issue.id}</div>
                     </div>
                   </CollapsibleContent>
                 </div>
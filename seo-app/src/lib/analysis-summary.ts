@@ -0,0 +1,95 @@
+import { SEOAnalysis } from '@/types/seo'
+import { STRUCTURED_DATA_SYNTAX_NAMES } from './structured-data-validator'
+
+const yesNo = (value: boolean | undefined) => (value ? 'Yes' : 'No')
+
+export class AnalysisSummary {
+  /**
+   * Plain-text digest of a full analysis, section by section, for AI prompts
+   */
+  static forPrompt(analysis: SEOAnalysis, maxIssues = 15): string {
+    const { meta, pageQuality, linkStructure, pageStructure, performance, crawlability, externalFactors, redirects, headers } = analysis.sections
+    const vitals = performance.coreWebVitals
+      ? Object.entries(performance.coreWebVitals)
+          .filter(([, metric]) => metric && metric.displayValue !== 'N/A')
+          .map(([key, metric]) => `${key.toUpperCase()} ${metric!.displayValue} (${metric!.category})`)
+          .join(', ')
+      : ''
+    const syntaxes = (externalFactors.schemaMarkup.validation?.syntaxes || []).map(syntax => STRUCTURED_DATA_SYNTAX_NAMES[syntax]).join(', ')
+    const richResults = (externalFactors.schemaMarkup.validation?.richResults || [])
+      .map(result => `${result.name} ${result.eligible ? 'eligible' : `not eligible (missing ${result.missing.join(', ')})`}`)
+      .join('; ')
+    const issues = analysis.issues.slice(0, maxIssues)
+
+    const lines = [
+      `OVERALL SCORE: ${Math.round(analysis.overallScore)}/100${analysis.scoringProfile ? ` (${analysis.scoringProfile.name} scoring profile)` : ''}`,
+      '',
+      `META TAGS (score ${meta.score}):`,
+      `- Title: ${meta.title.content || 'Missing'} (${meta.title.length} chars)`,
+      `- Meta Description: ${meta.description.content || 'Missing'} (${meta.description.length} chars)`,
+      '',
+      `PAGE QUALITY (score ${pageQuality.score}):`,
+      `- Word Count: ${pageQuality.wordCount}`,
+      `- Images: ${pageQuality.imageCount} (${pageQuality.imagesWithoutAlt} missing alt text)`,
+      `- Headings: H1 ${pageQuality.headingsCount.h1}, H2 ${pageQuality.headingsCount.h2}, H3 ${pageQuality.headingsCount.h3}`,
+      '',
+      `PAGE STRUCTURE (score ${pageStructure.score}):`,
+      `- H1 Text: ${pageStructure.headingStructure.h1Text.join(' | ') || 'None'}`,
+      `- Proper Heading Hierarchy: ${yesNo(pageStructure.headingStructure.properHierarchy)}`,
+      `- DOM Depth: ${pageStructure.domDepth}`,
+      '',
+      `LINK STRUCTURE (score ${linkStructure.score}):`,
+      `- Internal Links: ${linkStructure.internalLinks}`,
+      `- External Links: ${linkStructure.externalLinks}`,
+      `- Broken Links: ${linkStructure.brokenLinks.length} of ${linkStructure.linksChecked} checked`,
+      `- Redirected Links: ${linkStructure.redirectedLinks.length}`,
+      '',
+      `PERFORMANCE (score ${performance.score}, source: ${performance.source || 'estimate'}):`,
+      `- Response Time: ${performance.responseTime}ms`,
+      `- Page Size: ${Math.round(performance.pageSize / 1024)} KB`,
+      `- Assets: ${performance.assetsCount.css} CSS, ${performance.assetsCount.js} JS, ${performance.assetsCount.images} images`,
+      `- Core Web Vitals: ${vitals || 'Not measured'}`,
+      ...(performance.opportunities || []).slice(0, 3).map(opportunity => `- Opportunity: ${opportunity.title}${opportunity.potentialSavings ? ` (saves ${opportunity.potentialSavings})` : ''}`),
+      '',
+      `CRAWLABILITY (score ${crawlability.score}):`,
+      `- robots.txt: ${crawlability.robotsTxt.exists ? 'Found' : 'Missing'}`,
+      `- Sitemap: ${crawlability.sitemap.exists ? crawlability.sitemap.url || 'Found' : 'Missing'}`,
+      ...(crawlability.sitemapHealth
+        ? [`- Sitemap URLs Sampled: ${crawlability.sitemapHealth.sampledUrls} of ${crawlability.sitemapHealth.totalUrls}, ${crawlability.sitemapHealth.healthyUrls} healthy`]
+        : []),
+      `- Canonical: ${crawlability.canonical.exists ? `${crawlability.canonical.url}${crawlability.canonical.isSelf ? ' (self)' : ''}` : 'Missing'}`,
+      `- Indexable: ${yesNo(!crawlability.indexability.noindex)}${crawlability.indexability.nofollow ? ' (nofollow)' : ''}`,
+      `- Language: ${crawlability.langAttribute.value || 'Not set'}`,
+      '',
+      `EXTERNAL FACTORS (score ${externalFactors.score}):`,
+      `- HTTPS: ${yesNo(externalFactors.https)}`,
+      `- Favicon: ${yesNo(externalFactors.favicon.exists)}`,
+      `- Open Graph: ${externalFactors.openGraph.title ? 'Yes' : 'No'}${externalFactors.openGraph.image ? ' (with image)' : ''}`,
+      `- Twitter Card: ${externalFactors.twitterCard.card || 'None'}`,
+      `- Structured Data: ${externalFactors.schemaMarkup.types.join(', ') || 'None'}${syntaxes ? ` (${syntaxes})` : ''}`,
+      `- Rich Results: ${richResults || 'None'}`,
+      '',
+      `REDIRECTS (score ${redirects.score}):`,
+      `- Final URL: ${redirects.finalUrl} (${redirects.hops.length} hops${redirects.hasLoop ? ', loop detected' : ''})`,
+      `- HTTPS Enforced: ${redirects.httpsEnforced === undefined ? 'Unknown' : yesNo(redirects.httpsEnforced)}`,
+      '',
+      `HTTP HEADERS (score ${headers.score}):`,
+      `- Cacheable: ${yesNo(headers.caching.isCacheable)}`,
+      `- Compressed: ${yesNo(headers.compression.isCompressed)}`,
+      `- HSTS: ${yesNo(Boolean(headers.security.hsts))}`,
+      ...(analysis.rendering
+        ? ['', 'JAVASCRIPT RENDERING:', ...analysis.rendering.issues.map(issue => `- ${issue}`)]
+        : []),
+      ...(analysis.cloaking
+        ? ['', 'GOOGLEBOT VS BROWSER:', ...(analysis.cloaking.issues.length > 0 ? analysis.cloaking.issues.map(issue => `- ${issue}`) : ['- Same response'])]
+        : []),
+      '',
+      `ISSUES (${analysis.issues.length} total, most important first):`,
+      ...(issues.length > 0
+        ? issues.map(issue => `• [${issue.severity}] ${issue.message} (fix: ${issue.fix.summary})`)
+        : ['No major issues found'])
+    ]
+
+    return lines.join('\n')
+  }
+}
@@ -0,0 +1,49 @@
+import type { Profile } from './supabase'
+
+// Shared by the browser, which creates keys, and the API routes, which check them
+export const API_KEY_PREFIX = 'seo_'
+
+export type SubscriptionTier = Profile['subscription_tier']
+
+export interface ApiTierLimits {
+  requestsPerMinute: number
+  scansPerDay: number
+}
+
+// Per-key request rate and per-account scan quota of the public API
+export const API_TIER_LIMITS: Record<SubscriptionTier, ApiTierLimits> = {
+  free: { requestsPerMinute: 10, scansPerDay: 3 },
+  pro: { requestsPerMinute: 60, scansPerDay: 500 },
+  enterprise: { requestsPerMinute: 300, scansPerDay: 5000 }
+}
+
+const KEY_BYTES = 24
+// Characters stored in the clear so users can tell their keys apart
+const DISPLAY_PREFIX_LENGTH = API_KEY_PREFIX.length + 8
+
+export class ApiKeys {
+  /**
+   * A new random key; it is shown to the user once and only its hash is stored
+   */
+  static generate(): string {
+    const bytes = crypto.getRandomValues(new Uint8Array(KEY_BYTES))
+    const encoded = btoa(String.fromCharCode(...bytes)).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+    return `${API_KEY_PREFIX}${encoded}`
+  }
+
+  /**
+   * Hex SHA-256 of a key. Keys are long and random, so an unsalted hash is enough to look them up safely.
+   */
+  static async hash(key: string): Promise<string> {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(key))
+    return Array.from(new Uint8Array(digest)).map(byte => byte.toString(16).padStart(2, '0')).join('')
+  }
+
+  static displayPrefix(key: string): string {
+    return key.slice(0, DISPLAY_PREFIX_LENGTH)
+  }
+
+  static looksLikeKey(value: string): boolean {
+    return value.startsWith(API_KEY_PREFIX) && value.length > DISPLAY_PREFIX_LENGTH
+  }
+}
@@ -0,0 +1,319 @@
+import { randomUUID } from 'crypto'
+import { IssueSeverity, ScoringProfileRef, SEOAnalysis } from '@/types/seo'
+import { mapWithConcurrency, normalizeUrl, validateUrl } from './utils'
+import { SEOAnalyzer } from './seo-analyzer'
+import { SitemapSampleSize } from './sitemap-health-checker'
+import { CrawlerSettings } from './crawler-identity'
+import { DEFAULT_SCORING_PROFILE, ScoringProfile, ScoringProfiles, SectionKey } from './scoring-profiles'
+import { ScanJobStatus } from './scan-jobs'
+import { getServiceSupabaseClient } from './supabase-server'
+
+export interface BulkScanOptions {
+  concurrency?: number
+  sitemapSampleSize?: SitemapSampleSize
+  scoringProfile?: ScoringProfile
+  crawler?: CrawlerSettings
+}
+
+export interface BulkIssueSummary {
+  id: string
+  title: string
+  severity: IssueSeverity
+}
+
+// One row of the aggregate table
+export interface BulkScanRow {
+  url: string
+  status: 'completed' | 'failed'
+  overallScore?: number
+  sectionScores?: Record<SectionKey, number>
+  issueCount?: number
+  topIssues?: BulkIssueSummary[]
+  // scan_reports row holding the full analysis
+  reportId?: string
+  error?: string
+}
+
+export interface SharedIssue extends BulkIssueSummary {
+  pageCount: number
+  urls: string[]
+}
+
+export interface BulkScanSummary {
+  total: number
+  completed: number
+  failed: number
+  averageScore: number
+  // Issues found on more than one page, most widespread first
+  sharedIssues: SharedIssue[]
+}
+
+export interface BulkScan {
+  id: string
+  userId: string
+  // pending while URLs are still being scanned; per-URL failures do not fail the batch
+  status: ScanJobStatus
+  scoringProfile: ScoringProfileRef
+  urls: string[]
+  rows: BulkScanRow[]
+  summary: BulkScanSummary
+  createdAt: string
+  updatedAt: string
+}
+
+export const MAX_BULK_URLS = 200
+
+const DEFAULT_CONCURRENCY = 3
+const MAX_CONCURRENCY = 6
+const TOP_ISSUES_PER_URL = 3
+// Finished batches are dropped from memory after this; persisted ones can still be read back from scan_reports
+const BATCH_RETENTION_MS = 60 * 60 * 1000
+
+const batches = new Map<string, BulkScan>()
+// Every issue per URL, kept beside the batch so shared issues are not limited to each row's top issues
+const batchIssues = new Map<string, Map<string, BulkIssueSummary[]>>()
+
+export class BulkScanner {
+  /**
+   * Pull URLs out of a JSON list or CSV text: the first URL-looking cell of each line is used,
+   * so header rows and extra columns are ignored. Duplicates are dropped.
+   */
+  static parseUrls(input: string | string[]): string[] {
+    const lines = Array.isArray(input) ? input : input.split(/\r?\n/)
+    const urls = new Set<string>()
+
+    for (const line of lines) {
+      const cell = String(line)
+        .split(/[,;\t]/)
+        .map(value => value.trim().replace(/^["']|["']$/g, ''))
+        .find(value => /^https?:\/\//i.test(value) || /^[\w-]+(\.[\w-]+)+(\/|$)/.test(value))
+      if (!cell) continue
+
+      const url = normalizeUrl(cell)
+      if (validateUrl(url)) urls.add(url)
+    }
+
+    return Array.from(urls)
+  }
+
+  /**
+   * Start scanning a list of URLs for an authenticated user in the background and return the pending batch.
+   * Each URL is saved as a scan_reports row sharing the batch_id.
+   */
+  static start(urls: string[], options: BulkScanOptions, userId: string): BulkScan {
+    const now = new Date().toISOString()
+    const profile = options.scoringProfile || DEFAULT_SCORING_PROFILE
+    const batch: BulkScan = {
+      id: randomUUID(),
+      userId,
+      status: 'pending',
+      scoringProfile: ScoringProfiles.reference(profile),
+      urls,
+      rows: [],
+      summary: this.summarize([], urls.length, new Map()),
+      createdAt: now,
+      updatedAt: now
+    }
+    batches.set(batch.id, batch)
+    batchIssues.set(batch.id, new Map())
+
+    void this.run(batch, { ...options, scoringProfile: profile })
+    return batch
+  }
+
+  /**
+   * Current state of one of the user's batches, falling back to its scan_reports rows once it has left memory.
+   * Other users' batches are treated as missing.
+   */
+  static async get(id: string, userId: string): Promise<BulkScan | undefined> {
+    const batch = batches.get(id)
+    if (batch) return batch.userId === userId ? batch : undefined
+    return this.load(id, userId)
+  }
+
+  /**
+   * URLs of the user's batches still waiting to be scanned. They have no scan_reports row yet,
+   * so quota checks add them to the scans saved today.
+   */
+  static queuedUrls(userId: string): number {
+    let queued = 0
+    for (const batch of batches.values()) {
+      if (batch.userId === userId && batch.status === 'pending') queued += batch.urls.length - batch.rows.length
+    }
+    return queued
+  }
+
+  /**
+   * The aggregate table as CSV, one row per URL
+   */
+  static toCsv(batch: BulkScan): string {
+    // Text from scanned pages that looks like a formula is prefixed with ' so spreadsheets show it as text
+    const escape = (value: string | number | undefined) => {
+      const raw = value === undefined ? '' : String(value)
+      const text = typeof value === 'string' && /^[=+\-@]/.test(raw) ? `'${raw}` : raw
+      return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+    }
+
+    const header = ['url', 'status', 'overall_score', 'issue_count', 'top_issues', 'error']
+    const lines = batch.rows.map(row => [
+      row.url,
+      row.status,
+      row.overallScore,
+      row.issueCount,
+      row.topIssues?.map(issue => issue.title).join('; '),
+      row.error
+    ].map(escape).join(','))
+
+    return [header.join(','), ...lines].join('\n')
+  }
+
+  private static async run(batch: BulkScan, options: BulkScanOptions) {
+    const concurrency = Math.min(MAX_CONCURRENCY, Math.max(1, Math.floor(options.concurrency ?? DEFAULT_CONCURRENCY)))
+
+    // One failing URL is recorded as a failed row and never stops the rest of the batch
+    await mapWithConcurrency(batch.urls, concurrency, async url => {
+      let row: BulkScanRow
+      try {
+        const analysis = await SEOAnalyzer.analyze(url, { sitemapSampleSize: options.sitemapSampleSize, scoringProfile: options.scoringProfile, crawler: options.crawler })
+        const reportId = await this.persist(batch, url, analysis)
+        row = this.toRow(url, analysis, reportId)
+        batchIssues.get(batch.id)?.set(url, this.issueSummaries(analysis))
+      } catch (error) {
+        row = { url, status: 'failed', error: error instanceof Error ? error.message : 'Unknown error' }
+        await this.persist(batch, url, undefined, row.error)
+      }
+
+      batch.rows.push(row)
+      this.touch(batch)
+    })
+
+    // Present rows in the order the URLs were submitted
+    batch.rows.sort((a, b) => batch.urls.indexOf(a.url) - batch.urls.indexOf(b.url))
+    batch.status = 'completed'
+    this.touch(batch)
+
+    setTimeout(() => {
+      batches.delete(batch.id)
+      batchIssues.delete(batch.id)
+    }, BATCH_RETENTION_MS).unref?.()
+  }
+
+  private static toRow(url: string, analysis: SEOAnalysis, reportId?: string): BulkScanRow {
+    const sectionScores = Object.fromEntries(
+      Object.entries(analysis.sections).map(([key, section]) => [key, section.score])
+    ) as Record<SectionKey, number>
+
+    return {
+      url,
+      status: 'completed',
+      overallScore: Math.round(analysis.overallScore),
+      sectionScores,
+      issueCount: analysis.issues.length,
+      // Issues arrive sorted by severity and weight, so the first few are the most important
+      topIssues: this.issueSummaries(analysis).slice(0, TOP_ISSUES_PER_URL),
+      reportId
+    }
+  }
+
+  private static issueSummaries(analysis: SEOAnalysis): BulkIssueSummary[] {
+    return analysis.issues.map(issue => ({ id: issue.id, title: issue.title, severity: issue.severity }))
+  }
+
+  private static touch(batch: BulkScan) {
+    batch.summary = this.summarize(batch.rows, batch.urls.length, batchIssues.get(batch.id) || new Map())
+    batch.updatedAt = new Date().toISOString()
+  }
+
+  private static summarize(rows: BulkScanRow[], total: number, issuesByUrl: Map<string, BulkIssueSummary[]>): BulkScanSummary {
+    const scores = rows.flatMap(row => (row.overallScore === undefined ? [] : [row.overallScore]))
+
+    // Grouped by rule ID, so "3 images missing alt" and "5 images missing alt" count as one shared issue
+    const shared = new Map<string, SharedIssue>()
+    for (const [url, issues] of issuesByUrl) {
+      for (const issue of issues) {
+        const entry = shared.get(issue.id) || { ...issue, pageCount: 0, urls: [] }
+        if (entry.urls.includes(url)) continue
+        entry.pageCount++
+        entry.urls.push(url)
+        shared.set(issue.id, entry)
+      }
+    }
+
+    return {
+      total,
+      completed: rows.filter(row => row.status === 'completed').length,
+      failed: rows.filter(row => row.status === 'failed').length,
+      averageScore: scores.length > 0 ? Math.round(scores.reduce((sum, score) => sum + score, 0) / scores.length) : 0,
+      sharedIssues: Array.from(shared.values())
+        .filter(issue => issue.pageCount > 1)
+        .sort((a, b) => b.pageCount - a.pageCount)
+    }
+  }
+
+  private static async persist(batch: BulkScan, url: string, analysis?: SEOAnalysis, error?: string): Promise<string | undefined> {
+    const supabase = getServiceSupabaseClient()
+    if (!supabase) return undefined
+
+    const { data, error: insertError } = await supabase
+      .from('scan_reports')
+      .insert({
+        user_id: batch.userId,
+        batch_id: batch.id,
+        url,
+        title: `SEO Analysis - ${new URL(url).hostname}`,
+        description: `SEO analysis for ${url}`,
+        seo_score: analysis ? Math.round(analysis.overallScore) : undefined,
+        performance_score: analysis ? Math.round(analysis.sections.performance.score) : undefined,
+        report_data: analysis || { error },
+        status: analysis ? 'completed' : 'failed'
+      })
+      .select('id')
+      .single()
+
+    if (insertError) {
+      console.error('Error saving bulk scan report:', insertError)
+      return undefined
+    }
+
+    return data.id
+  }
+
+  private static async load(id: string, userId: string): Promise<BulkScan | undefined> {
+    const supabase = getServiceSupabaseClient()
+    if (!supabase) return undefined
+
+    const { data, error } = await supabase
+      .from('scan_reports')
+      .select('id, user_id, url, status, report_data, created_at')
+      .eq('batch_id', id)
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true })
+
+    if (error || !data || data.length === 0) return undefined
+
+    const issuesByUrl = new Map<string, BulkIssueSummary[]>()
+    const rows: BulkScanRow[] = data.map(report => {
+      if (report.status !== 'completed') {
+        return { url: report.url, status: 'failed', error: report.report_data?.error, reportId: report.id }
+      }
+      issuesByUrl.set(report.url, this.issueSummaries(report.report_data))
+      return this.toRow(report.url, report.report_data, report.id)
+    })
+
+    const urls = rows.map(row => row.url)
+    const completedReport = data.find(report => report.status === 'completed')
+
+    // Only finished URLs are saved, so a batch read back from storage is complete as far as it got
+    return {
+      id,
+      userId,
+      status: 'completed',
+      scoringProfile: completedReport?.report_data.scoringProfile || ScoringProfiles.reference(DEFAULT_SCORING_PROFILE),
+      urls,
+      rows,
+      summary: this.summarize(rows, urls.length, issuesByUrl),
+      createdAt: data[0].created_at,
+      updatedAt: data[data.length - 1].created_at
+    }
+  }
+}
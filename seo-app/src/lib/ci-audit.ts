@@ -0,0 +1,229 @@
+import { IssueCategory, IssueSeverity, ScoreLedgerEntry, ScoringProfileRef, SEOAnalysis } from '@/types/seo'
+
+// 'none' never fails on issues; only the score threshold and listed rules can fail the audit
+export type FailOnSeverity = IssueSeverity | 'none'
+
+export interface AuditThresholds {
+  minScore?: number
+  failOn: FailOnSeverity
+  // Rule IDs that fail the audit whenever they trigger, whatever their severity
+  failRules: string[]
+}
+
+export interface AuditedPage {
+  url: string
+  // Path inside the build for directory audits
+  path?: string
+  analysis?: SEOAnalysis
+  // Why the page could not be analyzed; fails the audit
+  error?: string
+}
+
+// One rule's outcome on one page
+export interface AuditCheck {
+  ruleId: string
+  // 'audit' holds the checks the auditor adds itself: the score threshold and whether the page could be scanned
+  category: IssueCategory | 'audit'
+  title: string
+  // The rule found a problem
+  triggered: boolean
+  // The problem breaks a threshold and fails the audit
+  failed: boolean
+  severity?: IssueSeverity
+  message: string
+  fix?: string
+}
+
+export interface PageAuditResult {
+  url: string
+  path?: string
+  score: number
+  passed: boolean
+  checks: AuditCheck[]
+}
+
+export interface AuditResult {
+  target: string
+  scoringProfile?: ScoringProfileRef
+  thresholds: AuditThresholds
+  passed: boolean
+  pages: PageAuditResult[]
+  timestamp: string
+}
+
+const SEVERITY_RANK: Record<IssueSeverity, number> = { error: 0, warning: 1, notice: 2 }
+
+const xml = (value: string | number) => String(value)
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  // Control characters are not allowed in XML 1.0
+  // eslint-disable-next-line no-control-regex
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+
+export class CiAudit {
+  /**
+   * Hold analyzed pages against the thresholds: every rule that was scored becomes a check,
+   * plus one check for the overall score when a minimum is set
+   */
+  static evaluate(target: string, pages: AuditedPage[], thresholds: AuditThresholds): AuditResult {
+    const results = pages.map(page => this.evaluatePage(page, thresholds))
+
+    return {
+      target,
+      scoringProfile: pages.find(page => page.analysis)?.analysis?.scoringProfile,
+      thresholds,
+      passed: results.every(result => result.passed),
+      pages: results,
+      timestamp: new Date().toISOString()
+    }
+  }
+
+  static toJson(result: AuditResult): string {
+    return JSON.stringify(result, null, 2)
+  }
+
+  static toText(result: AuditResult): string {
+    const lines = [`SEO audit of ${result.target}${result.scoringProfile ? ` (${result.scoringProfile.name} profile v${result.scoringProfile.version})` : ''}`, '']
+
+    for (const page of result.pages) {
+      lines.push(`${page.passed ? 'PASS' : 'FAIL'}  ${page.path || page.url}  score ${page.score}/100`)
+      for (const check of page.checks.filter(check => check.triggered)) {
+        const marker = check.failed ? '  ✖' : '  ·'
+        lines.push(`${marker} ${check.severity ? `[${check.severity}] ` : ''}${check.ruleId}: ${check.message}`)
+        if (check.failed && check.fix) lines.push(`      fix: ${check.fix}`)
+      }
+      lines.push('')
+    }
+
+    const failedPages = result.pages.filter(page => !page.passed).length
+    const gates = [
+      result.thresholds.minScore !== undefined ? `min score ${result.thresholds.minScore}` : undefined,
+      `fail on ${result.thresholds.failOn}`,
+      result.thresholds.failRules.length > 0 ? `rules ${result.thresholds.failRules.join(', ')}` : undefined
+    ].filter(Boolean).join(', ')
+    lines.push(result.passed
+      ? `PASSED: ${result.pages.length} ${result.pages.length === 1 ? 'page' : 'pages'} audited (${gates})`
+      : `FAILED: ${failedPages} of ${result.pages.length} ${result.pages.length === 1 ? 'page' : 'pages'} failed (${gates})`)
+
+    return lines.join('\n')
+  }
+
+  /**
+   * JUnit XML with one test suite per page and one test case per rule, so CI systems list each rule's result
+   */
+  static toJUnit(result: AuditResult): string {
+    const total = result.pages.reduce((sum, page) => sum + page.checks.length, 0)
+    const failures = result.pages.reduce((sum, page) => sum + page.checks.filter(check => check.failed).length, 0)
+
+    const suites = result.pages.map(page => {
+      const cases = page.checks.map(check => {
+        const open = `    <testcase classname="seo.${xml(check.category)}" name="${xml(`${check.ruleId}: ${check.title}`)}" time="0"`
+        if (check.failed) {
+          const details = [check.message, check.fix ? `Fix: ${check.fix}` : undefined].filter(Boolean).join('\n')
+          return `${open}>\n      <failure type="${xml(check.severity || 'threshold')}" message="${xml(check.message)}">${xml(details)}</failure>\n    </testcase>`
+        }
+        // Problems below the failure threshold still show up in the test output
+        if (check.triggered) {
+          return `${open}>\n      <system-out>${xml(`[${check.severity}] ${check.message}`)}</system-out>\n    </testcase>`
+        }
+        return `${open} />`
+      })
+
+      return [
+        `  <testsuite name="${xml(page.path || page.url)}" tests="${page.checks.length}" failures="${page.checks.filter(check => check.failed).length}" errors="0" skipped="0" timestamp="${xml(result.timestamp)}">`,
+        '    <properties>',
+        `      <property name="url" value="${xml(page.url)}" />`,
+        `      <property name="score" value="${page.score}" />`,
+        '    </properties>',
+        ...cases,
+        '  </testsuite>'
+      ].join('\n')
+    })
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<testsuites name="${xml(`seo-audit ${result.target}`)}" tests="${total}" failures="${failures}" errors="0">`,
+      ...suites,
+      '</testsuites>',
+      ''
+    ].join('\n')
+  }
+
+  private static evaluatePage(page: AuditedPage, thresholds: AuditThresholds): PageAuditResult {
+    const { analysis } = page
+    if (!analysis) {
+      const message = `Page could not be analyzed: ${page.error || 'Unknown error'}`
+      return {
+        url: page.url,
+        path: page.path,
+        score: 0,
+        passed: false,
+        checks: [{ ruleId: 'page-scanned', category: 'audit', title: 'Page can be analyzed', triggered: true, failed: true, message }]
+      }
+    }
+
+    const score = Math.round(analysis.overallScore)
+    const issues = new Map(analysis.issues.map(issue => [issue.id, issue]))
+    const checks: AuditCheck[] = []
+    const seen = new Set<string>()
+
+    const fails = (ruleId: string, severity: IssueSeverity) =>
+      thresholds.failRules.includes(ruleId) || (thresholds.failOn !== 'none' && SEVERITY_RANK[severity] <= SEVERITY_RANK[thresholds.failOn])
+
+    if (thresholds.minScore !== undefined) {
+      const below = score < thresholds.minScore
+      checks.push({
+        ruleId: 'overall-score',
+        category: 'audit',
+        title: `Overall score of at least ${thresholds.minScore}`,
+        triggered: below,
+        failed: below,
+        message: `Overall score is ${score}${below ? `, below the minimum of ${thresholds.minScore}` : ''}`
+      })
+    }
+
+    // The score ledgers list every rule that was scored, passing or not
+    for (const [category, section] of Object.entries(analysis.sections) as Array<[IssueCategory, { ledger?: ScoreLedgerEntry[] }]>) {
+      for (const entry of section.ledger || []) {
+        const issue = issues.get(entry.ruleId)
+        const triggered = entry.points < entry.maxPoints
+        seen.add(entry.ruleId)
+        checks.push({
+          ruleId: entry.ruleId,
+          category,
+          title: entry.check,
+          triggered,
+          failed: triggered && !!issue && fails(issue.id, issue.severity),
+          severity: triggered ? issue?.severity : undefined,
+          message: issue?.message || entry.reason,
+          fix: issue?.fix.summary
+        })
+      }
+    }
+
+    // Issues outside the ledgers, such as JavaScript rendering differences
+    for (const issue of analysis.issues) {
+      if (seen.has(issue.id)) continue
+      checks.push({
+        ruleId: issue.id,
+        category: issue.category,
+        title: issue.title,
+        triggered: true,
+        failed: fails(issue.id, issue.severity),
+        severity: issue.severity,
+        message: issue.message,
+        fix: issue.fix.summary
+      })
+    }
+
+    return {
+      url: page.url,
+      path: page.path,
+      score,
+      passed: checks.every(check => !check.failed),
+      checks
+    }
+  }
+}
@@ -0,0 +1,81 @@
+import { CloakingAnalysis, ComparedField } from '@/types/seo'
+import { CrawlerIdentity } from './crawler-identity'
+import type { PageSnapshot } from './page-renderer'
+import { RuleEngine } from './rule-engine'
+import { SafeFetch } from './safe-fetch'
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './scoring-profiles'
+
+export interface FetchedVariant {
+  userAgent: string
+  status: number
+  finalUrl: string
+  html: string
+}
+
+export interface VariantSnapshot {
+  userAgent: string
+  status: number
+  finalUrl: string
+  snapshot: PageSnapshot
+}
+
+const FETCH_TIMEOUT_MS = 15000
+
+export class CloakingChecker {
+  /**
+   * Fetch the page as a desktop browser and as Googlebot Smartphone. Cookies and credentials of the scan's
+   * crawler settings are still sent, so pages behind staging auth compare like for like.
+   */
+  static async fetchVariants(url: string): Promise<{ browser: FetchedVariant; googlebot: FetchedVariant }> {
+    const [browser, googlebot] = await Promise.all([
+      this.fetchAs(url, CrawlerIdentity.presetUserAgent('browser')),
+      this.fetchAs(url, CrawlerIdentity.presetUserAgent('googlebot-smartphone'))
+    ])
+    return { browser, googlebot }
+  }
+
+  /**
+   * Compare what browsers and Googlebot are served and flag differences that look like cloaking
+   */
+  static compare(browser: VariantSnapshot, googlebot: VariantSnapshot, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): CloakingAnalysis {
+    const field = (browserValue?: string, googlebotValue?: string): ComparedField => ({
+      browser: browserValue || undefined,
+      googlebot: googlebotValue || undefined,
+      changed: (browserValue || '') !== (googlebotValue || '')
+    })
+
+    const browserLinks = new Set(browser.snapshot.links)
+    const googlebotLinks = new Set(googlebot.snapshot.links)
+    const analysis: CloakingAnalysis = {
+      browserUserAgent: browser.userAgent,
+      googlebotUserAgent: googlebot.userAgent,
+      status: { browser: browser.status, googlebot: googlebot.status },
+      finalUrl: { browser: browser.finalUrl, googlebot: googlebot.finalUrl },
+      diff: {
+        title: field(browser.snapshot.title, googlebot.snapshot.title),
+        description: field(browser.snapshot.description, googlebot.snapshot.description),
+        canonical: field(browser.snapshot.canonical, googlebot.snapshot.canonical),
+        metaRobots: field(browser.snapshot.metaRobots, googlebot.snapshot.metaRobots),
+        h1: field(browser.snapshot.h1, googlebot.snapshot.h1),
+        wordCount: { browser: browser.snapshot.wordCount, googlebot: googlebot.snapshot.wordCount },
+        linkCount: { browser: browserLinks.size, googlebot: googlebotLinks.size },
+        linksOnlyForGooglebot: googlebot.snapshot.links.filter(link => !browserLinks.has(link)).slice(0, 50),
+        linksOnlyForBrowser: browser.snapshot.links.filter(link => !googlebotLinks.has(link)).slice(0, 50)
+      },
+      issues: []
+    }
+    analysis.issues = RuleEngine.messages({ url: browser.finalUrl, sections: {}, cloaking: analysis, profile }, 'cloaking')
+
+    return analysis
+  }
+
+  private static async fetchAs(url: string, userAgent: string): Promise<FetchedVariant> {
+    const response = await SafeFetch.fetch(url, {
+      accept: SafeFetch.CONTENT_TYPES.html,
+      skipUnaccepted: true,
+      timeoutMs: FETCH_TIMEOUT_MS,
+      headers: { 'User-Agent': userAgent }
+    })
+    return { userAgent, status: response.status, finalUrl: response.url, html: response.text() }
+  }
+}
@@ -0,0 +1,241 @@
+import { CrawlerRef } from '@/types/seo'
+
+export type UserAgentPreset = 'browser' | 'googlebot-smartphone' | 'googlebot-desktop' | 'bingbot' | 'custom'
+
+// How scans present themselves to a site; saved per project and overridable per scan
+export interface CrawlerSettings {
+  userAgent?: UserAgentPreset
+  // Required with the custom preset
+  customUserAgent?: string
+  headers?: Record<string, string>
+  // Cookie name to value, e.g. a staging session
+  cookies?: Record<string, string>
+  basicAuth?: { username: string; password: string }
+}
+
+export interface UserAgentPresetInfo {
+  id: Exclude<UserAgentPreset, 'custom'>
+  name: string
+  userAgent: string
+}
+
+export type CrawlerSettingsResult = { settings: CrawlerSettings; error?: undefined } | { settings?: undefined; error: string }
+
+export const USER_AGENT_PRESETS: UserAgentPresetInfo[] = [
+  {
+    id: 'browser',
+    name: 'Chrome (desktop)',
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.0.0 Safari/537.36'
+  },
+  {
+    id: 'googlebot-smartphone',
+    name: 'Googlebot Smartphone',
+    userAgent: 'Mozilla/5.0 (Linux; Android 6.0.1; Nexus 5X Build/MMB29P) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/130.0.6723.69 Mobile Safari/537.36 (compatible; Googlebot/2.1; +http://www.google.com/bot.html)'
+  },
+  {
+    id: 'googlebot-desktop',
+    name: 'Googlebot Desktop',
+    userAgent: 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; Googlebot/2.1; +http://www.google.com/bot.html) Chrome/130.0.6723.69 Safari/537.36'
+  },
+  {
+    id: 'bingbot',
+    name: 'Bingbot',
+    userAgent: 'Mozilla/5.0 AppleWebKit/537.36 (KHTML, like Gecko; compatible; bingbot/2.0; +http://www.bing.com/bingbot.htm) Chrome/130.0.0.0 Safari/537.36'
+  }
+]
+
+// Stands in for secret values shown back to clients
+export const MASKED_VALUE = '********'
+
+const MAX_ENTRIES = 20
+const MAX_VALUE_LENGTH = 4096
+const HEADER_NAME = /^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/
+// The fetcher and the request cache manage these; the user agent and cookies have their own settings
+const RESERVED_HEADERS = [
+  'host', 'connection', 'content-length', 'transfer-encoding', 'accept-encoding',
+  'if-none-match', 'if-modified-since', 'user-agent', 'cookie'
+]
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+export class CrawlerIdentity {
+  readonly preset: UserAgentPreset
+  readonly userAgent: string
+  // Origin that gets the extra headers, cookies and credentials: the scanned scheme, host and port, with or without www.
+  private readonly siteOrigin?: string
+
+  constructor(readonly settings: CrawlerSettings = {}, siteUrl?: string) {
+    this.preset = settings.userAgent || 'browser'
+    this.userAgent = this.preset === 'custom' && settings.customUserAgent
+      ? settings.customUserAgent
+      : CrawlerIdentity.presetUserAgent(this.preset)
+    this.siteOrigin = siteUrl ? CrawlerIdentity.siteOriginOf(new URL(siteUrl)) : undefined
+  }
+
+  /**
+   * Whether the settings pick a user agent. Clients that emulate a device keep their own otherwise.
+   */
+  get choosesUserAgent(): boolean {
+    return !!this.settings.userAgent
+  }
+
+  /**
+   * Request headers for a URL: the user agent everywhere, the rest only on the scanned site
+   */
+  headersFor(url: string | URL): Record<string, string> {
+    return { 'User-Agent': this.userAgent, ...this.siteHeaders(url) }
+  }
+
+  /**
+   * Extra headers, cookies and basic auth, never sent to other origins such as checked outbound links
+   * or a redirect from https to plain http on the same host
+   */
+  siteHeaders(url: string | URL): Record<string, string> {
+    if (!this.siteOrigin || CrawlerIdentity.siteOriginOf(new URL(url)) !== this.siteOrigin) return {}
+
+    const headers: Record<string, string> = { ...this.settings.headers }
+    const cookies = Object.entries(this.settings.cookies || {})
+    if (cookies.length > 0) {
+      headers['Cookie'] = cookies.map(([name, value]) => `${name}=${value}`).join('; ')
+    }
+    if (this.settings.basicAuth) {
+      const { username, password } = this.settings.basicAuth
+      headers['Authorization'] = `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}`
+    }
+    return headers
+  }
+
+  // Header names only; reports never store the values
+  reference(): CrawlerRef {
+    const headerNames = this.siteOrigin ? Object.keys(this.siteHeaders(`${this.siteOrigin}/`)) : []
+    return { preset: this.preset, userAgent: this.userAgent, headerNames }
+  }
+
+  static presetUserAgent(preset: UserAgentPreset): string {
+    return (USER_AGENT_PRESETS.find(info => info.id === preset) || USER_AGENT_PRESETS[0]).userAgent
+  }
+
+  /**
+   * Validate settings sent by a client or stored on a project. Masked values, as `redact` returns them,
+   * keep the value saved under the same name in `saved`, so redacted settings can be sent back unchanged.
+   */
+  static parse(input: unknown, saved?: CrawlerSettings): CrawlerSettingsResult {
+    if (input === undefined || input === null) return { settings: {} }
+    if (!isRecord(input)) return { error: 'crawler must be an object' }
+
+    const settings: CrawlerSettings = {}
+    const { userAgent, customUserAgent, headers, cookies, basicAuth } = input
+
+    if (userAgent !== undefined) {
+      if (userAgent !== 'custom' && !USER_AGENT_PRESETS.some(info => info.id === userAgent)) {
+        return { error: `Unknown user agent preset: ${userAgent}` }
+      }
+      settings.userAgent = userAgent as UserAgentPreset
+    }
+
+    if (settings.userAgent === 'custom') {
+      if (typeof customUserAgent !== 'string' || !customUserAgent.trim() || /[\r\n]/.test(customUserAgent) || customUserAgent.length > MAX_VALUE_LENGTH) {
+        return { error: 'customUserAgent is required with the custom user agent preset' }
+      }
+      settings.customUserAgent = customUserAgent.trim()
+    }
+
+    if (headers !== undefined) {
+      const entries = this.entries(headers, 'headers')
+      if (typeof entries === 'string') return { error: entries }
+      for (const [name] of entries) {
+        if (!HEADER_NAME.test(name)) return { error: `Invalid header name: ${name}` }
+        if (RESERVED_HEADERS.includes(name.toLowerCase())) return { error: `The ${name} header cannot be set in headers` }
+      }
+      if (entries.length > 0) settings.headers = Object.fromEntries(entries)
+    }
+
+    if (cookies !== undefined) {
+      const entries = this.entries(cookies, 'cookies')
+      if (typeof entries === 'string') return { error: entries }
+      for (const [name, value] of entries) {
+        if (!HEADER_NAME.test(name)) return { error: `Invalid cookie name: ${name}` }
+        if (/[;,\s]/.test(value)) return { error: `Invalid value for cookie ${name}` }
+      }
+      if (entries.length > 0) settings.cookies = Object.fromEntries(entries)
+    }
+
+    if (basicAuth !== undefined && basicAuth !== null) {
+      if (!isRecord(basicAuth) || typeof basicAuth.username !== 'string' || typeof basicAuth.password !== 'string' || !basicAuth.username) {
+        return { error: 'basicAuth needs a username and a password' }
+      }
+      if (basicAuth.username.includes(':')) return { error: 'A basic auth username cannot contain a colon' }
+      settings.basicAuth = { username: basicAuth.username, password: basicAuth.password }
+    }
+
+    if (settings.basicAuth && Object.keys(settings.headers || {}).some(name => name.toLowerCase() === 'authorization')) {
+      return { error: 'Send either basicAuth or an Authorization header, not both' }
+    }
+
+    return this.unmask(settings, saved || {})
+  }
+
+  /**
+   * Project settings with a scan's overrides on top; headers and cookies are merged by name
+   */
+  static merge(base: CrawlerSettings = {}, overrides: CrawlerSettings = {}): CrawlerSettings {
+    const merged: CrawlerSettings = {
+      userAgent: overrides.userAgent || base.userAgent,
+      customUserAgent: overrides.userAgent ? overrides.customUserAgent : base.customUserAgent,
+      headers: base.headers || overrides.headers ? { ...base.headers, ...overrides.headers } : undefined,
+      cookies: base.cookies || overrides.cookies ? { ...base.cookies, ...overrides.cookies } : undefined,
+      basicAuth: overrides.basicAuth || base.basicAuth
+    }
+    return Object.fromEntries(Object.entries(merged).filter(([, value]) => value !== undefined)) as CrawlerSettings
+  }
+
+  /**
+   * Settings safe to show back to a client: header and cookie values and the password are masked
+   */
+  static redact(settings: CrawlerSettings): CrawlerSettings {
+    const mask = (values?: Record<string, string>) => values ? Object.fromEntries(Object.keys(values).map(name => [name, MASKED_VALUE])) : undefined
+    return {
+      ...settings,
+      headers: mask(settings.headers),
+      cookies: mask(settings.cookies),
+      basicAuth: settings.basicAuth ? { username: settings.basicAuth.username, password: MASKED_VALUE } : undefined
+    }
+  }
+
+  // Masked values take the saved value of the same name; one with nothing saved would be stored as the mask itself
+  private static unmask(settings: CrawlerSettings, saved: CrawlerSettings): CrawlerSettingsResult {
+    for (const field of ['headers', 'cookies'] as const) {
+      for (const [name, value] of Object.entries(settings[field] || {})) {
+        if (value !== MASKED_VALUE) continue
+        const kept = saved[field]?.[name]
+        if (kept === undefined) return { error: `The ${name} value is masked and has no saved value to keep` }
+        settings[field]![name] = kept
+      }
+    }
+
+    if (settings.basicAuth?.password === MASKED_VALUE) {
+      if (!saved.basicAuth) return { error: 'The basic auth password is masked and has no saved value to keep' }
+      settings.basicAuth.password = saved.basicAuth.password
+    }
+
+    return { settings }
+  }
+
+  private static entries(value: unknown, field: string): Array<[string, string]> | string {
+    if (!isRecord(value)) return `${field} must be an object of names to values`
+    const entries = Object.entries(value)
+    if (entries.length > MAX_ENTRIES) return `At most ${MAX_ENTRIES} ${field} can be set`
+    for (const [name, entry] of entries) {
+      if (typeof entry !== 'string' || /[\r\n]/.test(entry) || entry.length > MAX_VALUE_LENGTH) {
+        return `Invalid value for ${name} in ${field}`
+      }
+    }
+    return entries as Array<[string, string]>
+  }
+
+  // URL leaves the port empty when it is the scheme's default
+  private static siteOriginOf(url: URL): string {
+    return `${url.protocol}//${url.hostname.toLowerCase().replace(/^www\./, '')}${url.port ? `:${url.port}` : ''}`
+  }
+}
@@ -0,0 +1,147 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { FetchStats } from '@/types/seo'
+import type { ResponseHeaders } from './header-analyzer'
+
+export type { FetchStats }
+
+// One request and its response, before any redirect is followed
+export interface FetchedHop {
+  status: number
+  headers: ResponseHeaders
+  body: Buffer
+  bodyRead: boolean
+}
+
+// Sends the request; revalidation of a stale shared entry passes conditional headers
+export type HopSender = (conditionalHeaders?: Record<string, string>) => Promise<FetchedHop>
+
+interface SharedEntry {
+  hop: FetchedHop
+  expiresAt: number
+}
+
+// Statuses that stay meaningful for a while (the heuristically cacheable set of RFC 9111)
+const SHAREABLE_STATUSES = [200, 203, 204, 300, 301, 308, 404, 405, 410, 414, 501]
+const SHARED_MAX_ENTRIES = 500
+const SHARED_MAX_BODY_BYTES = 5 * 1024 * 1024
+
+const scanCaches = new AsyncLocalStorage<FetchCache>()
+const sharedEntries = new Map<string, SharedEntry>()
+// How long a response is reused across scans before it is revalidated; 0 turns the shared cache off
+let sharedTtlMs = Number(process.env.FETCH_CACHE_TTL_SECONDS || 0) * 1000
+
+export class FetchCache {
+  readonly stats: FetchStats = { requests: 0, networkRequests: 0, scanCacheHits: 0, sharedCacheHits: 0, revalidated: 0, bytesDownloaded: 0 }
+  private entries = new Map<string, Promise<FetchedHop>>()
+
+  /**
+   * Run a scan with this cache. Every SafeFetch request made inside, however deep in the analyzers, goes through it.
+   */
+  run<T>(scan: () => Promise<T>): Promise<T> {
+    return scanCaches.run(this, scan)
+  }
+
+  /**
+   * Cache of the scan in progress, if any
+   */
+  static current(): FetchCache | undefined {
+    return scanCaches.getStore()
+  }
+
+  static setSharedTtl(seconds: number) {
+    sharedTtlMs = Math.max(0, seconds) * 1000
+    if (sharedTtlMs === 0) sharedEntries.clear()
+  }
+
+  /**
+   * Answer a request from this scan's cache, then the shared cache, then the network. Concurrent identical
+   * requests wait for the first one. `variant` identifies the request headers, such as the user agent and
+   * credentials, that the response may depend on. `needsBody` tells whether a response cached without its body will do.
+   * A `fresh` request skips both caches and goes to the network, such as one being timed; its response is still cached.
+   */
+  async request(method: 'GET' | 'HEAD', url: string, variant: string, needsBody: (hop: FetchedHop) => boolean, send: HopSender, fresh = false): Promise<FetchedHop> {
+    this.stats.requests++
+    const usable = (hop?: FetchedHop): hop is FetchedHop => !!hop && (hop.bodyRead || !needsBody(hop))
+    const keyFor = (candidate: string) => `${candidate} ${url} ${variant}`
+
+    // A GET response answers a HEAD request too
+    for (const candidate of fresh ? [] : method === 'HEAD' ? ['GET', 'HEAD'] : ['GET']) {
+      const pending = this.entries.get(keyFor(candidate))
+      if (!pending) continue
+      const hop = await pending.catch(() => undefined)
+      if (usable(hop)) {
+        this.stats.scanCacheHits++
+        return hop
+      }
+    }
+
+    const key = keyFor(method)
+    const pending = this.load(key, usable, send, fresh)
+    this.entries.set(key, pending)
+    // Failures are not cached; the next caller tries again
+    pending.catch(() => {
+      if (this.entries.get(key) === pending) this.entries.delete(key)
+    })
+    return pending
+  }
+
+  private async load(key: string, usable: (hop?: FetchedHop) => hop is FetchedHop, send: HopSender, fresh: boolean): Promise<FetchedHop> {
+    const shared = sharedTtlMs > 0 && !fresh ? sharedEntries.get(key) : undefined
+
+    if (shared && usable(shared.hop)) {
+      if (Date.now() < shared.expiresAt) {
+        this.stats.sharedCacheHits++
+        this.share(key, shared.hop, shared.expiresAt)
+        return shared.hop
+      }
+
+      const conditionalHeaders = this.validators(shared.hop)
+      if (conditionalHeaders) {
+        const hop = await this.network(send, conditionalHeaders)
+        if (hop.status === 304) {
+          this.stats.revalidated++
+          this.share(key, shared.hop)
+          return shared.hop
+        }
+        this.share(key, hop)
+        return hop
+      }
+    }
+
+    const hop = await this.network(send)
+    this.share(key, hop)
+    return hop
+  }
+
+  private async network(send: HopSender, conditionalHeaders?: Record<string, string>): Promise<FetchedHop> {
+    this.stats.networkRequests++
+    const hop = await send(conditionalHeaders)
+    this.stats.bytesDownloaded += hop.body.length
+    return hop
+  }
+
+  /**
+   * Keep a response for other scans, most recently used last. `no-cache` responses are revalidated on every use.
+   */
+  private share(key: string, hop: FetchedHop, expiresAt?: number) {
+    const cacheControl = (hop.headers['cache-control'] || '').toLowerCase()
+    if (sharedTtlMs === 0 || !SHAREABLE_STATUSES.includes(hop.status) || hop.body.length > SHARED_MAX_BODY_BYTES || cacheControl.includes('no-store')) {
+      return
+    }
+
+    sharedEntries.delete(key)
+    sharedEntries.set(key, { hop, expiresAt: expiresAt ?? (cacheControl.includes('no-cache') ? 0 : Date.now() + sharedTtlMs) })
+
+    for (const oldest of sharedEntries.keys()) {
+      if (sharedEntries.size <= SHARED_MAX_ENTRIES) break
+      sharedEntries.delete(oldest)
+    }
+  }
+
+  private validators(hop: FetchedHop): Record<string, string> | undefined {
+    const headers: Record<string, string> = {}
+    if (hop.headers.etag) headers['If-None-Match'] = hop.headers.etag
+    if (hop.headers['last-modified']) headers['If-Modified-Since'] = hop.headers['last-modified']
+    return Object.keys(headers).length > 0 ? headers : undefined
+  }
+}
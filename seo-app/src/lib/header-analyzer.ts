@@ -0,0 +1,78 @@
+import { HeaderAnalysis } from '@/types/seo'
+import { RuleEngine } from './rule-engine'
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './scoring-profiles'
+
+export type ResponseHeaders = Record<string, string>
+
+export interface RobotsDirectives {
+  noindex: boolean
+  nofollow: boolean
+}
+
+export class HeaderAnalyzer {
+  /**
+   * Audit indexing, caching, compression, charset and security headers of a page response
+   */
+  static analyzeHeaders(headers: ResponseHeaders, url: string, statusCode?: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): HeaderAnalysis {
+    const xRobotsTag = headers['x-robots-tag']
+
+    const cacheControl = headers['cache-control']
+    const etag = headers['etag']
+    const lastModified = headers['last-modified']
+    const isCacheable = !/no-store/i.test(cacheControl || '') && !!(cacheControl || etag || lastModified)
+
+    const contentEncoding = headers['content-encoding']
+    const isCompressed = /\b(gzip|br|zstd|deflate)\b/i.test(contentEncoding || '')
+
+    const contentType = headers['content-type']
+    const charset = contentType?.match(/charset=([^;]+)/i)?.[1]?.trim()
+
+    const security = {
+      hsts: headers['strict-transport-security'],
+      csp: headers['content-security-policy'],
+      xContentTypeOptions: headers['x-content-type-options'],
+      referrerPolicy: headers['referrer-policy']
+    }
+
+    const analysis: HeaderAnalysis = {
+      score: 0,
+      statusCode,
+      xRobotsTag,
+      caching: { cacheControl, etag, lastModified, isCacheable },
+      compression: { contentEncoding, isCompressed },
+      contentType: { value: contentType, charset },
+      security,
+      issues: []
+    }
+    const context = { url, sections: { headers: analysis }, profile }
+    analysis.issues = RuleEngine.messages(context, 'headers')
+    Object.assign(analysis, RuleEngine.scoreSection(context, 'headers'))
+
+    return analysis
+  }
+
+  /**
+   * Parse a robots meta content or X-Robots-Tag value. Directives scoped to another
+   * crawler (e.g. "bingbot: noindex") are ignored unless they target the given user agent.
+   */
+  static parseRobotsDirectives(value: string | undefined, userAgent: string = 'googlebot'): RobotsDirectives {
+    const directives: RobotsDirectives = { noindex: false, nofollow: false }
+    if (!value) return directives
+
+    let scope: string | null = null
+    for (const rawPart of value.split(',')) {
+      let part = rawPart.trim().toLowerCase()
+      const scoped = part.match(/^([a-z0-9_-]+)\s*:\s*(.*)$/)
+      if (scoped && !['unavailable_after', 'max-snippet', 'max-image-preview', 'max-video-preview'].includes(scoped[1])) {
+        scope = scoped[1]
+        part = scoped[2]
+      }
+      if (scope && scope !== userAgent.toLowerCase()) continue
+
+      if (part === 'noindex' || part === 'none') directives.noindex = true
+      if (part === 'nofollow' || part === 'none') directives.nofollow = true
+    }
+
+    return directives
+  }
+}
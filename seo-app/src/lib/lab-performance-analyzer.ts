@@ -0,0 +1,352 @@
+import puppeteer, { Browser, Page } from 'puppeteer'
+import { CoreWebVitals, LabPerformanceRun, VitalMetric, WaterfallEntry } from '@/types/seo'
+import type { PageSpeedAnalysis } from './pagespeed-analyzer'
+import { SafeFetch } from './safe-fetch'
+
+export type LabProfile = 'mobile' | 'desktop'
+export type MetricName = 'lcp' | 'inp' | 'cls' | 'fcp' | 'tbt' | 'ttfb'
+
+interface RawLabMetrics {
+  lcp: number
+  cls: number
+  fcp: number
+  ttfb: number
+  domContentLoaded: number
+  loadTime: number
+  longTasks: Array<{ startTime: number; duration: number }>
+  interactions: number[]
+  resources: WaterfallEntry[]
+}
+
+// Throttling matches Lighthouse's defaults: a mid-range phone on slow 4G, and a wired desktop
+const PROFILES = {
+  mobile: {
+    viewport: { width: 412, height: 823, deviceScaleFactor: 1.75, isMobile: true, hasTouch: true },
+    userAgent: 'Mozilla/5.0 (Linux; Android 11; moto g power (2022)) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Mobile Safari/537.36',
+    cpuSlowdown: 4,
+    network: { download: (1.6 * 1024 * 1024) / 8, upload: (750 * 1024) / 8, latency: 150 }
+  },
+  desktop: {
+    viewport: { width: 1350, height: 940, deviceScaleFactor: 1, isMobile: false, hasTouch: false },
+    userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+    cpuSlowdown: 1,
+    network: { download: (10 * 1024 * 1024) / 8, upload: (10 * 1024 * 1024) / 8, latency: 40 }
+  }
+}
+
+// Lighthouse log-normal scoring control points (value scoring 0.9, value scoring 0.5)
+const SCORING: Record<LabProfile, Record<MetricName, { p10: number; median: number }>> = {
+  mobile: {
+    lcp: { p10: 2500, median: 4000 },
+    inp: { p10: 200, median: 500 },
+    cls: { p10: 0.1, median: 0.25 },
+    fcp: { p10: 1800, median: 3000 },
+    tbt: { p10: 200, median: 600 },
+    ttfb: { p10: 800, median: 1800 }
+  },
+  desktop: {
+    lcp: { p10: 1200, median: 2400 },
+    inp: { p10: 200, median: 500 },
+    cls: { p10: 0.1, median: 0.25 },
+    fcp: { p10: 934, median: 1600 },
+    tbt: { p10: 150, median: 350 },
+    ttfb: { p10: 800, median: 1800 }
+  }
+}
+
+// Core Web Vitals "good" / "poor" boundaries
+export const VITAL_THRESHOLDS: Record<MetricName, { good: number; poor: number }> = {
+  lcp: { good: 2500, poor: 4000 },
+  inp: { good: 200, poor: 500 },
+  cls: { good: 0.1, poor: 0.25 },
+  fcp: { good: 1800, poor: 3000 },
+  tbt: { good: 200, poor: 600 },
+  ttfb: { good: 800, poor: 1800 }
+}
+
+// Speed Index needs a filmstrip, so the score reweights Lighthouse's other four metrics
+const SCORE_WEIGHTS: Partial<Record<MetricName, number>> = { fcp: 10, lcp: 25, tbt: 30, cls: 25 }
+
+const OBSERVER_SCRIPT = `(() => {
+  const lab = { lcp: 0, cls: 0, sessionValue: 0, sessionStart: 0, lastShift: 0, longTasks: [], interactions: {} }
+  window.__seoLab = lab
+  const observe = (type, callback, options) => {
+    try {
+      new PerformanceObserver(list => list.getEntries().forEach(callback)).observe({ type, buffered: true, ...options })
+    } catch (error) {}
+  }
+  observe('largest-contentful-paint', entry => { lab.lcp = entry.renderTime || entry.loadTime || entry.startTime })
+  // CLS is the largest session window: shifts less than 1s apart, spanning at most 5s
+  observe('layout-shift', entry => {
+    if (entry.hadRecentInput) return
+    if (entry.startTime - lab.lastShift > 1000 || entry.startTime - lab.sessionStart > 5000) {
+      lab.sessionValue = 0
+      lab.sessionStart = entry.startTime
+    }
+    lab.sessionValue += entry.value
+    lab.lastShift = entry.startTime
+    lab.cls = Math.max(lab.cls, lab.sessionValue)
+  })
+  observe('longtask', entry => { lab.longTasks.push({ startTime: entry.startTime, duration: entry.duration }) })
+  // An interaction's latency is its slowest event (pointerdown, click, keydown, ...)
+  observe('event', entry => {
+    if (!entry.interactionId) return
+    lab.interactions[entry.interactionId] = Math.max(lab.interactions[entry.interactionId] || 0, entry.duration)
+  }, { durationThreshold: 16 })
+})()`
+
+const COLLECT_SCRIPT = `(() => {
+  const lab = window.__seoLab || { lcp: 0, cls: 0, longTasks: [], interactions: {} }
+  const navigation = performance.getEntriesByType('navigation')[0]
+  const fcp = performance.getEntriesByName('first-contentful-paint')[0]
+  return {
+    lcp: lab.lcp,
+    cls: lab.cls,
+    fcp: fcp ? fcp.startTime : 0,
+    ttfb: navigation ? navigation.responseStart : 0,
+    domContentLoaded: navigation ? navigation.domContentLoadedEventEnd : 0,
+    loadTime: navigation ? navigation.loadEventEnd : 0,
+    longTasks: lab.longTasks,
+    interactions: Object.values(lab.interactions),
+    resources: performance.getEntriesByType('resource').map(entry => ({
+      url: entry.name,
+      type: entry.initiatorType,
+      startTime: entry.startTime,
+      duration: entry.duration,
+      transferSize: entry.transferSize
+    }))
+  }
+})()`
+
+export class LabPerformanceAnalyzer {
+  /**
+   * Measure a page in headless Chromium under mobile and desktop throttling. The requested
+   * strategy fills the Core Web Vitals; both runs are kept with their resource waterfalls.
+   */
+  static async analyzePerformance(url: string, strategy: LabProfile = 'mobile', timeoutMs: number = 45000): Promise<PageSpeedAnalysis> {
+    await SafeFetch.assertPublicUrl(url)
+    const browser = await puppeteer.launch({
+      headless: true,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-gpu'
+      ]
+    })
+
+    try {
+      const profiles: LabProfile[] = strategy === 'mobile' ? ['mobile', 'desktop'] : ['desktop', 'mobile']
+      const labRuns: LabPerformanceRun[] = []
+      for (const profile of profiles) {
+        labRuns.push(await this.measure(browser, url, profile, timeoutMs))
+      }
+
+      const primary = labRuns[0]
+      return {
+        performanceScore: primary.performanceScore,
+        coreWebVitals: primary.coreWebVitals,
+        ...this.findOpportunities(primary),
+        totalPageSize: primary.totalBytes,
+        totalRequestCount: primary.requestCount,
+        loadTime: primary.loadTime,
+        source: 'lab',
+        labRuns,
+        isSuccess: true
+      }
+    } finally {
+      await browser.close()
+    }
+  }
+
+  /**
+   * Load the page once in a fresh browser context with the profile's device, CPU and network throttling
+   */
+  private static async measure(browser: Browser, url: string, profile: LabProfile, timeoutMs: number): Promise<LabPerformanceRun> {
+    const settings = PROFILES[profile]
+    const context = await browser.createBrowserContext()
+
+    try {
+      const page = await context.newPage()
+      await page.setViewport(settings.viewport)
+      // The device's own user agent unless the scan's crawler settings chose one
+      const identity = SafeFetch.identity()
+      await page.setUserAgent(identity.choosesUserAgent ? identity.userAgent : settings.userAgent)
+      await page.emulateCPUThrottling(settings.cpuSlowdown)
+      await page.emulateNetworkConditions(settings.network)
+      await page.evaluateOnNewDocument(OBSERVER_SCRIPT)
+      await SafeFetch.guardPage(page)
+
+      // Resource Timing hides cross-origin sizes, so bytes and requests come from the protocol
+      let totalBytes = 0
+      let requestCount = 0
+      const client = await page.createCDPSession()
+      await client.send('Network.enable')
+      client.on('Network.loadingFinished', event => {
+        totalBytes += event.encodedDataLength
+        requestCount++
+      })
+
+      await page.goto(url, { waitUntil: 'networkidle0', timeout: timeoutMs })
+      await this.simulateInteractions(page, profile)
+      const raw = await page.evaluate(COLLECT_SCRIPT) as RawLabMetrics
+
+      // TBT only counts main-thread tasks after first paint
+      const tbt = raw.longTasks
+        .filter(task => task.startTime >= raw.fcp)
+        .reduce((sum, task) => sum + Math.max(0, task.duration - 50), 0)
+      // With fewer than 50 interactions INP is the slowest one; interactions under 16ms are not reported
+      const inp = raw.interactions.reduce((max, duration) => Math.max(max, duration), 0)
+
+      const coreWebVitals: CoreWebVitals = {
+        lcp: this.toMetric('lcp', raw.lcp || raw.fcp, profile),
+        inp: this.toMetric('inp', inp, profile),
+        cls: this.toMetric('cls', raw.cls, profile),
+        ttfb: this.toMetric('ttfb', raw.ttfb, profile),
+        fcp: this.toMetric('fcp', raw.fcp, profile),
+        speedIndex: { value: 0, score: 0, displayValue: 'N/A', category: 'needs-improvement' },
+        tbt: this.toMetric('tbt', tbt, profile)
+      }
+
+      const weights = Object.entries(SCORE_WEIGHTS) as Array<[MetricName, number]>
+      const totalWeight = weights.reduce((sum, [, weight]) => sum + weight, 0)
+      const performanceScore = Math.round(
+        weights.reduce((sum, [name, weight]) => sum + (coreWebVitals[name]?.score || 0) * weight, 0) / totalWeight
+      )
+
+      return {
+        profile,
+        performanceScore,
+        coreWebVitals,
+        domContentLoaded: Math.round(raw.domContentLoaded),
+        loadTime: Math.round(raw.loadTime),
+        totalBytes,
+        requestCount,
+        waterfall: raw.resources
+          .sort((a, b) => a.startTime - b.startTime)
+          .map(entry => ({
+            ...entry,
+            startTime: Math.round(entry.startTime),
+            duration: Math.round(entry.duration)
+          }))
+      }
+    } finally {
+      await context.close()
+    }
+  }
+
+  /**
+   * Score and categorize a metric value with the profile's scoring curve and the Core Web Vitals thresholds
+   */
+  static toMetric(name: MetricName, value: number, profile: LabProfile): VitalMetric {
+    const threshold = VITAL_THRESHOLDS[name]
+
+    return {
+      value: name === 'cls' ? Number(value.toFixed(3)) : Math.round(value),
+      score: Math.round(this.logNormalScore(value, SCORING[profile][name]) * 100),
+      displayValue: name === 'cls'
+        ? value.toFixed(3)
+        : value >= 1000 ? `${(value / 1000).toFixed(1)} s` : `${Math.round(value)} ms`,
+      category: value <= threshold.good ? 'good' : value <= threshold.poor ? 'needs-improvement' : 'poor'
+    }
+  }
+
+  /**
+   * Lab runs have no real users, so INP comes from a tap or click on non-interactive content
+   * plus a Tab key press. Targets avoid links and form controls so the page never navigates.
+   */
+  private static async simulateInteractions(page: Page, profile: LabProfile): Promise<void> {
+    const target = await page.evaluate(`(() => {
+      for (const element of document.querySelectorAll('p, h1, h2, h3, li, span, div')) {
+        if (element.closest('a, button, input, select, textarea, label, summary, [onclick], [role="button"], [role="link"]')) continue
+        const rect = element.getBoundingClientRect()
+        if (rect.width > 0 && rect.height > 0 && rect.top >= 0 && rect.bottom <= window.innerHeight) {
+          return { x: rect.left + rect.width / 2, y: rect.top + rect.height / 2 }
+        }
+      }
+      return null
+    })()`) as { x: number; y: number } | null
+
+    if (target) {
+      if (profile === 'mobile') await page.touchscreen.tap(target.x, target.y)
+      else await page.mouse.click(target.x, target.y)
+    }
+    await page.keyboard.press('Tab')
+
+    // Event Timing entries are dispatched after the next paint
+    await new Promise(resolve => setTimeout(resolve, 500))
+  }
+
+  /**
+   * Lighthouse's scoring curve: a log-normal complementary CDF through the p10 and median control points
+   */
+  private static logNormalScore(value: number, { p10, median }: { p10: number; median: number }): number {
+    if (value <= 0) return 1
+    const shape = Math.abs(Math.log(p10) - Math.log(median)) / (Math.SQRT2 * 0.9061938024368232)
+    const standardized = (Math.log(value) - Math.log(median)) / (Math.SQRT2 * shape)
+    return Math.min(1, Math.max(0, (1 - this.erf(standardized)) / 2))
+  }
+
+  // Abramowitz and Stegun 7.1.26
+  private static erf(x: number): number {
+    const sign = Math.sign(x)
+    const t = 1 / (1 + 0.3275911 * Math.abs(x))
+    const y = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-x * x)
+    return sign * y
+  }
+
+  /**
+   * Derive opportunities and diagnostics from the measured run
+   */
+  private static findOpportunities(run: LabPerformanceRun): Pick<PageSpeedAnalysis, 'opportunities' | 'diagnostics'> {
+    const opportunities: PageSpeedAnalysis['opportunities'] = []
+    const diagnostics: PageSpeedAnalysis['diagnostics'] = []
+
+    const largeResources = run.waterfall.filter(entry => entry.transferSize > 300 * 1024)
+    if (largeResources.length > 0) {
+      const savings = largeResources.reduce((sum, entry) => sum + entry.transferSize, 0)
+      opportunities.push({
+        title: 'Reduce large resources',
+        description: `${largeResources.length} resources are larger than 300 KB: ${largeResources.slice(0, 3).map(entry => entry.url).join(', ')}`,
+        potentialSavings: `${Math.round(savings / 1024)} KB`,
+        impact: savings > 1024 * 1024 ? 'high' : 'medium'
+      })
+    }
+
+    const tbt = run.coreWebVitals.tbt
+    if (tbt && tbt.category !== 'good') {
+      opportunities.push({
+        title: 'Reduce main-thread blocking JavaScript',
+        description: `Long tasks block the main thread for ${tbt.displayValue} after first paint`,
+        potentialSavings: tbt.displayValue,
+        impact: tbt.category === 'poor' ? 'high' : 'medium'
+      })
+    }
+
+    if (run.totalBytes > 1024 * 1024) {
+      diagnostics.push({
+        title: 'Avoid enormous network payloads',
+        description: `Total transfer size is ${(run.totalBytes / 1024 / 1024).toFixed(1)} MB`,
+        impact: run.totalBytes > 2.5 * 1024 * 1024 ? 'high' : 'medium'
+      })
+    }
+
+    if (run.requestCount > 100) {
+      diagnostics.push({
+        title: 'Reduce the number of requests',
+        description: `The page made ${run.requestCount} requests`,
+        impact: run.requestCount > 200 ? 'high' : 'medium'
+      })
+    }
+
+    if (run.coreWebVitals.cls.category !== 'good') {
+      diagnostics.push({
+        title: 'Avoid large layout shifts',
+        description: `Cumulative Layout Shift is ${run.coreWebVitals.cls.displayValue}`,
+        impact: run.coreWebVitals.cls.category === 'poor' ? 'high' : 'medium'
+      })
+    }
+
+    return { opportunities, diagnostics }
+  }
+}
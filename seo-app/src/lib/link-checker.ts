@@ -0,0 +1,99 @@
+import { LinkCheckResult } from '@/types/seo'
+import { mapWithConcurrency } from './utils'
+import { SafeFetch, SafeFetchError, SafeResponse } from './safe-fetch'
+
+export interface LinkCheckOptions {
+  concurrency?: number
+  perHostDelayMs?: number
+  timeoutMs?: number
+  maxLinks?: number
+}
+
+const DEFAULT_OPTIONS: Required<LinkCheckOptions> = {
+  concurrency: 5,
+  perHostDelayMs: 250,
+  timeoutMs: 8000,
+  maxLinks: 100
+}
+
+// Servers that reject HEAD outright are retried with GET
+const HEAD_UNSUPPORTED_STATUSES = [403, 405, 501]
+
+export class LinkChecker {
+  private options: Required<LinkCheckOptions>
+  private results = new Map<string, Promise<LinkCheckResult>>()
+  private hostSlots = new Map<string, number>()
+
+  constructor(options: LinkCheckOptions = {}) {
+    this.options = { ...DEFAULT_OPTIONS, ...options }
+  }
+
+  /**
+   * Check every link once, with a concurrency limit and a politeness delay per host.
+   * Results are cached on the instance so a crawler can share one checker across pages.
+   */
+  async checkLinks(links: Array<{ url: string; anchorText: string }>): Promise<LinkCheckResult[]> {
+    const unique = new Map<string, string>()
+    for (const link of links) {
+      if (!unique.has(link.url)) unique.set(link.url, link.anchorText)
+    }
+
+    const entries = Array.from(unique.entries()).slice(0, this.options.maxLinks)
+
+    return mapWithConcurrency(entries, this.options.concurrency, async ([url, anchorText]) => {
+      let pending = this.results.get(url)
+      if (!pending) {
+        pending = this.checkLink(url)
+        this.results.set(url, pending)
+      }
+      return { ...(await pending), anchorText }
+    })
+  }
+
+  private async checkLink(url: string): Promise<LinkCheckResult> {
+    const result: LinkCheckResult = { url, anchorText: '', timedOut: false, isBroken: false }
+
+    try {
+      let response = await this.request(url, 'HEAD')
+      if (HEAD_UNSUPPORTED_STATUSES.includes(response.status)) {
+        response = await this.request(url, 'GET')
+      }
+
+      result.statusCode = response.status
+      if (response.redirected && response.url !== url) {
+        result.redirectedTo = response.url
+      }
+      result.isBroken = response.status >= 400
+    } catch (error) {
+      result.timedOut = error instanceof SafeFetchError && error.code === 'timeout'
+      result.error = error instanceof Error ? error.message : 'Unknown error'
+      result.isBroken = true
+    }
+
+    return result
+  }
+
+  private async request(url: string, method: 'HEAD' | 'GET'): Promise<SafeResponse> {
+    await this.waitForHost(new URL(url).host)
+
+    // Only the status matters, so don't download GET bodies
+    return SafeFetch.fetch(url, {
+      method,
+      discardBody: true,
+      timeoutMs: this.options.timeoutMs
+    })
+  }
+
+  /**
+   * Reserve the next request slot for a host and wait until it opens
+   */
+  private async waitForHost(host: string): Promise<void> {
+    const now = Date.now()
+    const slot = Math.max(now, this.hostSlots.get(host) ?? 0)
+    this.hostSlots.set(host, slot + this.options.perHostDelayMs)
+
+    if (slot > now) {
+      await new Promise(resolve => setTimeout(resolve, slot - now))
+    }
+  }
+}
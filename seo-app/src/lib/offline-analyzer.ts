@@ -0,0 +1,198 @@
+import { unzipSync } from 'fflate'
+import { LinkCheckResult, OfflineAnalysisInfo, SEOAnalysis } from '@/types/seo'
+import { SEOAnalyzer, RobotsTxtFetchResult } from './seo-analyzer'
+import { LinkChecker } from './link-checker'
+import { SitemapFetcher } from './robots-sitemap-analyzer'
+import { SEO_RULES } from './rule-engine'
+import { DEFAULT_SCORING_PROFILE, ScoringProfile, SectionKey } from './scoring-profiles'
+
+export interface OfflineAnalyzeOptions {
+  scoringProfile?: ScoringProfile
+}
+
+export interface OfflinePage {
+  path: string
+  url: string
+  analysis: SEOAnalysis
+}
+
+export interface OfflineSiteAnalysis {
+  baseUrl: string
+  source: OfflineAnalysisInfo['source']
+  pages: OfflinePage[]
+  // HTML files beyond the page limit, listed but not analyzed
+  pagesSkipped: string[]
+}
+
+export const MAX_OFFLINE_PAGES = 50
+export const MAX_ZIP_BYTES = 50 * 1024 * 1024
+
+// Uncompressed limits guard against zip bombs
+const MAX_ZIP_FILES = 5000
+const MAX_UNZIPPED_BYTES = 200 * 1024 * 1024
+const HTML_FILE = /\.html?$/i
+
+// Sections that only a live server can answer
+const SKIPPED_SECTIONS: SectionKey[] = ['redirects', 'headers']
+const ALWAYS_SKIPPED_RULES = ['performance.slow-response']
+// Pasted HTML has no neighbouring files to resolve links, robots.txt or sitemaps against
+const HTML_ONLY_SKIPPED_RULES = ['linkStructure.broken-links', 'linkStructure.redirected-links', 'crawlability.robots-txt-missing', 'crawlability.sitemap-missing']
+
+/**
+ * Answers link checks from the uploaded files: internal links must match a file, external links are not checked
+ */
+class UploadedFilesLinkChecker extends LinkChecker {
+  constructor(private resolve: (url: string) => string | undefined, private origin: string) {
+    super()
+  }
+
+  async checkLinks(links: Array<{ url: string; anchorText: string }>): Promise<LinkCheckResult[]> {
+    const unique = new Map<string, string>()
+    for (const link of links) {
+      if (new URL(link.url).origin === this.origin && !unique.has(link.url)) unique.set(link.url, link.anchorText)
+    }
+
+    return Array.from(unique.entries()).map(([url, anchorText]) => {
+      const found = this.resolve(url) !== undefined
+      return {
+        url,
+        anchorText,
+        statusCode: found ? 200 : 404,
+        timedOut: false,
+        error: found ? undefined : 'No matching file in the upload',
+        isBroken: !found
+      }
+    })
+  }
+}
+
+export class OfflineAnalyzer {
+  /**
+   * Analyze a single pasted or uploaded HTML page as if it were served at baseUrl
+   */
+  static async analyzeHtml(html: string, baseUrl: string, options: OfflineAnalyzeOptions = {}): Promise<OfflineSiteAnalysis> {
+    const offline: OfflineAnalysisInfo = {
+      source: 'html',
+      skippedSections: SKIPPED_SECTIONS,
+      skippedRules: [...ALWAYS_SKIPPED_RULES, ...HTML_ONLY_SKIPPED_RULES]
+    }
+    const analyzer = new SEOAnalyzer(html, baseUrl, {}, 200, this.offlineProfile(options.scoringProfile, offline))
+    const analysis = await analyzer.analyzeOffline({
+      robotsTxt: { exists: false, content: '' },
+      linkChecker: new UploadedFilesLinkChecker(() => undefined, new URL(baseUrl).origin)
+    }, offline)
+
+    return { baseUrl, source: 'html', pages: [{ path: 'index.html', url: baseUrl, analysis }], pagesSkipped: [] }
+  }
+
+  /**
+   * Analyze every HTML page of a zipped static build, mapping file paths onto baseUrl.
+   * Links, robots.txt and sitemaps are resolved against the files in the zip.
+   */
+  static async analyzeZip(zip: Uint8Array, baseUrl: string, options: OfflineAnalyzeOptions = {}): Promise<OfflineSiteAnalysis> {
+    return this.analyzeFiles(this.unzip(zip), baseUrl, options, 'zip')
+  }
+
+  /**
+   * Analyze a static build given as a map of site-relative paths to file contents, e.g. a build directory read from disk
+   */
+  static async analyzeFiles(files: Map<string, Uint8Array>, baseUrl: string, options: OfflineAnalyzeOptions = {}, source: OfflineAnalysisInfo['source'] = 'directory'): Promise<OfflineSiteAnalysis> {
+    const base = new URL(baseUrl)
+    // The build may be deployed under a sub-path such as https://example.com/docs/
+    const basePath = base.pathname.endsWith('/') ? base.pathname : `${base.pathname}/`
+    const read = (path: string) => Buffer.from(files.get(path)!).toString('utf8')
+
+    // Look a URL up the way a static host would: exact file, then index.html, then .html
+    const resolve = (url: string): string | undefined => {
+      const parsed = new URL(url, base)
+      if (parsed.origin !== base.origin || !parsed.pathname.startsWith(basePath)) return undefined
+      let path: string
+      try {
+        path = decodeURIComponent(parsed.pathname.slice(basePath.length))
+      } catch {
+        return undefined
+      }
+      const candidates = path === '' || path.endsWith('/')
+        ? [`${path}index.html`]
+        : [path, `${path}/index.html`, `${path}.html`]
+      return candidates.find(candidate => files.has(candidate))
+    }
+
+    // robots.txt only counts at the root of the host
+    const robotsTxt: RobotsTxtFetchResult = basePath === '/' && files.has('robots.txt')
+      ? { exists: true, content: read('robots.txt') }
+      : { exists: false, content: '' }
+
+    const sitemapFetcher: SitemapFetcher = async url => {
+      const path = resolve(url)
+      return path
+        ? { status: 200, body: Buffer.from(files.get(path)!) }
+        : { status: 404, body: Buffer.alloc(0) }
+    }
+
+    const linkChecker = new UploadedFilesLinkChecker(resolve, base.origin)
+    const htmlPaths = Array.from(files.keys()).filter(path => HTML_FILE.test(path)).sort(this.byDepth)
+
+    const pages: OfflinePage[] = []
+    for (const path of htmlPaths.slice(0, MAX_OFFLINE_PAGES)) {
+      const offline: OfflineAnalysisInfo = { source, path, skippedSections: SKIPPED_SECTIONS, skippedRules: ALWAYS_SKIPPED_RULES }
+      const url = new URL(path.replace(/(^|\/)index\.html?$/i, '$1'), new URL(basePath, base)).href
+      const analyzer = new SEOAnalyzer(read(path), url, {}, 200, this.offlineProfile(options.scoringProfile, offline))
+      const analysis = await analyzer.analyzeOffline({ robotsTxt, linkChecker, sitemapFetcher }, offline)
+      pages.push({ path, url, analysis })
+    }
+
+    return { baseUrl: base.href, source, pages, pagesSkipped: htmlPaths.slice(MAX_OFFLINE_PAGES) }
+  }
+
+  /**
+   * The chosen profile with skipped sections and rules weighted at 0, so they neither run nor score
+   */
+  private static offlineProfile(profile: ScoringProfile = DEFAULT_SCORING_PROFILE, offline: OfflineAnalysisInfo): ScoringProfile {
+    const skippedRules = [
+      ...offline.skippedRules,
+      ...SEO_RULES.filter(rule => (offline.skippedSections as string[]).includes(rule.category)).map(rule => rule.id)
+    ]
+
+    return {
+      ...profile,
+      sectionWeights: {
+        ...profile.sectionWeights,
+        ...Object.fromEntries(offline.skippedSections.map(section => [section, 0]))
+      },
+      ruleWeights: {
+        ...profile.ruleWeights,
+        ...Object.fromEntries(skippedRules.map(id => [id, 0]))
+      }
+    }
+  }
+
+  /**
+   * Extract the zip into a path → bytes map. A single top-level folder (e.g. dist/) is treated as the site root.
+   */
+  private static unzip(zip: Uint8Array): Map<string, Uint8Array> {
+    let fileCount = 0
+    let totalBytes = 0
+    const entries = unzipSync(zip, {
+      filter: file => {
+        if (file.name.endsWith('/')) return false
+        fileCount++
+        totalBytes += file.originalSize
+        if (fileCount > MAX_ZIP_FILES) throw new Error(`Zip contains more than ${MAX_ZIP_FILES} files`)
+        if (totalBytes > MAX_UNZIPPED_BYTES) throw new Error('Zip is too large once uncompressed')
+        return !file.name.startsWith('__MACOSX/')
+      }
+    })
+
+    const paths = Object.keys(entries)
+    const roots = new Set(paths.map(path => (path.includes('/') ? path.split('/')[0] : '')))
+    const prefix = roots.size === 1 && !roots.has('') ? `${Array.from(roots)[0]}/` : ''
+
+    return new Map(paths.map(path => [path.slice(prefix.length), entries[path]]))
+  }
+
+  // Shallow pages first, so the limit keeps the home page and top-level sections
+  private static byDepth(a: string, b: string): number {
+    return a.split('/').length - b.split('/').length || a.localeCompare(b)
+  }
+}
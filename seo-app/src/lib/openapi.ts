@@ -0,0 +1,312 @@
+import analysisSchemas from './seo-analysis.schema.json'
+import { API_TIER_LIMITS } from './api-keys'
+import { USER_AGENT_PRESETS } from './crawler-identity'
+import { SCAN_STAGES } from './seo-analyzer'
+import { SCORING_PROFILES } from './scoring-profiles'
+
+type Schema = Record<string, unknown>
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` })
+
+const idParameter = (description: string) => ({
+  name: 'id',
+  in: 'path',
+  required: true,
+  description,
+  schema: { type: 'string', format: 'uuid' }
+})
+
+const success = (data: Schema, extra: Record<string, Schema> = {}) => ({
+  type: 'object',
+  required: ['success', 'data'],
+  properties: { success: { type: 'boolean', enum: [true] }, data, ...extra }
+})
+
+const jsonResponse = (description: string, schema: Schema) => ({
+  description,
+  headers: {
+    'X-RateLimit-Limit': { $ref: '#/components/headers/X-RateLimit-Limit' },
+    'X-RateLimit-Remaining': { $ref: '#/components/headers/X-RateLimit-Remaining' },
+    'X-RateLimit-Reset': { $ref: '#/components/headers/X-RateLimit-Reset' }
+  },
+  content: { 'application/json': { schema } }
+})
+
+const errorResponses = (...statuses: number[]) => Object.fromEntries(statuses.map(status => [status, { $ref: `#/components/responses/${status}` }]))
+
+const tierLimits = Object.entries(API_TIER_LIMITS)
+  .map(([tier, limits]) => `- **${tier}**: ${limits.requestsPerMinute} requests per minute, ${limits.scansPerDay} scans per day`)
+  .join('\n')
+
+// Schemas of the API's own envelopes; the analysis schemas are generated from src/types/seo.ts
+const apiSchemas: Record<string, Schema> = {
+  Error: {
+    type: 'object',
+    required: ['error'],
+    properties: {
+      error: { type: 'string' },
+      upgradeRequired: { type: 'boolean', description: 'Set when the daily scan quota of the free plan is used up' }
+    }
+  },
+  ScanJob: {
+    type: 'object',
+    required: ['id', 'url', 'status', 'progress', 'createdAt', 'updatedAt'],
+    properties: {
+      id: { type: 'string', format: 'uuid', description: 'Also the ID of the report the scan is saved as' },
+      url: { type: 'string', format: 'uri' },
+      projectId: { type: 'string', format: 'uuid' },
+      status: { type: 'string', enum: ['pending', 'completed', 'failed'] },
+      stage: { type: 'string', enum: [...SCAN_STAGES], description: 'Stage of a pending scan' },
+      progress: { type: 'number', minimum: 0, maximum: 100 },
+      result: { allOf: [ref('SEOAnalysis')], description: 'Set once the scan has completed' },
+      error: { type: 'string', description: 'Set when the scan failed' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  CrawlerSettings: {
+    type: 'object',
+    description: 'How scans present themselves to the site. Headers, cookies and basic auth are only sent to the scanned origin (scheme, host and port).',
+    properties: {
+      userAgent: { type: 'string', enum: [...USER_AGENT_PRESETS.map(preset => preset.id), 'custom'], default: USER_AGENT_PRESETS[0].id },
+      customUserAgent: { type: 'string', description: 'Required with the custom preset' },
+      headers: { type: 'object', additionalProperties: { type: 'string' }, description: 'Extra request headers by name' },
+      cookies: { type: 'object', additionalProperties: { type: 'string' }, description: 'Cookie values by name' },
+      basicAuth: {
+        type: 'object',
+        required: ['username', 'password'],
+        properties: { username: { type: 'string' }, password: { type: 'string' } }
+      }
+    }
+  },
+  ScanRequest: {
+    type: 'object',
+    required: ['url'],
+    properties: {
+      url: { type: 'string', format: 'uri' },
+      scoringProfile: { type: 'string', enum: SCORING_PROFILES.map(profile => profile.id), default: SCORING_PROFILES[0].id },
+      renderJavaScript: { type: 'boolean', default: false, description: 'Analyze the page after rendering it in a headless browser' },
+      checkCloaking: { type: 'boolean', default: false, description: 'Also fetch the page as Googlebot and as a browser and compare the two' },
+      sitemapSampleSize: { type: 'integer', description: 'How many sitemap URLs to check for health' },
+      projectId: { type: 'string', format: 'uuid', description: 'File the report under one of your projects' },
+      crawler: { allOf: [ref('CrawlerSettings')], description: "Applied on top of the project's crawler settings" }
+    }
+  },
+  ReportSummary: {
+    type: 'object',
+    required: ['id', 'url', 'status', 'createdAt'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      url: { type: 'string', format: 'uri' },
+      title: { type: 'string' },
+      projectId: { type: 'string', format: 'uuid' },
+      batchId: { type: 'string', format: 'uuid', description: 'Shared by the reports of one bulk scan' },
+      status: { type: 'string', enum: ['pending', 'completed', 'failed'] },
+      seoScore: { type: 'number' },
+      performanceScore: { type: 'number' },
+      createdAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  Report: {
+    allOf: [
+      ref('ReportSummary'),
+      {
+        type: 'object',
+        properties: {
+          analysis: { allOf: [ref('SEOAnalysis')], description: 'Set on completed reports' },
+          error: { type: 'string', description: 'Set on failed reports' }
+        }
+      }
+    ]
+  },
+  Project: {
+    type: 'object',
+    required: ['id', 'name', 'url', 'createdAt', 'updatedAt'],
+    properties: {
+      id: { type: 'string', format: 'uuid' },
+      name: { type: 'string' },
+      url: { type: 'string', format: 'uri' },
+      crawler: { allOf: [ref('CrawlerSettings')], description: 'Header and cookie values and the basic auth password are masked' },
+      createdAt: { type: 'string', format: 'date-time' },
+      updatedAt: { type: 'string', format: 'date-time' }
+    }
+  },
+  ProjectRequest: {
+    type: 'object',
+    required: ['name', 'url'],
+    properties: {
+      name: { type: 'string' },
+      url: { type: 'string', format: 'uri' },
+      crawler: ref('CrawlerSettings')
+    }
+  },
+  ProjectUpdate: {
+    type: 'object',
+    properties: {
+      name: { type: 'string' },
+      url: { type: 'string', format: 'uri' },
+      crawler: { allOf: [ref('CrawlerSettings')], description: 'Replaces the saved crawler settings; masked values keep the saved value of the same name' }
+    }
+  }
+}
+
+export class OpenApi {
+  /**
+   * OpenAPI 3.0 description of the public /api/v1 routes
+   */
+  static document(serverUrl?: string): Schema {
+    return {
+      openapi: '3.0.3',
+      info: {
+        title: 'SEO Analyzer Pro API',
+        version: '1.0.0',
+        description: `Scan pages and read saved reports with an API key created on your profile page.\n\nSend the key as \`Authorization: Bearer <key>\` or \`X-API-Key: <key>\`. Limits depend on your plan:\n\n${tierLimits}`
+      },
+      servers: [{ url: `${serverUrl || ''}/api/v1` }],
+      security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+      paths: {
+        '/scans': {
+          post: {
+            summary: 'Start a scan',
+            description: 'Starts scanning a URL in the background and counts towards the daily scan quota. Poll the scan until it completes.',
+            operationId: 'createScan',
+            requestBody: { required: true, content: { 'application/json': { schema: ref('ScanRequest') } } },
+            responses: {
+              202: jsonResponse('Scan started', success({
+                type: 'object',
+                properties: { job: ref('ScanJob'), statusUrl: { type: 'string' }, reportUrl: { type: 'string' } }
+              })),
+              ...errorResponses(400, 401, 404, 429)
+            }
+          }
+        },
+        '/scans/{id}': {
+          get: {
+            summary: 'Get a scan',
+            operationId: 'getScan',
+            parameters: [idParameter('Scan ID')],
+            responses: {
+              200: jsonResponse('The scan, with its analysis once completed', success(ref('ScanJob'))),
+              ...errorResponses(401, 404, 429)
+            }
+          }
+        },
+        '/reports': {
+          get: {
+            summary: 'List reports',
+            operationId: 'listReports',
+            parameters: [
+              { name: 'projectId', in: 'query', schema: { type: 'string', format: 'uuid' } },
+              { name: 'url', in: 'query', schema: { type: 'string', format: 'uri' } },
+              { name: 'limit', in: 'query', schema: { type: 'integer', minimum: 1, maximum: 100, default: 20 } },
+              { name: 'offset', in: 'query', schema: { type: 'integer', minimum: 0, default: 0 } }
+            ],
+            responses: {
+              200: jsonResponse('Reports, newest first', success({ type: 'array', items: ref('ReportSummary') }, {
+                pagination: {
+                  type: 'object',
+                  properties: { limit: { type: 'integer' }, offset: { type: 'integer' }, total: { type: 'integer' } }
+                }
+              })),
+              ...errorResponses(401, 429)
+            }
+          }
+        },
+        '/reports/{id}': {
+          get: {
+            summary: 'Get a report with its full analysis',
+            operationId: 'getReport',
+            parameters: [idParameter('Report ID')],
+            responses: {
+              200: jsonResponse('The report', success(ref('Report'))),
+              ...errorResponses(401, 404, 429)
+            }
+          },
+          delete: {
+            summary: 'Delete a report',
+            operationId: 'deleteReport',
+            parameters: [idParameter('Report ID')],
+            responses: {
+              200: jsonResponse('Deleted', { type: 'object', properties: { success: { type: 'boolean' } } }),
+              ...errorResponses(401, 404, 429)
+            }
+          }
+        },
+        '/projects': {
+          get: {
+            summary: 'List projects',
+            operationId: 'listProjects',
+            responses: {
+              200: jsonResponse('Projects, newest first', success({ type: 'array', items: ref('Project') })),
+              ...errorResponses(401, 429)
+            }
+          },
+          post: {
+            summary: 'Create a project',
+            operationId: 'createProject',
+            requestBody: { required: true, content: { 'application/json': { schema: ref('ProjectRequest') } } },
+            responses: {
+              201: jsonResponse('Project created', success(ref('Project'))),
+              ...errorResponses(400, 401, 429)
+            }
+          }
+        },
+        '/projects/{id}': {
+          get: {
+            summary: 'Get a project with its latest reports',
+            operationId: 'getProject',
+            parameters: [idParameter('Project ID')],
+            responses: {
+              200: jsonResponse('The project', success({
+                allOf: [ref('Project'), { type: 'object', properties: { recentReports: { type: 'array', items: ref('ReportSummary') } } }]
+              })),
+              ...errorResponses(401, 404, 429)
+            }
+          },
+          patch: {
+            summary: 'Update a project',
+            operationId: 'updateProject',
+            parameters: [idParameter('Project ID')],
+            requestBody: { required: true, content: { 'application/json': { schema: ref('ProjectUpdate') } } },
+            responses: {
+              200: jsonResponse('Project updated', success(ref('Project'))),
+              ...errorResponses(400, 401, 404, 429)
+            }
+          },
+          delete: {
+            summary: 'Delete a project',
+            description: 'Its reports are kept and no longer belong to a project.',
+            operationId: 'deleteProject',
+            parameters: [idParameter('Project ID')],
+            responses: {
+              200: jsonResponse('Deleted', { type: 'object', properties: { success: { type: 'boolean' } } }),
+              ...errorResponses(401, 404, 429)
+            }
+          }
+        }
+      },
+      components: {
+        securitySchemes: {
+          bearerAuth: { type: 'http', scheme: 'bearer' },
+          apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+        },
+        headers: {
+          'X-RateLimit-Limit': { description: 'Requests allowed per minute for this key', schema: { type: 'integer' } },
+          'X-RateLimit-Remaining': { description: 'Requests left in the current minute', schema: { type: 'integer' } },
+          'X-RateLimit-Reset': { description: 'Epoch seconds at which the current minute ends', schema: { type: 'integer' } }
+        },
+        responses: {
+          400: { description: 'Invalid request', content: { 'application/json': { schema: ref('Error') } } },
+          401: { description: 'Missing, invalid or revoked API key', content: { 'application/json': { schema: ref('Error') } } },
+          404: { description: 'Not found or owned by another user', content: { 'application/json': { schema: ref('Error') } } },
+          429: {
+            description: 'Rate limit or daily scan quota exceeded',
+            headers: { 'Retry-After': { description: 'Seconds until the rate limit resets', schema: { type: 'integer' } } },
+            content: { 'application/json': { schema: ref('Error') } }
+          }
+        },
+        schemas: { ...apiSchemas, ...analysisSchemas }
+      }
+    }
+  }
+}
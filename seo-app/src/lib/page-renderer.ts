@@ -0,0 +1,111 @@
+import puppeteer from 'puppeteer'
+import { RenderedField, RenderingAnalysis } from '@/types/seo'
+import { RuleEngine } from './rule-engine'
+import { SafeFetch } from './safe-fetch'
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './scoring-profiles'
+
+export interface RenderOptions {
+  timeoutMs?: number
+  // Defaults to the user agent of the scan's crawler identity
+  userAgent?: string
+}
+
+export interface RenderedPage {
+  html: string
+  finalUrl: string
+  renderTimeMs: number
+  timedOut: boolean
+}
+
+export interface PageSnapshot {
+  title: string
+  description: string
+  canonical?: string
+  metaRobots?: string
+  h1: string
+  wordCount: number
+  links: string[]
+}
+
+const DEFAULT_TIMEOUT_MS = 30000
+
+export class PageRenderer {
+  /**
+   * Load a page in headless Chromium, wait for network idle and return the rendered DOM.
+   * Pages that never go idle (long polling, analytics beacons) are captured as they are at the timeout.
+   */
+  static async render(url: string, options: RenderOptions = {}): Promise<RenderedPage> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    const startTime = Date.now()
+    await SafeFetch.assertPublicUrl(url)
+
+    const browser = await puppeteer.launch({
+      headless: true,
+      args: [
+        '--no-sandbox',
+        '--disable-setuid-sandbox',
+        '--disable-dev-shm-usage',
+        '--disable-gpu'
+      ]
+    })
+
+    try {
+      const page = await browser.newPage()
+      await page.setUserAgent(options.userAgent || SafeFetch.identity().userAgent)
+      await SafeFetch.guardPage(page)
+
+      let timedOut = false
+      try {
+        await page.goto(url, { waitUntil: 'networkidle0', timeout: timeoutMs })
+      } catch (error) {
+        if (!(error instanceof Error && error.name === 'TimeoutError')) throw error
+        timedOut = true
+      }
+
+      return {
+        html: await page.content(),
+        finalUrl: page.url(),
+        renderTimeMs: Date.now() - startTime,
+        timedOut
+      }
+    } finally {
+      await browser.close()
+    }
+  }
+
+  /**
+   * Compare the raw server HTML with the rendered DOM and flag SEO signals that only exist after JavaScript runs
+   */
+  static compare(raw: PageSnapshot, rendered: PageSnapshot, page: RenderedPage, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): RenderingAnalysis {
+    const field = (rawValue?: string, renderedValue?: string): RenderedField => ({
+      raw: rawValue || undefined,
+      rendered: renderedValue || undefined,
+      changed: (rawValue || '') !== (renderedValue || '')
+    })
+
+    const rawLinks = new Set(raw.links)
+    const renderedLinks = new Set(rendered.links)
+    const diff: RenderingAnalysis['diff'] = {
+      title: field(raw.title, rendered.title),
+      description: field(raw.description, rendered.description),
+      canonical: field(raw.canonical, rendered.canonical),
+      metaRobots: field(raw.metaRobots, rendered.metaRobots),
+      h1: field(raw.h1, rendered.h1),
+      wordCount: { raw: raw.wordCount, rendered: rendered.wordCount },
+      linkCount: { raw: rawLinks.size, rendered: renderedLinks.size },
+      linksOnlyInRendered: rendered.links.filter(link => !rawLinks.has(link)).slice(0, 50),
+      linksOnlyInRaw: raw.links.filter(link => !renderedLinks.has(link)).slice(0, 50)
+    }
+
+    const analysis: RenderingAnalysis = {
+      renderTimeMs: page.renderTimeMs,
+      finalUrl: page.finalUrl,
+      diff,
+      timedOut: page.timedOut,
+      issues: []
+    }
+    analysis.issues = RuleEngine.messages({ url: page.finalUrl, sections: {}, rendering: analysis, profile }, 'rendering')
+
+    return analysis
+  }
+}
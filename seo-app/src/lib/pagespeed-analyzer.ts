@@ -1,35 +1,8 @@
-export interface CoreWebVitals {
-  lcp: {
-    value: number
-    score: number
-    displayValue: string
-    category: 'good' | 'needs-improvement' | 'poor'
-  }
-  fid: {
-    value: number
-    score: number
-    displayValue: string
-    category: 'good' | 'needs-improvement' | 'poor'
-  }
-  cls: {
-    value: number
-    score: number
-    displayValue: string
-    category: 'good' | 'needs-improvement' | 'poor'
-  }
-  fcp: {
-    value: number
-    score: number
-    displayValue: string
-    category: 'good' | 'needs-improvement' | 'poor'
-  }
-  speedIndex: {
-    value: number
-    score: number
-    displayValue: string
-    category: 'good' | 'needs-improvement' | 'poor'
-  }
-}
+import { CoreWebVitals, LabPerformanceRun, PerformanceSource, VitalMetric } from '@/types/seo'
+import { LabPerformanceAnalyzer } from './lab-performance-analyzer'
+import { SafeFetch } from './safe-fetch'
+
+export type { CoreWebVitals }
 
 export interface PageSpeedAnalysis {
   performanceScore: number
@@ -48,6 +21,8 @@ export interface PageSpeedAnalysis {
   totalPageSize: number
   totalRequestCount: number
   loadTime: number
+  source: PerformanceSource
+  labRuns?: LabPerformanceRun[]
   isSuccess: boolean
   error?: string
 }
@@ -64,8 +39,8 @@ export class PageSpeedAnalyzer {
       const apiKey = process.env.GOOGLE_PAGESPEED_API_KEY
       
       if (!apiKey) {
-        console.warn('Google PageSpeed API key not configured, using fallback analysis')
-        return this.fallbackPerformanceAnalysis(url)
+        console.warn('Google PageSpeed API key not configured, measuring locally in headless Chromium')
+        return this.labPerformanceAnalysis(url, strategy)
       }
 
       const apiUrl = `${this.API_BASE}?url=${encodeURIComponent(url)}&key=${apiKey}&strategy=${strategy}&category=performance`
@@ -85,8 +60,8 @@ export class PageSpeedAnalyzer {
         console.error('❌ Error details:', errorText)
         
         // Use fallback instead of throwing error
-        console.warn('⚠️ Falling back to basic performance analysis')
-        return this.fallbackPerformanceAnalysis(url)
+        console.warn('⚠️ Falling back to local lab performance analysis')
+        return this.labPerformanceAnalysis(url, strategy)
       }
 
       const data = await response.json()
@@ -95,12 +70,12 @@ export class PageSpeedAnalyzer {
         throw new Error(`PageSpeed API error: ${data.error.message}`)
       }
 
-      return this.parsePageSpeedResults(data)
+      return this.parsePageSpeedResults(data, strategy)
       
     } catch (error) {
       console.error('PageSpeed analysis failed:', error)
       return {
-        ...this.fallbackPerformanceAnalysis(url),
+        ...(await this.fallbackPerformanceAnalysis(url)),
         error: error instanceof Error ? error.message : 'Unknown error',
         isSuccess: false
       }
@@ -110,18 +85,23 @@ export class PageSpeedAnalyzer {
   /**
    * Parse Google PageSpeed Insights API response
    */
-  private static parsePageSpeedResults(data: any): PageSpeedAnalysis {
+  private static parsePageSpeedResults(data: any, strategy: 'mobile' | 'desktop'): PageSpeedAnalysis {
     const lighthouseResult = data.lighthouseResult
     const audits = lighthouseResult.audits
     const categories = lighthouseResult.categories
 
-    // Core Web Vitals
+    // Core Web Vitals. Lighthouse cannot measure INP without user input, so it comes
+    // from Chrome UX Report field data when the page (or its origin) has enough traffic
+    const fieldInp = data.loadingExperience?.metrics?.INTERACTION_TO_NEXT_PAINT?.percentile ??
+      data.originLoadingExperience?.metrics?.INTERACTION_TO_NEXT_PAINT?.percentile
     const coreWebVitals: CoreWebVitals = {
       lcp: this.parseMetric(audits['largest-contentful-paint']),
-      fid: this.parseMetric(audits['max-potential-fid'] || audits['total-blocking-time']),
+      inp: typeof fieldInp === 'number' ? LabPerformanceAnalyzer.toMetric('inp', fieldInp, strategy) : this.unmeasuredMetric(),
       cls: this.parseMetric(audits['cumulative-layout-shift']),
+      ttfb: this.parseMetric(audits['server-response-time']),
       fcp: this.parseMetric(audits['first-contentful-paint']),
-      speedIndex: this.parseMetric(audits['speed-index'])
+      speedIndex: this.parseMetric(audits['speed-index']),
+      tbt: this.parseMetric(audits['total-blocking-time'])
     }
 
     // Performance opportunities
@@ -143,10 +123,24 @@ export class PageSpeedAnalyzer {
       totalPageSize: totalSize,
       totalRequestCount: totalRequests,
       loadTime: audits['speed-index']?.numericValue || 0,
+      source: 'pagespeed',
       isSuccess: true
     }
   }
 
+  /**
+   * Measure the page in local headless Chromium, falling back to a single fetch timing
+   * when Chromium cannot be launched
+   */
+  private static async labPerformanceAnalysis(url: string, strategy: 'mobile' | 'desktop'): Promise<PageSpeedAnalysis> {
+    try {
+      return await LabPerformanceAnalyzer.analyzePerformance(url, strategy)
+    } catch (error) {
+      console.warn('Lab performance measurement failed, using fetch timing only:', error)
+      return this.fallbackPerformanceAnalysis(url)
+    }
+  }
+
   /**
    * Parse individual metric from audit result
    */
@@ -254,27 +248,28 @@ export class PageSpeedAnalyzer {
   private static async fallbackPerformanceAnalysis(url: string): Promise<PageSpeedAnalysis> {
     try {
       const startTime = Date.now()
-      const response = await fetch(url, {
-        timeout: 10000,
-        headers: {
-          'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36'
-        }
+      // The scan has already fetched the page, so a cached response would time nothing
+      const response = await SafeFetch.fetch(url, {
+        discardBody: true,
+        cache: false
       })
       const responseTime = Date.now() - startTime
       
-      const contentLength = parseInt(response.headers.get('content-length') || '0')
+      const contentLength = parseInt(response.headers['content-length'] || '0')
       
-      // Simple performance estimation
+      // Simple performance estimation; paint and interaction metrics need a browser, so only TTFB is measured
       const estimatedScore = this.estimatePerformanceScore(responseTime, contentLength)
       
       return {
         performanceScore: estimatedScore,
         coreWebVitals: {
-          lcp: { value: responseTime * 1.5, score: estimatedScore, displayValue: `~${(responseTime * 1.5 / 1000).toFixed(1)}s`, category: 'needs-improvement' },
-          fid: { value: 100, score: 80, displayValue: '~100ms', category: 'good' },
-          cls: { value: 0.1, score: 85, displayValue: '~0.1', category: 'good' },
-          fcp: { value: responseTime, score: estimatedScore, displayValue: `~${(responseTime / 1000).toFixed(1)}s`, category: 'needs-improvement' },
-          speedIndex: { value: responseTime * 1.2, score: estimatedScore, displayValue: `~${(responseTime * 1.2 / 1000).toFixed(1)}s`, category: 'needs-improvement' }
+          lcp: this.unmeasuredMetric(),
+          inp: this.unmeasuredMetric(),
+          cls: this.unmeasuredMetric(),
+          // fetch resolves once response headers arrive, so its timing is the time to first byte
+          ttfb: LabPerformanceAnalyzer.toMetric('ttfb', responseTime, 'mobile'),
+          fcp: this.unmeasuredMetric(),
+          speedIndex: this.unmeasuredMetric()
         },
         opportunities: [
           {
@@ -294,6 +289,7 @@ export class PageSpeedAnalyzer {
         totalPageSize: contentLength,
         totalRequestCount: 1,
         loadTime: responseTime,
+        source: 'estimate',
         isSuccess: true
       }
     } catch (error) {
@@ -301,8 +297,9 @@ export class PageSpeedAnalyzer {
         performanceScore: 0,
         coreWebVitals: {
           lcp: { value: 0, score: 0, displayValue: 'Error', category: 'poor' },
-          fid: { value: 0, score: 0, displayValue: 'Error', category: 'poor' },
+          inp: { value: 0, score: 0, displayValue: 'Error', category: 'poor' },
           cls: { value: 0, score: 0, displayValue: 'Error', category: 'poor' },
+          ttfb: { value: 0, score: 0, displayValue: 'Error', category: 'poor' },
           fcp: { value: 0, score: 0, displayValue: 'Error', category: 'poor' },
           speedIndex: { value: 0, score: 0, displayValue: 'Error', category: 'poor' }
         },
@@ -311,12 +308,17 @@ export class PageSpeedAnalyzer {
         totalPageSize: 0,
         totalRequestCount: 0,
         loadTime: 0,
+        source: 'estimate',
         isSuccess: false,
         error: 'Failed to fetch URL for performance analysis'
       }
     }
   }
 
+  private static unmeasuredMetric(): VitalMetric {
+    return { value: 0, score: 0, displayValue: 'N/A', category: 'needs-improvement' }
+  }
+
   /**
    * Estimate performance score based on basic metrics
    */
@@ -0,0 +1,233 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { NextRequest, NextResponse } from 'next/server'
+import { SEOAnalysis } from '@/types/seo'
+import { API_TIER_LIMITS, ApiKeys, ApiTierLimits, SubscriptionTier } from './api-keys'
+import { CrawlerIdentity, CrawlerSettings } from './crawler-identity'
+import { getServiceSupabaseClient } from './supabase-server'
+import type { Project, ScanReport } from './supabase'
+
+// Authenticated API caller
+export interface ApiContext {
+  keyId: string
+  userId: string
+  tier: SubscriptionTier
+  limits: ApiTierLimits
+  rateLimit: {
+    limit: number
+    remaining: number
+    // Epoch seconds at which the current window ends
+    reset: number
+  }
+}
+
+export type ApiAuthResult = { context: ApiContext; response?: undefined } | { context?: undefined; response: NextResponse }
+
+export interface ApiReportSummary {
+  id: string
+  url: string
+  title?: string
+  projectId?: string
+  batchId?: string
+  status: 'pending' | 'completed' | 'failed'
+  seoScore?: number
+  performanceScore?: number
+  createdAt: string
+}
+
+export interface ApiReport extends ApiReportSummary {
+  analysis?: SEOAnalysis
+  error?: string
+}
+
+export interface ApiProject {
+  id: string
+  name: string
+  url: string
+  crawler: CrawlerSettings
+  createdAt: string
+  updatedAt: string
+}
+
+// Columns of scan_reports returned in listings; report_data is only loaded for single reports
+export const REPORT_SUMMARY_COLUMNS = 'id, url, title, project_id, batch_id, status, seo_score, performance_score, created_at'
+
+const RATE_WINDOW_MS = 60 * 1000
+
+// Fixed one-minute windows per key, kept in memory like scan jobs
+const rateWindows = new Map<string, { startedAt: number; count: number }>()
+
+export class PublicApi {
+  /**
+   * Resolve the API key sent as `Authorization: Bearer <key>` or `X-API-Key`, then apply the
+   * per-key rate limit of the owner's subscription tier. Returns either the caller or the error response.
+   */
+  static async authenticate(request: NextRequest): Promise<ApiAuthResult> {
+    const authorization = request.headers.get('authorization')
+    const key = authorization?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim() || request.headers.get('x-api-key')?.trim()
+
+    if (!key || !ApiKeys.looksLikeKey(key)) {
+      const response = this.error('A valid API key is required', 401)
+      response.headers.set('WWW-Authenticate', 'Bearer')
+      return { response }
+    }
+
+    const supabase = getServiceSupabaseClient()
+    if (!supabase) {
+      return { response: this.error('The API is not configured on this server', 503) }
+    }
+
+    const { data: apiKey } = await supabase
+      .from('api_keys')
+      .select('id, user_id, revoked_at')
+      .eq('key_hash', await ApiKeys.hash(key))
+      .maybeSingle()
+
+    if (!apiKey || apiKey.revoked_at) {
+      return { response: this.error('Invalid or revoked API key', 401) }
+    }
+
+    const { data: profile } = await supabase
+      .from('profiles')
+      .select('subscription_tier')
+      .eq('id', apiKey.user_id)
+      .single()
+
+    const tier: SubscriptionTier = profile?.subscription_tier || 'free'
+    const limits = API_TIER_LIMITS[tier]
+    const context: ApiContext = {
+      keyId: apiKey.id,
+      userId: apiKey.user_id,
+      tier,
+      limits,
+      rateLimit: this.consumeRateLimit(apiKey.id, limits.requestsPerMinute)
+    }
+
+    if (context.rateLimit.remaining < 0) {
+      context.rateLimit.remaining = 0
+      const response = this.json(context, { error: `Rate limit of ${limits.requestsPerMinute} requests per minute exceeded` }, { status: 429 })
+      response.headers.set('Retry-After', String(Math.max(1, context.rateLimit.reset - Math.floor(Date.now() / 1000))))
+      return { response }
+    }
+
+    void supabase
+      .from('api_keys')
+      .update({ last_used_at: new Date().toISOString() })
+      .eq('id', apiKey.id)
+      .then(({ error }) => {
+        if (error) console.error('Error recording API key use:', error)
+      })
+
+    return { context }
+  }
+
+  /**
+   * Daily scan quota of the caller's tier, counted over every scan saved today (UTC), in the app or through the API.
+   * Returns the error response when `scans` more would go over it.
+   */
+  static async checkScanQuota(context: ApiContext, scans = 1): Promise<NextResponse | null> {
+    const supabase = getServiceSupabaseClient()
+    if (!supabase) return this.error('The API is not configured on this server', 503)
+
+    const used = await this.scansToday(supabase, context.userId)
+    if (used === null) return this.error('Failed to check scan quota', 500, context)
+
+    const exceeded = this.quotaExceeded(context.tier, used, scans)
+    return exceeded ? this.json(context, exceeded, { status: 429 }) : null
+  }
+
+  /**
+   * Scans the user has saved since midnight UTC, pending ones included; null when they cannot be counted
+   */
+  static async scansToday(supabase: SupabaseClient, userId: string): Promise<number | null> {
+    const startOfDay = new Date()
+    startOfDay.setUTCHours(0, 0, 0, 0)
+
+    const { count, error } = await supabase
+      .from('scan_reports')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .gte('created_at', startOfDay.toISOString())
+
+    if (error) {
+      console.error('Error counting scans for quota:', error)
+      return null
+    }
+    return count || 0
+  }
+
+  /**
+   * Error body when `scans` more scans would take a user of the tier past its daily quota
+   */
+  static quotaExceeded(tier: SubscriptionTier, used: number, scans: number): { error: string; upgradeRequired: boolean } | null {
+    const limit = API_TIER_LIMITS[tier].scansPerDay
+    if (used + scans <= limit) return null
+
+    const error = used >= limit
+      ? `Daily scan quota of ${limit} reached for the ${tier} plan`
+      : `${scans} scans would go over the daily quota of ${limit} for the ${tier} plan; ${limit - used} left today`
+    return { error, upgradeRequired: tier === 'free' }
+  }
+
+  /**
+   * JSON response carrying the caller's rate limit headers
+   */
+  static json(context: ApiContext, body: unknown, init?: { status?: number }): NextResponse {
+    const response = NextResponse.json(body, init)
+    response.headers.set('X-RateLimit-Limit', String(context.rateLimit.limit))
+    response.headers.set('X-RateLimit-Remaining', String(context.rateLimit.remaining))
+    response.headers.set('X-RateLimit-Reset', String(context.rateLimit.reset))
+    return response
+  }
+
+  static error(message: string, status: number, context?: ApiContext): NextResponse {
+    return context ? this.json(context, { error: message }, { status }) : NextResponse.json({ error: message }, { status })
+  }
+
+  static reportSummary(row: Partial<ScanReport> & Pick<ScanReport, 'id' | 'url' | 'created_at'>): ApiReportSummary {
+    return {
+      id: row.id,
+      url: row.url,
+      title: row.title,
+      projectId: row.project_id || undefined,
+      batchId: row.batch_id || undefined,
+      status: row.status || 'completed',
+      seoScore: row.seo_score ?? undefined,
+      performanceScore: row.performance_score ?? undefined,
+      createdAt: row.created_at
+    }
+  }
+
+  static report(row: ScanReport): ApiReport {
+    const summary = this.reportSummary(row)
+    return summary.status === 'completed'
+      ? { ...summary, analysis: row.report_data }
+      : { ...summary, error: row.report_data?.error }
+  }
+
+  static project(row: Project): ApiProject {
+    return {
+      id: row.id,
+      name: row.name,
+      url: row.url,
+      crawler: CrawlerIdentity.redact(row.crawler_settings || {}),
+      createdAt: row.created_at,
+      updatedAt: row.updated_at
+    }
+  }
+
+  private static consumeRateLimit(keyId: string, limit: number): ApiContext['rateLimit'] {
+    const now = Date.now()
+    let window = rateWindows.get(keyId)
+    if (!window || now - window.startedAt >= RATE_WINDOW_MS) {
+      window = { startedAt: now, count: 0 }
+      rateWindows.set(keyId, window)
+    }
+    window.count++
+
+    return {
+      limit,
+      remaining: limit - window.count,
+      reset: Math.ceil((window.startedAt + RATE_WINDOW_MS) / 1000)
+    }
+  }
+}
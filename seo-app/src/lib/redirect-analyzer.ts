@@ -0,0 +1,116 @@
+import { RedirectAnalysis, RedirectHop } from '@/types/seo'
+import { RuleEngine } from './rule-engine'
+import { SafeFetch } from './safe-fetch'
+import { DEFAULT_SCORING_PROFILE, ScoringProfile } from './scoring-profiles'
+
+const TEMPORARY_REDIRECT_STATUSES = [302, 303, 307]
+
+interface RedirectTrace {
+  hops: RedirectHop[]
+  finalUrl: string
+  finalStatusCode?: number
+  hasLoop: boolean
+  error?: string
+}
+
+export class RedirectAnalyzer {
+  /**
+   * Trace the redirect chain of a URL hop by hop and flag loops, long chains,
+   * temporary redirects and missing HTTP→HTTPS enforcement
+   */
+  static async analyzeRedirects(url: string, profile: ScoringProfile = DEFAULT_SCORING_PROFILE): Promise<RedirectAnalysis> {
+    const maxHops = profile.thresholds.maxRedirectHops
+    const trace = await this.traceRedirects(url, maxHops)
+    const isChain = trace.hops.length > 1
+    const usesTemporaryRedirect = trace.hops.some(hop => TEMPORARY_REDIRECT_STATUSES.includes(hop.statusCode))
+
+    // Only meaningful when the site is served over HTTPS
+    let httpsEnforced: boolean | undefined
+    if (trace.finalUrl.startsWith('https://')) {
+      const httpUrl = trace.finalUrl.replace(/^https:/, 'http:')
+      const httpTrace = url.startsWith('http://') ? trace : await this.traceRedirects(httpUrl, maxHops)
+      httpsEnforced = !httpTrace.error && httpTrace.finalUrl.startsWith('https://') && httpTrace.hops.length > 0
+    }
+
+    const analysis: RedirectAnalysis = {
+      score: 0,
+      requestedUrl: url,
+      finalUrl: trace.finalUrl,
+      finalStatusCode: trace.finalStatusCode,
+      hops: trace.hops,
+      hasLoop: trace.hasLoop,
+      isChain,
+      usesTemporaryRedirect,
+      httpsEnforced,
+      error: trace.error,
+      issues: []
+    }
+    const context = { url, sections: { redirects: analysis }, profile }
+    analysis.issues = RuleEngine.messages(context, 'redirects')
+    Object.assign(analysis, RuleEngine.scoreSection(context, 'redirects'))
+
+    return analysis
+  }
+
+  /**
+   * Follow redirects manually so every hop's status and Location are recorded
+   */
+  private static async traceRedirects(url: string, maxHops: number): Promise<RedirectTrace> {
+    const hops: RedirectHop[] = []
+    const visited = new Set<string>()
+    let currentUrl = url
+
+    try {
+      while (hops.length < maxHops) {
+        if (visited.has(currentUrl)) {
+          return { hops, finalUrl: currentUrl, hasLoop: true }
+        }
+        visited.add(currentUrl)
+
+        const response = await SafeFetch.fetch(currentUrl, {
+          redirect: 'manual',
+          discardBody: true
+        })
+
+        const location = response.headers.location
+        if (response.status < 300 || response.status >= 400 || !location) {
+          return { hops, finalUrl: currentUrl, finalStatusCode: response.status, hasLoop: false }
+        }
+
+        const nextUrl = new URL(location, currentUrl).href
+        hops.push({
+          url: currentUrl,
+          statusCode: response.status,
+          location: nextUrl,
+          ...this.describeChange(currentUrl, nextUrl)
+        })
+        currentUrl = nextUrl
+      }
+
+      return { hops, finalUrl: currentUrl, hasLoop: false }
+    } catch (error) {
+      return {
+        hops,
+        finalUrl: currentUrl,
+        hasLoop: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }
+    }
+  }
+
+  private static describeChange(from: string, to: string): Pick<RedirectHop, 'protocolChange' | 'wwwChange'> {
+    const source = new URL(from)
+    const target = new URL(to)
+    const change: Pick<RedirectHop, 'protocolChange' | 'wwwChange'> = {}
+
+    if (source.protocol === 'http:' && target.protocol === 'https:') change.protocolChange = 'http-to-https'
+    if (source.protocol === 'https:' && target.protocol === 'http:') change.protocolChange = 'https-to-http'
+
+    const sourceWww = source.hostname.startsWith('www.')
+    const targetWww = target.hostname.startsWith('www.')
+    if (!sourceWww && targetWww && target.hostname === `www.${source.hostname}`) change.wwwChange = 'added'
+    if (sourceWww && !targetWww && source.hostname === `www.${target.hostname}`) change.wwwChange = 'removed'
+
+    return change
+  }
+}
@@ -0,0 +1,90 @@
+import { createRouteHandlerClient } from '@supabase/auth-helpers-nextjs'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { cookies } from 'next/headers'
+import { NextRequest, NextResponse } from 'next/server'
+import { ApiKeys } from './api-keys'
+import { ApiContext, PublicApi } from './public-api'
+import { getServiceSupabaseClient } from './supabase-server'
+
+// Caller of an app route, signed in through the app or calling with an API key
+export interface RequestIdentity {
+  userId: string
+  source: 'session' | 'api-key'
+  // Session clients are limited by row level security, the API key client is not, so queries always filter by userId
+  supabase: SupabaseClient
+  apiContext?: ApiContext
+}
+
+export type RequestAuthResult = { identity: RequestIdentity; response?: undefined } | { identity?: undefined; response: NextResponse }
+
+export class RequestAuth {
+  /**
+   * Identify the caller from an API key when one is sent, otherwise from the Supabase session cookie.
+   * A `userId` sent by the client is never trusted; check it with `forbidOtherUser`.
+   */
+  static async authenticate(request: NextRequest): Promise<RequestAuthResult> {
+    if (this.sendsApiKey(request)) {
+      const auth = await PublicApi.authenticate(request)
+      if (auth.response) return { response: auth.response }
+
+      const supabase = getServiceSupabaseClient()
+      if (!supabase) return { response: this.error('The API is not configured on this server', 503) }
+
+      return { identity: { userId: auth.context.userId, source: 'api-key', supabase, apiContext: auth.context } }
+    }
+
+    const cookieStore = cookies()
+    const supabase = createRouteHandlerClient({ cookies: () => cookieStore })
+    const { data: { user }, error } = await supabase.auth.getUser()
+
+    if (error || !user) {
+      return { response: this.error('Authentication required', 401) }
+    }
+
+    return { identity: { userId: user.id, source: 'session', supabase } }
+  }
+
+  /**
+   * 403 when the request names a user other than the caller; older clients still send their own ID
+   */
+  static forbidOtherUser(identity: RequestIdentity, requestedUserId: unknown): NextResponse | null {
+    if (requestedUserId === undefined || requestedUserId === null || requestedUserId === '') return null
+    return requestedUserId === identity.userId ? null : this.error('You can only access your own account', 403)
+  }
+
+  /**
+   * Daily scan quota for `scans` new scans. API key callers are limited by their key's tier and signed-in
+   * users by their subscription tier; both count every scan saved today.
+   */
+  static async checkScanQuota(identity: RequestIdentity, scans = 1): Promise<NextResponse | null> {
+    if (identity.apiContext) return PublicApi.checkScanQuota(identity.apiContext, scans)
+
+    const { data: profile } = await identity.supabase
+      .from('profiles')
+      .select('subscription_tier')
+      .eq('id', identity.userId)
+      .maybeSingle()
+
+    const used = await PublicApi.scansToday(identity.supabase, identity.userId)
+    if (used === null) return this.error('Failed to check scan quota', 500)
+
+    const exceeded = PublicApi.quotaExceeded(profile?.subscription_tier || 'free', used, scans)
+    return exceeded ? NextResponse.json(exceeded, { status: 429 }) : null
+  }
+
+  /**
+   * JSON response that carries the rate limit headers when the caller used an API key
+   */
+  static json(identity: RequestIdentity, body: unknown, init?: { status?: number }): NextResponse {
+    return identity.apiContext ? PublicApi.json(identity.apiContext, body, init) : NextResponse.json(body, init)
+  }
+
+  static error(message: string, status: number): NextResponse {
+    return NextResponse.json({ error: message }, { status })
+  }
+
+  private static sendsApiKey(request: NextRequest): boolean {
+    const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim()
+    return Boolean(request.headers.get('x-api-key')) || (!!bearer && ApiKeys.looksLikeKey(bearer))
+  }
+}
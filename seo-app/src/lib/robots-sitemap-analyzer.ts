@@ -1,3 +1,53 @@
+import * as cheerio from 'cheerio'
+import { gunzipSync } from 'zlib'
+import { SitemapAnalysis, SitemapUrlEntry } from '@/types/seo'
+import { SafeFetch } from './safe-fetch'
+
+export type { SitemapAnalysis, SitemapUrlEntry }
+
+export interface SitemapResponse {
+  status: number
+  body: Buffer
+  lastModified?: string
+}
+
+// Loads a sitemap by URL; offline analysis swaps in one that reads uploaded files
+export type SitemapFetcher = (url: string) => Promise<SitemapResponse>
+
+export interface SitemapParseOptions {
+  siteUrl?: string
+  maxDepth?: number
+  maxSitemaps?: number
+  fetcher?: SitemapFetcher
+}
+
+interface SitemapParseContext {
+  siteUrl?: URL
+  fetcher: SitemapFetcher
+  maxDepth: number
+  remainingFetches: number
+  visited: Set<string>
+  entries: SitemapUrlEntry[]
+}
+
+const SITEMAP_URL_LIMIT = 50000
+const SITEMAP_SIZE_LIMIT = 50 * 1024 * 1024
+const CHANGEFREQ_VALUES = ['always', 'hourly', 'daily', 'weekly', 'monthly', 'yearly', 'never']
+// W3C Datetime: YYYY, YYYY-MM, YYYY-MM-DD, or a full date-time with a timezone designator
+const W3C_DATETIME = /^\d{4}(-\d{2}(-\d{2}(T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2}))?)?)?$/
+const HREFLANG_VALUE = /^([a-z]{2,3}(-[A-Za-z]{4})?(-([A-Za-z]{2}|\d{3}))?|x-default)$/i
+
+export interface RobotsRule {
+  type: 'allow' | 'disallow'
+  path: string
+  line: number
+}
+
+export interface RobotsGroup {
+  userAgents: string[]
+  rules: RobotsRule[]
+}
+
 export interface RobotsAnalysis {
   exists: boolean
   content: string
@@ -6,20 +56,17 @@ export interface RobotsAnalysis {
   allows: string[]
   crawlDelay?: number
   userAgents: string[]
+  groups: RobotsGroup[]
   issues: string[]
+  warnings: string[]
   sitemapUrls: string[]
 }
 
-export interface SitemapAnalysis {
-  exists: boolean
-  url: string
-  isValid: boolean
-  urlCount: number
-  lastModified?: string
-  issues: string[]
-  indexSitemaps: string[]
-  imageCount?: number
-  videoCount?: number
+export interface RobotsMatchResult {
+  userAgent: string
+  allowed: boolean
+  matchedRule?: RobotsRule
+  matchedGroup?: string
 }
 
 export interface CrawlabilityAnalysis {
@@ -42,6 +89,8 @@ export interface CrawlabilityAnalysis {
 }
 
 export class RobotsSitemapAnalyzer {
+  static readonly TEST_USER_AGENTS = ['Googlebot', 'Bingbot', 'GPTBot']
+
   /**
    * Comprehensive crawlability analysis
    * Server-side implementation to avoid CORS issues
@@ -59,7 +108,7 @@ export class RobotsSitemapAnalyzer {
     
     // Get sitemaps from robots.txt
     for (const sitemapUrl of robots.sitemapUrls) {
-      const sitemapAnalysis = await this.analyzeSitemap(sitemapUrl)
+      const sitemapAnalysis = await this.analyzeSitemap(sitemapUrl, { siteUrl: url })
       sitemaps.push(sitemapAnalysis)
     }
     
@@ -74,7 +123,7 @@ export class RobotsSitemapAnalyzer {
       
       for (const path of commonSitemapPaths) {
         const sitemapUrl = domain + path
-        const sitemapAnalysis = await this.analyzeSitemap(sitemapUrl)
+        const sitemapAnalysis = await this.analyzeSitemap(sitemapUrl, { siteUrl: url })
         if (sitemapAnalysis.exists) {
           sitemaps.push(sitemapAnalysis)
           break // Only add the first found sitemap
@@ -136,16 +185,12 @@ export class RobotsSitemapAnalyzer {
   /**
    * Analyze robots.txt file with proper server-side fetching
    */
-  private static async analyzeRobotsTxt(domain: string): Promise<RobotsAnalysis> {
+  static async analyzeRobotsTxt(domain: string): Promise<RobotsAnalysis> {
     const robotsUrl = `${domain}/robots.txt`
     
     try {
-      const response = await fetch(robotsUrl, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'SEO-Analyzer-Bot/1.0'
-        },
-        signal: AbortSignal.timeout(10000)
+      const response = await SafeFetch.fetch(robotsUrl, {
+        accept: SafeFetch.CONTENT_TYPES.text
       })
 
       if (!response.ok) {
@@ -156,13 +201,14 @@ export class RobotsSitemapAnalyzer {
           blocks: [],
           allows: [],
           userAgents: [],
+          groups: [],
           issues: [`robots.txt not accessible (${response.status})`],
+          warnings: [],
           sitemapUrls: []
         }
       }
 
-      const content = await response.text()
-      return this.parseRobotsTxt(content)
+      return this.parseRobotsTxt(response.text())
 
     } catch (error) {
       return {
@@ -172,77 +218,93 @@ export class RobotsSitemapAnalyzer {
         blocks: [],
         allows: [],
         userAgents: [],
+        groups: [],
         issues: [`Failed to fetch robots.txt: ${error instanceof Error ? error.message : 'Unknown error'}`],
+        warnings: [],
         sitemapUrls: []
       }
     }
   }
 
   /**
-   * Parse robots.txt content
+   * Parse robots.txt content into user-agent groups (RFC 9309)
    */
-  private static parseRobotsTxt(content: string): RobotsAnalysis {
-    const lines = content.split('\n').map(line => line.trim())
+  static parseRobotsTxt(content: string): RobotsAnalysis {
+    const lines = content.split(/\r?\n/)
     const issues: string[] = []
+    const warnings: string[] = []
     const blocks: string[] = []
     const allows: string[] = []
     const userAgents: string[] = []
     const sitemapUrls: string[] = []
+    const groups: RobotsGroup[] = []
     let crawlDelay: number | undefined
 
-    let currentUserAgent = ''
+    let currentGroup: RobotsGroup | null = null
     let lineNumber = 0
 
-    for (const line of lines) {
+    for (const rawLine of lines) {
       lineNumber++
-      
-      if (line === '' || line.startsWith('#')) {
-        continue // Skip empty lines and comments
-      }
 
-      const [directive, ...valueParts] = line.split(':')
-      const value = valueParts.join(':').trim()
+      // Comments may start anywhere on a line
+      const line = rawLine.replace(/#.*$/, '').trim()
+      if (line === '') {
+        continue
+      }
 
-      if (!directive || !value) {
+      const separator = line.indexOf(':')
+      if (separator === -1) {
         issues.push(`Invalid syntax on line ${lineNumber}: ${line}`)
         continue
       }
 
-      const directiveLower = directive.toLowerCase().trim()
+      const directive = line.slice(0, separator).trim().toLowerCase()
+      const value = line.slice(separator + 1).trim()
 
-      switch (directiveLower) {
+      switch (directive) {
         case 'user-agent':
-          currentUserAgent = value
+          if (!value) {
+            issues.push(`Empty User-agent on line ${lineNumber}`)
+            break
+          }
+          // Consecutive user-agent lines share one group; a user-agent after rules starts a new one
+          if (!currentGroup || currentGroup.rules.length > 0) {
+            currentGroup = { userAgents: [], rules: [] }
+            groups.push(currentGroup)
+          }
+          currentGroup.userAgents.push(value)
           if (!userAgents.includes(value)) {
             userAgents.push(value)
           }
           break
-          
+
         case 'disallow':
-          if (currentUserAgent) {
-            blocks.push(`${currentUserAgent}: ${value}`)
-          } else {
-            issues.push(`Disallow directive without User-agent on line ${lineNumber}`)
-          }
-          break
-          
         case 'allow':
-          if (currentUserAgent) {
-            allows.push(`${currentUserAgent}: ${value}`)
-          } else {
-            issues.push(`Allow directive without User-agent on line ${lineNumber}`)
+          if (!currentGroup) {
+            issues.push(`${directive === 'allow' ? 'Allow' : 'Disallow'} directive without User-agent on line ${lineNumber}`)
+            break
+          }
+          // An empty Disallow allows everything and never wins a match
+          if (value) {
+            currentGroup.rules.push({ type: directive, path: value, line: lineNumber })
+            const summary = `${currentGroup.userAgents.join(', ')}: ${value}`
+            if (directive === 'allow') allows.push(summary)
+            else blocks.push(summary)
+          } else if (currentGroup.rules.length === 0) {
+            // Record the empty rule so a following User-agent line starts a new group
+            currentGroup.rules.push({ type: 'allow', path: '', line: lineNumber })
           }
           break
-          
+
         case 'crawl-delay':
-          const delay = parseInt(value)
+          const delay = parseFloat(value)
           if (isNaN(delay)) {
             issues.push(`Invalid crawl-delay value on line ${lineNumber}: ${value}`)
           } else {
             crawlDelay = delay
           }
           break
-          
+
         case 'sitemap':
           if (this.isValidUrl(value)) {
             sitemapUrls.push(value)
@@ -250,9 +312,10 @@ export class RobotsSitemapAnalyzer {
             issues.push(`Invalid sitemap URL on line ${lineNumber}: ${value}`)
           }
           break
-          
+
         default:
-          issues.push(`Unknown directive on line ${lineNumber}: ${directive}`)
+          // RFC 9309 lets crawlers ignore records they don't understand, so these don't invalidate the file
+          warnings.push(`Unsupported directive on line ${lineNumber}: ${line.slice(0, separator).trim()}`)
       }
     }
 
@@ -264,126 +327,375 @@ export class RobotsSitemapAnalyzer {
       allows,
       crawlDelay,
       userAgents,
+      groups,
       issues,
+      warnings,
       sitemapUrls
     }
   }
 
   /**
-   * Analyze XML sitemap
+   * Analyze an XML sitemap, recursing through sitemap indexes up to a depth and fetch limit
+   */
+  static async analyzeSitemap(sitemapUrl: string, options: SitemapParseOptions = {}): Promise<SitemapAnalysis> {
+    return this.parseSitemapTree(sitemapUrl, this.createParseContext(options), 0)
+  }
+
+  /**
+   * Collect every <url> entry reachable from the given sitemaps
    */
-  private static async analyzeSitemap(sitemapUrl: string): Promise<SitemapAnalysis> {
+  static async collectSitemapEntries(sitemapUrls: string[], options: SitemapParseOptions = {}): Promise<{ sitemaps: SitemapAnalysis[]; entries: SitemapUrlEntry[] }> {
+    const context = this.createParseContext(options)
+    const sitemaps: SitemapAnalysis[] = []
+
+    for (const sitemapUrl of sitemapUrls) {
+      sitemaps.push(await this.parseSitemapTree(sitemapUrl, context, 0))
+    }
+
+    return { sitemaps, entries: context.entries }
+  }
+
+  private static async fetchSitemap(url: string): Promise<SitemapResponse> {
+    const response = await SafeFetch.fetch(url, {
+      accept: SafeFetch.CONTENT_TYPES.sitemap,
+      maxBytes: SITEMAP_SIZE_LIMIT,
+      timeoutMs: 15000
+    })
+
+    return {
+      status: response.status,
+      body: response.ok ? response.body : Buffer.alloc(0),
+      lastModified: response.headers['last-modified']
+    }
+  }
+
+  private static createParseContext(options: SitemapParseOptions): SitemapParseContext {
+    return {
+      siteUrl: options.siteUrl ? new URL(options.siteUrl) : undefined,
+      fetcher: options.fetcher || this.fetchSitemap,
+      maxDepth: options.maxDepth ?? 2,
+      remainingFetches: options.maxSitemaps ?? 25,
+      visited: new Set(),
+      entries: []
+    }
+  }
+
+  private static async parseSitemapTree(sitemapUrl: string, context: SitemapParseContext, depth: number): Promise<SitemapAnalysis> {
+    const emptyResult = (issues: string[]): SitemapAnalysis => ({
+      exists: false,
+      url: sitemapUrl,
+      isValid: false,
+      urlCount: 0,
+      issues,
+      indexSitemaps: []
+    })
+
+    if (context.visited.has(sitemapUrl)) {
+      return emptyResult(['Sitemap already processed (circular sitemap index reference)'])
+    }
+    if (context.remainingFetches <= 0) {
+      return emptyResult(['Sitemap fetch limit reached; not analyzed'])
+    }
+    context.visited.add(sitemapUrl)
+    context.remainingFetches--
+
+    let content: string
+    let isCompressed: boolean
+    let lastModified: string | undefined
+
     try {
-      const response = await fetch(sitemapUrl, {
-        method: 'GET',
-        headers: {
-          'User-Agent': 'SEO-Analyzer-Bot/1.0'
-        },
-        signal: AbortSignal.timeout(15000)
-      })
+      const response = await context.fetcher(sitemapUrl)
 
-      if (!response.ok) {
-        return {
-          exists: false,
-          url: sitemapUrl,
-          isValid: false,
-          urlCount: 0,
-          issues: [`Sitemap not accessible (${response.status})`],
-          indexSitemaps: []
-        }
+      if (response.status < 200 || response.status >= 300) {
+        return emptyResult([`Sitemap not accessible (${response.status})`])
       }
 
-      const content = await response.text()
-      const lastModified = response.headers.get('last-modified') || undefined
+      // fetch undoes Content-Encoding, but .xml.gz files are served as gzip payloads
+      const buffer = response.body
+      isCompressed = buffer[0] === 0x1f && buffer[1] === 0x8b
+      content = isCompressed
+        ? gunzipSync(buffer, { maxOutputLength: SITEMAP_SIZE_LIMIT + 1 }).toString('utf8')
+        : buffer.toString('utf8')
+      lastModified = response.lastModified
+    } catch (error) {
+      return emptyResult([`Failed to fetch sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`])
+    }
 
-      return this.parseSitemap(sitemapUrl, content, lastModified)
+    const analysis = this.parseSitemap(sitemapUrl, content, context)
+    analysis.isCompressed = isCompressed
+    analysis.lastModified = lastModified
 
-    } catch (error) {
-      return {
-        exists: false,
-        url: sitemapUrl,
-        isValid: false,
-        urlCount: 0,
-        issues: [`Failed to fetch sitemap: ${error instanceof Error ? error.message : 'Unknown error'}`],
-        indexSitemaps: []
+    if (sitemapUrl.endsWith('.gz') && !isCompressed) {
+      analysis.issues.push('Sitemap has a .gz extension but is not gzip-compressed')
+    }
+    if (Buffer.byteLength(content) > SITEMAP_SIZE_LIMIT) {
+      analysis.issues.push('Sitemap exceeds 50MB uncompressed')
+    }
+
+    if (analysis.type === 'sitemapindex') {
+      if (depth >= context.maxDepth) {
+        analysis.issues.push(`Nested sitemap index not followed (depth limit ${context.maxDepth})`)
+      } else {
+        analysis.children = []
+        for (const childUrl of analysis.indexSitemaps) {
+          analysis.children.push(await this.parseSitemapTree(childUrl, context, depth + 1))
+        }
+        analysis.urlCount = analysis.children.reduce((sum, child) => sum + child.urlCount, 0)
+
+        const failedChildren = analysis.children.filter(child => !child.isValid).length
+        if (failedChildren > 0) {
+          analysis.issues.push(`${failedChildren} child sitemap(s) are missing or invalid`)
+        }
       }
     }
+
+    analysis.isValid = analysis.issues.length === 0
+    return analysis
   }
 
   /**
-   * Parse XML sitemap content
+   * Parse sitemap XML and validate entries; <url> entries are appended to the parse context
    */
-  private static parseSitemap(url: string, content: string, lastModified?: string): SitemapAnalysis {
+  private static parseSitemap(url: string, content: string, context: SitemapParseContext): SitemapAnalysis {
     const issues: string[] = []
-    let urlCount = 0
-    let imageCount = 0
-    let videoCount = 0
     const indexSitemaps: string[] = []
+    const localName = (name: string) => name.split(':').pop()?.toLowerCase() || ''
 
-    try {
-      // Check if it's a sitemap index
-      if (content.includes('<sitemapindex')) {
-        const sitemapMatches = content.match(/<sitemap>/g)
-        const locMatches = content.match(/<loc>(.*?)<\/loc>/g)
-        
-        if (locMatches) {
-          for (const match of locMatches) {
-            const sitemapUrl = match.replace(/<\/?loc>/g, '')
-            if (this.isValidUrl(sitemapUrl)) {
-              indexSitemaps.push(sitemapUrl)
-            }
-          }
-        }
-        
-        return {
-          exists: true,
-          url,
-          isValid: indexSitemaps.length > 0,
-          urlCount: indexSitemaps.length,
-          lastModified,
-          issues: indexSitemaps.length === 0 ? ['No valid sitemaps found in sitemap index'] : [],
-          indexSitemaps
-        }
+    const $ = cheerio.load(content, { xmlMode: true })
+    const root = $.root().children().first()
+    const rootName = localName(root.prop('tagName') || '')
+
+    if (rootName !== 'urlset' && rootName !== 'sitemapindex') {
+      return {
+        exists: true,
+        url,
+        isValid: false,
+        urlCount: 0,
+        issues: ['Invalid XML sitemap format (expected <urlset> or <sitemapindex>)'],
+        indexSitemaps
+      }
+    }
+
+    const sitemapLocation = new URL(url)
+    const siteUrl = context.siteUrl || sitemapLocation
+    const counts = { invalidLoc: 0, invalidLastmod: 0, futureLastmod: 0, invalidChangefreq: 0, invalidPriority: 0, invalidHreflang: 0, duplicates: 0 }
+    const offDomainUrls: string[] = []
+    const protocolMismatchUrls: string[] = []
+    const seenLocs = new Set<string>()
+
+    const checkLoc = (loc: string): boolean => {
+      if (!this.isValidUrl(loc)) {
+        counts.invalidLoc++
+        return false
       }
+      const parsed = new URL(loc)
+      if (parsed.hostname !== siteUrl.hostname) offDomainUrls.push(loc)
+      else if (parsed.protocol !== siteUrl.protocol) protocolMismatchUrls.push(loc)
+      return true
+    }
 
-      // Regular sitemap parsing
-      const urlMatches = content.match(/<url>/g)
-      urlCount = urlMatches ? urlMatches.length : 0
+    const checkLastmod = (lastmod?: string) => {
+      if (!lastmod) return
+      if (!W3C_DATETIME.test(lastmod)) counts.invalidLastmod++
+      else if (new Date(lastmod).getTime() > Date.now() + 24 * 60 * 60 * 1000) counts.futureLastmod++
+    }
 
-      const imageMatches = content.match(/<image:image>/g)
-      imageCount = imageMatches ? imageMatches.length : 0
+    let imageCount = 0
+    let videoCount = 0
+    let newsCount = 0
+    let hreflangCount = 0
+    let urlCount = 0
 
-      const videoMatches = content.match(/<video:video>/g)
-      videoCount = videoMatches ? videoMatches.length : 0
+    root.children().each((_, element) => {
+      const node = $(element)
+      const fields: Record<string, string> = {}
+      node.children().each((__, child) => {
+        const name = localName($(child).prop('tagName') || '')
+        if (['loc', 'lastmod', 'changefreq', 'priority'].includes(name)) {
+          fields[name] = $(child).text().trim()
+        }
+      })
 
-      // Validate XML structure
-      if (!content.includes('<urlset') && !content.includes('<sitemapindex')) {
-        issues.push('Invalid XML sitemap format')
+      if (rootName === 'sitemapindex') {
+        if (localName(node.prop('tagName') || '') !== 'sitemap') return
+        checkLastmod(fields.lastmod)
+        if (fields.loc && checkLoc(fields.loc)) indexSitemaps.push(fields.loc)
+        return
       }
 
-      if (urlCount === 0 && indexSitemaps.length === 0) {
-        issues.push('No URLs found in sitemap')
+      if (localName(node.prop('tagName') || '') !== 'url') return
+      urlCount++
+
+      if (!fields.loc || !checkLoc(fields.loc)) {
+        if (!fields.loc) counts.invalidLoc++
+        return
+      }
+      if (seenLocs.has(fields.loc)) counts.duplicates++
+      seenLocs.add(fields.loc)
+
+      checkLastmod(fields.lastmod)
+      if (fields.changefreq && !CHANGEFREQ_VALUES.includes(fields.changefreq.toLowerCase())) counts.invalidChangefreq++
+
+      let priority: number | undefined
+      if (fields.priority) {
+        priority = Number(fields.priority)
+        if (!/^(0(\.\d+)?|1(\.0+)?)$/.test(fields.priority)) {
+          counts.invalidPriority++
+          priority = undefined
+        }
       }
 
-      if (urlCount > 50000) {
-        issues.push('Sitemap contains more than 50,000 URLs (recommend splitting)')
+      const entry: SitemapUrlEntry = {
+        loc: fields.loc,
+        lastmod: fields.lastmod,
+        changefreq: fields.changefreq,
+        priority,
+        imageCount: 0,
+        videoCount: 0,
+        isNews: false,
+        alternates: []
       }
 
-    } catch (error) {
-      issues.push('Failed to parse sitemap XML')
+      node.children().each((__, child) => {
+        const tagName = ($(child).prop('tagName') || '').toLowerCase()
+        const name = localName(tagName)
+        if (name === 'image') entry.imageCount++
+        else if (name === 'video') entry.videoCount++
+        else if (name === 'news') entry.isNews = true
+        else if (name === 'link' && tagName.includes(':')) {
+          const hreflang = $(child).attr('hreflang') || ''
+          const href = $(child).attr('href') || ''
+          if (!HREFLANG_VALUE.test(hreflang) || !this.isValidUrl(href)) counts.invalidHreflang++
+          else entry.alternates.push({ hreflang, href })
+        }
+      })
+
+      imageCount += entry.imageCount
+      videoCount += entry.videoCount
+      newsCount += entry.isNews ? 1 : 0
+      hreflangCount += entry.alternates.length
+      context.entries.push(entry)
+    })
+
+    if (rootName === 'sitemapindex' && indexSitemaps.length === 0) {
+      issues.push('No valid sitemaps found in sitemap index')
+    }
+    if (rootName === 'urlset' && urlCount === 0) {
+      issues.push('No URLs found in sitemap')
+    }
+    if (urlCount > SITEMAP_URL_LIMIT) {
+      issues.push('Sitemap contains more than 50,000 URLs (recommend splitting)')
     }
 
+    const describe = (count: number, message: string) => {
+      if (count > 0) issues.push(`${count} ${count === 1 ? 'entry' : 'entries'} ${message}`)
+    }
+    describe(counts.invalidLoc, 'with a missing or invalid <loc>')
+    describe(counts.duplicates, 'duplicated within the sitemap')
+    describe(counts.invalidLastmod, 'with a <lastmod> not in W3C Datetime format')
+    describe(counts.futureLastmod, 'with a <lastmod> in the future')
+    describe(counts.invalidChangefreq, 'with an invalid <changefreq> value')
+    describe(counts.invalidPriority, 'with a <priority> outside 0.0–1.0')
+    describe(counts.invalidHreflang, 'with an invalid hreflang alternate')
+    describe(offDomainUrls.length, `pointing off-domain (not on ${siteUrl.hostname})`)
+    describe(protocolMismatchUrls.length, `using a different protocol than ${siteUrl.protocol.replace(':', '')}`)
+
     return {
       exists: true,
       url,
+      type: rootName,
       isValid: issues.length === 0,
-      urlCount,
-      lastModified,
+      urlCount: rootName === 'sitemapindex' ? indexSitemaps.length : urlCount,
       issues,
       indexSitemaps,
       imageCount: imageCount > 0 ? imageCount : undefined,
-      videoCount: videoCount > 0 ? videoCount : undefined
+      videoCount: videoCount > 0 ? videoCount : undefined,
+      newsCount: newsCount > 0 ? newsCount : undefined,
+      hreflangCount: hreflangCount > 0 ? hreflangCount : undefined,
+      offDomainUrls: offDomainUrls.length > 0 ? offDomainUrls.slice(0, 10) : undefined,
+      protocolMismatchUrls: protocolMismatchUrls.length > 0 ? protocolMismatchUrls.slice(0, 10) : undefined
+    }
+  }
+
+  /**
+   * Check whether a URL may be crawled by the given user agent
+   */
+  static isUrlAllowed(robots: RobotsAnalysis, url: string, userAgent: string = '*'): boolean {
+    return this.matchUrl(robots, url, userAgent).allowed
+  }
+
+  /**
+   * Match a URL against robots.txt per RFC 9309: the group for the user agent's product token
+   * (falling back to "*"), longest matching rule wins, Allow wins ties, "*" and "$" wildcards
+   */
+  static matchUrl(robots: RobotsAnalysis, url: string, userAgent: string): RobotsMatchResult {
+    if (!robots.exists) {
+      return { userAgent, allowed: true }
+    }
+
+    const parsed = new URL(url, 'http://robots.invalid')
+    if (parsed.pathname === '/robots.txt') {
+      return { userAgent, allowed: true }
+    }
+
+    const { groups, name } = this.selectGroups(robots.groups, userAgent)
+    const target = parsed.pathname + parsed.search
+    let bestRule: RobotsRule | undefined
+
+    for (const group of groups) {
+      for (const rule of group.rules) {
+        if (!rule.path || !this.matchesPattern(target, rule.path)) continue
+
+        const ruleLength = this.encodePattern(rule.path).length
+        const bestLength = bestRule ? this.encodePattern(bestRule.path).length : -1
+        if (ruleLength > bestLength || (ruleLength === bestLength && rule.type === 'allow')) {
+          bestRule = rule
+        }
+      }
+    }
+
+    return {
+      userAgent,
+      allowed: !bestRule || bestRule.type === 'allow',
+      matchedRule: bestRule,
+      matchedGroup: name
+    }
+  }
+
+  /**
+   * Pick the groups whose user-agent matches the crawler's product token; groups naming
+   * the same agent are merged. Falls back to the "*" groups.
+   */
+  private static selectGroups(groups: RobotsGroup[], userAgent: string): { groups: RobotsGroup[]; name?: string } {
+    const token = userAgent.split('/')[0].trim().toLowerCase()
+
+    const specific = groups.filter(group => group.userAgents.some(agent => agent.toLowerCase() === token))
+    if (token !== '*' && specific.length > 0) {
+      return { groups: specific, name: token }
     }
+
+    const wildcard = groups.filter(group => group.userAgents.includes('*'))
+    return wildcard.length > 0 ? { groups: wildcard, name: '*' } : { groups: [] }
+  }
+
+  private static matchesPattern(target: string, pattern: string): boolean {
+    const encoded = this.encodePattern(pattern)
+    const anchored = encoded.endsWith('$')
+    const body = anchored ? encoded.slice(0, -1) : encoded
+
+    const regex = body
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+      .join('.*')
+
+    return new RegExp(`^${regex}${anchored ? '$' : ''}`).test(target)
+  }
+
+  /**
+   * Percent-encode non-ASCII characters so patterns compare with URL paths octet by octet
+   */
+  private static encodePattern(pattern: string): string {
+    return pattern.replace(/[^\x00-\x7F]/g, char => encodeURIComponent(char))
   }
 
   /**
@@ -0,0 +1,1408 @@
+import * as cheerio from 'cheerio'
+import { CloakingAnalysis, ComparedField, Issue, IssueCategory, IssueEvidence, IssueFix, IssueSeverity, RenderedField, RenderingAnalysis, ScoreLedgerEntry, SEOAnalysis, SitemapHealthAnalysis, SitemapUrlCheck, VitalMetric } from '@/types/seo'
+import { RuleThresholds, ScoringProfile } from './scoring-profiles'
+import { JSON_LD_SELECTOR, STRUCTURED_DATA_SYNTAX_NAMES, StructuredDataValidator } from './structured-data-validator'
+
+export interface RuleContext {
+  url: string
+  $?: cheerio.Root
+  // Page source $ was loaded from, for pointing problems at page lines
+  html?: string
+  sections: Partial<SEOAnalysis['sections']>
+  rendering?: RenderingAnalysis
+  cloaking?: CloakingAnalysis
+  // Supplies the thresholds the rules compare against and any rule weight overrides
+  profile: ScoringProfile
+}
+
+export interface RuleFinding {
+  message: string
+  evidence?: IssueEvidence[]
+  severity?: IssueSeverity
+}
+
+export interface SEORule {
+  id: string
+  category: IssueCategory
+  severity: IssueSeverity
+  title: string
+  weight: number
+  // Fixes that quote a threshold are built from the active profile's thresholds
+  fix: IssueFix | ((thresholds: RuleThresholds) => IssueFix)
+  // Returns null when the page passes or the data the rule needs was not collected
+  check: (context: RuleContext) => RuleFinding | null
+  // Rules that depend on optional measurements leave the score ledger when those were not taken
+  applies?: (context: RuleContext) => boolean
+}
+
+const MAX_EVIDENCE = 20
+
+const plural = (count: number, word: string, pluralWord: string = `${word}s`) => `${count} ${count === 1 ? word : pluralWord}`
+
+const attr = (selector: string, name: string, value: string) => `${selector}[${name}="${value.replace(/"/g, '\\"')}"]`
+
+const bodyWordCount = ($: cheerio.Root) =>
+  $('body').text().split(/\s+/).filter(word => word.length > 0).length
+
+const vitalRule = (id: string, name: string, key: 'lcp' | 'inp' | 'cls' | 'ttfb', good: string, weight: number, fix: IssueFix): SEORule => ({
+  id,
+  category: 'performance',
+  severity: 'warning',
+  title: `Slow ${name}`,
+  weight,
+  fix,
+  applies: ({ sections }) => !!sections.performance?.coreWebVitals?.[key] && sections.performance.coreWebVitals[key].displayValue !== 'N/A',
+  check: ({ sections }) => {
+    const metric: VitalMetric | undefined = sections.performance?.coreWebVitals?.[key]
+    if (!metric || metric.displayValue === 'N/A' || metric.category === 'good') return null
+    const poor = metric.category === 'poor'
+    return {
+      message: `${name} is ${metric.displayValue} (${poor ? 'poor' : 'needs improvement'}; good is ≤ ${good})`,
+      evidence: [{ value: metric.displayValue, expected: `≤ ${good}` }],
+      severity: poor ? 'error' : 'warning'
+    }
+  }
+})
+
+const SITEMAP_CHECK_MATCHERS: Record<keyof SitemapHealthAnalysis['counts'], (check: SitemapUrlCheck) => boolean> = {
+  nonOk: check => check.statusCode !== undefined && check.statusCode !== 200 && !check.redirectedTo,
+  redirected: check => !!check.redirectedTo,
+  noindex: check => check.noindex,
+  robotsBlocked: check => check.robotsBlocked,
+  canonicalElsewhere: check => !!check.canonicalUrl,
+  errors: check => !!check.error
+}
+
+const sitemapUrlRule = (id: string, title: string, count: keyof SitemapHealthAnalysis['counts'], description: string, severity: IssueSeverity, weight: number, fix: IssueFix): SEORule => ({
+  id,
+  category: 'crawlability',
+  severity,
+  title,
+  weight,
+  fix,
+  applies: ({ sections }) => !!sections.crawlability?.sitemapHealth,
+  check: ({ sections }) => {
+    const health = sections.crawlability?.sitemapHealth
+    if (!health || health.counts[count] === 0) return null
+    return {
+      message: `${health.counts[count]} of ${health.sampledUrls} sampled sitemap URLs ${description}`,
+      evidence: health.problems.filter(SITEMAP_CHECK_MATCHERS[count]).slice(0, MAX_EVIDENCE).map(check => ({
+        url: check.url,
+        value: check.redirectedTo || check.canonicalUrl || check.error || check.statusCode
+      }))
+    }
+  }
+})
+
+const renderedFields = (rendering: RenderingAnalysis): Array<[string, RenderedField]> => [
+  ['Title', rendering.diff.title],
+  ['Meta description', rendering.diff.description],
+  ['Canonical URL', rendering.diff.canonical],
+  ['Meta robots', rendering.diff.metaRobots],
+  ['H1', rendering.diff.h1]
+]
+
+const comparedFields = (cloaking: CloakingAnalysis): Array<[string, ComparedField]> => [
+  ['Title', cloaking.diff.title],
+  ['Meta description', cloaking.diff.description],
+  ['Canonical URL', cloaking.diff.canonical],
+  ['Meta robots', cloaking.diff.metaRobots],
+  ['H1', cloaking.diff.h1]
+]
+
+export const SEO_RULES: SEORule[] = [
+  // Meta
+  {
+    id: 'meta.title-missing',
+    category: 'meta',
+    severity: 'error',
+    title: 'Missing title tag',
+    weight: 10,
+    fix: thresholds => ({
+      summary: `Add a unique, descriptive <title> of ${thresholds.titleLength.min}–${thresholds.titleLength.max} characters`,
+      steps: ['Write a title that names the page topic', 'Put the primary keyword near the start', 'Keep it unique across the site'],
+      effort: 'low'
+    }),
+    check: ({ $ }) => {
+      if (!$) return null
+      return $('head > title').text().trim() ? null : { message: 'Missing title tag', evidence: [{ selector: 'head > title' }] }
+    }
+  },
+  {
+    id: 'meta.title-too-short',
+    category: 'meta',
+    severity: 'warning',
+    title: 'Title too short',
+    weight: 5,
+    fix: thresholds => ({
+      summary: `Extend the title to ${thresholds.titleLength.min}–${thresholds.titleLength.max} characters`,
+      steps: ['Add the primary keyword or a qualifier', 'Include the brand name if space allows'],
+      effort: 'low'
+    }),
+    check: ({ $, profile: { thresholds } }) => {
+      const title = $?.('head > title').text().trim()
+      if (!title || title.length >= thresholds.titleLength.min) return null
+      return {
+        message: `Title too short (${title.length} chars, < ${thresholds.titleLength.min})`,
+        evidence: [{ selector: 'head > title', value: title, expected: `${thresholds.titleLength.min}–${thresholds.titleLength.max} characters` }]
+      }
+    }
+  },
+  {
+    id: 'meta.title-too-long',
+    category: 'meta',
+    severity: 'warning',
+    title: 'Title too long',
+    weight: 5,
+    fix: thresholds => ({
+      summary: `Shorten the title to at most ${thresholds.titleLength.max} characters so it is not truncated in results`,
+      steps: ['Move the most important words to the front', 'Drop filler words and repeated brand names'],
+      effort: 'low'
+    }),
+    check: ({ $, profile: { thresholds } }) => {
+      const title = $?.('head > title').text().trim()
+      if (!title || title.length <= thresholds.titleLength.max) return null
+      return {
+        message: `Title too long (${title.length} chars, > ${thresholds.titleLength.max})`,
+        evidence: [{ selector: 'head > title', value: title, expected: `${thresholds.titleLength.min}–${thresholds.titleLength.max} characters` }]
+      }
+    }
+  },
+  {
+    id: 'meta.title-duplicate',
+    category: 'meta',
+    severity: 'warning',
+    title: 'Multiple title tags',
+    weight: 3,
+    fix: { summary: 'Keep a single <title> element in the <head>', steps: ['Remove title tags injected by plugins or templates'], effort: 'low' },
+    check: ({ $ }) => {
+      const titles = $?.('head > title')
+      if (!$ || !titles || titles.length <= 1) return null
+      return {
+        message: `${titles.length} title tags found`,
+        evidence: titles.toArray().map(element => ({ selector: 'head > title', value: $(element).text().trim() }))
+      }
+    }
+  },
+  {
+    id: 'meta.description-missing',
+    category: 'meta',
+    severity: 'warning',
+    title: 'Missing meta description',
+    weight: 8,
+    fix: thresholds => ({
+      summary: `Add a meta description of ${thresholds.descriptionLength.min}–${thresholds.descriptionLength.max} characters`,
+      steps: ['Summarize the page in one or two sentences', 'Include a call to action', 'Match the search intent of the page'],
+      effort: 'low'
+    }),
+    check: ({ $ }) => {
+      if (!$) return null
+      return $('meta[name="description"]').attr('content')?.trim()
+        ? null
+        : { message: 'Missing meta description', evidence: [{ selector: 'meta[name="description"]' }] }
+    }
+  },
+  {
+    id: 'meta.description-too-short',
+    category: 'meta',
+    severity: 'warning',
+    title: 'Meta description too short',
+    weight: 4,
+    fix: thresholds => ({
+      summary: `Extend the meta description to ${thresholds.descriptionLength.min}–${thresholds.descriptionLength.max} characters`,
+      steps: ['Add the benefit or detail that makes the result worth clicking'],
+      effort: 'low'
+    }),
+    check: ({ $, profile: { thresholds } }) => {
+      const description = $?.('meta[name="description"]').attr('content')?.trim()
+      if (!description || description.length >= thresholds.descriptionLength.min) return null
+      return {
+        message: `Description too short (${description.length} chars, < ${thresholds.descriptionLength.min})`,
+        evidence: [{ selector: 'meta[name="description"]', value: description, expected: `${thresholds.descriptionLength.min}–${thresholds.descriptionLength.max} characters` }]
+      }
+    }
+  },
+  {
+    id: 'meta.description-too-long',
+    category: 'meta',
+    severity: 'warning',
+    title: 'Meta description too long',
+    weight: 4,
+    fix: thresholds => ({
+      summary: `Shorten the meta description to at most ${thresholds.descriptionLength.max} characters`,
+      steps: ['Lead with the key message so truncation does not cut it'],
+      effort: 'low'
+    }),
+    check: ({ $, profile: { thresholds } }) => {
+      const description = $?.('meta[name="description"]').attr('content')?.trim()
+      if (!description || description.length <= thresholds.descriptionLength.max) return null
+      return {
+        message: `Description too long (${description.length} chars, > ${thresholds.descriptionLength.max})`,
+        evidence: [{ selector: 'meta[name="description"]', value: description, expected: `${thresholds.descriptionLength.min}–${thresholds.descriptionLength.max} characters` }]
+      }
+    }
+  },
+  {
+    id: 'meta.description-duplicate',
+    category: 'meta',
+    severity: 'warning',
+    title: 'Multiple meta descriptions',
+    weight: 3,
+    fix: { summary: 'Keep a single meta description tag', steps: ['Remove descriptions injected by plugins or templates'], effort: 'low' },
+    check: ({ $ }) => {
+      const descriptions = $?.('meta[name="description"]')
+      if (!$ || !descriptions || descriptions.length <= 1) return null
+      return {
+        message: `${descriptions.length} meta description tags found`,
+        evidence: descriptions.toArray().map(element => ({ selector: 'meta[name="description"]', value: $(element).attr('content') || '' }))
+      }
+    }
+  },
+
+  // Page quality
+  {
+    id: 'pageQuality.thin-content',
+    category: 'pageQuality',
+    severity: 'warning',
+    title: 'Thin content',
+    weight: 8,
+    fix: thresholds => ({
+      summary: `Expand the main content to at least ${thresholds.minWordCount} words`,
+      steps: ['Answer the questions searchers have about the topic', 'Add examples, data or FAQs', 'Avoid padding with boilerplate'],
+      effort: 'medium'
+    }),
+    check: ({ $, profile: { thresholds } }) => {
+      if (!$) return null
+      const wordCount = bodyWordCount($)
+      if (wordCount >= thresholds.minWordCount) return null
+      return {
+        message: `Low word count (${wordCount} words, < ${thresholds.minWordCount})`,
+        evidence: [{ selector: 'body', value: wordCount, expected: `≥ ${thresholds.minWordCount} words` }]
+      }
+    }
+  },
+  {
+    id: 'pageQuality.images-missing-alt',
+    category: 'pageQuality',
+    severity: 'warning',
+    title: 'Images missing alt text',
+    weight: 5,
+    fix: {
+      summary: 'Add descriptive alt text to every meaningful image; use alt="" for decorative ones',
+      steps: ['Describe what the image shows in context', 'Keep alt text short and specific'],
+      effort: 'low'
+    },
+    check: ({ $ }) => {
+      if (!$) return null
+      const images = $('img').not('[alt]').toArray()
+      if (images.length === 0) return null
+      return {
+        message: `${plural(images.length, 'image')} missing alt text`,
+        evidence: images.slice(0, MAX_EVIDENCE).map(element => {
+          const src = $(element).attr('src') || ''
+          return { selector: src ? attr('img', 'src', src) : 'img', value: src }
+        })
+      }
+    }
+  },
+  {
+    id: 'pageQuality.no-subheadings',
+    category: 'pageQuality',
+    severity: 'notice',
+    title: 'No H2 subheadings',
+    weight: 2,
+    fix: { summary: 'Break the content into sections with H2 subheadings', steps: ['Add an H2 for each major subtopic'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$ || $('h2').length > 0) return null
+      return { message: 'No H2 headings found', evidence: [{ selector: 'h2', value: 0, expected: 'at least one H2' }] }
+    }
+  },
+
+  // Page structure
+  {
+    id: 'pageStructure.h1-missing',
+    category: 'pageStructure',
+    severity: 'error',
+    title: 'Missing H1 heading',
+    weight: 8,
+    fix: { summary: 'Add exactly one H1 that states the main topic of the page', steps: ['Use the H1 for the visible page headline'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$ || $('h1').length > 0) return null
+      return { message: 'Missing H1 heading', evidence: [{ selector: 'h1', value: 0, expected: '1' }] }
+    }
+  },
+  {
+    id: 'pageStructure.h1-multiple',
+    category: 'pageStructure',
+    severity: 'warning',
+    title: 'Multiple H1 headings',
+    weight: 4,
+    fix: { summary: 'Keep one H1 and demote the others to H2', steps: ['Check templates for logos or widgets wrapped in H1'], effort: 'low' },
+    check: ({ $ }) => {
+      const headings = $?.('h1')
+      if (!$ || !headings || headings.length <= 1) return null
+      return {
+        message: `Multiple H1 headings (${headings.length})`,
+        evidence: headings.toArray().slice(0, MAX_EVIDENCE).map(element => ({ selector: 'h1', value: $(element).text().trim() }))
+      }
+    }
+  },
+  {
+    id: 'pageStructure.heading-hierarchy',
+    category: 'pageStructure',
+    severity: 'notice',
+    title: 'Improper heading hierarchy',
+    weight: 3,
+    fix: { summary: 'Nest headings in order without skipping levels (H1 → H2 → H3)', steps: ['Use CSS rather than heading levels for visual size'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$) return null
+      const skipped: IssueEvidence[] = []
+      let lastLevel = 0
+      $('h1, h2, h3, h4, h5, h6').each((_, element) => {
+        const tagName = ((element as unknown as { tagName?: string }).tagName || 'h1').toLowerCase()
+        const level = parseInt(tagName.charAt(1))
+        if (level > lastLevel + 1) {
+          skipped.push({ selector: tagName, value: $(element).text().trim(), expected: `h${lastLevel + 1} or higher` })
+        }
+        lastLevel = level
+      })
+      if (skipped.length === 0) return null
+      return { message: 'Improper heading hierarchy', evidence: skipped.slice(0, MAX_EVIDENCE) }
+    }
+  },
+  {
+    id: 'pageStructure.dom-too-deep',
+    category: 'pageStructure',
+    severity: 'notice',
+    title: 'DOM too deep',
+    weight: 3,
+    fix: thresholds => ({ summary: `Flatten the markup to at most ${thresholds.maxDomDepth} nested levels`, steps: ['Remove wrapper elements that only exist for styling'], effort: 'medium' }),
+    check: ({ sections, profile: { thresholds } }) => {
+      const depth = sections.pageStructure?.domDepth
+      if (depth === undefined || depth <= thresholds.maxDomDepth) return null
+      return {
+        message: `DOM too deep (${depth} levels, > ${thresholds.maxDomDepth})`,
+        evidence: [{ selector: 'body', value: depth, expected: `≤ ${thresholds.maxDomDepth} levels` }]
+      }
+    }
+  },
+
+  // Link structure
+  {
+    id: 'linkStructure.few-internal-links',
+    category: 'linkStructure',
+    severity: 'warning',
+    title: 'Few internal links',
+    weight: 4,
+    fix: thresholds => ({
+      summary: `Link to at least ${thresholds.minInternalLinks} related pages on the same site`,
+      steps: ['Link to related articles or category pages', 'Use descriptive anchor text'],
+      effort: 'medium'
+    }),
+    check: ({ sections, profile: { thresholds } }) => {
+      const links = sections.linkStructure
+      if (!links || links.internalLinks >= thresholds.minInternalLinks) return null
+      return {
+        message: `Few internal links (${links.internalLinks}, < ${thresholds.minInternalLinks})`,
+        evidence: [{ selector: 'a[href]', value: links.internalLinks, expected: `≥ ${thresholds.minInternalLinks}` }]
+      }
+    }
+  },
+  {
+    id: 'linkStructure.no-external-links',
+    category: 'linkStructure',
+    severity: 'notice',
+    title: 'No external links',
+    weight: 2,
+    fix: { summary: 'Cite authoritative external sources where they support the content', steps: ['Link to primary sources and references'], effort: 'low' },
+    check: ({ sections }) => {
+      if (!sections.linkStructure || sections.linkStructure.externalLinks > 0) return null
+      return { message: 'No external links found', evidence: [{ selector: 'a[href^="http"]', value: 0 }] }
+    }
+  },
+  {
+    id: 'linkStructure.broken-links',
+    category: 'linkStructure',
+    severity: 'error',
+    title: 'Broken links',
+    weight: 8,
+    fix: { summary: 'Fix or remove links that return errors or time out', steps: ['Update links to moved pages', 'Remove links to pages that no longer exist'], effort: 'low' },
+    check: ({ sections }) => {
+      const broken = sections.linkStructure?.brokenLinks || []
+      if (broken.length === 0) return null
+      return {
+        message: `${plural(broken.length, 'broken link')} found`,
+        evidence: broken.slice(0, MAX_EVIDENCE).map(link => ({
+          selector: attr('a', 'href', link.url),
+          url: link.url,
+          value: link.statusCode || link.error || (link.timedOut ? 'timed out' : undefined)
+        }))
+      }
+    }
+  },
+  {
+    id: 'linkStructure.redirected-links',
+    category: 'linkStructure',
+    severity: 'notice',
+    title: 'Links to redirecting URLs',
+    weight: 3,
+    fix: { summary: 'Point links straight at their final URL', steps: ['Replace each link with the redirect target'], effort: 'low' },
+    check: ({ sections }) => {
+      const redirected = sections.linkStructure?.redirectedLinks || []
+      if (redirected.length === 0) return null
+      return {
+        message: `${plural(redirected.length, 'link')} point to redirecting URLs`,
+        evidence: redirected.slice(0, MAX_EVIDENCE).map(link => ({ selector: attr('a', 'href', link.url), url: link.url, value: link.redirectedTo }))
+      }
+    }
+  },
+
+  // Performance
+  {
+    id: 'performance.slow-response',
+    category: 'performance',
+    severity: 'warning',
+    title: 'Slow response time',
+    weight: 6,
+    fix: {
+      summary: 'Reduce server response time with caching, a CDN and faster backend queries',
+      steps: ['Profile slow backend requests', 'Cache rendered pages', 'Serve from a CDN close to users'],
+      effort: 'high'
+    },
+    applies: ({ sections }) => !sections.performance?.coreWebVitals,
+    check: ({ sections, profile: { thresholds } }) => {
+      const performance = sections.performance
+      // Measured vitals (TTFB, LCP) replace the single fetch timing
+      if (!performance || performance.coreWebVitals || performance.responseTime <= thresholds.maxResponseTimeMs) return null
+      return {
+        message: `Slow response time (${(performance.responseTime / 1000).toFixed(1)} s, > ${thresholds.maxResponseTimeMs / 1000} s)`,
+        evidence: [{ value: performance.responseTime, expected: `≤ ${thresholds.maxResponseTimeMs} ms` }]
+      }
+    }
+  },
+  {
+    id: 'performance.large-page',
+    category: 'performance',
+    severity: 'warning',
+    title: 'Large page size',
+    weight: 5,
+    fix: {
+      summary: 'Reduce page weight by compressing images and removing unused code',
+      steps: ['Serve images in WebP or AVIF at the displayed size', 'Minify and tree-shake CSS and JavaScript', 'Lazy-load below-the-fold media'],
+      effort: 'medium'
+    },
+    check: ({ sections, profile: { thresholds } }) => {
+      const performance = sections.performance
+      if (!performance || performance.pageSize <= thresholds.maxPageSizeBytes) return null
+      return {
+        message: `Large page size (${(performance.pageSize / 1024 / 1024).toFixed(1)} MB, > ${thresholds.maxPageSizeBytes / 1024 / 1024} MB)`,
+        evidence: [{ value: performance.pageSize, expected: `≤ ${thresholds.maxPageSizeBytes} bytes` }]
+      }
+    }
+  },
+  {
+    id: 'performance.too-many-css',
+    category: 'performance',
+    severity: 'notice',
+    title: 'Too many CSS files',
+    weight: 2,
+    fix: thresholds => ({ summary: `Bundle stylesheets into ${thresholds.maxCssFiles} files or fewer`, steps: ['Combine stylesheets', 'Inline critical CSS'], effort: 'medium' }),
+    check: ({ sections, profile: { thresholds } }) => {
+      const css = sections.performance?.assetsCount.css
+      if (css === undefined || css <= thresholds.maxCssFiles) return null
+      return { message: `Too many CSS files (${css})`, evidence: [{ selector: 'link[rel="stylesheet"]', value: css, expected: `≤ ${thresholds.maxCssFiles}` }] }
+    }
+  },
+  {
+    id: 'performance.too-many-js',
+    category: 'performance',
+    severity: 'notice',
+    title: 'Too many JavaScript files',
+    weight: 3,
+    fix: thresholds => ({ summary: `Bundle scripts into ${thresholds.maxJsFiles} files or fewer`, steps: ['Combine scripts', 'Defer non-critical scripts', 'Remove unused third-party tags'], effort: 'medium' }),
+    check: ({ sections, profile: { thresholds } }) => {
+      const js = sections.performance?.assetsCount.js
+      if (js === undefined || js <= thresholds.maxJsFiles) return null
+      return { message: `Too many JS files (${js})`, evidence: [{ selector: 'script[src]', value: js, expected: `≤ ${thresholds.maxJsFiles}` }] }
+    }
+  },
+  vitalRule('performance.lcp', 'Largest Contentful Paint', 'lcp', '2.5 s', 8, {
+    summary: 'Load the largest above-the-fold element sooner',
+    steps: ['Preload the LCP image', 'Remove render-blocking CSS and JavaScript', 'Reduce server response time'],
+    effort: 'medium'
+  }),
+  vitalRule('performance.inp', 'Interaction to Next Paint', 'inp', '200 ms', 6, {
+    summary: 'Shorten the main-thread work that runs after user input',
+    steps: ['Break up long tasks', 'Defer non-essential JavaScript', 'Avoid large DOM updates in event handlers'],
+    effort: 'high'
+  }),
+  vitalRule('performance.cls', 'Cumulative Layout Shift', 'cls', '0.1', 6, {
+    summary: 'Reserve space for content that loads late',
+    steps: ['Set width and height on images and embeds', 'Avoid inserting content above existing content', 'Use font-display: optional or size-adjusted fallbacks'],
+    effort: 'medium'
+  }),
+  vitalRule('performance.ttfb', 'Time to First Byte', 'ttfb', '800 ms', 4, {
+    summary: 'Respond to the document request faster',
+    steps: ['Cache HTML at the edge', 'Optimize backend and database time', 'Avoid redirect hops before the document'],
+    effort: 'high'
+  }),
+  {
+    id: 'performance.opportunities',
+    category: 'performance',
+    severity: 'warning',
+    title: 'High-impact PageSpeed opportunities',
+    weight: 5,
+    fix: { summary: 'Work through the high-impact Lighthouse opportunities and diagnostics', steps: ['Start with the largest potential savings'], effort: 'medium' },
+    applies: ({ sections }) => !!sections.performance?.opportunities,
+    check: ({ sections }) => {
+      const opportunities = (sections.performance?.opportunities || []).filter(opportunity => opportunity.impact === 'high')
+      if (opportunities.length === 0) return null
+      return {
+        message: `${plural(opportunities.length, 'high-impact PageSpeed opportunity', 'high-impact PageSpeed opportunities')}: ${opportunities.map(opportunity => opportunity.title).join(', ')}`,
+        evidence: opportunities.map(opportunity => ({ value: opportunity.title, expected: opportunity.potentialSavings }))
+      }
+    }
+  },
+
+  // Crawlability
+  {
+    id: 'crawlability.noindex-header',
+    category: 'crawlability',
+    severity: 'error',
+    title: 'Noindexed by X-Robots-Tag',
+    weight: 15,
+    fix: { summary: 'Remove noindex from the X-Robots-Tag response header if the page should rank', steps: ['Check server and CDN header rules'], effort: 'low' },
+    check: ({ sections }) => {
+      const indexability = sections.crawlability?.indexability
+      if (!indexability?.noindexBy?.includes('header')) return null
+      return { message: 'Page is noindexed by the X-Robots-Tag header', evidence: [{ header: 'X-Robots-Tag', value: indexability.xRobotsTag }] }
+    }
+  },
+  {
+    id: 'crawlability.noindex-meta',
+    category: 'crawlability',
+    severity: 'error',
+    title: 'Noindexed by meta robots',
+    weight: 15,
+    fix: { summary: 'Remove noindex from the meta robots tag if the page should rank', steps: ['Check CMS visibility settings'], effort: 'low' },
+    check: ({ sections }) => {
+      const indexability = sections.crawlability?.indexability
+      if (!indexability?.noindexBy?.includes('meta')) return null
+      return { message: 'Page is noindexed by the meta robots tag', evidence: [{ selector: 'meta[name="robots"]', value: indexability.metaRobots }] }
+    }
+  },
+  {
+    id: 'crawlability.nofollow',
+    category: 'crawlability',
+    severity: 'warning',
+    title: 'Links nofollowed by robots directives',
+    weight: 4,
+    fix: { summary: 'Remove nofollow from page-level robots directives so link equity flows', steps: ['Use rel="nofollow" on individual links instead'], effort: 'low' },
+    check: ({ sections }) => {
+      const indexability = sections.crawlability?.indexability
+      if (!indexability?.nofollow) return null
+      return {
+        message: 'Links on this page are nofollowed by robots directives',
+        evidence: [
+          ...(indexability.metaRobots ? [{ selector: 'meta[name="robots"]', value: indexability.metaRobots }] : []),
+          ...(indexability.xRobotsTag ? [{ header: 'X-Robots-Tag', value: indexability.xRobotsTag }] : [])
+        ]
+      }
+    }
+  },
+  {
+    id: 'crawlability.robots-txt-missing',
+    category: 'crawlability',
+    severity: 'warning',
+    title: 'Missing robots.txt',
+    weight: 5,
+    fix: {
+      summary: 'Publish a robots.txt at the site root',
+      steps: ['Allow crawling of important sections', 'Reference the XML sitemap', 'Test it with the robots.txt tester'],
+      effort: 'low'
+    },
+    check: ({ sections, url }) => {
+      if (!sections.crawlability || sections.crawlability.robotsTxt.exists) return null
+      const { status, unreachable } = sections.crawlability.robotsTxt
+      const message = unreachable
+        ? `robots.txt could not be fetched (${status ? `status ${status}` : 'no response'}), so crawlers treat the whole site as disallowed`
+        : 'robots.txt not found'
+      return { message, evidence: [{ url: new URL('/robots.txt', url).href, value: status }] }
+    }
+  },
+  {
+    id: 'crawlability.blocked-by-robots',
+    category: 'crawlability',
+    severity: 'error',
+    title: 'Blocked by robots.txt',
+    weight: 15,
+    fix: { summary: 'Remove or narrow the Disallow rule that matches this page', steps: ['Check the matched rule and line', 'Re-test with each crawler'], effort: 'low' },
+    check: ({ sections, url }) => {
+      const blocked = (sections.crawlability?.robotsTxt.access || []).filter(result => !result.allowed)
+      if (blocked.length === 0) return null
+      return {
+        message: `Page is blocked by robots.txt for ${blocked.map(result => result.userAgent).join(', ')}`,
+        evidence: blocked.map(result => ({
+          url: new URL('/robots.txt', url).href,
+          value: `${result.userAgent}: ${result.matchedRule}${result.matchedLine ? ` (line ${result.matchedLine})` : ''}`
+        }))
+      }
+    }
+  },
+  {
+    id: 'crawlability.sitemap-missing',
+    category: 'crawlability',
+    severity: 'warning',
+    title: 'Missing XML sitemap',
+    weight: 5,
+    fix: {
+      summary: 'Publish an XML sitemap and reference it from robots.txt',
+      steps: ['List every indexable URL', 'Add a Sitemap: line to robots.txt', 'Submit it in Google Search Console'],
+      effort: 'medium'
+    },
+    check: ({ sections }) => {
+      if (!sections.crawlability || sections.crawlability.sitemap.exists) return null
+      return { message: 'Sitemap not found', evidence: [] }
+    }
+  },
+  {
+    id: 'crawlability.sitemap-errors',
+    category: 'crawlability',
+    severity: 'warning',
+    title: 'Sitemap validation errors',
+    weight: 4,
+    fix: { summary: 'Fix the sitemap entries flagged by validation', steps: ['Regenerate the sitemap from canonical, indexable URLs'], effort: 'medium' },
+    applies: ({ sections }) => !!sections.crawlability?.sitemaps,
+    check: ({ sections }) => {
+      const flatten = (sitemaps: NonNullable<typeof sections.crawlability>['sitemaps'] = []): IssueEvidence[] =>
+        sitemaps.filter(sitemap => sitemap.exists).flatMap(sitemap => [
+          ...sitemap.issues.map(issue => ({ url: sitemap.url, value: issue })),
+          ...flatten(sitemap.children)
+        ])
+      const evidence = flatten(sections.crawlability?.sitemaps)
+      if (evidence.length === 0) return null
+      return { message: `${plural(evidence.length, 'sitemap validation problem')} found`, evidence: evidence.slice(0, MAX_EVIDENCE) }
+    }
+  },
+  sitemapUrlRule('crawlability.sitemap-url-non-200', 'Sitemap lists error pages', 'nonOk', 'return a non-200 status', 'error', 6, {
+    summary: 'Remove URLs that do not return 200 from the sitemap',
+    steps: ['Restore or remove the missing pages', 'Regenerate the sitemap'],
+    effort: 'low'
+  }),
+  sitemapUrlRule('crawlability.sitemap-url-redirected', 'Sitemap lists redirecting URLs', 'redirected', 'redirect (list the final URL instead)', 'warning', 3, {
+    summary: 'List the final URL of each redirect in the sitemap',
+    steps: ['Replace redirecting entries with their targets'],
+    effort: 'low'
+  }),
+  sitemapUrlRule('crawlability.sitemap-url-noindex', 'Sitemap lists noindexed pages', 'noindex', 'are noindexed', 'warning', 4, {
+    summary: 'Remove noindexed pages from the sitemap, or drop the noindex',
+    steps: ['Decide whether each page should be indexed'],
+    effort: 'low'
+  }),
+  sitemapUrlRule('crawlability.sitemap-url-blocked', 'Sitemap lists robots-blocked URLs', 'robotsBlocked', 'are blocked by robots.txt', 'warning', 4, {
+    summary: 'Remove blocked URLs from the sitemap, or allow them in robots.txt',
+    steps: ['Align robots.txt rules with the sitemap'],
+    effort: 'low'
+  }),
+  sitemapUrlRule('crawlability.sitemap-url-canonicalized', 'Sitemap lists non-canonical URLs', 'canonicalElsewhere', 'canonicalize to a different URL', 'warning', 3, {
+    summary: 'List only canonical URLs in the sitemap',
+    steps: ['Replace each entry with its canonical URL'],
+    effort: 'low'
+  }),
+  sitemapUrlRule('crawlability.sitemap-url-unreachable', 'Sitemap URLs unreachable', 'errors', 'could not be fetched', 'notice', 2, {
+    summary: 'Check that sitemap URLs resolve and respond in time',
+    steps: ['Verify DNS, TLS and server availability for the listed hosts'],
+    effort: 'medium'
+  }),
+  {
+    id: 'crawlability.canonical-missing',
+    category: 'crawlability',
+    severity: 'warning',
+    title: 'Missing canonical URL',
+    weight: 5,
+    fix: { summary: 'Add a <link rel="canonical"> pointing to the preferred URL of the page', steps: ['Use absolute URLs', 'Self-reference on the canonical version'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$ || $('link[rel="canonical"]').length > 0) return null
+      return { message: 'Missing canonical URL', evidence: [{ selector: 'link[rel="canonical"]' }] }
+    }
+  },
+  {
+    id: 'crawlability.lang-missing',
+    category: 'crawlability',
+    severity: 'notice',
+    title: 'Missing lang attribute',
+    weight: 3,
+    fix: { summary: 'Declare the page language on the <html> element, e.g. lang="en"', steps: ['Use the BCP 47 code of the content language'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$ || $('html').attr('lang')) return null
+      return { message: 'Missing lang attribute', evidence: [{ selector: 'html[lang]' }] }
+    }
+  },
+
+  // External factors
+  {
+    id: 'externalFactors.not-https',
+    category: 'externalFactors',
+    severity: 'error',
+    title: 'Not using HTTPS',
+    weight: 10,
+    fix: {
+      summary: 'Serve the site over HTTPS with a valid certificate',
+      steps: ['Install a TLS certificate', 'Redirect HTTP to HTTPS with 301s', 'Update internal links and canonicals'],
+      effort: 'medium'
+    },
+    check: ({ url }) => url.startsWith('https://') ? null : { message: 'Not using HTTPS', evidence: [{ url }] }
+  },
+  {
+    id: 'externalFactors.favicon-missing',
+    category: 'externalFactors',
+    severity: 'notice',
+    title: 'Missing favicon',
+    weight: 2,
+    fix: { summary: 'Add a <link rel="icon"> so the site is recognisable in results and tabs', steps: ['Provide at least a 48×48 icon'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$ || $('link[rel="icon"]').length > 0) return null
+      return { message: 'Missing favicon', evidence: [{ selector: 'link[rel="icon"]' }] }
+    }
+  },
+  {
+    id: 'externalFactors.apple-touch-icon-missing',
+    category: 'externalFactors',
+    severity: 'notice',
+    title: 'Missing Apple Touch Icon',
+    weight: 1,
+    fix: { summary: 'Add a <link rel="apple-touch-icon"> for home-screen bookmarks', steps: ['Provide a 180×180 PNG'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$ || $('link[rel="apple-touch-icon"]').length > 0) return null
+      return { message: 'Missing Apple Touch Icon', evidence: [{ selector: 'link[rel="apple-touch-icon"]' }] }
+    }
+  },
+  {
+    id: 'externalFactors.open-graph-incomplete',
+    category: 'externalFactors',
+    severity: 'notice',
+    title: 'Incomplete Open Graph tags',
+    weight: 3,
+    fix: { summary: 'Add og:title and og:description (and og:image) for rich social previews', steps: ['Mirror the page title and description', 'Use a 1200×630 share image'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$) return null
+      const missing = ['og:title', 'og:description'].filter(property => !$(`meta[property="${property}"]`).attr('content'))
+      if (missing.length === 0) return null
+      const labels = missing.map(property => `Open Graph ${property.slice(3)}`)
+      return {
+        message: `Missing ${labels.join(' and ')}`,
+        evidence: missing.map(property => ({ selector: `meta[property="${property}"]` }))
+      }
+    }
+  },
+  {
+    id: 'externalFactors.twitter-card-missing',
+    category: 'externalFactors',
+    severity: 'notice',
+    title: 'Missing Twitter Card',
+    weight: 2,
+    fix: { summary: 'Add a twitter:card meta tag, e.g. summary_large_image', steps: ['Add twitter:title and twitter:image as well'], effort: 'low' },
+    check: ({ $ }) => {
+      if (!$ || $('meta[name="twitter:card"]').attr('content')) return null
+      return { message: 'Missing Twitter Card', evidence: [{ selector: 'meta[name="twitter:card"]' }] }
+    }
+  },
+  {
+    id: 'externalFactors.structured-data-missing',
+    category: 'externalFactors',
+    severity: 'warning',
+    title: 'No structured data',
+    weight: 4,
+    fix: {
+      summary: 'Add JSON-LD structured data that describes the page',
+      steps: ['Pick the Schema.org type that matches the content', 'Validate it with the Rich Results Test'],
+      effort: 'medium'
+    },
+    check: ({ $, html }) => {
+      if (!$ || StructuredDataValidator.analyze($, html).entities.length > 0) return null
+      return { message: 'No structured data found', evidence: [{ selector: `${JSON_LD_SELECTOR}, [itemscope], [typeof]` }] }
+    }
+  },
+  {
+    id: 'externalFactors.structured-data-invalid-json',
+    category: 'externalFactors',
+    severity: 'error',
+    title: 'Invalid JSON-LD',
+    weight: 5,
+    fix: {
+      summary: 'Fix the JSON syntax of the structured data; search engines ignore blocks that do not parse',
+      steps: ['Check the reported line for trailing commas, unescaped quotes or unclosed brackets', 'Generate JSON-LD with a serializer instead of string templates'],
+      effort: 'low'
+    },
+    check: ({ $, html }) => {
+      if (!$) return null
+      const { syntaxErrors } = StructuredDataValidator.analyze($, html)
+      if (syntaxErrors.length === 0) return null
+      return {
+        message: `${plural(syntaxErrors.length, 'JSON-LD block')} cannot be parsed`,
+        evidence: syntaxErrors.slice(0, MAX_EVIDENCE).map(error => ({
+          selector: JSON_LD_SELECTOR,
+          value: `Block ${error.block}, line ${error.line}, column ${error.column}: ${error.message}`
+        }))
+      }
+    }
+  },
+  {
+    id: 'externalFactors.structured-data-missing-required',
+    category: 'externalFactors',
+    severity: 'warning',
+    title: 'Structured data missing required properties',
+    weight: 4,
+    fix: {
+      summary: 'Add the properties each Schema.org type needs to qualify for rich results',
+      steps: ['Fill in the listed properties from the page content', 'Validate the page with the Rich Results Test'],
+      effort: 'medium'
+    },
+    check: ({ $, html }) => {
+      if (!$) return null
+      const incomplete = StructuredDataValidator.analyze($, html).entities.filter(entity => entity.missingRequired.length > 0)
+      if (incomplete.length === 0) return null
+      return {
+        message: `${plural(incomplete.length, 'structured data entity', 'structured data entities')} missing required properties`,
+        evidence: incomplete.slice(0, MAX_EVIDENCE).map(entity => ({
+          value: StructuredDataValidator.describeEntity(entity),
+          expected: entity.missingRequired.join(', ')
+        }))
+      }
+    }
+  },
+  {
+    id: 'externalFactors.structured-data-missing-recommended',
+    category: 'externalFactors',
+    severity: 'notice',
+    title: 'Structured data missing recommended properties',
+    weight: 1,
+    fix: {
+      summary: 'Add recommended properties so rich results show more detail',
+      steps: ['Prioritise images, dates, ratings and prices that the page already shows'],
+      effort: 'low'
+    },
+    check: ({ $, html }) => {
+      if (!$) return null
+      const sparse = StructuredDataValidator.analyze($, html).entities.filter(entity => entity.missingRecommended.length > 0)
+      if (sparse.length === 0) return null
+      return {
+        message: `${plural(sparse.length, 'structured data entity', 'structured data entities')} missing recommended properties`,
+        evidence: sparse.slice(0, MAX_EVIDENCE).map(entity => ({
+          value: StructuredDataValidator.describeEntity(entity),
+          expected: entity.missingRecommended.join(', ')
+        }))
+      }
+    }
+  },
+
+  {
+    id: 'externalFactors.structured-data-inconsistent',
+    category: 'externalFactors',
+    severity: 'warning',
+    title: 'Structured data syntaxes disagree',
+    weight: 3,
+    fix: {
+      summary: 'Describe each entity once, or keep every syntax in sync',
+      steps: ['Prefer a single JSON-LD block and remove theme microdata or RDFa for the same entity', 'Otherwise render all syntaxes from the same source data'],
+      effort: 'medium'
+    },
+    check: ({ $, html }) => {
+      if (!$) return null
+      const { conflicts } = StructuredDataValidator.analyze($, html)
+      if (conflicts.length === 0) return null
+      return {
+        message: `${plural(conflicts.length, 'structured data property', 'structured data properties')} differ between syntaxes`,
+        evidence: conflicts.slice(0, MAX_EVIDENCE).map(conflict => ({
+          value: `${conflict.schemaType}.${conflict.property}: ${conflict.values.map(entry => `"${entry.value}" (${STRUCTURED_DATA_SYNTAX_NAMES[entry.syntax]})`).join(' vs ')}`
+        }))
+      }
+    }
+  },
+
+  // Headers
+  {
+    id: 'headers.cache-control-missing',
+    category: 'headers',
+    severity: 'notice',
+    title: 'Missing Cache-Control header',
+    weight: 2,
+    fix: { summary: 'Send a Cache-Control header with an explicit caching policy', steps: ['Use max-age for static assets and short TTLs or revalidation for HTML'], effort: 'low' },
+    check: ({ sections }) => {
+      const headers = sections.headers
+      if (!headers || headers.caching.cacheControl) return null
+      return { message: 'Missing Cache-Control header', evidence: [{ header: 'Cache-Control' }] }
+    }
+  },
+  {
+    id: 'headers.validators-missing',
+    category: 'headers',
+    severity: 'notice',
+    title: 'No revalidation headers',
+    weight: 1,
+    fix: { summary: 'Send an ETag or Last-Modified header so clients can revalidate', steps: ['Enable ETags in the web server or framework'], effort: 'low' },
+    check: ({ sections }) => {
+      const headers = sections.headers
+      if (!headers || headers.caching.etag || headers.caching.lastModified) return null
+      return { message: 'No ETag or Last-Modified header for revalidation', evidence: [{ header: 'ETag' }, { header: 'Last-Modified' }] }
+    }
+  },
+  {
+    id: 'headers.no-store',
+    category: 'headers',
+    severity: 'warning',
+    title: 'Caching disabled',
+    weight: 3,
+    fix: { summary: 'Replace Cache-Control: no-store with a policy that allows caching', steps: ['Use no-cache if the page must always be revalidated'], effort: 'low' },
+    check: ({ sections }) => {
+      const cacheControl = sections.headers?.caching.cacheControl
+      if (!cacheControl || !/no-store/i.test(cacheControl)) return null
+      return { message: 'Cache-Control: no-store prevents caching', evidence: [{ header: 'Cache-Control', value: cacheControl }] }
+    }
+  },
+  {
+    id: 'headers.not-compressed',
+    category: 'headers',
+    severity: 'warning',
+    title: 'Response not compressed',
+    weight: 5,
+    fix: { summary: 'Enable gzip or Brotli compression for HTML, CSS and JavaScript', steps: ['Turn on compression in the server or CDN'], effort: 'low' },
+    check: ({ sections }) => {
+      const headers = sections.headers
+      if (!headers || headers.compression.isCompressed) return null
+      return { message: 'Response is not compressed (gzip/br)', evidence: [{ header: 'Content-Encoding', value: headers.compression.contentEncoding, expected: 'gzip or br' }] }
+    }
+  },
+  {
+    id: 'headers.content-type-missing',
+    category: 'headers',
+    severity: 'warning',
+    title: 'Missing Content-Type header',
+    weight: 3,
+    fix: { summary: 'Send Content-Type: text/html; charset=utf-8', steps: ['Set the header in the server or framework'], effort: 'low' },
+    check: ({ sections }) => {
+      const headers = sections.headers
+      if (!headers || headers.contentType.value) return null
+      return { message: 'Missing Content-Type header', evidence: [{ header: 'Content-Type' }] }
+    }
+  },
+  {
+    id: 'headers.charset-missing',
+    category: 'headers',
+    severity: 'notice',
+    title: 'No charset declared',
+    weight: 2,
+    fix: { summary: 'Declare the charset in the Content-Type header', steps: ['Append ; charset=utf-8'], effort: 'low' },
+    check: ({ sections }) => {
+      const contentType = sections.headers?.contentType
+      if (!contentType?.value || contentType.charset) return null
+      return { message: 'Content-Type header does not declare a charset', evidence: [{ header: 'Content-Type', value: contentType.value, expected: 'charset=utf-8' }] }
+    }
+  },
+  {
+    id: 'headers.hsts-missing',
+    category: 'headers',
+    severity: 'notice',
+    title: 'Missing HSTS header',
+    weight: 2,
+    fix: { summary: 'Send Strict-Transport-Security so browsers always use HTTPS', steps: ['Start with a short max-age, then raise it'], effort: 'low' },
+    check: ({ sections, url }) => {
+      const headers = sections.headers
+      if (!headers || !url.startsWith('https://') || headers.security.hsts) return null
+      return { message: 'Missing Strict-Transport-Security (HSTS) header', evidence: [{ header: 'Strict-Transport-Security' }] }
+    }
+  },
+  {
+    id: 'headers.csp-missing',
+    category: 'headers',
+    severity: 'notice',
+    title: 'Missing Content-Security-Policy',
+    weight: 1,
+    fix: { summary: 'Add a Content-Security-Policy header', steps: ['Start in report-only mode to find violations'], effort: 'medium' },
+    check: ({ sections }) => {
+      const headers = sections.headers
+      if (!headers || headers.security.csp) return null
+      return { message: 'Missing Content-Security-Policy header', evidence: [{ header: 'Content-Security-Policy' }] }
+    }
+  },
+  {
+    id: 'headers.nosniff-missing',
+    category: 'headers',
+    severity: 'notice',
+    title: 'Missing X-Content-Type-Options',
+    weight: 1,
+    fix: { summary: 'Send X-Content-Type-Options: nosniff', steps: ['Set the header for all responses'], effort: 'low' },
+    check: ({ sections }) => {
+      const headers = sections.headers
+      if (!headers || headers.security.xContentTypeOptions?.toLowerCase() === 'nosniff') return null
+      return { message: 'Missing X-Content-Type-Options: nosniff', evidence: [{ header: 'X-Content-Type-Options', value: headers.security.xContentTypeOptions, expected: 'nosniff' }] }
+    }
+  },
+  {
+    id: 'headers.referrer-policy-missing',
+    category: 'headers',
+    severity: 'notice',
+    title: 'Missing Referrer-Policy',
+    weight: 1,
+    fix: { summary: 'Send a Referrer-Policy header, e.g. strict-origin-when-cross-origin', steps: ['Set the header for all responses'], effort: 'low' },
+    check: ({ sections }) => {
+      const headers = sections.headers
+      if (!headers || headers.security.referrerPolicy) return null
+      return { message: 'Missing Referrer-Policy header', evidence: [{ header: 'Referrer-Policy' }] }
+    }
+  },
+
+  // Redirects
+  {
+    id: 'redirects.trace-failed',
+    category: 'redirects',
+    severity: 'warning',
+    title: 'Redirect trace failed',
+    weight: 3,
+    fix: { summary: 'Check that the URL and every redirect target respond', steps: ['Verify DNS, TLS and server availability'], effort: 'medium' },
+    check: ({ sections }) => {
+      const redirects = sections.redirects
+      if (!redirects?.error) return null
+      return { message: `Redirect trace failed: ${redirects.error}`, evidence: [{ url: redirects.finalUrl, value: redirects.error }] }
+    }
+  },
+  {
+    id: 'redirects.loop',
+    category: 'redirects',
+    severity: 'error',
+    title: 'Redirect loop',
+    weight: 15,
+    fix: { summary: 'Break the loop so the chain ends on a 200 page', steps: ['Check conflicting server, CDN and application redirect rules'], effort: 'medium' },
+    check: ({ sections }) => {
+      const redirects = sections.redirects
+      if (!redirects?.hasLoop) return null
+      return { message: 'Redirect loop detected', evidence: redirects.hops.map(hop => ({ url: hop.url, value: hop.statusCode, expected: hop.location })) }
+    }
+  },
+  {
+    id: 'redirects.too-many-hops',
+    category: 'redirects',
+    severity: 'error',
+    title: 'Redirect chain too long',
+    weight: 10,
+    fix: { summary: 'Redirect straight to the final URL', steps: ['Collapse chained rules into one redirect'], effort: 'medium' },
+    check: ({ sections, profile: { thresholds } }) => {
+      const redirects = sections.redirects
+      if (!redirects || redirects.hasLoop || redirects.hops.length < thresholds.maxRedirectHops) return null
+      return {
+        message: `Redirect chain exceeds ${thresholds.maxRedirectHops} hops`,
+        evidence: redirects.hops.map(hop => ({ url: hop.url, value: hop.statusCode, expected: hop.location }))
+      }
+    }
+  },
+  {
+    id: 'redirects.chain',
+    category: 'redirects',
+    severity: 'warning',
+    title: 'Redirect chain',
+    weight: 5,
+    fix: { summary: 'Redirect straight to the final URL in one hop', steps: ['Update the first redirect to target the final URL', 'Update links that point at the old URL'], effort: 'low' },
+    check: ({ sections }) => {
+      const redirects = sections.redirects
+      if (!redirects?.isChain || redirects.hasLoop) return null
+      return {
+        message: `Redirect chain of ${redirects.hops.length} hops (redirect straight to the final URL)`,
+        evidence: redirects.hops.map(hop => ({ url: hop.url, value: hop.statusCode, expected: hop.location }))
+      }
+    }
+  },
+  {
+    id: 'redirects.temporary',
+    category: 'redirects',
+    severity: 'warning',
+    title: 'Temporary redirect',
+    weight: 4,
+    fix: { summary: 'Use 301 or 308 for permanent moves', steps: ['Change 302/303/307 rules that are not actually temporary'], effort: 'low' },
+    check: ({ sections }) => {
+      const redirects = sections.redirects
+      if (!redirects?.usesTemporaryRedirect) return null
+      return {
+        message: 'Temporary redirect (302/303/307) used; use 301/308 for permanent moves',
+        evidence: redirects.hops.filter(hop => [302, 303, 307].includes(hop.statusCode)).map(hop => ({ url: hop.url, value: hop.statusCode, expected: '301 or 308' }))
+      }
+    }
+  },
+  {
+    id: 'redirects.https-downgrade',
+    category: 'redirects',
+    severity: 'error',
+    title: 'Redirect downgrades to HTTP',
+    weight: 10,
+    fix: { summary: 'Never redirect from HTTPS to HTTP', steps: ['Point the redirect at the HTTPS URL'], effort: 'low' },
+    check: ({ sections }) => {
+      const downgrades = (sections.redirects?.hops || []).filter(hop => hop.protocolChange === 'https-to-http')
+      if (downgrades.length === 0) return null
+      return { message: 'Redirect downgrades from HTTPS to HTTP', evidence: downgrades.map(hop => ({ url: hop.url, value: hop.location })) }
+    }
+  },
+  {
+    id: 'redirects.final-error-status',
+    category: 'redirects',
+    severity: 'error',
+    title: 'Final URL returns an error',
+    weight: 15,
+    fix: { summary: 'Make the final URL return 200, or redirect to a live page', steps: ['Restore the page or update the redirect target'], effort: 'medium' },
+    check: ({ sections }) => {
+      const redirects = sections.redirects
+      if (!redirects?.finalStatusCode || redirects.finalStatusCode < 400) return null
+      return { message: `Final URL returns HTTP ${redirects.finalStatusCode}`, evidence: [{ url: redirects.finalUrl, value: redirects.finalStatusCode, expected: '200' }] }
+    }
+  },
+  {
+    id: 'redirects.https-not-enforced',
+    category: 'redirects',
+    severity: 'warning',
+    title: 'HTTP does not redirect to HTTPS',
+    weight: 6,
+    fix: { summary: 'Redirect every HTTP URL to its HTTPS version with a 301', steps: ['Add the redirect at the server or CDN', 'Add an HSTS header'], effort: 'low' },
+    check: ({ sections }) => {
+      const redirects = sections.redirects
+      if (!redirects || redirects.httpsEnforced !== false) return null
+      return { message: 'HTTP version does not redirect to HTTPS', evidence: [{ url: redirects.finalUrl.replace(/^https:/, 'http:'), expected: 'redirect to HTTPS' }] }
+    }
+  },
+
+  // Rendering
+  {
+    id: 'rendering.render-timeout',
+    category: 'rendering',
+    severity: 'notice',
+    title: 'Render did not settle',
+    weight: 1,
+    fix: { summary: 'Reduce long-polling and late network requests during page load', steps: ['Defer analytics and chat widgets'], effort: 'medium' },
+    check: ({ rendering }) => {
+      if (!rendering?.timedOut) return null
+      return { message: 'Network did not go idle before the render timeout; analyzed the DOM as it was', evidence: [{ url: rendering.finalUrl, value: rendering.renderTimeMs }] }
+    }
+  },
+  {
+    id: 'rendering.js-only-signals',
+    category: 'rendering',
+    severity: 'warning',
+    title: 'SEO signals only present after JavaScript',
+    weight: 6,
+    fix: { summary: 'Render title, description, canonical, robots and H1 on the server', steps: ['Use server-side rendering or static generation for head tags'], effort: 'high' },
+    check: ({ rendering }) => {
+      if (!rendering) return null
+      const added = renderedFields(rendering).filter(([, field]) => field.changed && !field.raw)
+      if (added.length === 0) return null
+      return {
+        message: `${added.map(([name]) => name).join(', ')} ${added.length === 1 ? 'is' : 'are'} only present after JavaScript runs`,
+        evidence: added.map(([name, field]) => ({ selector: name, value: field.rendered }))
+      }
+    }
+  },
+  {
+    id: 'rendering.js-changed-signals',
+    category: 'rendering',
+    severity: 'warning',
+    title: 'SEO signals changed by JavaScript',
+    weight: 4,
+    fix: { summary: 'Make the server HTML and the rendered DOM agree on key SEO tags', steps: ['Remove client-side code that rewrites head tags'], effort: 'medium' },
+    check: ({ rendering }) => {
+      if (!rendering) return null
+      const changed = renderedFields(rendering).filter(([, field]) => field.changed && !!field.raw)
+      if (changed.length === 0) return null
+      return {
+        message: `${changed.map(([name]) => name).join(', ')} ${changed.length === 1 ? 'is' : 'are'} changed or removed by JavaScript`,
+        evidence: changed.map(([name, field]) => ({ selector: name, value: field.rendered || '(removed)', expected: field.raw }))
+      }
+    }
+  },
+  {
+    id: 'rendering.js-only-content',
+    category: 'rendering',
+    severity: 'warning',
+    title: 'Content rendered by JavaScript',
+    weight: 5,
+    fix: { summary: 'Include the main content in the server HTML', steps: ['Server-render article and product content'], effort: 'high' },
+    check: ({ rendering }) => {
+      if (!rendering) return null
+      const { raw, rendered } = rendering.diff.wordCount
+      const addedWords = rendered - raw
+      if (rendered === 0 || addedWords / rendered <= 0.5) return null
+      return { message: `${addedWords} of ${rendered} words only appear after JavaScript runs`, evidence: [{ selector: 'body', value: rendered, expected: `${raw} in raw HTML` }] }
+    }
+  },
+  {
+    id: 'rendering.js-only-links',
+    category: 'rendering',
+    severity: 'notice',
+    title: 'Links added by JavaScript',
+    weight: 3,
+    fix: { summary: 'Output navigation links as <a href> in the server HTML', steps: ['Avoid click handlers in place of real links'], effort: 'medium' },
+    check: ({ rendering }) => {
+      const links = rendering?.diff.linksOnlyInRendered || []
+      if (links.length === 0) return null
+      return {
+        message: `${plural(links.length, 'link')} only appear after rendering and may be missed by non-rendering crawlers`,
+        evidence: links.slice(0, MAX_EVIDENCE).map(link => ({ selector: attr('a', 'href', link), url: link }))
+      }
+    }
+  },
+
+  // Cloaking
+  {
+    id: 'cloaking.status-differs',
+    category: 'cloaking',
+    severity: 'error',
+    title: 'Googlebot gets a different status code',
+    weight: 10,
+    fix: { summary: 'Serve Googlebot the same response as visitors', steps: ['Check bot rules in the firewall, CDN and rate limiter', 'Verify Googlebot by reverse DNS instead of blocking by user agent'], effort: 'medium' },
+    check: ({ cloaking }) => {
+      if (!cloaking || cloaking.status.browser === cloaking.status.googlebot) return null
+      return {
+        message: `Googlebot gets HTTP ${cloaking.status.googlebot} where browsers get HTTP ${cloaking.status.browser}`,
+        evidence: [{ url: cloaking.finalUrl.googlebot, value: cloaking.status.googlebot, expected: String(cloaking.status.browser) }]
+      }
+    }
+  },
+  {
+    id: 'cloaking.redirect-differs',
+    category: 'cloaking',
+    severity: 'error',
+    title: 'Googlebot is redirected elsewhere',
+    weight: 8,
+    fix: { summary: 'Redirect crawlers and visitors to the same URL', steps: ['Remove user-agent based redirects', 'Use hreflang instead of redirecting by user agent'], effort: 'medium' },
+    check: ({ cloaking }) => {
+      if (!cloaking || cloaking.finalUrl.browser === cloaking.finalUrl.googlebot) return null
+      return {
+        message: `Googlebot ends up on ${cloaking.finalUrl.googlebot}, browsers on ${cloaking.finalUrl.browser}`,
+        evidence: [{ url: cloaking.finalUrl.googlebot, expected: cloaking.finalUrl.browser }]
+      }
+    }
+  },
+  {
+    id: 'cloaking.signals-differ',
+    category: 'cloaking',
+    severity: 'warning',
+    title: 'SEO signals differ for Googlebot',
+    weight: 6,
+    fix: { summary: 'Serve the same title, description, canonical, robots and H1 to every user agent', steps: ['Remove user-agent checks from templates and middleware'], effort: 'medium' },
+    check: ({ cloaking }) => {
+      if (!cloaking) return null
+      const changed = comparedFields(cloaking).filter(([, field]) => field.changed)
+      if (changed.length === 0) return null
+      return {
+        message: `${changed.map(([name]) => name).join(', ')} ${changed.length === 1 ? 'differs' : 'differ'} between Googlebot and browsers`,
+        evidence: changed.map(([name, field]) => ({ selector: name, value: field.googlebot || '(missing)', expected: field.browser || '(missing)' }))
+      }
+    }
+  },
+  {
+    id: 'cloaking.content-differs',
+    category: 'cloaking',
+    severity: 'warning',
+    title: 'Googlebot sees different content',
+    weight: 6,
+    fix: { summary: 'Serve Googlebot the content visitors see', steps: ['Remove user-agent based content switches', 'Keep paywalled content marked up with structured data instead of hiding it'], effort: 'medium' },
+    check: ({ cloaking }) => {
+      if (!cloaking) return null
+      const { browser, googlebot } = cloaking.diff.wordCount
+      const difference = Math.abs(browser - googlebot)
+      if (difference < 50 || difference / Math.max(browser, googlebot) <= 0.2) return null
+      return { message: `Googlebot sees ${googlebot} words, browsers ${browser}`, evidence: [{ selector: 'body', value: googlebot, expected: `${browser} for browsers` }] }
+    }
+  },
+  {
+    id: 'cloaking.links-differ',
+    category: 'cloaking',
+    severity: 'notice',
+    title: 'Links differ for Googlebot',
+    weight: 3,
+    fix: { summary: 'Show crawlers and visitors the same links', steps: ['Remove links that are only rendered for bots'], effort: 'low' },
+    check: ({ cloaking }) => {
+      if (!cloaking) return null
+      const { linksOnlyForGooglebot, linksOnlyForBrowser } = cloaking.diff
+      if (linksOnlyForGooglebot.length === 0 && linksOnlyForBrowser.length === 0) return null
+      return {
+        message: `${plural(linksOnlyForGooglebot.length, 'link')} only served to Googlebot, ${linksOnlyForBrowser.length} only to browsers`,
+        evidence: [
+          ...linksOnlyForGooglebot.map(link => ({ selector: attr('a', 'href', link), url: link, value: 'Googlebot only' })),
+          ...linksOnlyForBrowser.map(link => ({ selector: attr('a', 'href', link), url: link, value: 'browsers only' }))
+        ].slice(0, MAX_EVIDENCE)
+      }
+    }
+  }
+]
+
+const SEVERITY_ORDER: Record<IssueSeverity, number> = { error: 0, warning: 1, notice: 2 }
+
+const ruleWeight = (rule: SEORule, context: RuleContext) => context.profile.ruleWeights[rule.id] ?? rule.weight
+
+export class RuleEngine {
+  /**
+   * Run every registered rule (or those of the given categories) and return the issues found,
+   * most severe and heaviest first. Rules the profile weights at 0 are skipped.
+   */
+  static evaluate(context: RuleContext, categories?: IssueCategory[]): Issue[] {
+    const issues: Issue[] = []
+
+    for (const rule of SEO_RULES) {
+      if (categories && !categories.includes(rule.category)) continue
+      const weight = ruleWeight(rule, context)
+      if (weight <= 0) continue
+      const finding = rule.check(context)
+      if (!finding) continue
+
+      issues.push({
+        id: rule.id,
+        category: rule.category,
+        severity: finding.severity || rule.severity,
+        title: rule.title,
+        message: finding.message,
+        evidence: finding.evidence || [],
+        fix: typeof rule.fix === 'function' ? rule.fix(context.profile.thresholds) : rule.fix,
+        weight
+      })
+    }
+
+    return issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity] || b.weight - a.weight)
+  }
+
+  /**
+   * Issue messages of one category in registry order, for the per-section issue lists
+   */
+  static messages(context: RuleContext, category: IssueCategory, idPrefix?: string): string[] {
+    return SEO_RULES
+      .filter(rule => rule.category === category && (!idPrefix || rule.id.startsWith(idPrefix)) && ruleWeight(rule, context) > 0)
+      .map(rule => rule.check(context)?.message)
+      .filter((message): message is string => !!message)
+  }
+
+  /**
+   * Section score with its ledger: every applicable rule of the category stakes its weight,
+   * passing rules earn it, and the score is the share of points earned
+   */
+  static scoreSection(context: RuleContext, category: IssueCategory): { score: number; ledger: ScoreLedgerEntry[] } {
+    const ledger: ScoreLedgerEntry[] = []
+
+    for (const rule of SEO_RULES) {
+      if (rule.category !== category) continue
+      const weight = ruleWeight(rule, context)
+      if (weight <= 0 || (rule.applies && !rule.applies(context))) continue
+      const finding = rule.check(context)
+
+      ledger.push({
+        ruleId: rule.id,
+        check: rule.title,
+        points: finding ? 0 : weight,
+        maxPoints: weight,
+        reason: finding ? finding.message : 'Passed'
+      })
+    }
+
+    const earned = ledger.reduce((sum, entry) => sum + entry.points, 0)
+    const possible = ledger.reduce((sum, entry) => sum + entry.maxPoints, 0)
+    return { score: possible > 0 ? Math.round((earned / possible) * 100) : 100, ledger }
+  }
+
+  static getRule(id: string): SEORule | undefined {
+    return SEO_RULES.find(rule => rule.id === id)
+  }
+}
@@ -0,0 +1,401 @@
+import { AsyncLocalStorage } from 'async_hooks'
+import { createHash } from 'crypto'
+import { lookup, promises as dns } from 'dns'
+import http, { IncomingMessage } from 'http'
+import https from 'https'
+import { BlockList, isIP, LookupFunction } from 'net'
+import { Readable } from 'stream'
+import { createBrotliDecompress, createGunzip, createInflate } from 'zlib'
+import type { Page } from 'puppeteer'
+import type { ResponseHeaders } from './header-analyzer'
+import { CrawlerIdentity } from './crawler-identity'
+import { FetchCache, FetchedHop } from './fetch-cache'
+
+export interface SafeFetchOptions {
+  method?: 'GET' | 'HEAD'
+  headers?: Record<string, string>
+  // 'manual' returns redirects as they are so callers can record each hop
+  redirect?: 'follow' | 'manual'
+  maxRedirects?: number
+  // Deadline for the whole request, redirects and body included
+  timeoutMs?: number
+  // Largest body to download, after decompression
+  maxBytes?: number
+  // Media types a successful response may have; `type/*` matches a whole type and a missing Content-Type is let through
+  accept?: readonly string[]
+  // Return responses of other types without their body instead of failing
+  skipUnaccepted?: boolean
+  // Only the status and headers are needed
+  discardBody?: boolean
+  // false goes to the network even when a cache holds the response, for requests that are timed
+  cache?: boolean
+}
+
+export interface SafeResponse {
+  // Final URL after redirects
+  url: string
+  status: number
+  ok: boolean
+  redirected: boolean
+  // Lowercase names; Content-Encoding is kept although the body is decompressed
+  headers: ResponseHeaders
+  body: Buffer
+  // False when the body was discarded or its type was not accepted
+  bodyRead: boolean
+  text(): string
+}
+
+export type SafeFetchErrorCode = 'invalid-url' | 'blocked-address' | 'too-many-redirects' | 'too-large' | 'content-type' | 'timeout'
+
+export class SafeFetchError extends Error {
+  constructor(message: string, readonly code: SafeFetchErrorCode) {
+    super(message)
+    this.name = 'SafeFetchError'
+  }
+}
+
+const DEFAULT_TIMEOUT_MS = 10000
+const DEFAULT_MAX_REDIRECTS = 10
+const DEFAULT_MAX_BYTES = 10 * 1024 * 1024
+
+// Loopback, private, link-local (cloud metadata), shared, documentation, multicast and reserved ranges.
+// IPv6 addresses that embed an IPv4 address are also matched against the IPv4 ranges.
+const blockedAddresses = new BlockList()
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['198.51.100.0', 24],
+  ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+]
+const BLOCKED_IPV6: [string, number][] = [
+  ['::', 128], ['::1', 128], ['64:ff9b:1::', 48], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+]
+for (const [network, prefix] of BLOCKED_IPV4) blockedAddresses.addSubnet(network, prefix, 'ipv4')
+for (const [network, prefix] of BLOCKED_IPV6) blockedAddresses.addSubnet(network, prefix, 'ipv6')
+
+// The eight 16-bit groups of a valid IPv6 address; a trailing dotted IPv4 part becomes the last two
+const ipv6Groups = (address: string): number[] => {
+  let text = address.toLowerCase().split('%')[0]
+  const dotted = text.match(/^(.*:)(\d+)\.(\d+)\.(\d+)\.(\d+)$/)
+  if (dotted) {
+    const [a, b, c, d] = dotted.slice(2).map(Number)
+    text = `${dotted[1]}${((a << 8) | b).toString(16)}:${((c << 8) | d).toString(16)}`
+  }
+  const parse = (part: string) => (part ? part.split(':').map(group => parseInt(group, 16)) : [])
+  if (!text.includes('::')) return parse(text)
+  const [head, tail] = text.split('::').map(parse)
+  return [...head, ...new Array(8 - head.length - tail.length).fill(0), ...tail]
+}
+
+const identities = new AsyncLocalStorage<CrawlerIdentity>()
+const DEFAULT_IDENTITY = new CrawlerIdentity()
+
+// Self-hosted audits of local or intranet sites opt in; the hosted app never should
+let allowPrivateNetworks = process.env.ALLOW_PRIVATE_NETWORK_FETCH === 'true'
+
+/**
+ * DNS lookup for outgoing sockets that refuses hosts resolving to a blocked address. The socket
+ * connects to the address checked here, so a second DNS answer cannot swap in an internal one.
+ */
+const guardedLookup: LookupFunction = (hostname, options, callback) => {
+  lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) return callback(error, '')
+
+    const blocked = allowPrivateNetworks ? undefined : addresses.find(entry => SafeFetch.isBlockedAddress(entry.address))
+    if (blocked) {
+      return callback(new SafeFetchError(`${hostname} resolves to the non-public address ${blocked.address}`, 'blocked-address'), '')
+    }
+
+    if (options.all) callback(null, addresses)
+    else callback(null, addresses[0].address, addresses[0].family)
+  })
+}
+
+export class SafeFetch {
+  static readonly CONTENT_TYPES = {
+    html: ['text/html', 'application/xhtml+xml'],
+    text: ['text/*'],
+    sitemap: [
+      'application/xml', 'text/xml', 'application/rss+xml', 'application/atom+xml', 'text/plain',
+      'application/gzip', 'application/x-gzip', 'application/octet-stream'
+    ]
+  } as const
+
+  /**
+   * Fetch a user-supplied URL from the server. Every hop must be http(s) and resolve to public
+   * addresses; redirects, body size and time are capped, and successful bodies must have an accepted type.
+   * Each hop is sent as the scan's crawler identity, with `options.headers` on top, and goes through
+   * the request cache of the scan in progress (see FetchCache).
+   */
+  static async fetch(input: string, options: SafeFetchOptions = {}): Promise<SafeResponse> {
+    const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS
+    const maxRedirects = options.maxRedirects ?? DEFAULT_MAX_REDIRECTS
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(new SafeFetchError(`Timed out after ${timeoutMs}ms`, 'timeout')), timeoutMs)
+
+    try {
+      let url = this.parseUrl(input)
+      for (let redirects = 0; ; redirects++) {
+        const hop = await this.request(url, options, controller.signal)
+
+        if (options.redirect !== 'manual' && this.isRedirect(hop)) {
+          if (redirects >= maxRedirects) throw new SafeFetchError(`Stopped after ${maxRedirects} redirects`, 'too-many-redirects')
+          url = this.parseUrl(new URL(hop.headers.location, url).href)
+          continue
+        }
+
+        return this.toResponse(url, hop, redirects > 0, options)
+      }
+    } catch (error) {
+      // Aborting surfaces as a generic AbortError; report the reason instead
+      throw controller.signal.aborted ? controller.signal.reason : error
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  /**
+   * Run a scan as the given identity. Every fetch and guarded page inside, however deep in the analyzers, uses it.
+   */
+  static withIdentity<T>(identity: CrawlerIdentity, scan: () => Promise<T>): Promise<T> {
+    return identities.run(identity, scan)
+  }
+
+  /**
+   * Identity of the scan in progress; the default browser identity outside a scan
+   */
+  static identity(): CrawlerIdentity {
+    return identities.getStore() || DEFAULT_IDENTITY
+  }
+
+  /**
+   * Resolve a URL's host and throw unless every address is public. For clients such as headless
+   * Chromium that do their own DNS lookups; `fetch` checks the address it connects to instead.
+   */
+  static async assertPublicUrl(input: string): Promise<URL> {
+    const url = this.parseUrl(input)
+    const hostname = this.hostname(url)
+    if (allowPrivateNetworks || isIP(hostname)) return url
+
+    const addresses = await dns.lookup(hostname, { all: true })
+    const blocked = addresses.find(entry => this.isBlockedAddress(entry.address))
+    if (blocked) {
+      throw new SafeFetchError(`${hostname} resolves to the non-public address ${blocked.address}`, 'blocked-address')
+    }
+    return url
+  }
+
+  /**
+   * Abort every request of a headless Chromium page, subresources and redirects included, whose host is not public.
+   * Requests to the scanned site carry the identity's extra headers, cookies and credentials.
+   */
+  static async guardPage(page: Page): Promise<void> {
+    // Puppeteer events arrive outside the scan's async context
+    const identity = this.identity()
+    const verdicts = new Map<string, Promise<boolean>>()
+    const isAllowed = (url: string): Promise<boolean> => {
+      const { protocol, host } = new URL(url)
+      if (protocol === 'data:' || protocol === 'blob:') return Promise.resolve(true)
+      const origin = `${protocol}//${host}`
+      let verdict = verdicts.get(origin)
+      if (!verdict) {
+        verdict = this.assertPublicUrl(url).then(() => true, () => false)
+        verdicts.set(origin, verdict)
+      }
+      return verdict
+    }
+
+    await page.setRequestInterception(true)
+    page.on('request', request => {
+      if (request.isInterceptResolutionHandled()) return
+      const siteHeaders = identity.siteHeaders(request.url())
+      const headers = Object.keys(siteHeaders).length > 0 ? { ...request.headers(), ...siteHeaders } : undefined
+      isAllowed(request.url())
+        .then(allowed => (allowed ? request.continue(headers && { headers }) : request.abort('blockedbyclient')))
+        .catch(() => undefined)
+    })
+  }
+
+  static isBlockedAddress(address: string): boolean {
+    const family = isIP(address)
+    if (family === 4) return blockedAddresses.check(address, 'ipv4')
+    if (family !== 6) return true
+
+    if (this.embeddedIpv4(ipv6Groups(address)).some(ipv4 => blockedAddresses.check(ipv4, 'ipv4'))) return true
+    return blockedAddresses.check(address, 'ipv6')
+  }
+
+  /**
+   * IPv4 addresses carried by IPv4-compatible (::/96), IPv4-mapped (::ffff:0:0/96), NAT64 (64:ff9b::/96),
+   * 6to4 (2002::/16) and Teredo (2001::/32) addresses, which reach those IPv4 hosts
+   */
+  private static embeddedIpv4(groups: number[]): string[] {
+    const ipv4 = (high: number, low: number) => [high >> 8, high & 255, low >> 8, low & 255].join('.')
+
+    if (groups.slice(0, 5).every(group => group === 0) && (groups[5] === 0 || groups[5] === 0xffff)) return [ipv4(groups[6], groups[7])]
+    if (groups[0] === 0x64 && groups[1] === 0xff9b && groups.slice(2, 6).every(group => group === 0)) return [ipv4(groups[6], groups[7])]
+    if (groups[0] === 0x2002) return [ipv4(groups[1], groups[2])]
+    // Teredo stores the server address as is and the client address with its bits inverted
+    if (groups[0] === 0x2001 && groups[1] === 0) return [ipv4(groups[2], groups[3]), ipv4(groups[6] ^ 0xffff, groups[7] ^ 0xffff)]
+    return []
+  }
+
+  static setAllowPrivateNetworks(allow: boolean) {
+    allowPrivateNetworks = allow
+  }
+
+  /**
+   * Parse a URL and reject other protocols and literal non-public IPs, which never reach the DNS lookup
+   */
+  private static parseUrl(input: string): URL {
+    let url: URL
+    try {
+      url = new URL(input)
+    } catch {
+      throw new SafeFetchError(`Invalid URL: ${input}`, 'invalid-url')
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+      throw new SafeFetchError(`Only http and https URLs can be fetched: ${input}`, 'invalid-url')
+    }
+
+    const hostname = this.hostname(url)
+    if (!allowPrivateNetworks && isIP(hostname) && this.isBlockedAddress(hostname)) {
+      throw new SafeFetchError(`${hostname} is not a public address`, 'blocked-address')
+    }
+    return url
+  }
+
+  private static hostname(url: URL): string {
+    return url.hostname.replace(/^\[|\]$/g, '')
+  }
+
+  private static request(url: URL, options: SafeFetchOptions, signal: AbortSignal): Promise<FetchedHop> {
+    // Headers are worked out per hop, so credentials stay on the scanned site when a redirect leaves it
+    const headers = { ...this.identity().headersFor(url), ...options.headers }
+    // Requests outside a scan still share responses through the cross-scan cache
+    const cache = FetchCache.current() || new FetchCache()
+    return cache.request(
+      options.method || 'GET',
+      url.href,
+      this.variant(headers),
+      hop => this.needsBody(hop, options),
+      conditionalHeaders => this.send(url, headers, options, signal, conditionalHeaders),
+      options.cache === false
+    )
+  }
+
+  // Cached responses are kept per set of request headers; hashed so credentials are not kept in cache keys
+  private static variant(headers: Record<string, string>): string {
+    const sorted = Object.entries(headers).sort(([a], [b]) => a.localeCompare(b))
+    return createHash('sha256').update(JSON.stringify(sorted)).digest('base64url')
+  }
+
+  private static async send(url: URL, headers: Record<string, string>, options: SafeFetchOptions, signal: AbortSignal, conditionalHeaders?: Record<string, string>): Promise<FetchedHop> {
+    const response = await new Promise<IncomingMessage>((resolve, reject) => {
+      const client = url.protocol === 'https:' ? https : http
+      const request = client.request(url, {
+        method: options.method || 'GET',
+        headers: { 'Accept-Encoding': 'gzip, deflate, br', ...headers, ...conditionalHeaders },
+        lookup: guardedLookup,
+        signal
+      }, resolve)
+      request.on('error', reject)
+      request.end()
+    })
+
+    const hop: FetchedHop = { status: response.statusCode || 0, headers: {}, body: Buffer.alloc(0), bodyRead: false }
+    for (const [name, value] of Object.entries(response.headers)) {
+      if (value !== undefined) hop.headers[name] = Array.isArray(value) ? value.join(', ') : value
+    }
+
+    if (this.needsBody(hop, options)) {
+      hop.body = await this.readBody(response, hop.headers['content-encoding'], options.maxBytes ?? DEFAULT_MAX_BYTES, signal)
+      hop.bodyRead = true
+    } else {
+      response.destroy()
+    }
+    return hop
+  }
+
+  private static toResponse(url: URL, hop: FetchedHop, redirected: boolean, options: SafeFetchOptions): SafeResponse {
+    if (!this.isAccepted(hop, options) && !options.skipUnaccepted) {
+      throw new SafeFetchError(`Unexpected content type ${this.contentType(hop)} from ${url.href}`, 'content-type')
+    }
+
+    const maxBytes = options.maxBytes ?? DEFAULT_MAX_BYTES
+    const bodyRead = this.needsBody(hop, options)
+    // A cached body may come from a request that allowed more
+    if (bodyRead && hop.body.length > maxBytes) {
+      throw new SafeFetchError(`Response is larger than ${maxBytes} bytes`, 'too-large')
+    }
+
+    const body = bodyRead ? hop.body : Buffer.alloc(0)
+    const ok = hop.status >= 200 && hop.status < 300
+    return { url: url.href, status: hop.status, ok, redirected, headers: hop.headers, body, bodyRead, text: () => body.toString('utf8') }
+  }
+
+  // Redirect bodies are never read, whether the redirect is followed or returned
+  private static needsBody(hop: FetchedHop, options: SafeFetchOptions): boolean {
+    return !options.discardBody && options.method !== 'HEAD' && !this.isRedirect(hop) && this.isAccepted(hop, options)
+  }
+
+  private static isRedirect(hop: FetchedHop): boolean {
+    return hop.status >= 300 && hop.status < 400 && !!hop.headers.location
+  }
+
+  private static isAccepted(hop: FetchedHop, options: SafeFetchOptions): boolean {
+    const contentType = this.contentType(hop)
+    const ok = hop.status >= 200 && hop.status < 300
+    return !ok || !options.accept || !contentType || options.accept.some(type =>
+      type.endsWith('/*') ? contentType.startsWith(type.slice(0, -1)) : contentType === type
+    )
+  }
+
+  private static contentType(hop: FetchedHop): string | undefined {
+    return hop.headers['content-type']?.split(';')[0].trim().toLowerCase()
+  }
+
+  private static readBody(response: IncomingMessage, encoding: string | undefined, maxBytes: number, signal: AbortSignal): Promise<Buffer> {
+    const tooLarge = () => new SafeFetchError(`Response is larger than ${maxBytes} bytes`, 'too-large')
+    if (Number(response.headers['content-length']) > maxBytes) {
+      response.destroy()
+      return Promise.reject(tooLarge())
+    }
+
+    const decoder = this.decoder(encoding)
+    const stream: Readable = decoder ? response.pipe(decoder) : response
+
+    return new Promise((resolve, reject) => {
+      const chunks: Buffer[] = []
+      let size = 0
+      const fail = (error: unknown) => {
+        response.destroy()
+        reject(error)
+      }
+
+      stream.on('data', (chunk: Buffer) => {
+        size += chunk.length
+        if (size > maxBytes) fail(tooLarge())
+        else chunks.push(chunk)
+      })
+      stream.on('end', () => resolve(Buffer.concat(chunks)))
+      stream.on('error', fail)
+      if (decoder) response.on('error', fail)
+      signal.addEventListener('abort', () => fail(signal.reason), { once: true })
+    })
+  }
+
+  private static decoder(encoding?: string) {
+    switch (encoding?.trim().toLowerCase()) {
+      case 'gzip':
+      case 'x-gzip':
+        return createGunzip()
+      case 'deflate':
+        return createInflate()
+      case 'br':
+        return createBrotliDecompress()
+      default:
+        return undefined
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import { randomUUID } from 'crypto'
+import { SEOAnalysis } from '@/types/seo'
+import { AnalyzeOptions, SCAN_STAGES, ScanStage, SEOAnalyzer } from './seo-analyzer'
+import { getServiceSupabaseClient } from './supabase-server'
+
+// Mirrors the scan_reports.status column
+export type ScanJobStatus = 'pending' | 'completed' | 'failed'
+
+export interface ScanJob {
+  id: string
+  url: string
+  userId: string
+  // Project the saved report is filed under, for API scans
+  projectId?: string
+  status: ScanJobStatus
+  stage?: ScanStage
+  // Share of stages started so far; 100 once the job has finished
+  progress: number
+  result?: SEOAnalysis
+  error?: string
+  createdAt: string
+  updatedAt: string
+}
+
+export type ScanJobListener = (job: ScanJob) => void
+
+// Finished jobs are dropped from memory after this; persisted ones can still be read back from scan_reports
+const JOB_RETENTION_MS = 60 * 60 * 1000
+
+const jobs = new Map<string, ScanJob>()
+const listeners = new Map<string, Set<ScanJobListener>>()
+
+export class ScanJobs {
+  /**
+   * Create a pending job for an authenticated user and run the analysis in the background.
+   * The job is persisted as a scan_reports row whose ID becomes the job ID.
+   */
+  static async create(url: string, options: AnalyzeOptions, userId: string, projectId?: string): Promise<ScanJob> {
+    const now = new Date().toISOString()
+    const persistedId = await this.insertPending(url, userId, projectId)
+
+    const job: ScanJob = {
+      id: persistedId || randomUUID(),
+      url,
+      userId,
+      projectId,
+      status: 'pending',
+      progress: 0,
+      createdAt: now,
+      updatedAt: now
+    }
+    jobs.set(job.id, job)
+
+    void this.run(job, options)
+    return job
+  }
+
+  /**
+   * Current state of one of the user's jobs, falling back to scan_reports once it has left memory.
+   * Other users' jobs are treated as missing.
+   */
+  static async get(id: string, userId: string): Promise<ScanJob | undefined> {
+    const job = jobs.get(id)
+    if (job) return job.userId === userId ? job : undefined
+    return this.load(id, userId)
+  }
+
+  /**
+   * Receive every state change of an in-memory job; returns the unsubscribe function
+   */
+  static subscribe(id: string, listener: ScanJobListener): () => void {
+    const set = listeners.get(id) ?? new Set<ScanJobListener>()
+    set.add(listener)
+    listeners.set(id, set)
+    return () => {
+      set.delete(listener)
+    }
+  }
+
+  private static async run(job: ScanJob, options: AnalyzeOptions) {
+    const stages = SCAN_STAGES.filter(stage => (stage !== 'render' || options.renderJavaScript) && (stage !== 'cloaking' || options.checkCloaking))
+
+    let final: Partial<ScanJob>
+    try {
+      const result = await SEOAnalyzer.analyze(job.url, {
+        ...options,
+        onProgress: stage => {
+          this.update(job, { stage, progress: Math.round((stages.indexOf(stage) / stages.length) * 100) })
+          options.onProgress?.(stage)
+        }
+      })
+      final = { status: 'completed', progress: 100, result }
+    } catch (error) {
+      final = { status: 'failed', progress: 100, error: error instanceof Error ? error.message : 'Unknown error' }
+    }
+
+    // Persist before announcing, so a client reacting to the final event already finds the saved report
+    await this.persist({ ...job, ...final })
+    this.update(job, final)
+    listeners.delete(job.id)
+
+    setTimeout(() => jobs.delete(job.id), JOB_RETENTION_MS).unref?.()
+  }
+
+  private static update(job: ScanJob, changes: Partial<ScanJob>) {
+    Object.assign(job, changes, { updatedAt: new Date().toISOString() })
+    listeners.get(job.id)?.forEach(listener => listener(job))
+  }
+
+  private static async insertPending(url: string, userId: string, projectId?: string): Promise<string | null> {
+    const supabase = getServiceSupabaseClient()
+    if (!supabase) return null
+
+    const { data, error } = await supabase
+      .from('scan_reports')
+      .insert({
+        user_id: userId,
+        project_id: projectId,
+        url,
+        title: `SEO Analysis - ${new URL(url).hostname}`,
+        description: `SEO analysis for ${url}`,
+        report_data: {},
+        status: 'pending'
+      })
+      .select('id')
+      .single()
+
+    if (error) {
+      console.error('Error creating pending scan report:', error)
+      return null
+    }
+
+    return data.id
+  }
+
+  private static async persist(job: ScanJob) {
+    const supabase = getServiceSupabaseClient()
+    if (!supabase) return
+
+    const { error } = await supabase
+      .from('scan_reports')
+      .update(job.result
+        ? {
+            status: job.status,
+            seo_score: Math.round(job.result.overallScore),
+            performance_score: Math.round(job.result.sections.performance.score),
+            report_data: job.result
+          }
+        : { status: job.status, report_data: { error: job.error } })
+      .eq('id', job.id)
+      .eq('user_id', job.userId)
+
+    if (error) {
+      console.error('Error saving scan job:', error)
+    }
+  }
+
+  private static async load(id: string, userId: string): Promise<ScanJob | undefined> {
+    const supabase = getServiceSupabaseClient()
+    if (!supabase) return undefined
+
+    const { data, error } = await supabase
+      .from('scan_reports')
+      .select('id, user_id, project_id, url, status, report_data, created_at')
+      .eq('id', id)
+      .eq('user_id', userId)
+      .maybeSingle()
+
+    if (error || !data) return undefined
+
+    // A pending row that is no longer in memory lost its worker, e.g. to a server restart
+    const interrupted = data.status === 'pending'
+
+    return {
+      id: data.id,
+      url: data.url,
+      userId: data.user_id,
+      projectId: data.project_id || undefined,
+      status: interrupted ? 'failed' : data.status,
+      progress: 100,
+      result: data.status === 'completed' ? data.report_data : undefined,
+      error: interrupted ? 'Scan was interrupted before it finished' : data.status === 'failed' ? data.report_data?.error : undefined,
+      createdAt: data.created_at,
+      updatedAt: data.created_at
+    }
+  }
+}
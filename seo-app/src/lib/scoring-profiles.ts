@@ -0,0 +1,143 @@
+import { SEOAnalysis, ScoringProfileRef } from '@/types/seo'
+
+export type SectionKey = keyof SEOAnalysis['sections']
+
+export interface RuleThresholds {
+  titleLength: { min: number; max: number }
+  descriptionLength: { min: number; max: number }
+  minWordCount: number
+  minInternalLinks: number
+  maxDomDepth: number
+  maxResponseTimeMs: number
+  maxPageSizeBytes: number
+  maxCssFiles: number
+  maxJsFiles: number
+  maxRedirectHops: number
+}
+
+export interface ScoringProfile {
+  id: string
+  name: string
+  description: string
+  // Bump whenever a weight or threshold changes so stored scores can be told apart
+  version: number
+  // Relative weight of each section in the overall score
+  sectionWeights: Record<SectionKey, number>
+  // Overrides of the rule registry weights by rule ID; 0 turns a rule off
+  ruleWeights: Record<string, number>
+  thresholds: RuleThresholds
+}
+
+export const DEFAULT_THRESHOLDS: RuleThresholds = {
+  titleLength: { min: 30, max: 60 },
+  descriptionLength: { min: 120, max: 160 },
+  minWordCount: 300,
+  minInternalLinks: 3,
+  maxDomDepth: 15,
+  maxResponseTimeMs: 3000,
+  maxPageSizeBytes: 1024 * 1024,
+  maxCssFiles: 5,
+  maxJsFiles: 10,
+  maxRedirectHops: 10
+}
+
+const EQUAL_WEIGHTS: Record<SectionKey, number> = {
+  meta: 1,
+  pageQuality: 1,
+  linkStructure: 1,
+  pageStructure: 1,
+  performance: 1,
+  crawlability: 1,
+  externalFactors: 1,
+  redirects: 1,
+  headers: 1
+}
+
+export const SCORING_PROFILES: ScoringProfile[] = [
+  {
+    id: 'general',
+    name: 'General',
+    description: 'Every section counts equally; suits most sites',
+    version: 1,
+    sectionWeights: EQUAL_WEIGHTS,
+    ruleWeights: {},
+    thresholds: DEFAULT_THRESHOLDS
+  },
+  {
+    id: 'blog',
+    name: 'Blog / Publisher',
+    description: 'Favours long-form content, heading structure and social sharing metadata',
+    version: 1,
+    sectionWeights: { ...EQUAL_WEIGHTS, meta: 1.5, pageQuality: 2, pageStructure: 1.5, externalFactors: 1.5, headers: 0.5 },
+    ruleWeights: {
+      'pageQuality.thin-content': 12,
+      'pageQuality.no-subheadings': 4,
+      'pageStructure.heading-hierarchy': 5,
+      'externalFactors.open-graph-incomplete': 5,
+      'externalFactors.twitter-card-missing': 4
+    },
+    thresholds: { ...DEFAULT_THRESHOLDS, minWordCount: 800, minInternalLinks: 5 }
+  },
+  {
+    id: 'ecommerce',
+    name: 'E-commerce',
+    description: 'Favours speed, indexability and product markup; tolerates short copy and heavier pages',
+    version: 1,
+    sectionWeights: { ...EQUAL_WEIGHTS, performance: 2, crawlability: 1.5, externalFactors: 1.5, pageQuality: 0.75 },
+    ruleWeights: {
+      'externalFactors.structured-data-missing': 10,
+      'pageQuality.images-missing-alt': 8,
+      'meta.title-duplicate': 6,
+      'meta.description-duplicate': 6,
+      'pageQuality.no-subheadings': 0
+    },
+    thresholds: { ...DEFAULT_THRESHOLDS, minWordCount: 150, maxDomDepth: 25, maxPageSizeBytes: 2 * 1024 * 1024, maxJsFiles: 20 }
+  },
+  {
+    id: 'local-business',
+    name: 'Local Business',
+    description: 'Favours business markup, meta tags and mobile speed on small brochure sites',
+    version: 1,
+    sectionWeights: { ...EQUAL_WEIGHTS, meta: 1.5, externalFactors: 2, performance: 1.5, linkStructure: 0.5 },
+    ruleWeights: {
+      'externalFactors.structured-data-missing': 12,
+      'externalFactors.favicon-missing': 3,
+      'pageQuality.thin-content': 4,
+      'linkStructure.no-external-links': 0
+    },
+    thresholds: { ...DEFAULT_THRESHOLDS, minWordCount: 200, minInternalLinks: 2 }
+  }
+]
+
+export const DEFAULT_SCORING_PROFILE = SCORING_PROFILES[0]
+
+export class ScoringProfiles {
+  /**
+   * Look up a profile by ID; no ID means the default profile, an unknown ID returns undefined
+   */
+  static get(id?: string): ScoringProfile | undefined {
+    if (!id) return DEFAULT_SCORING_PROFILE
+    return SCORING_PROFILES.find(profile => profile.id === id)
+  }
+
+  /**
+   * Weighted average of the section scores under the profile's section weights
+   */
+  static overallScore(sections: SEOAnalysis['sections'], profile: ScoringProfile): number {
+    let weighted = 0
+    let totalWeight = 0
+    for (const key of Object.keys(sections) as SectionKey[]) {
+      const weight = profile.sectionWeights[key] ?? 1
+      weighted += sections[key].score * weight
+      totalWeight += weight
+    }
+    return totalWeight > 0 ? weighted / totalWeight : 0
+  }
+
+  /**
+   * What a report stores about the profile that scored it
+   */
+  static reference(profile: ScoringProfile): ScoringProfileRef {
+    return { id: profile.id, name: profile.name, version: profile.version }
+  }
+}
@@ -1,61 +1,189 @@
 import * as cheerio from "cheerio"
-import axios from "axios"
-import { SEOAnalysis, MetaAnalysis, PageQualityAnalysis, LinkStructureAnalysis, PageStructureAnalysis, PerformanceAnalysis, CrawlabilityAnalysis, ExternalFactorsAnalysis } from "@/types/seo"
-import { scoreRange } from "./utils"
+import { SEOAnalysis, OfflineAnalysisInfo, RedirectAnalysis, MetaAnalysis, PageQualityAnalysis, LinkStructureAnalysis, PageStructureAnalysis, PerformanceAnalysis, CrawlabilityAnalysis, ExternalFactorsAnalysis, RobotsAccessResult, SitemapAnalysis, SitemapHealthAnalysis, RenderingAnalysis, CloakingAnalysis, WaterfallEntry, PerformanceOpportunity } from "@/types/seo"
 import { ContentExtractor } from "./content-extractor"
 import { PageSpeedAnalyzer } from "./pagespeed-analyzer"
-import { RobotsSitemapAnalyzer } from "./robots-sitemap-analyzer"
+import { RobotsSitemapAnalyzer, RobotsAnalysis, RobotsMatchResult, SitemapFetcher } from "./robots-sitemap-analyzer"
 import { DomainAuthorityAnalyzer } from "./domain-authority-analyzer"
+import { LinkChecker } from "./link-checker"
+import { RedirectAnalyzer } from "./redirect-analyzer"
+import { HeaderAnalyzer, ResponseHeaders } from "./header-analyzer"
+import { SitemapHealthChecker, SitemapSampleSize } from "./sitemap-health-checker"
+import { PageRenderer, PageSnapshot } from "./page-renderer"
+import { RuleEngine, RuleContext } from "./rule-engine"
+import { DEFAULT_SCORING_PROFILE, ScoringProfile, ScoringProfiles } from "./scoring-profiles"
+import { SafeFetch, SafeFetchError } from "./safe-fetch"
+import { FetchCache } from "./fetch-cache"
+import { CrawlerIdentity, CrawlerSettings } from "./crawler-identity"
+import { CloakingChecker, FetchedVariant } from "./cloaking-checker"
+import { StructuredDataValidator } from "./structured-data-validator"
+
+export interface ExtractedLink {
+  url: string
+  anchorText: string
+  rel?: string
+  isInternal: boolean
+}
+
+// Stages of a full analysis, in the order they run
+export const SCAN_STAGES = ["fetch", "render", "cloaking", "performance", "meta", "content", "links", "structure", "crawlability", "external-factors", "redirects", "headers", "scoring"] as const
+
+export type ScanStage = typeof SCAN_STAGES[number]
+
+export interface AnalyzeOptions {
+  sitemapSampleSize?: SitemapSampleSize
+  renderJavaScript?: boolean
+  scoringProfile?: ScoringProfile
+  // User agent, extra headers, cookies and basic auth every request of the scan is sent with
+  crawler?: CrawlerSettings
+  // Also fetch the page as Googlebot and as a browser and compare the two
+  checkCloaking?: boolean
+  // Called as each stage starts
+  onProgress?: (stage: ScanStage) => void
+}
+
+export interface RobotsTxtFetchResult {
+  exists: boolean
+  content: string
+  // Missing when the server did not answer
+  status?: number
+  // A 5xx status or no answer; the whole site is then disallowed
+  unreachable?: boolean
+}
+
+export interface OfflinePageContext {
+  robotsTxt: RobotsTxtFetchResult
+  linkChecker: LinkChecker
+  // Reads sitemaps from uploaded files; without one, sitemaps are not checked
+  sitemapFetcher?: SitemapFetcher
+}
+
+// Stands in for an unreachable robots.txt; the rule has no line as it is not in any file
+const UNREACHABLE_ROBOTS: RobotsAnalysis = {
+  exists: true,
+  content: "",
+  isValid: true,
+  blocks: ["/"],
+  allows: [],
+  userAgents: ["*"],
+  groups: [{ userAgents: ["*"], rules: [{ type: "disallow", path: "/", line: 0 }] }],
+  issues: [],
+  warnings: [],
+  sitemapUrls: []
+}
 
 export class SEOAnalyzer {
   private $: cheerio.Root
   private html: string
   private url: string
+  private headers: ResponseHeaders
+  private statusCode?: number
+  private profile: ScoringProfile
   private startTime: number
 
-  constructor(html: string, url: string) {
+  constructor(html: string, url: string, headers: ResponseHeaders = {}, statusCode?: number, profile: ScoringProfile = DEFAULT_SCORING_PROFILE) {
     this.html = html
     this.url = url
+    this.headers = headers
+    this.statusCode = statusCode
+    this.profile = profile
     this.$ = cheerio.load(html)
     this.startTime = Date.now()
   }
 
-  static async analyze(url: string): Promise<SEOAnalysis> {
+  static async analyze(url: string, options: AnalyzeOptions = {}): Promise<SEOAnalysis> {
+    // One request cache per scan, so the page, robots.txt and sitemaps are each fetched once
+    const cache = new FetchCache()
+    const identity = new CrawlerIdentity(options.crawler, url)
+    const analysis = await SafeFetch.withIdentity(identity, () => cache.run(() => this.analyzeLive(url, options)))
+    analysis.fetchStats = cache.stats
+    analysis.crawler = identity.reference()
+    return analysis
+  }
+
+  private static async analyzeLive(url: string, options: AnalyzeOptions): Promise<SEOAnalysis> {
     const startTime = Date.now()
+    const profile = options.scoringProfile || DEFAULT_SCORING_PROFILE
+
+    const progress = options.onProgress || (() => {})
 
     try {
-      const response = await axios.get(url, {
-        timeout: 10000,
-        headers: {
-          "User-Agent": "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36"
-        }
+      progress("fetch")
+      // Timed as the response time, so never answered from the shared cache
+      const response = await SafeFetch.fetch(url, {
+        accept: SafeFetch.CONTENT_TYPES.html,
+        cache: false
       })
+      if (!response.ok) {
+        throw new Error(`Request failed with status code ${response.status}`)
+      }
 
-      const analyzer = new SEOAnalyzer(response.data, url)
+      const headers = response.headers
       const responseTime = Date.now() - startTime
 
+      // Client-rendered pages are analyzed on the rendered DOM; headers and status stay from the raw response
+      let analyzer = new SEOAnalyzer(response.text(), url, headers, response.status, profile)
+      let rendering: RenderingAnalysis | undefined
+      if (options.renderJavaScript) {
+        progress("render")
+        const rendered = await PageRenderer.render(url)
+        const rawSnapshot = analyzer.snapshot()
+        analyzer = new SEOAnalyzer(rendered.html, url, headers, response.status, profile)
+        rendering = PageRenderer.compare(rawSnapshot, analyzer.snapshot(), rendered, profile)
+      }
+
+      let cloaking: CloakingAnalysis | undefined
+      if (options.checkCloaking) {
+        progress("cloaking")
+        cloaking = await this.checkCloaking(url, profile)
+      }
+
       // 🚀 REAL PAGESPEED API: Using Google Lighthouse data for performance analysis
+      progress("performance")
       console.log('🔍 Fetching real Google PageSpeed Insights data...')
       const pageSpeedAnalysis = await PageSpeedAnalyzer.analyzePerformance(url)
-      
+      const performance = analyzer.convertPageSpeedToPerformanceAnalysis(pageSpeedAnalysis)
+
+      progress("meta")
+      const meta = analyzer.analyzeMeta()
+      progress("content")
+      const pageQuality = analyzer.analyzePageQuality()
+      progress("links")
+      const linkStructure = await analyzer.analyzeLinkStructure()
+      progress("structure")
+      const pageStructure = analyzer.analyzePageStructure()
+      progress("crawlability")
+      const crawlability = await analyzer.analyzeCrawlability(undefined, options.sitemapSampleSize)
+      progress("external-factors")
+      const externalFactors = analyzer.analyzeExternalFactors()
+      progress("redirects")
+      const redirects = await RedirectAnalyzer.analyzeRedirects(url, profile)
+      progress("headers")
+      const headerAnalysis = HeaderAnalyzer.analyzeHeaders(analyzer.headers, url, analyzer.statusCode, profile)
+
       const analysis: SEOAnalysis = {
         url,
         timestamp: new Date().toISOString(),
         overallScore: 0,
         sections: {
-          meta: analyzer.analyzeMeta(),
-          pageQuality: analyzer.analyzePageQuality(),
-          linkStructure: analyzer.analyzeLinkStructure(),
-          pageStructure: analyzer.analyzePageStructure(),
-          performance: analyzer.convertPageSpeedToPerformanceAnalysis(pageSpeedAnalysis),
-          crawlability: await analyzer.analyzeCrawlability(),
-          externalFactors: analyzer.analyzeExternalFactors()
-        }
+          meta,
+          pageQuality,
+          linkStructure,
+          pageStructure,
+          performance,
+          crawlability,
+          externalFactors,
+          redirects,
+          headers: headerAnalysis
+        },
+        rendering,
+        cloaking,
+        issues: [],
+        scoringProfile: ScoringProfiles.reference(profile)
       }
 
-      // Calculate overall score
-      const scores = Object.values(analysis.sections).map(section => section.score)
-      analysis.overallScore = scores.reduce((sum, score) => sum + score, 0) / scores.length
+      progress("scoring")
+      analysis.issues = RuleEngine.evaluate(analyzer.ruleContext(analysis.sections, rendering, cloaking))
+      analysis.overallScore = ScoringProfiles.overallScore(analysis.sections, profile)
 
       return analysis
     } catch (error) {
@@ -63,36 +191,223 @@ export class SEOAnalyzer {
     }
   }
 
+  /**
+   * Compare the page as served to Googlebot and to a browser. A failed comparison leaves the report without it.
+   */
+  private static async checkCloaking(url: string, profile: ScoringProfile): Promise<CloakingAnalysis | undefined> {
+    try {
+      const { browser, googlebot } = await CloakingChecker.fetchVariants(url)
+      const snapshot = (variant: FetchedVariant) => ({
+        userAgent: variant.userAgent,
+        status: variant.status,
+        finalUrl: variant.finalUrl,
+        snapshot: new SEOAnalyzer(variant.html, variant.finalUrl, {}, variant.status, profile).snapshot()
+      })
+      return CloakingChecker.compare(snapshot(browser), snapshot(googlebot), profile)
+    } catch (error) {
+      console.error("Cloaking check failed:", error)
+      return undefined
+    }
+  }
+
+  /**
+   * Analyze an already fetched page without calling PageSpeed.
+   * Used by the site crawler, which shares a single robots.txt fetch across pages.
+   */
+  async analyzeFetchedPage(responseTime: number, robotsTxt: RobotsTxtFetchResult, linkChecker?: LinkChecker): Promise<SEOAnalysis> {
+    const analysis: SEOAnalysis = {
+      url: this.url,
+      timestamp: new Date().toISOString(),
+      overallScore: 0,
+      sections: {
+        meta: this.analyzeMeta(),
+        pageQuality: this.analyzePageQuality(),
+        linkStructure: await this.analyzeLinkStructure(linkChecker),
+        pageStructure: this.analyzePageStructure(),
+        performance: this.analyzePerformance(responseTime, Buffer.byteLength(this.html)),
+        crawlability: await this.analyzeCrawlability(robotsTxt),
+        externalFactors: this.analyzeExternalFactors(),
+        redirects: await RedirectAnalyzer.analyzeRedirects(this.url, this.profile),
+        headers: HeaderAnalyzer.analyzeHeaders(this.headers, this.url, this.statusCode, this.profile)
+      },
+      issues: [],
+      scoringProfile: ScoringProfiles.reference(this.profile)
+    }
+
+    analysis.issues = RuleEngine.evaluate(this.ruleContext(analysis.sections))
+    analysis.overallScore = ScoringProfiles.overallScore(analysis.sections, this.profile)
+
+    return analysis
+  }
+
+  /**
+   * Analyze the page without any network access, for pasted HTML or an uploaded static build.
+   * Skipped sections get no rules run against them and should carry no weight in the analyzer's profile.
+   */
+  async analyzeOffline(context: OfflinePageContext, offline: OfflineAnalysisInfo): Promise<SEOAnalysis> {
+    const performance = this.analyzePerformance(0, Buffer.byteLength(this.html))
+    performance.source = "offline"
+
+    // Redirects need a live server; an unchecked section is an empty trace
+    const redirects: RedirectAnalysis = {
+      score: 0,
+      requestedUrl: this.url,
+      finalUrl: this.url,
+      hops: [],
+      hasLoop: false,
+      isChain: false,
+      usesTemporaryRedirect: false,
+      issues: []
+    }
+    Object.assign(redirects, RuleEngine.scoreSection(this.ruleContext({ redirects }), "redirects"))
+
+    const analysis: SEOAnalysis = {
+      url: this.url,
+      timestamp: new Date().toISOString(),
+      overallScore: 0,
+      sections: {
+        meta: this.analyzeMeta(),
+        pageQuality: this.analyzePageQuality(),
+        linkStructure: await this.analyzeLinkStructure(context.linkChecker),
+        pageStructure: this.analyzePageStructure(),
+        performance,
+        crawlability: await this.analyzeCrawlability(context.robotsTxt, undefined, context.sitemapFetcher),
+        externalFactors: this.analyzeExternalFactors(),
+        redirects,
+        headers: HeaderAnalyzer.analyzeHeaders(this.headers, this.url, this.statusCode, this.profile)
+      },
+      issues: [],
+      scoringProfile: ScoringProfiles.reference(this.profile),
+      offline
+    }
+
+    const categories = (Object.keys(analysis.sections) as Array<keyof SEOAnalysis["sections"]>)
+      .filter(key => !offline.skippedSections.includes(key))
+    analysis.issues = RuleEngine.evaluate(this.ruleContext(analysis.sections), categories)
+    analysis.overallScore = ScoringProfiles.overallScore(analysis.sections, this.profile)
+
+    return analysis
+  }
+
+  /**
+   * Resolve every <a href> on the page to an absolute http(s) URL
+   */
+  extractLinks(): ExtractedLink[] {
+    const pageUrl = new URL(this.url)
+    const links: ExtractedLink[] = []
+
+    this.$("a[href]").each((_, element) => {
+      const href = this.$(element).attr("href")
+      if (!href) return
+
+      try {
+        const resolved = new URL(href, pageUrl)
+        if (resolved.protocol !== "http:" && resolved.protocol !== "https:") return
+        resolved.hash = ""
+
+        links.push({
+          url: resolved.href,
+          anchorText: this.$(element).text().trim().replace(/\s+/g, " "),
+          rel: this.$(element).attr("rel"),
+          isInternal: resolved.hostname === pageUrl.hostname
+        })
+      } catch {
+        // Unresolvable href
+      }
+    })
+
+    return links
+  }
+
+  /**
+   * Capture the SEO signals compared between the raw and the JavaScript-rendered DOM
+   */
+  snapshot(): PageSnapshot {
+    const text = this.$("body").clone().find("script, style, noscript").remove().end().text()
+
+    return {
+      title: this.$("head > title").text().trim(),
+      description: this.$('meta[name="description"]').attr("content") || "",
+      canonical: this.$('link[rel="canonical"]').attr("href"),
+      metaRobots: this.$('meta[name="robots"]').attr("content"),
+      h1: this.$("h1").first().text().trim().replace(/\s+/g, " "),
+      wordCount: text.split(/\s+/).filter(word => word.length > 0).length,
+      links: Array.from(new Set(this.extractLinks().map(link => link.url)))
+    }
+  }
+
+  /**
+   * Fetch the robots.txt of the URL's origin. Per RFC 9309 a 4xx status means there are no rules,
+   * while a 5xx status or no answer at all means the whole site is disallowed.
+   */
+  static async fetchRobotsTxt(url: string): Promise<RobotsTxtFetchResult> {
+    try {
+      const robotsUrl = new URL("/robots.txt", url).href
+      const robotsResponse = await SafeFetch.fetch(robotsUrl, {
+        accept: SafeFetch.CONTENT_TYPES.text
+      })
+      if (!robotsResponse.ok) {
+        return { exists: false, content: "", status: robotsResponse.status, unreachable: robotsResponse.status >= 500 }
+      }
+      return { exists: true, content: robotsResponse.text(), status: robotsResponse.status }
+    } catch (error) {
+      // The server answered with too many redirects or an unreadable file, which counts as unavailable
+      const answered = error instanceof SafeFetchError && ["too-many-redirects", "content-type", "too-large"].includes(error.code)
+      return { exists: false, content: "", unreachable: !answered }
+    }
+  }
+
+  /**
+   * Rules to match URLs against: the parsed robots.txt, a single Disallow: / when it was unreachable,
+   * or null when there is none and every URL is allowed
+   */
+  static robotsRules(robotsTxt: RobotsTxtFetchResult): RobotsAnalysis | null {
+    if (robotsTxt.unreachable) return UNREACHABLE_ROBOTS
+    return robotsTxt.exists ? RobotsSitemapAnalyzer.parseRobotsTxt(robotsTxt.content) : null
+  }
+
+  /**
+   * Flatten a robots.txt match into the shape stored in the analysis
+   */
+  static toAccessResult(match: RobotsMatchResult): RobotsAccessResult {
+    return {
+      userAgent: match.userAgent,
+      allowed: match.allowed,
+      matchedRule: match.matchedRule ? `${match.matchedRule.type === "allow" ? "Allow" : "Disallow"}: ${match.matchedRule.path}` : undefined,
+      matchedLine: match.matchedRule?.line
+    }
+  }
+
+  /**
+   * Rule input for this page; sections are passed in as they become available
+   */
+  ruleContext(sections: RuleContext["sections"] = {}, rendering?: RenderingAnalysis, cloaking?: CloakingAnalysis): RuleContext {
+    return { url: this.url, $: this.$, html: this.html, sections, rendering, cloaking, profile: this.profile }
+  }
+
   private analyzeMeta(): MetaAnalysis {
     const title = this.$("head > title").text().trim()
     const description = this.$('meta[name="description"]').attr("content") || ""
     const keywords = this.$('meta[name="keywords"]').attr("content") || ""
 
-    const titleIssues: string[] = []
-    const descIssues: string[] = []
-
-    if (!title) titleIssues.push("Missing title tag")
-    else if (title.length < 30) titleIssues.push("Title too short (< 30 chars)")
-    else if (title.length > 60) titleIssues.push("Title too long (> 60 chars)")
-
-    if (!description) descIssues.push("Missing meta description")
-    else if (description.length < 120) descIssues.push("Description too short (< 120 chars)")
-    else if (description.length > 160) descIssues.push("Description too long (> 160 chars)")
-
-    const score = (title ? (title.length >= 30 && title.length <= 60 ? 30 : 15) : 0) + (description ? (description.length >= 120 && description.length <= 160 ? 30 : 15) : 0) + (keywords ? 10 : 5) + (titleIssues.length === 0 ? 15 : 0) + (descIssues.length === 0 ? 15 : 0)
+    const titleIssues = RuleEngine.messages(this.ruleContext(), "meta", "meta.title")
+    const descIssues = RuleEngine.messages(this.ruleContext(), "meta", "meta.description")
+    const { titleLength, descriptionLength } = this.profile.thresholds
+    const titleOptimal = title.length >= titleLength.min && title.length <= titleLength.max
+    const descriptionOptimal = description.length >= descriptionLength.min && description.length <= descriptionLength.max
 
     return {
-      score,
+      ...RuleEngine.scoreSection(this.ruleContext(), "meta"),
       title: {
         content: title,
         length: title.length,
-        isOptimal: title.length >= 30 && title.length <= 60,
+        isOptimal: titleOptimal,
         issues: titleIssues
       },
       description: {
         content: description,
         length: description.length,
-        isOptimal: description.length >= 120 && description.length <= 160,
+        isOptimal: descriptionOptimal,
         issues: descIssues
       },
       keywords,
@@ -164,16 +479,10 @@ export class SEOAnalyzer {
       h6: this.$("h6").length
     }
 
-    const issues: string[] = []
-    if (wordCount < 300) issues.push("Low word count (< 300 words)")
-    if (imagesWithoutAlt > 0) issues.push(`${imagesWithoutAlt} images missing alt text`)
-    if (headingsCount.h1 === 0) issues.push("No H1 heading found")
-    if (headingsCount.h1 > 1) issues.push("Multiple H1 headings found")
-
-    const score = (wordCount >= 300 ? 25 : Math.round((wordCount / 300) * 25)) + (imagesWithoutAlt === 0 ? 25 : Math.max(0, 25 - imagesWithoutAlt * 5)) + (headingsCount.h1 === 1 ? 25 : 0) + (issues.length === 0 ? 25 : Math.max(0, 25 - issues.length * 5))
+    const issues = RuleEngine.messages(this.ruleContext(), "pageQuality")
 
     return {
-      score: Math.min(100, score),
+      ...RuleEngine.scoreSection(this.ruleContext(), "pageQuality"),
       wordCount,
       imageCount,
       imagesWithAlt,
@@ -183,12 +492,11 @@ export class SEOAnalyzer {
     }
   }
 
-  private analyzeLinkStructure(): LinkStructureAnalysis {
+  private async analyzeLinkStructure(linkChecker: LinkChecker = new LinkChecker()): Promise<LinkStructureAnalysis> {
     const links = this.$("a[href]")
     let internalLinks = 0
     let externalLinks = 0
     let noFollowLinks = 0
-    const brokenLinks: string[] = []
 
     links.each((_, element) => {
       const href = this.$(element).attr("href")
@@ -207,20 +515,28 @@ export class SEOAnalyzer {
       }
     })
 
-    const issues: string[] = []
-    if (internalLinks < 3) issues.push("Few internal links (< 3)")
-    if (externalLinks === 0) issues.push("No external links found")
-
-    const score = (internalLinks >= 3 ? 30 : Math.round((internalLinks / 3) * 30)) + (externalLinks > 0 ? 20 : 0) + (brokenLinks.length === 0 ? 30 : Math.max(0, 30 - brokenLinks.length * 10)) + (issues.length === 0 ? 20 : Math.max(0, 20 - issues.length * 5))
+    // Resolve and request every link target, skipping same-page anchors
+    const pageUrl = new URL(this.url)
+    pageUrl.hash = ""
+    const checks = await linkChecker.checkLinks(this.extractLinks().filter(link => link.url !== pageUrl.href))
+    const brokenLinks = checks.filter(check => check.isBroken)
+    const redirectedLinks = checks.filter(check => !check.isBroken && check.redirectedTo)
 
-    return {
-      score: Math.min(100, score),
+    const analysis: LinkStructureAnalysis = {
+      score: 0,
       internalLinks,
       externalLinks,
       brokenLinks,
+      redirectedLinks,
+      linksChecked: checks.length,
       noFollowLinks,
-      issues
+      issues: []
     }
+    const context = this.ruleContext({ linkStructure: analysis })
+    analysis.issues = RuleEngine.messages(context, "linkStructure")
+    Object.assign(analysis, RuleEngine.scoreSection(context, "linkStructure"))
+
+    return analysis
   }
 
   private analyzePageStructure(): PageStructureAnalysis {
@@ -249,11 +565,6 @@ export class SEOAnalyzer {
         calculateDepth(element, 1)
       })
 
-    const issues: string[] = []
-    if (h1Count === 0) issues.push("Missing H1 heading")
-    if (h1Count > 1) issues.push("Multiple H1 headings")
-    if (maxDepth > 15) issues.push("DOM too deep (> 15 levels)")
-
     // Check heading hierarchy
     const headings = this.$("h1, h2, h3, h4, h5, h6")
     let properHierarchy = true
@@ -267,12 +578,8 @@ export class SEOAnalyzer {
       lastLevel = level
     })
 
-    if (!properHierarchy) issues.push("Improper heading hierarchy")
-
-    const score = (h1Count === 1 ? 30 : 0) + (maxDepth <= 15 ? 25 : Math.max(0, 25 - (maxDepth - 15) * 2)) + (properHierarchy ? 25 : 0) + (issues.length === 0 ? 20 : Math.max(0, 20 - issues.length * 5))
-
-    return {
-      score: Math.min(100, score),
+    const analysis: PageStructureAnalysis = {
+      score: 0,
       domDepth: maxDepth,
       headingStructure: {
         h1Count,
@@ -280,8 +587,13 @@ export class SEOAnalyzer {
         missingH1: h1Count === 0,
         properHierarchy
       },
-      issues
+      issues: []
     }
+    const context = this.ruleContext({ pageStructure: analysis })
+    analysis.issues = RuleEngine.messages(context, "pageStructure")
+    Object.assign(analysis, RuleEngine.scoreSection(context, "pageStructure"))
+
+    return analysis
   }
 
   private analyzePerformance(responseTime: number, pageSize: number): PerformanceAnalysis {
@@ -289,16 +601,8 @@ export class SEOAnalyzer {
     const jsFiles = this.$("script[src]").length
     const images = this.$("img").length
 
-    const issues: string[] = []
-    if (responseTime > 3000) issues.push("Slow response time (> 3s)")
-    if (pageSize > 1024 * 1024) issues.push("Large page size (> 1MB)")
-    if (cssFiles > 5) issues.push("Too many CSS files")
-    if (jsFiles > 10) issues.push("Too many JS files")
-
-    const score = scoreRange(responseTime, 1000, 3000) + scoreRange(pageSize, 512 * 1024, 1024 * 1024) + scoreRange(cssFiles, 3, 5) + scoreRange(jsFiles, 10, 15)
-
-    return {
-      score: Math.min(100, score),
+    const analysis: PerformanceAnalysis = {
+      score: 0,
       responseTime,
       pageSize,
       assetsCount: {
@@ -307,54 +611,75 @@ export class SEOAnalyzer {
         images,
         total: cssFiles + jsFiles + images
       },
-      issues
+      issues: []
     }
+    const context = this.ruleContext({ performance: analysis })
+    analysis.issues = RuleEngine.messages(context, "performance")
+    Object.assign(analysis, RuleEngine.scoreSection(context, "performance"))
+
+    return analysis
   }
 
-  private async analyzeCrawlability(): Promise<CrawlabilityAnalysis> {
+  private async analyzeCrawlability(prefetchedRobotsTxt?: RobotsTxtFetchResult, sitemapSampleSize?: SitemapSampleSize, sitemapFetcher?: SitemapFetcher): Promise<CrawlabilityAnalysis> {
     const canonical = this.$('link[rel="canonical"]')
     const robotsMeta = this.$('meta[name="robots"]')
     const langAttribute = this.$("html").attr("lang")
 
     // Check robots.txt
-    const robotsTxt = { exists: false, content: "", blocks: [] as string[] }
-    try {
-      const robotsUrl = new URL("/robots.txt", this.url).href
-      const robotsResponse = await axios.get(robotsUrl, { timeout: 5000 })
-      robotsTxt.exists = true
-      robotsTxt.content = robotsResponse.data
-      if (robotsResponse.data.includes("Disallow:")) {
-        robotsTxt.blocks = robotsResponse.data
-          .split("\n")
-          .filter((line: string) => line.includes("Disallow:"))
-          .map((line: string) => line.trim())
-      }
-    } catch {
-      // robots.txt doesn't exist or is inaccessible
+    const fetched = prefetchedRobotsTxt || await SEOAnalyzer.fetchRobotsTxt(this.url)
+    const robotsTxt: CrawlabilityAnalysis["robotsTxt"] = { exists: fetched.exists, content: fetched.content, status: fetched.status, unreachable: fetched.unreachable, blocks: [] }
+    const robots = RobotsSitemapAnalyzer.parseRobotsTxt(fetched.content)
+    const rules = SEOAnalyzer.robotsRules(fetched)
+    if (rules) {
+      robotsTxt.blocks = rules.blocks
+      robotsTxt.access = RobotsSitemapAnalyzer.TEST_USER_AGENTS.map(userAgent =>
+        SEOAnalyzer.toAccessResult(RobotsSitemapAnalyzer.matchUrl(rules, this.url, userAgent))
+      )
     }
 
     // Check sitemap
-    const sitemap = { exists: false, url: "" }
-    if (robotsTxt.content.includes("Sitemap:")) {
-      const sitemapLine = robotsTxt.content.split("\n").find(line => line.includes("Sitemap:"))
-      if (sitemapLine) {
+    const sitemap = { exists: robots.sitemapUrls.length > 0, url: robots.sitemapUrls[0] || "" }
+
+    // Site crawls analyze sitemaps once for the whole site rather than per page
+    let sitemaps: SitemapAnalysis[] | undefined
+    let sitemapHealth: SitemapHealthAnalysis | undefined
+    if (!prefetchedRobotsTxt || sitemapFetcher) {
+      const sitemapUrls = robots.sitemapUrls.length > 0 ? robots.sitemapUrls : [`${new URL(this.url).origin}/sitemap.xml`]
+      const collected = await RobotsSitemapAnalyzer.collectSitemapEntries(sitemapUrls, { siteUrl: this.url, fetcher: sitemapFetcher })
+      sitemaps = collected.sitemaps
+      // Health checks request every listed URL, which an uploaded build cannot answer
+      if (collected.entries.length > 0 && !sitemapFetcher) {
+        sitemapHealth = await SitemapHealthChecker.checkEntries(collected.entries, rules, { sampleSize: sitemapSampleSize })
+      }
+      const found = sitemaps.find(result => result.exists)
+      if (!sitemap.exists && found) {
         sitemap.exists = true
-        sitemap.url = sitemapLine.split("Sitemap:")[1].trim()
+        sitemap.url = found.url
       }
     }
 
-    const issues: string[] = []
-    if (!robotsTxt.exists) issues.push("robots.txt not found")
-    if (!sitemap.exists) issues.push("Sitemap not found")
-    if (!canonical.length) issues.push("Missing canonical URL")
-    if (!langAttribute) issues.push("Missing lang attribute")
-
-    const score = (robotsTxt.exists ? 25 : 0) + (sitemap.exists ? 25 : 0) + (canonical.length > 0 ? 25 : 0) + (langAttribute ? 25 : 0)
+    // Indexing directives from both the meta tag and the X-Robots-Tag header
+    const metaRobots = robotsMeta.attr("content")
+    const xRobotsTag = this.headers["x-robots-tag"]
+    const metaDirectives = HeaderAnalyzer.parseRobotsDirectives(metaRobots)
+    const headerDirectives = HeaderAnalyzer.parseRobotsDirectives(xRobotsTag)
+    const noindexBy: CrawlabilityAnalysis["indexability"]["noindexBy"] = []
+    if (metaDirectives.noindex) noindexBy.push("meta")
+    if (headerDirectives.noindex) noindexBy.push("header")
+    const indexability = {
+      noindex: noindexBy.length > 0,
+      nofollow: metaDirectives.nofollow || headerDirectives.nofollow,
+      metaRobots,
+      xRobotsTag,
+      noindexBy
+    }
 
-    return {
-      score,
+    const analysis: CrawlabilityAnalysis = {
+      score: 0,
       robotsTxt,
       sitemap,
+      sitemaps,
+      sitemapHealth,
       canonical: {
         exists: canonical.length > 0,
         url: canonical.attr("href"),
@@ -364,8 +689,14 @@ export class SEOAnalyzer {
         exists: !!langAttribute,
         value: langAttribute
       },
-      issues
+      indexability,
+      issues: []
     }
+    const context = this.ruleContext({ crawlability: analysis })
+    analysis.issues = RuleEngine.messages(context, "crawlability")
+    Object.assign(analysis, RuleEngine.scoreSection(context, "crawlability"))
+
+    return analysis
   }
 
   // 🚀 NEW: Convert PageSpeed API data to our PerformanceAnalysis format
@@ -375,34 +706,37 @@ export class SEOAnalyzer {
       return this.analyzePerformance(3000, 1000000) // Use reasonable defaults
     }
 
-    const score = pageSpeedAnalysis.performanceScore
-    const issues: string[] = []
-    
-    // Convert PageSpeed issues to our format
-    pageSpeedAnalysis.opportunities.forEach((opp: any) => {
-      if (opp.impact === 'high') {
-        issues.push(`${opp.title}: ${opp.potentialSavings} potential savings`)
-      }
-    })
+    // High-impact opportunities and diagnostics are kept for the PageSpeed rule
+    const opportunities: PerformanceOpportunity[] = [
+      ...pageSpeedAnalysis.opportunities,
+      ...pageSpeedAnalysis.diagnostics
+    ].filter((opp: PerformanceOpportunity) => opp.impact === "high")
 
-    pageSpeedAnalysis.diagnostics.forEach((diag: any) => {
-      if (diag.impact === 'high') {
-        issues.push(diag.title)
-      }
-    })
+    // Lab runs know each resource's type, so the asset counts come from the waterfall
+    const waterfall: WaterfallEntry[] = pageSpeedAnalysis.labRuns?.[0]?.waterfall || []
+    const countType = (...types: string[]) => waterfall.filter(entry => types.includes(entry.type)).length
 
-    return {
-      score,
+    const analysis: PerformanceAnalysis = {
+      score: 0,
       responseTime: pageSpeedAnalysis.loadTime || 1000,
       pageSize: pageSpeedAnalysis.totalPageSize || 100000,
       assetsCount: {
-        css: pageSpeedAnalysis.resourceSummary?.stylesheetCount || 0,
-        js: pageSpeedAnalysis.resourceSummary?.scriptCount || 0, 
-        images: pageSpeedAnalysis.resourceSummary?.imageCount || 0,
+        css: pageSpeedAnalysis.resourceSummary?.stylesheetCount || countType("link", "css"),
+        js: pageSpeedAnalysis.resourceSummary?.scriptCount || countType("script"), 
+        images: pageSpeedAnalysis.resourceSummary?.imageCount || countType("img", "image"),
         total: pageSpeedAnalysis.totalRequestCount || 0
       },
-      issues
+      source: pageSpeedAnalysis.source,
+      coreWebVitals: pageSpeedAnalysis.coreWebVitals,
+      labRuns: pageSpeedAnalysis.labRuns,
+      opportunities,
+      issues: []
     }
+    const context = this.ruleContext({ performance: analysis })
+    analysis.issues = RuleEngine.messages(context, "performance")
+    Object.assign(analysis, RuleEngine.scoreSection(context, "performance"))
+
+    return analysis
   }
 
   // 🚀 NEW: Convert our enhanced crawlability analysis to legacy format
@@ -420,6 +754,7 @@ export class SEOAnalyzer {
       },
       canonical: crawlabilityAnalysis.canonical,
       langAttribute: crawlabilityAnalysis.langAttribute,
+      indexability: crawlabilityAnalysis.indexability || { noindex: false, nofollow: false },
       issues: crawlabilityAnalysis.issues
     }
   }
@@ -467,32 +802,13 @@ export class SEOAnalyzer {
     const twitterImage = this.$('meta[name="twitter:image"]').attr("content")
 
     // Schema markup
-    const schemaScripts = this.$('script[type="application/ld+json"]')
-    const schemaTypes: string[] = []
-    schemaScripts.each((_, element) => {
-      try {
-        const schema = JSON.parse(this.$(element).html() || "{}")
-        if (schema["@type"]) {
-          schemaTypes.push(schema["@type"])
-        }
-      } catch {
-        // Invalid JSON
-      }
-    })
-
-    const issues: string[] = []
-    if (!isHttps) issues.push("Not using HTTPS")
-    if (!favicon.length) issues.push("Missing favicon")
-    if (!appleTouchIcon.length) issues.push("Missing Apple Touch Icon")
-    if (!ogTitle) issues.push("Missing Open Graph title")
-    if (!ogDescription) issues.push("Missing Open Graph description")
-    if (!twitterCard) issues.push("Missing Twitter Card")
-    if (schemaTypes.length === 0) issues.push("No structured data found")
+    const structuredData = StructuredDataValidator.analyze(this.$, this.html)
+    const schemaTypes = StructuredDataValidator.topLevelTypes(structuredData)
 
-    const score = (isHttps ? 20 : 0) + (favicon.length > 0 ? 15 : 0) + (appleTouchIcon.length > 0 ? 10 : 0) + (ogTitle && ogDescription ? 20 : ogTitle || ogDescription ? 10 : 0) + (twitterCard ? 15 : 0) + (schemaTypes.length > 0 ? 15 : 0) + (issues.length <= 2 ? 15 : 0)
+    const issues = RuleEngine.messages(this.ruleContext(), "externalFactors")
 
     return {
-      score: Math.min(100, score),
+      ...RuleEngine.scoreSection(this.ruleContext(), "externalFactors"),
       https: isHttps,
       favicon: {
         exists: favicon.length > 0,
@@ -517,7 +833,8 @@ export class SEOAnalyzer {
       },
       schemaMarkup: {
         exists: schemaTypes.length > 0,
-        types: schemaTypes
+        types: schemaTypes,
+        validation: structuredData
       },
       issues
     }
@@ -0,0 +1,347 @@
+import { SEOAnalysis, CrawlerRef, FetchStats, IssueSeverity, ScoringProfileRef, RobotsAccessResult, SitemapAnalysis, SitemapHealthAnalysis, SitemapReconciliation, SitemapUrlEntry } from '@/types/seo'
+import { mapWithConcurrency } from './utils'
+import { SEOAnalyzer, RobotsTxtFetchResult } from './seo-analyzer'
+import { RobotsSitemapAnalyzer, RobotsAnalysis } from './robots-sitemap-analyzer'
+import { LinkChecker } from './link-checker'
+import { SitemapHealthChecker, SitemapSampleSize } from './sitemap-health-checker'
+import { DEFAULT_SCORING_PROFILE, ScoringProfile, ScoringProfiles } from './scoring-profiles'
+import { SafeFetch } from './safe-fetch'
+import { FetchCache } from './fetch-cache'
+import { CrawlerIdentity, CrawlerSettings } from './crawler-identity'
+
+export interface CrawlOptions {
+  maxDepth?: number
+  maxPages?: number
+  concurrency?: number
+  includeSitemap?: boolean
+  sitemapSampleSize?: SitemapSampleSize
+  // Scoring profile ID; unknown IDs fall back to the default profile
+  scoringProfile?: string
+}
+
+export interface CrawledPage {
+  url: string
+  depth: number
+  source: 'seed' | 'link' | 'sitemap'
+  statusCode?: number
+  robotsAccess: RobotsAccessResult[]
+  analysis?: SEOAnalysis
+  error?: string
+}
+
+export interface SiteRollup {
+  pagesCrawled: number
+  pagesFailed: number
+  pagesSkippedByRobots: number
+  averageScore: number
+  sectionAverages: Record<keyof SEOAnalysis['sections'], number>
+  duplicateTitles: Array<{ title: string; urls: string[] }>
+  duplicateDescriptions: Array<{ description: string; urls: string[] }>
+  topIssues: Array<{ id: string; title: string; severity: IssueSeverity; pageCount: number }>
+  lowestScoringPages: Array<{ url: string; score: number }>
+}
+
+export interface SiteCrawlResult {
+  seedUrl: string
+  timestamp: string
+  options: Required<CrawlOptions>
+  scoringProfile: ScoringProfileRef
+  pages: CrawledPage[]
+  sitemaps: SitemapAnalysis[]
+  sitemapHealth?: SitemapHealthAnalysis
+  sitemapReconciliation?: SitemapReconciliation
+  rollup: SiteRollup
+  // Requests of the whole crawl; pages share one request cache
+  fetchStats: FetchStats
+  crawler: CrawlerRef
+}
+
+const DEFAULT_OPTIONS: Required<CrawlOptions> = {
+  maxDepth: 2,
+  maxPages: 25,
+  concurrency: 3,
+  includeSitemap: true,
+  sitemapSampleSize: 50,
+  scoringProfile: DEFAULT_SCORING_PROFILE.id
+}
+
+const HARD_LIMITS = {
+  maxDepth: 5,
+  maxPages: 200,
+  concurrency: 10
+}
+
+const NON_HTML_EXTENSIONS = /\.(pdf|jpe?g|png|gif|webp|svg|ico|css|js|json|xml|txt|zip|gz|mp4|mp3|woff2?|ttf)$/i
+
+export class SiteCrawler {
+  /**
+   * Crawl a site breadth-first from a seed URL, following internal links and sitemap entries.
+   * Each page is scored with the same per-page logic as SEOAnalyzer, without PageSpeed calls.
+   * `crawler` settings are kept out of the options echoed in the result, since they may hold credentials.
+   */
+  static async crawl(seedUrl: string, options: CrawlOptions = {}, crawler?: CrawlerSettings): Promise<SiteCrawlResult> {
+    const cache = new FetchCache()
+    const identity = new CrawlerIdentity(crawler, seedUrl)
+    const result = await SafeFetch.withIdentity(identity, () => cache.run(() => this.crawlSite(seedUrl, options)))
+    return { ...result, fetchStats: cache.stats, crawler: identity.reference() }
+  }
+
+  private static async crawlSite(seedUrl: string, options: CrawlOptions): Promise<Omit<SiteCrawlResult, 'fetchStats' | 'crawler'>> {
+    const resolvedOptions = this.resolveOptions(options)
+    const profile = ScoringProfiles.get(resolvedOptions.scoringProfile) || DEFAULT_SCORING_PROFILE
+    const seed = new URL(seedUrl)
+    seed.hash = ''
+
+    const robotsTxt = await SEOAnalyzer.fetchRobotsTxt(seed.href)
+    const robots = SEOAnalyzer.robotsRules(robotsTxt)
+
+    // One checker for the whole crawl so shared links (nav, footer) are requested once
+    const linkChecker = new LinkChecker()
+    const seen = new Set<string>([seed.href])
+    const pages: CrawledPage[] = []
+    let pagesSkippedByRobots = 0
+
+    let frontier: Array<{ url: string; source: CrawledPage['source'] }> = [{ url: seed.href, source: 'seed' }]
+
+    // Sitemap entries join the seed at depth 0 so pages unreachable by links are still audited
+    let sitemaps: SitemapAnalysis[] = []
+    let sitemapEntries: SitemapUrlEntry[] = []
+    if (resolvedOptions.includeSitemap) {
+      const declaredSitemaps = robots?.sitemapUrls.length ? robots.sitemapUrls : [`${seed.origin}/sitemap.xml`]
+      const collected = await RobotsSitemapAnalyzer.collectSitemapEntries(declaredSitemaps, { siteUrl: seed.href })
+      sitemaps = collected.sitemaps
+      sitemapEntries = collected.entries
+      for (const entry of collected.entries.slice(0, resolvedOptions.maxPages)) {
+        const normalized = this.normalizeCrawlUrl(entry.loc, seed)
+        if (normalized && !seen.has(normalized)) {
+          seen.add(normalized)
+          frontier.push({ url: normalized, source: 'sitemap' })
+        }
+      }
+    }
+
+    // Every URL reachable through links, including ones beyond the depth or page limit
+    const linkedUrls = new Set<string>([seed.href])
+    // Set when the depth or page limit leaves pages uncrawled; their links are then unknown
+    let truncated = false
+
+    for (let depth = 0; depth <= resolvedOptions.maxDepth && frontier.length > 0; depth++) {
+      const remaining = resolvedOptions.maxPages - pages.length
+      if (remaining <= 0) break
+
+      const allowed = frontier.filter(entry => {
+        if (robots && !RobotsSitemapAnalyzer.isUrlAllowed(robots, entry.url)) {
+          pagesSkippedByRobots++
+          return false
+        }
+        return true
+      })
+      const batch = allowed.slice(0, remaining)
+      if (batch.length < allowed.length) truncated = true
+
+      const results = await mapWithConcurrency(batch, resolvedOptions.concurrency, entry =>
+        this.crawlPage(entry.url, depth, entry.source, robotsTxt, linkChecker, this.robotsAccessFor(robots, entry.url), profile)
+      )
+
+      const nextFrontier: typeof frontier = []
+      for (const { page, links } of results) {
+        pages.push(page)
+
+        for (const link of links) {
+          const normalized = this.normalizeCrawlUrl(link, seed)
+          if (normalized) linkedUrls.add(normalized)
+          if (depth === resolvedOptions.maxDepth) {
+            if (normalized && !seen.has(normalized)) truncated = true
+            continue
+          }
+          if (normalized && !seen.has(normalized)) {
+            seen.add(normalized)
+            nextFrontier.push({ url: normalized, source: 'link' })
+          }
+        }
+      }
+
+      frontier = nextFrontier
+    }
+
+    let sitemapHealth: SitemapHealthAnalysis | undefined
+    let sitemapReconciliation: SitemapReconciliation | undefined
+    if (sitemapEntries.length > 0) {
+      sitemapHealth = await SitemapHealthChecker.checkEntries(sitemapEntries, robots, { sampleSize: resolvedOptions.sitemapSampleSize })
+
+      const sitemapUrls = sitemapEntries
+        .map(entry => this.normalizeCrawlUrl(entry.loc, seed))
+        .filter((url): url is string => !!url)
+      const indexablePages = pages
+        .filter(page => page.statusCode === 200 && page.analysis && !page.analysis.sections.crawlability.indexability?.noindex)
+        .map(page => page.url)
+      // Orphans are only conclusive when the crawl was not cut short by its limits
+      const crawlComplete = !truncated && frontier.length === 0 && pages.length < resolvedOptions.maxPages
+      sitemapReconciliation = SitemapHealthChecker.reconcile(sitemapUrls, linkedUrls, indexablePages, crawlComplete)
+    }
+
+    return {
+      seedUrl: seed.href,
+      timestamp: new Date().toISOString(),
+      options: resolvedOptions,
+      scoringProfile: ScoringProfiles.reference(profile),
+      pages,
+      sitemaps,
+      sitemapHealth,
+      sitemapReconciliation,
+      rollup: this.buildRollup(pages, pagesSkippedByRobots)
+    }
+  }
+
+  /**
+   * Fetch and analyze a single page, returning its internal links for the next crawl level
+   */
+  private static async crawlPage(
+    url: string,
+    depth: number,
+    source: CrawledPage['source'],
+    robotsTxt: RobotsTxtFetchResult,
+    linkChecker: LinkChecker,
+    robotsAccess: RobotsAccessResult[],
+    profile: ScoringProfile
+  ): Promise<{ page: CrawledPage; links: string[] }> {
+    const startTime = Date.now()
+
+    try {
+      const response = await SafeFetch.fetch(url, {
+        accept: SafeFetch.CONTENT_TYPES.html,
+        skipUnaccepted: true
+      })
+
+      if (!response.ok) {
+        return {
+          page: { url, depth, source, statusCode: response.status, robotsAccess, error: `Request failed with status code ${response.status}` },
+          links: []
+        }
+      }
+
+      const contentType = response.headers['content-type'] || ''
+      if (!response.bodyRead) {
+        return {
+          page: { url, depth, source, statusCode: response.status, robotsAccess, error: `Skipped non-HTML content (${contentType})` },
+          links: []
+        }
+      }
+
+      const analyzer = new SEOAnalyzer(response.text(), url, response.headers, response.status, profile)
+      const analysis = await analyzer.analyzeFetchedPage(Date.now() - startTime, robotsTxt, linkChecker)
+      const links = analyzer.extractLinks()
+        .filter(link => link.isInternal && !link.rel?.includes('nofollow'))
+        .map(link => link.url)
+
+      return {
+        page: { url, depth, source, statusCode: response.status, robotsAccess, analysis },
+        links
+      }
+    } catch (error) {
+      return {
+        page: {
+          url,
+          depth,
+          source,
+          robotsAccess,
+          error: error instanceof Error ? error.message : 'Unknown error'
+        },
+        links: []
+      }
+    }
+  }
+
+  /**
+   * Report whether each test crawler (Googlebot, Bingbot, GPTBot) may fetch the URL
+   */
+  private static robotsAccessFor(robots: RobotsAnalysis | null, url: string): RobotsAccessResult[] {
+    if (!robots) return []
+    return RobotsSitemapAnalyzer.TEST_USER_AGENTS.map(userAgent =>
+      SEOAnalyzer.toAccessResult(RobotsSitemapAnalyzer.matchUrl(robots, url, userAgent))
+    )
+  }
+
+  /**
+   * Aggregate per-page results into a site-level summary
+   */
+  private static buildRollup(pages: CrawledPage[], pagesSkippedByRobots: number): SiteRollup {
+    const analyzed = pages.filter((page): page is CrawledPage & { analysis: SEOAnalysis } => !!page.analysis)
+    const average = (values: number[]) =>
+      values.length > 0 ? Math.round(values.reduce((sum, value) => sum + value, 0) / values.length) : 0
+
+    const sectionKeys = ['meta', 'pageQuality', 'linkStructure', 'pageStructure', 'performance', 'crawlability', 'externalFactors', 'redirects', 'headers'] as const
+    const sectionAverages = Object.fromEntries(
+      sectionKeys.map(key => [key, average(analyzed.map(page => page.analysis.sections[key].score))])
+    ) as SiteRollup['sectionAverages']
+
+    const groupBy = (getKey: (analysis: SEOAnalysis) => string) => {
+      const groups = new Map<string, string[]>()
+      for (const page of analyzed) {
+        const key = getKey(page.analysis)
+        if (!key) continue
+        groups.set(key, [...(groups.get(key) || []), page.url])
+      }
+      return Array.from(groups.entries()).filter(([, urls]) => urls.length > 1)
+    }
+
+    // Issues are grouped by rule ID, so "3 images missing alt" and "5 images missing alt" count together
+    const issueCounts = new Map<string, SiteRollup['topIssues'][number]>()
+    for (const page of analyzed) {
+      for (const issue of page.analysis.issues) {
+        const entry = issueCounts.get(issue.id) || { id: issue.id, title: issue.title, severity: issue.severity, pageCount: 0 }
+        entry.pageCount++
+        issueCounts.set(issue.id, entry)
+      }
+    }
+
+    return {
+      pagesCrawled: analyzed.length,
+      pagesFailed: pages.length - analyzed.length,
+      pagesSkippedByRobots,
+      averageScore: average(analyzed.map(page => page.analysis.overallScore)),
+      sectionAverages,
+      duplicateTitles: groupBy(analysis => analysis.sections.meta.title.content)
+        .map(([title, urls]) => ({ title, urls })),
+      duplicateDescriptions: groupBy(analysis => analysis.sections.meta.description.content)
+        .map(([description, urls]) => ({ description, urls })),
+      topIssues: Array.from(issueCounts.values())
+        .sort((a, b) => b.pageCount - a.pageCount)
+        .slice(0, 10),
+      lowestScoringPages: analyzed
+        .map(page => ({ url: page.url, score: Math.round(page.analysis.overallScore) }))
+        .sort((a, b) => a.score - b.score)
+        .slice(0, 5)
+    }
+  }
+
+  /**
+   * Normalize a discovered URL, returning null when it should not be crawled
+   */
+  private static normalizeCrawlUrl(url: string, seed: URL): string | null {
+    try {
+      const parsed = new URL(url, seed)
+      if (parsed.hostname !== seed.hostname) return null
+      if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') return null
+      if (NON_HTML_EXTENSIONS.test(parsed.pathname)) return null
+      parsed.hash = ''
+      return parsed.href
+    } catch {
+      return null
+    }
+  }
+
+  private static resolveOptions(options: CrawlOptions): Required<CrawlOptions> {
+    const clamp = (value: number | undefined, fallback: number, max: number, min: number) =>
+      Math.min(max, Math.max(min, Math.floor(value ?? fallback)))
+
+    return {
+      maxDepth: clamp(options.maxDepth, DEFAULT_OPTIONS.maxDepth, HARD_LIMITS.maxDepth, 0),
+      maxPages: clamp(options.maxPages, DEFAULT_OPTIONS.maxPages, HARD_LIMITS.maxPages, 1),
+      concurrency: clamp(options.concurrency, DEFAULT_OPTIONS.concurrency, HARD_LIMITS.concurrency, 1),
+      includeSitemap: options.includeSitemap ?? DEFAULT_OPTIONS.includeSitemap,
+      sitemapSampleSize: options.sitemapSampleSize ?? DEFAULT_OPTIONS.sitemapSampleSize,
+      scoringProfile: (ScoringProfiles.get(options.scoringProfile) || DEFAULT_SCORING_PROFILE).id
+    }
+  }
+}
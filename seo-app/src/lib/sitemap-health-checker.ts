@@ -0,0 +1,164 @@
+import * as cheerio from 'cheerio'
+import { SitemapHealthAnalysis, SitemapReconciliation, SitemapUrlCheck, SitemapUrlEntry } from '@/types/seo'
+import { mapWithConcurrency } from './utils'
+import { RobotsSitemapAnalyzer, RobotsAnalysis } from './robots-sitemap-analyzer'
+import { HeaderAnalyzer } from './header-analyzer'
+import { SafeFetch } from './safe-fetch'
+
+export type SitemapSampleSize = number | 'all'
+
+export interface SitemapHealthOptions {
+  sampleSize?: SitemapSampleSize
+  concurrency?: number
+  timeoutMs?: number
+}
+
+const DEFAULT_OPTIONS: Required<SitemapHealthOptions> = {
+  sampleSize: 20,
+  concurrency: 5,
+  timeoutMs: 10000
+}
+
+// 'all' still stops here so a huge sitemap cannot turn one scan into thousands of requests
+export const MAX_SITEMAP_SAMPLE_SIZE = 500
+
+export class SitemapHealthChecker {
+  /**
+   * Fetch a sample of sitemap URLs and flag entries that should not be listed: non-200
+   * responses, redirects, noindex, robots.txt blocks and canonicals pointing elsewhere
+   */
+  static async checkEntries(entries: SitemapUrlEntry[], robots: RobotsAnalysis | null, options: SitemapHealthOptions = {}): Promise<SitemapHealthAnalysis> {
+    const resolved = { ...DEFAULT_OPTIONS, ...options }
+    const urls = Array.from(new Set(entries.map(entry => entry.loc)))
+    const sample = this.sampleUrls(urls, this.resolveSampleSize(resolved.sampleSize))
+
+    const checks = await mapWithConcurrency(sample, resolved.concurrency, url =>
+      this.checkUrl(url, robots, resolved.timeoutMs)
+    )
+
+    const counts = {
+      nonOk: checks.filter(check => check.statusCode !== undefined && check.statusCode !== 200 && !check.redirectedTo).length,
+      redirected: checks.filter(check => !!check.redirectedTo).length,
+      noindex: checks.filter(check => check.noindex).length,
+      robotsBlocked: checks.filter(check => check.robotsBlocked).length,
+      canonicalElsewhere: checks.filter(check => !!check.canonicalUrl).length,
+      errors: checks.filter(check => !!check.error).length
+    }
+    const problems = checks.filter(check => check.issues.length > 0)
+
+    const issues: string[] = []
+    const describe = (count: number, message: string) => {
+      if (count > 0) issues.push(`${count} of ${checks.length} sampled sitemap URLs ${message}`)
+    }
+    describe(counts.nonOk, 'return a non-200 status')
+    describe(counts.redirected, 'redirect (list the final URL instead)')
+    describe(counts.noindex, 'are noindexed')
+    describe(counts.robotsBlocked, 'are blocked by robots.txt')
+    describe(counts.canonicalElsewhere, 'canonicalize to a different URL')
+    describe(counts.errors, 'could not be fetched')
+
+    return {
+      totalUrls: urls.length,
+      sampledUrls: checks.length,
+      healthyUrls: checks.length - problems.length,
+      counts,
+      problems,
+      issues
+    }
+  }
+
+  /**
+   * Compare sitemap entries with the URLs a crawl reached through links. Orphans are listed
+   * in the sitemap but never linked; unlisted pages are indexable crawled pages missing
+   * from the sitemap. URLs must already be normalized the same way on both sides.
+   */
+  static reconcile(sitemapUrls: string[], linkedUrls: Set<string>, indexablePages: string[], crawlComplete: boolean): SitemapReconciliation {
+    const listed = new Set(sitemapUrls)
+
+    return {
+      sitemapUrlCount: listed.size,
+      linkedUrlCount: linkedUrls.size,
+      crawlComplete,
+      orphanPages: Array.from(listed).filter(url => !linkedUrls.has(url)),
+      unlistedPages: indexablePages.filter(url => !listed.has(url))
+    }
+  }
+
+  private static async checkUrl(url: string, robots: RobotsAnalysis | null, timeoutMs: number): Promise<SitemapUrlCheck> {
+    const check: SitemapUrlCheck = { url, noindex: false, robotsBlocked: false, issues: [] }
+
+    // Blocked URLs are reported without fetching them
+    if (robots && !RobotsSitemapAnalyzer.isUrlAllowed(robots, url)) {
+      check.robotsBlocked = true
+      check.issues.push('Blocked by robots.txt')
+      return check
+    }
+
+    try {
+      // Only HTML bodies are read, for their robots meta tag and canonical
+      const response = await SafeFetch.fetch(url, {
+        redirect: 'manual',
+        accept: SafeFetch.CONTENT_TYPES.html,
+        skipUnaccepted: true,
+        timeoutMs
+      })
+      check.statusCode = response.status
+
+      const location = response.headers.location
+      if (response.status >= 300 && response.status < 400 && location) {
+        check.redirectedTo = new URL(location, url).href
+        check.issues.push(`Redirects (${response.status}) to ${check.redirectedTo}`)
+        return check
+      }
+
+      if (response.status !== 200) {
+        check.issues.push(`Returns HTTP ${response.status}`)
+        return check
+      }
+
+      const xRobotsTag = response.headers['x-robots-tag']
+      const html = response.text()
+
+      const $ = cheerio.load(html)
+      const metaRobots = $('meta[name="robots"]').attr('content')
+      check.noindex = HeaderAnalyzer.parseRobotsDirectives(metaRobots).noindex ||
+        HeaderAnalyzer.parseRobotsDirectives(xRobotsTag).noindex
+      if (check.noindex) check.issues.push('Noindexed page listed in sitemap')
+
+      const canonical = $('link[rel="canonical"]').attr('href')
+      if (canonical) {
+        const canonicalUrl = new URL(canonical, url).href
+        if (this.comparableUrl(canonicalUrl) !== this.comparableUrl(url)) {
+          check.canonicalUrl = canonicalUrl
+          check.issues.push(`Canonicalizes to ${canonicalUrl}`)
+        }
+      }
+    } catch (error) {
+      check.error = error instanceof Error ? error.message : 'Unknown error'
+      check.issues.push(`Fetch failed: ${check.error}`)
+    }
+
+    return check
+  }
+
+  /**
+   * Pick evenly spaced URLs so the sample covers the whole sitemap, not just its first entries
+   */
+  private static sampleUrls(urls: string[], size: number): string[] {
+    if (urls.length <= size) return urls
+    const step = urls.length / size
+    return Array.from({ length: size }, (_, index) => urls[Math.floor(index * step)])
+  }
+
+  private static resolveSampleSize(sampleSize: SitemapSampleSize): number {
+    if (sampleSize === 'all') return MAX_SITEMAP_SAMPLE_SIZE
+    if (typeof sampleSize !== 'number' || !Number.isFinite(sampleSize)) return DEFAULT_OPTIONS.sampleSize as number
+    return Math.min(MAX_SITEMAP_SAMPLE_SIZE, Math.max(0, Math.floor(sampleSize)))
+  }
+
+  private static comparableUrl(url: string): string {
+    const parsed = new URL(url)
+    parsed.hash = ''
+    return parsed.href.replace(/\/$/, '')
+  }
+}
@@ -0,0 +1,461 @@
+import * as cheerio from 'cheerio'
+import { RichResultEligibility, StructuredDataAnalysis, StructuredDataConflict, StructuredDataEntity, StructuredDataSyntax, StructuredDataSyntaxError } from '@/types/seo'
+
+interface TypeSpec {
+  type: string
+  // Schema.org subtypes validated with the same rules, e.g. NewsArticle for Article
+  subtypes?: string[]
+  // Entries with | are satisfied by any one of the alternatives
+  required: string[]
+  recommended: string[]
+  // Google rich result the type can produce; its own required properties default to the type's
+  richResult?: { name: string; required?: string[] }
+}
+
+// An entity with the properties it was parsed from, kept to compare the syntaxes
+interface EntityRecord {
+  entity: StructuredDataEntity
+  value: Record<string, unknown>
+}
+
+export const STRUCTURED_DATA_TYPES: TypeSpec[] = [
+  {
+    type: 'Article',
+    subtypes: ['NewsArticle', 'BlogPosting', 'TechArticle', 'ScholarlyArticle', 'Report', 'LiveBlogPosting'],
+    required: ['headline'],
+    recommended: ['image', 'datePublished', 'dateModified', 'author', 'publisher'],
+    richResult: { name: 'Article' }
+  },
+  {
+    type: 'Product',
+    subtypes: ['ProductGroup', 'IndividualProduct', 'Vehicle'],
+    required: ['name', 'offers|review|aggregateRating'],
+    recommended: ['image', 'description', 'brand', 'sku', 'gtin|gtin8|gtin12|gtin13|gtin14|mpn', 'offers', 'aggregateRating', 'review'],
+    richResult: { name: 'Product snippet' }
+  },
+  {
+    type: 'Offer',
+    subtypes: ['AggregateOffer'],
+    required: ['price|lowPrice|priceSpecification'],
+    recommended: ['priceCurrency', 'availability', 'url', 'priceValidUntil']
+  },
+  {
+    type: 'AggregateRating',
+    required: ['ratingValue', 'ratingCount|reviewCount'],
+    recommended: ['bestRating', 'worstRating']
+  },
+  {
+    type: 'Review',
+    subtypes: ['CriticReview', 'UserReview'],
+    required: ['author'],
+    recommended: ['reviewRating', 'datePublished']
+  },
+  {
+    type: 'FAQPage',
+    required: ['mainEntity'],
+    recommended: [],
+    richResult: { name: 'FAQ' }
+  },
+  {
+    type: 'Question',
+    required: ['name', 'acceptedAnswer|suggestedAnswer'],
+    recommended: []
+  },
+  {
+    type: 'Answer',
+    required: ['text'],
+    recommended: []
+  },
+  {
+    type: 'BreadcrumbList',
+    required: ['itemListElement'],
+    recommended: [],
+    richResult: { name: 'Breadcrumb' }
+  },
+  {
+    type: 'ListItem',
+    required: ['position', 'name|item'],
+    recommended: ['item']
+  },
+  {
+    type: 'LocalBusiness',
+    subtypes: [
+      'Restaurant', 'CafeOrCoffeeShop', 'Bakery', 'BarOrPub', 'FoodEstablishment', 'Store', 'Hotel', 'LodgingBusiness',
+      'Dentist', 'Physician', 'MedicalBusiness', 'AutoRepair', 'HealthAndBeautyBusiness', 'ProfessionalService',
+      'LegalService', 'FinancialService', 'RealEstateAgent', 'HomeAndConstructionBusiness'
+    ],
+    required: ['name', 'address'],
+    recommended: ['telephone', 'url', 'image', 'geo', 'openingHoursSpecification|openingHours', 'priceRange'],
+    richResult: { name: 'Local business' }
+  },
+  {
+    type: 'Organization',
+    subtypes: ['Corporation', 'NGO', 'EducationalOrganization', 'GovernmentOrganization', 'NewsMediaOrganization', 'OnlineBusiness', 'OnlineStore'],
+    required: ['name'],
+    recommended: ['url', 'logo', 'sameAs', 'contactPoint', 'address'],
+    // The logo rich result needs the logo and the site it belongs to
+    richResult: { name: 'Organization logo', required: ['logo', 'url'] }
+  },
+  {
+    type: 'Event',
+    subtypes: ['MusicEvent', 'SportsEvent', 'TheaterEvent', 'BusinessEvent', 'EducationEvent', 'Festival', 'ComedyEvent', 'ExhibitionEvent', 'ScreeningEvent'],
+    required: ['name', 'startDate', 'location'],
+    recommended: ['endDate', 'eventStatus', 'eventAttendanceMode', 'image', 'description', 'offers', 'organizer', 'performer'],
+    richResult: { name: 'Event' }
+  },
+  {
+    type: 'Recipe',
+    required: ['name', 'image'],
+    recommended: ['author', 'datePublished', 'description', 'recipeIngredient', 'recipeInstructions', 'totalTime', 'recipeYield', 'nutrition', 'aggregateRating', 'keywords'],
+    richResult: { name: 'Recipe' }
+  },
+  {
+    type: 'HowTo',
+    required: ['name', 'step'],
+    recommended: ['image', 'totalTime', 'supply', 'tool', 'estimatedCost'],
+    richResult: { name: 'How-to' }
+  },
+  {
+    type: 'HowToStep',
+    required: ['text|itemListElement'],
+    recommended: ['name', 'image', 'url']
+  }
+]
+
+export const JSON_LD_SELECTOR = 'script[type="application/ld+json"]'
+const ROOT_PATH = '(root)'
+
+export const STRUCTURED_DATA_SYNTAX_NAMES: Record<StructuredDataSyntax, string> = {
+  'json-ld': 'JSON-LD',
+  microdata: 'Microdata',
+  rdfa: 'RDFa'
+}
+
+// Microdata takes property values from these attributes, by element, before falling back to the text
+const MICRODATA_URL_ATTRIBUTES: Record<string, string> = {
+  a: 'href', area: 'href', link: 'href', audio: 'src', embed: 'src', iframe: 'src', img: 'src', source: 'src', track: 'src', video: 'src', object: 'data'
+}
+
+// Image URLs legitimately differ between syntaxes by size and CDN
+const UNCOMPARED_PROPERTIES = ['image', 'logo', 'thumbnailUrl']
+
+// Rules ask for the same page's structured data several times per scan
+const analyses = new WeakMap<object, StructuredDataAnalysis>()
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const hasValue = (value: unknown): boolean =>
+  value !== undefined && value !== null && value !== '' && !(Array.isArray(value) && value.length === 0)
+
+const describe = (property: string) => property.split('|').join(' or ')
+
+// Prefixed names and IRIs such as schema:name or https://schema.org/Product keep their last segment
+const localName = (name: string) => name.trim().replace(/^.*[/:#]/, '')
+
+const collapse = (text: string) => text.replace(/\s+/g, ' ').trim()
+
+// Values are compared without case, origin or trailing slash, and numerically when both are numbers
+const comparable = (value: string) => {
+  const number = Number(value)
+  if (value.trim() && Number.isFinite(number)) return String(number)
+  return collapse(value).toLowerCase().replace(/^https?:\/\/[^/]+/, '').replace(/\/$/, '')
+}
+
+export class StructuredDataValidator {
+  /**
+   * Parse the page's JSON-LD blocks, microdata and RDFa into one entity model, walk `@graph` arrays and nested
+   * entities, check each known type's required and recommended properties, work out which rich results the
+   * page is eligible for and flag entities described differently in two syntaxes. With the page source $ was
+   * loaded from, JSON syntax errors are reported by page line rather than block line.
+   */
+  static analyze($: cheerio.Root, html?: string): StructuredDataAnalysis {
+    const cached = analyses.get($)
+    if (cached) return cached
+
+    const analysis: StructuredDataAnalysis = { syntaxes: [], blockCount: 0, syntaxErrors: [], entities: [], richResults: [], conflicts: [] }
+    const records: EntityRecord[] = []
+    // Script contents are not decoded, so each block appears verbatim in the source, in document order
+    let sourceIndex = 0
+
+    $(JSON_LD_SELECTOR).each((index, element) => {
+      const block = index + 1
+      const text = $(element).html() || ''
+      analysis.blockCount++
+      if (!text.trim()) return
+
+      const offset = html ? html.indexOf(text, sourceIndex) : -1
+      if (offset >= 0) sourceIndex = offset + text.length
+
+      let data: unknown
+      try {
+        data = JSON.parse(text)
+      } catch (error) {
+        analysis.syntaxErrors.push(this.syntaxError(block, text, error, html && offset >= 0 ? { html, offset } : undefined))
+        return
+      }
+      this.walk(data, 'json-ld', block, '', records)
+    })
+
+    this.microdataItems($).forEach((item, index) => this.walk(item, 'microdata', index + 1, '', records))
+    this.rdfaItems($).forEach((item, index) => this.walk(item, 'rdfa', index + 1, '', records))
+
+    analysis.entities = records.map(record => record.entity)
+    analysis.syntaxes = (Object.keys(STRUCTURED_DATA_SYNTAX_NAMES) as StructuredDataSyntax[])
+      .filter(syntax => analysis.entities.some(entity => entity.syntax === syntax))
+    analysis.richResults = this.richResults(analysis.entities)
+    analysis.conflicts = this.conflicts(records)
+    analyses.set($, analysis)
+    return analysis
+  }
+
+  /**
+   * Types of the page's top-level entities in every syntax, those of `@graph` arrays included
+   */
+  static topLevelTypes(analysis: StructuredDataAnalysis): string[] {
+    const types = analysis.entities.filter(entity => this.isTopLevel(entity)).flatMap(entity => entity.types)
+    return Array.from(new Set(types))
+  }
+
+  /**
+   * Where an entity was found, e.g. "Offer in microdata item 2 at offers"
+   */
+  static describeEntity(entity: StructuredDataEntity): string {
+    const source = entity.syntax === 'json-ld' ? 'JSON-LD block' : `${STRUCTURED_DATA_SYNTAX_NAMES[entity.syntax]} item`
+    return `${entity.types.join(', ')} in ${source} ${entity.block}${entity.path === ROOT_PATH ? '' : ` at ${entity.path}`}`
+  }
+
+  static spec(types: string[]): TypeSpec | undefined {
+    return STRUCTURED_DATA_TYPES.find(spec => types.some(type => type === spec.type || spec.subtypes?.includes(type)))
+  }
+
+  private static walk(value: unknown, syntax: StructuredDataSyntax, block: number, path: string, records: EntityRecord[]) {
+    if (Array.isArray(value)) {
+      value.forEach((item, index) => this.walk(item, syntax, block, `${path}[${index}]`, records))
+      return
+    }
+    if (!isObject(value)) return
+
+    const types = this.types(value['@type'])
+    if (types.length > 0) {
+      const spec = this.spec(types)
+      records.push({
+        entity: {
+          syntax,
+          types,
+          block,
+          path: path || ROOT_PATH,
+          missingRequired: spec ? this.missing(value, spec.required) : [],
+          missingRecommended: spec ? this.missing(value, spec.recommended) : []
+        },
+        value
+      })
+    }
+
+    for (const [property, child] of Object.entries(value)) {
+      if (property === '@graph') {
+        this.walk(child, syntax, block, `${path}@graph`, records)
+      } else if (!property.startsWith('@')) {
+        this.walk(child, syntax, block, path ? `${path}.${property}` : property, records)
+      }
+    }
+  }
+
+  private static types(value: unknown): string[] {
+    const values = Array.isArray(value) ? value : [value]
+    return values
+      .filter((type): type is string => typeof type === 'string' && !!type.trim())
+      .map(localName)
+  }
+
+  /**
+   * Microdata items that are not another item's property, as JSON-LD shaped objects
+   */
+  private static microdataItems($: cheerio.Root): Record<string, unknown>[] {
+    return $('[itemscope]:not([itemprop])').toArray().map(element => this.microdataItem($, element))
+  }
+
+  private static microdataItem($: cheerio.Root, element: cheerio.Element): Record<string, unknown> {
+    const item = $(element)
+    const object: Record<string, unknown> = { '@type': (item.attr('itemtype') || '').split(/\s+/).filter(Boolean) }
+    if (item.attr('itemid')) object['@id'] = item.attr('itemid')
+
+    // Properties belong to the nearest enclosing item, so those of nested items are skipped here
+    item.find('[itemprop]')
+      .filter((_, property) => $(property).parent().closest('[itemscope]').get(0) === element)
+      .each((_, property) => {
+        const value = $(property).is('[itemscope]') ? this.microdataItem($, property) : this.microdataValue($, property)
+        for (const name of ($(property).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+          this.addProperty(object, localName(name), value)
+        }
+      })
+    return object
+  }
+
+  private static microdataValue($: cheerio.Root, element: cheerio.Element): string {
+    const node = $(element)
+    const tag = (element as cheerio.TagElement).tagName?.toLowerCase() || ''
+    if (tag === 'meta') return node.attr('content') || ''
+    if (MICRODATA_URL_ATTRIBUTES[tag]) return node.attr(MICRODATA_URL_ATTRIBUTES[tag]) || ''
+    if (tag === 'data' || tag === 'meter') return node.attr('value') || ''
+    if (tag === 'time' && node.attr('datetime')) return node.attr('datetime') || ''
+    return node.attr('content') || collapse(node.text())
+  }
+
+  /**
+   * RDFa entities (`typeof`) that are not another entity's property, as JSON-LD shaped objects
+   */
+  private static rdfaItems($: cheerio.Root): Record<string, unknown>[] {
+    return $('[typeof]:not([property])').toArray().map(element => this.rdfaItem($, element))
+  }
+
+  private static rdfaItem($: cheerio.Root, element: cheerio.Element): Record<string, unknown> {
+    const item = $(element)
+    const object: Record<string, unknown> = { '@type': (item.attr('typeof') || '').split(/\s+/).filter(Boolean) }
+    const id = item.attr('resource') || item.attr('about')
+    if (id) object['@id'] = id
+
+    item.find('[property]')
+      .filter((_, property) => $(property).parent().closest('[typeof]').get(0) === element)
+      .each((_, property) => {
+        const value = $(property).is('[typeof]') ? this.rdfaItem($, property) : this.rdfaValue($, property)
+        for (const name of ($(property).attr('property') || '').split(/\s+/).filter(Boolean)) {
+          this.addProperty(object, localName(name), value)
+        }
+      })
+    return object
+  }
+
+  private static rdfaValue($: cheerio.Root, element: cheerio.Element): string {
+    const node = $(element)
+    return node.attr('content') ?? node.attr('resource') ?? node.attr('href') ?? node.attr('src') ?? node.attr('datetime') ?? collapse(node.text())
+  }
+
+  // Repeated properties become arrays, as they would be written in JSON-LD
+  private static addProperty(object: Record<string, unknown>, name: string, value: unknown) {
+    const existing = object[name]
+    if (existing === undefined) object[name] = value
+    else object[name] = Array.isArray(existing) ? [...existing, value] : [existing, value]
+  }
+
+  private static missing(entity: Record<string, unknown>, properties: string[]): string[] {
+    return properties
+      .filter(property => !property.split('|').some(name => hasValue(entity[name])))
+      .map(describe)
+  }
+
+  /**
+   * A rich result needs one entity of its type whose required properties, and those of every entity nested in it,
+   * are all set. Entities nested in another rich result candidate, such as an article's publisher, only count towards it.
+   */
+  private static richResults(entities: StructuredDataEntity[]): RichResultEligibility[] {
+    const results = new Map<string, RichResultEligibility>()
+    const candidates = entities.filter(entity => this.spec(entity.types)?.richResult)
+
+    for (const entity of candidates) {
+      if (candidates.some(parent => this.isNestedIn(entity, parent))) continue
+      const richResult = this.spec(entity.types)!.richResult!
+
+      // Properties a rich result adds on top of the type's are among its recommended ones
+      const richMissing = (richResult.required || []).map(describe).filter(name => entity.missingRecommended.includes(name))
+      const nestedMissing = entities
+        .filter(nested => this.isNestedIn(nested, entity))
+        .flatMap(nested => nested.missingRequired.map(property => `${nested.types[0]}.${property}`))
+      const missing = entity.missingRequired.concat(richMissing, nestedMissing)
+
+      const result = results.get(richResult.name) || { name: richResult.name, schemaType: this.spec(entity.types)!.type, eligible: false, entities: 0, missing: [] }
+      result.entities++
+      if (missing.length === 0) {
+        result.eligible = true
+        result.missing = []
+      } else if (!result.eligible) {
+        result.missing = Array.from(new Set(result.missing.concat(missing)))
+      }
+      results.set(result.name, result)
+    }
+
+    return Array.from(results.values())
+  }
+
+  /**
+   * Top-level entities of the same type in two syntaxes are the same entity when their `@id` or url match, when
+   * each syntax has only one of the type, or when their names match. Their shared properties should then agree.
+   */
+  private static conflicts(records: EntityRecord[]): StructuredDataConflict[] {
+    const topLevel = records.filter(record => this.isTopLevel(record.entity))
+    const typeOf = (record: EntityRecord) => this.spec(record.entity.types)?.type || record.entity.types[0]
+    const countOf = (syntax: StructuredDataSyntax, type: string) =>
+      topLevel.filter(record => record.entity.syntax === syntax && typeOf(record) === type).length
+
+    const conflicts = new Map<string, StructuredDataConflict>()
+    topLevel.forEach((first, index) => {
+      for (const second of topLevel.slice(index + 1)) {
+        const type = typeOf(first)
+        if (first.entity.syntax === second.entity.syntax || type !== typeOf(second)) continue
+
+        const [firstId, secondId] = [first.value['@id'] || first.value.url, second.value['@id'] || second.value.url]
+        const sameEntity = typeof firstId === 'string' && typeof secondId === 'string'
+          ? comparable(firstId) === comparable(secondId)
+          : (countOf(first.entity.syntax, type) === 1 && countOf(second.entity.syntax, type) === 1) ||
+            (typeof first.value.name === 'string' && typeof second.value.name === 'string' && comparable(first.value.name) === comparable(second.value.name))
+        if (!sameEntity) continue
+
+        const firstValues = this.flatten(first.value)
+        const secondValues = this.flatten(second.value)
+        for (const [property, value] of Object.entries(firstValues)) {
+          const other = secondValues[property]
+          if (other === undefined || comparable(value) === comparable(other)) continue
+          const key = `${type}.${property}.${first.entity.syntax}.${second.entity.syntax}`
+          conflicts.set(key, {
+            schemaType: type,
+            property,
+            values: [{ syntax: first.entity.syntax, value }, { syntax: second.entity.syntax, value: other }]
+          })
+        }
+      }
+    })
+    return Array.from(conflicts.values())
+  }
+
+  // Text values of an entity and of the entities directly nested in it, keyed like offers.price
+  private static flatten(value: Record<string, unknown>, prefix = ''): Record<string, string> {
+    const values: Record<string, string> = {}
+    for (const [property, raw] of Object.entries(value)) {
+      if (property.startsWith('@') || UNCOMPARED_PROPERTIES.includes(property)) continue
+      const child = Array.isArray(raw) && raw.length === 1 ? raw[0] : raw
+      if (typeof child === 'string' || typeof child === 'number' || typeof child === 'boolean') {
+        values[`${prefix}${property}`] = String(child)
+      } else if (isObject(child) && !prefix) {
+        Object.assign(values, this.flatten(child, `${property}.`))
+      }
+    }
+    return values
+  }
+
+  // The block itself, an item of a top-level array or an item of its @graph
+  private static isTopLevel(entity: StructuredDataEntity): boolean {
+    return entity.path === ROOT_PATH || /^(\[\d+\])?(@graph\[\d+\])?$/.test(entity.path)
+  }
+
+  private static isNestedIn(entity: StructuredDataEntity, parent: StructuredDataEntity): boolean {
+    if (entity === parent || entity.syntax !== parent.syntax || entity.block !== parent.block || this.isTopLevel(entity)) return false
+    return parent.path === ROOT_PATH ? !/^(\[|@graph)/.test(entity.path) : entity.path.startsWith(`${parent.path}.`)
+  }
+
+  /**
+   * Locate a JSON syntax error. V8 reports the character offset in the block; the block's offset in the
+   * page source, when known, turns it into a page line and column.
+   */
+  private static syntaxError(block: number, text: string, error: unknown, page?: { html: string; offset: number }): StructuredDataSyntaxError {
+    const message = error instanceof Error ? error.message : 'Invalid JSON'
+    const position = Number(message.match(/position (\d+)/)?.[1] ?? text.length)
+    const before = page ? page.html.slice(0, page.offset + position).split('\n') : text.slice(0, position).split('\n')
+
+    return {
+      block,
+      line: before.length,
+      column: before[before.length - 1].length + 1,
+      message: message.replace(/ in JSON at position \d+.*$/, '')
+    }
+  }
+}
@@ -0,0 +1,13 @@
+import { createClient, SupabaseClient } from '@supabase/supabase-js'
+
+let serviceClient: SupabaseClient | null = null
+
+// Background work runs outside the user's session, so it writes through the service role.
+// Returns null when the service role is not configured, in which case results are not persisted.
+export const getServiceSupabaseClient = (): SupabaseClient | null => {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return null
+  if (!serviceClient) {
+    serviceClient = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL, process.env.SUPABASE_SERVICE_ROLE_KEY)
+  }
+  return serviceClient
+}
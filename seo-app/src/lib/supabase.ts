@@ -1,5 +1,7 @@
 import { createClientComponentClient } from '@supabase/auth-helpers-nextjs'
 import { createClient } from '@supabase/supabase-js'
+import { ApiKeys } from './api-keys'
+import type { CrawlerSettings } from './crawler-identity'
 
 // Single Supabase client instance to avoid multiple GoTrueClient warnings
 let supabaseInstance: ReturnType<typeof createClientComponentClient> | null = null
@@ -41,6 +43,32 @@ export interface ScanReport {
   accessibility_score?: number
   best_practices_score?: number
   report_data: any
+  // Scan jobs insert a pending row and settle it once the analysis finishes
+  status?: 'pending' | 'completed' | 'failed'
+  // Shared by the reports of one bulk scan
+  batch_id?: string
+  project_id?: string
+  created_at: string
+}
+
+export interface Project {
+  id: string
+  user_id: string
+  name: string
+  url: string
+  crawler_settings?: CrawlerSettings
+  created_at: string
+  updated_at: string
+}
+
+// The key itself is never stored, only its hash
+export interface ApiKey {
+  id: string
+  user_id: string
+  name: string
+  key_prefix: string
+  last_used_at?: string
+  revoked_at?: string
   created_at: string
 }
 
@@ -151,6 +179,7 @@ export const scanReportService = {
       .from('scan_reports')
       .select('*')
       .eq('user_id', userId)
+      .eq('status', 'completed')
       .order('created_at', { ascending: false })
       .limit(limit)
     
@@ -262,3 +291,58 @@ export const userSettingsService = {
     return (data || []) as UserSettings[]
   }
 }
+
+export const apiKeyService = {
+  async getApiKeys(userId: string): Promise<ApiKey[]> {
+    const supabase = getSupabaseClient()
+    const { data, error } = await supabase
+      .from('api_keys')
+      .select('id, user_id, name, key_prefix, last_used_at, revoked_at, created_at')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: false })
+
+    if (error) {
+      console.error('Error fetching API keys:', error)
+      return []
+    }
+
+    return (data || []) as ApiKey[]
+  },
+
+  // Returns the plain key alongside the saved record; it cannot be shown again later
+  async createApiKey(userId: string, name: string): Promise<{ key: string; apiKey: ApiKey } | null> {
+    const supabase = getSupabaseClient()
+    const key = ApiKeys.generate()
+
+    const { data, error } = await supabase
+      .from('api_keys')
+      .insert({
+        user_id: userId,
+        name,
+        key_prefix: ApiKeys.displayPrefix(key),
+        key_hash: await ApiKeys.hash(key)
+      })
+      .select('id, user_id, name, key_prefix, last_used_at, revoked_at, created_at')
+      .single()
+
+    if (error) {
+      console.error('Error creating API key:', error)
+      return null
+    }
+
+    return { key, apiKey: data as ApiKey }
+  },
+
+  // Keys can only be revoked through this function; the table has no UPDATE policy
+  async revokeApiKey(keyId: string): Promise<boolean> {
+    const supabase = getSupabaseClient()
+    const { data, error } = await supabase.rpc('revoke_api_key', { key_id: keyId })
+
+    if (error) {
+      console.error('Error revoking API key:', error)
+      return false
+    }
+
+    return data === true
+  }
+}
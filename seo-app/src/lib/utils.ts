@@ -53,3 +53,18 @@ export function normalizeUrl(url: string): string {
 export function scoreRange(value: number, excellent: number, good: number): number {
   return value <= excellent ? 25 : value <= good ? 15 : 5
 }
+
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T, index: number) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length)
+  let nextIndex = 0
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++
+      results[index] = await fn(items[index], index)
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker))
+  return results
+}
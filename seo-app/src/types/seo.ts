@@ -10,11 +10,152 @@ export interface SEOAnalysis {
     performance: PerformanceAnalysis
     crawlability: CrawlabilityAnalysis
     externalFactors: ExternalFactorsAnalysis
+    redirects: RedirectAnalysis
+    headers: HeaderAnalysis
   }
+  rendering?: RenderingAnalysis
+  // Only set when the page was also fetched as Googlebot and as a browser to compare the two
+  cloaking?: CloakingAnalysis
+  issues: Issue[]
+  // Absent on reports saved before scoring profiles
+  scoringProfile?: ScoringProfileRef
+  // Only set when pasted HTML or an uploaded build was analyzed instead of a live URL
+  offline?: OfflineAnalysisInfo
+  // HTTP requests made by the scan and how many the request cache answered
+  fetchStats?: FetchStats
+  // User agent the scan fetched as; absent on reports saved before crawler settings
+  crawler?: CrawlerRef
+}
+
+export interface OfflineAnalysisInfo {
+  source: "html" | "zip" | "directory"
+  // Path of the page inside the uploaded build
+  path?: string
+  // Sections that need a live server; left out of the overall score and the report
+  skippedSections: Array<keyof SEOAnalysis["sections"]>
+  // Individual rules that could not be verified offline
+  skippedRules: string[]
+}
+
+export interface FetchStats {
+  // Requests made by the analyzers, counting each redirect hop
+  requests: number
+  // Requests sent to servers, revalidations included
+  networkRequests: number
+  // Answered by an earlier identical request of the same scan
+  scanCacheHits: number
+  // Answered by the cache shared between scans without contacting the server
+  sharedCacheHits: number
+  // Shared cache entries a server confirmed unchanged (304 Not Modified)
+  revalidated: number
+  // Decompressed body bytes downloaded
+  bytesDownloaded: number
+}
+
+export interface CrawlerRef {
+  preset: string
+  userAgent: string
+  // Extra headers, cookies and credentials sent to the site, by header name; values are never stored
+  headerNames: string[]
+}
+
+// One rule's contribution to a section score; absent on reports saved before score ledgers
+export interface ScoreLedgerEntry {
+  ruleId: string
+  check: string
+  points: number
+  maxPoints: number
+  reason: string
+}
+
+export interface ScoringProfileRef {
+  id: string
+  name: string
+  version: number
+}
+
+// Rule categories follow the analysis sections, plus the optional rendering and cloaking diffs
+export type IssueCategory = keyof SEOAnalysis["sections"] | "rendering" | "cloaking"
+
+export type IssueSeverity = "error" | "warning" | "notice"
+
+export interface IssueEvidence {
+  selector?: string
+  header?: string
+  url?: string
+  value?: string | number
+  expected?: string
+}
+
+export interface IssueFix {
+  summary: string
+  steps: string[]
+  effort: "low" | "medium" | "high"
+}
+
+export interface Issue {
+  id: string
+  category: IssueCategory
+  severity: IssueSeverity
+  title: string
+  message: string
+  evidence: IssueEvidence[]
+  fix: IssueFix
+  weight: number
+}
+
+export interface RenderedField {
+  raw?: string
+  rendered?: string
+  changed: boolean
+}
+
+export interface RenderingAnalysis {
+  renderTimeMs: number
+  finalUrl: string
+  diff: {
+    title: RenderedField
+    description: RenderedField
+    canonical: RenderedField
+    metaRobots: RenderedField
+    h1: RenderedField
+    wordCount: { raw: number; rendered: number }
+    linkCount: { raw: number; rendered: number }
+    linksOnlyInRendered: string[]
+    linksOnlyInRaw: string[]
+  }
+  timedOut?: boolean
+  issues: string[]
+}
+
+export interface ComparedField {
+  browser?: string
+  googlebot?: string
+  changed: boolean
+}
+
+export interface CloakingAnalysis {
+  browserUserAgent: string
+  googlebotUserAgent: string
+  status: { browser: number; googlebot: number }
+  finalUrl: { browser: string; googlebot: string }
+  diff: {
+    title: ComparedField
+    description: ComparedField
+    canonical: ComparedField
+    metaRobots: ComparedField
+    h1: ComparedField
+    wordCount: { browser: number; googlebot: number }
+    linkCount: { browser: number; googlebot: number }
+    linksOnlyForGooglebot: string[]
+    linksOnlyForBrowser: string[]
+  }
+  issues: string[]
 }
 
 export interface MetaAnalysis {
   score: number
+  ledger?: ScoreLedgerEntry[]
   title: {
     content: string
     length: number
@@ -36,6 +177,7 @@ export interface MetaAnalysis {
 
 export interface PageQualityAnalysis {
   score: number
+  ledger?: ScoreLedgerEntry[]
   wordCount: number
   imageCount: number
   imagesWithAlt: number
@@ -53,15 +195,29 @@ export interface PageQualityAnalysis {
 
 export interface LinkStructureAnalysis {
   score: number
+  ledger?: ScoreLedgerEntry[]
   internalLinks: number
   externalLinks: number
-  brokenLinks: string[]
+  brokenLinks: LinkCheckResult[]
+  redirectedLinks: LinkCheckResult[]
+  linksChecked: number
   noFollowLinks: number
   issues: string[]
 }
 
+export interface LinkCheckResult {
+  url: string
+  anchorText: string
+  statusCode?: number
+  redirectedTo?: string
+  timedOut: boolean
+  error?: string
+  isBroken: boolean
+}
+
 export interface PageStructureAnalysis {
   score: number
+  ledger?: ScoreLedgerEntry[]
   domDepth: number
   headingStructure: {
     h1Count: number
@@ -74,6 +230,7 @@ export interface PageStructureAnalysis {
 
 export interface PerformanceAnalysis {
   score: number
+  ledger?: ScoreLedgerEntry[]
   responseTime: number
   pageSize: number
   assetsCount: {
@@ -82,20 +239,81 @@ export interface PerformanceAnalysis {
     images: number
     total: number
   }
+  source?: PerformanceSource
+  coreWebVitals?: CoreWebVitals
+  labRuns?: LabPerformanceRun[]
+  opportunities?: PerformanceOpportunity[]
   issues: string[]
 }
 
+export interface PerformanceOpportunity {
+  title: string
+  description: string
+  potentialSavings?: string
+  impact: "high" | "medium" | "low"
+}
+
+// pagespeed: Google PageSpeed Insights, lab: local headless Chromium, estimate: a single fetch timing,
+// offline: page weight and asset counts of an uploaded file, with no timing at all
+export type PerformanceSource = "pagespeed" | "lab" | "estimate" | "offline"
+
+export interface VitalMetric {
+  value: number
+  score: number
+  displayValue: string
+  category: "good" | "needs-improvement" | "poor"
+}
+
+export interface CoreWebVitals {
+  lcp: VitalMetric
+  inp: VitalMetric
+  cls: VitalMetric
+  ttfb: VitalMetric
+  fcp: VitalMetric
+  speedIndex: VitalMetric
+  tbt?: VitalMetric
+  // Only present in reports saved before INP replaced FID
+  fid?: VitalMetric
+}
+
+export interface WaterfallEntry {
+  url: string
+  type: string
+  startTime: number
+  duration: number
+  transferSize: number
+}
+
+export interface LabPerformanceRun {
+  profile: "mobile" | "desktop"
+  performanceScore: number
+  coreWebVitals: CoreWebVitals
+  domContentLoaded: number
+  loadTime: number
+  totalBytes: number
+  requestCount: number
+  waterfall: WaterfallEntry[]
+}
+
 export interface CrawlabilityAnalysis {
   score: number
+  ledger?: ScoreLedgerEntry[]
   robotsTxt: {
     exists: boolean
     content?: string
+    // HTTP status of the robots.txt request; missing when the server did not answer
+    status?: number
+    // A 5xx status or no answer, which makes the whole site disallowed (RFC 9309)
+    unreachable?: boolean
     blocks: string[]
+    access?: RobotsAccessResult[]
   }
   sitemap: {
     exists: boolean
     url?: string
   }
+  sitemaps?: SitemapAnalysis[]
+  sitemapHealth?: SitemapHealthAnalysis
   canonical: {
     exists: boolean
     url?: string
@@ -105,11 +323,91 @@ export interface CrawlabilityAnalysis {
     exists: boolean
     value?: string
   }
+  indexability: {
+    noindex: boolean
+    nofollow: boolean
+    metaRobots?: string
+    xRobotsTag?: string
+    noindexBy?: Array<"meta" | "header">
+  }
+  issues: string[]
+}
+
+export interface SitemapAnalysis {
+  exists: boolean
+  url: string
+  type?: "urlset" | "sitemapindex"
+  isValid: boolean
+  isCompressed?: boolean
+  urlCount: number
+  lastModified?: string
+  issues: string[]
+  indexSitemaps: string[]
+  children?: SitemapAnalysis[]
+  imageCount?: number
+  videoCount?: number
+  newsCount?: number
+  hreflangCount?: number
+  offDomainUrls?: string[]
+  protocolMismatchUrls?: string[]
+}
+
+export interface SitemapUrlEntry {
+  loc: string
+  lastmod?: string
+  changefreq?: string
+  priority?: number
+  imageCount: number
+  videoCount: number
+  isNews: boolean
+  alternates: Array<{ hreflang: string; href: string }>
+}
+
+export interface SitemapUrlCheck {
+  url: string
+  statusCode?: number
+  redirectedTo?: string
+  noindex: boolean
+  robotsBlocked: boolean
+  canonicalUrl?: string
+  error?: string
   issues: string[]
 }
 
+export interface SitemapHealthAnalysis {
+  totalUrls: number
+  sampledUrls: number
+  healthyUrls: number
+  counts: {
+    nonOk: number
+    redirected: number
+    noindex: number
+    robotsBlocked: number
+    canonicalElsewhere: number
+    errors: number
+  }
+  problems: SitemapUrlCheck[]
+  issues: string[]
+}
+
+export interface SitemapReconciliation {
+  sitemapUrlCount: number
+  linkedUrlCount: number
+  crawlComplete: boolean
+  orphanPages: string[]
+  unlistedPages: string[]
+}
+
+export interface RobotsAccessResult {
+  userAgent: string
+  allowed: boolean
+  matchedRule?: string
+  matchedLine?: number
+}
+
 export interface ExternalFactorsAnalysis {
   score: number
+  ledger?: ScoreLedgerEntry[]
   https: boolean
   favicon: {
     exists: boolean
@@ -135,6 +433,109 @@ export interface ExternalFactorsAnalysis {
   schemaMarkup: {
     exists: boolean
     types: string[]
+    validation?: StructuredDataAnalysis
+  }
+  issues: string[]
+}
+
+export type StructuredDataSyntax = "json-ld" | "microdata" | "rdfa"
+
+// JSON-LD only; microdata and RDFa are read from the parsed document
+export interface StructuredDataSyntaxError {
+  // Index of the JSON-LD script on the page, from 1
+  block: number
+  // Page line and column when known, otherwise relative to the script's content
+  line: number
+  column: number
+  message: string
+}
+
+export interface StructuredDataEntity {
+  syntax: StructuredDataSyntax
+  types: string[]
+  // Index of the JSON-LD script, or of the top-level microdata or RDFa item, from 1
+  block: number
+  // Where the entity sits in its block, e.g. @graph[1].offers
+  path: string
+  missingRequired: string[]
+  missingRecommended: string[]
+}
+
+export interface RichResultEligibility {
+  name: string
+  schemaType: string
+  eligible: boolean
+  // Entities of the type found on the page
+  entities: number
+  // Required properties still missing when no entity qualifies
+  missing: string[]
+}
+
+// A property of one entity that two syntaxes give different values
+export interface StructuredDataConflict {
+  schemaType: string
+  // Nested properties are dotted, e.g. offers.price
+  property: string
+  values: Array<{ syntax: StructuredDataSyntax; value: string }>
+}
+
+export interface StructuredDataAnalysis {
+  syntaxes: StructuredDataSyntax[]
+  // JSON-LD scripts on the page
+  blockCount: number
+  syntaxErrors: StructuredDataSyntaxError[]
+  entities: StructuredDataEntity[]
+  richResults: RichResultEligibility[]
+  conflicts: StructuredDataConflict[]
+}
+
+export interface RedirectHop {
+  url: string
+  statusCode: number
+  location?: string
+  protocolChange?: "http-to-https" | "https-to-http"
+  wwwChange?: "added" | "removed"
+}
+
+export interface RedirectAnalysis {
+  score: number
+  ledger?: ScoreLedgerEntry[]
+  requestedUrl: string
+  finalUrl: string
+  finalStatusCode?: number
+  hops: RedirectHop[]
+  hasLoop: boolean
+  isChain: boolean
+  usesTemporaryRedirect: boolean
+  httpsEnforced?: boolean
+  error?: string
+  issues: string[]
+}
+
+export interface HeaderAnalysis {
+  score: number
+  ledger?: ScoreLedgerEntry[]
+  statusCode?: number
+  xRobotsTag?: string
+  caching: {
+    cacheControl?: string
+    etag?: string
+    lastModified?: string
+    isCacheable: boolean
+  }
+  compression: {
+    contentEncoding?: string
+    isCompressed: boolean
+  }
+  contentType: {
+    value?: string
+    charset?: string
+  }
+  security: {
+    hsts?: string
+    csp?: string
+    xContentTypeOptions?: string
+    referrerPolicy?: string
   }
   issues: string[]
 }
@@ -17,20 +17,46 @@ CREATE TABLE profiles (
     PRIMARY KEY (id)
 );
 
+-- Create projects table (sites a user tracks through the public API)
+CREATE TABLE projects (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    url TEXT NOT NULL,
+    -- User agent, headers, cookies and basic auth for scans of the project (may hold staging credentials)
+    crawler_settings JSONB DEFAULT '{}'::jsonb NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
 -- Create scan_reports table
 CREATE TABLE scan_reports (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
     user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    project_id UUID REFERENCES projects(id) ON DELETE SET NULL,
     url TEXT NOT NULL,
     title TEXT,
     analysis_data JSONB NOT NULL,
     overall_score DECIMAL(5,2),
     status TEXT DEFAULT 'completed' CHECK (status IN ('pending', 'completed', 'failed')),
+    batch_id UUID, -- groups the reports of one bulk scan
     scan_duration INTEGER, -- in milliseconds
     created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL,
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
 );
 
+-- Create api_keys table (only a SHA-256 hash of each key is stored)
+CREATE TABLE api_keys (
+    id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
+    user_id UUID REFERENCES profiles(id) ON DELETE CASCADE NOT NULL,
+    name TEXT NOT NULL,
+    key_prefix TEXT NOT NULL, -- first characters of the key, to tell keys apart
+    key_hash TEXT UNIQUE NOT NULL,
+    last_used_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT TIMEZONE('utc'::text, NOW()) NOT NULL
+);
+
 -- Create usage_logs table
 CREATE TABLE usage_logs (
     id UUID DEFAULT uuid_generate_v4() PRIMARY KEY,
@@ -60,6 +86,10 @@ CREATE INDEX idx_profiles_subscription_tier ON profiles(subscription_tier);
 CREATE INDEX idx_scan_reports_user_id ON scan_reports(user_id);
 CREATE INDEX idx_scan_reports_created_at ON scan_reports(created_at DESC);
 CREATE INDEX idx_scan_reports_url ON scan_reports(url);
+CREATE INDEX idx_scan_reports_batch_id ON scan_reports(batch_id);
+CREATE INDEX idx_scan_reports_project_id ON scan_reports(project_id);
+CREATE INDEX idx_projects_user_id ON projects(user_id);
+CREATE INDEX idx_api_keys_user_id ON api_keys(user_id);
 CREATE INDEX idx_usage_logs_user_id ON usage_logs(user_id);
 CREATE INDEX idx_usage_logs_created_at ON usage_logs(created_at DESC);
 CREATE INDEX idx_usage_logs_action ON usage_logs(action);
@@ -70,6 +100,8 @@ ALTER TABLE profiles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE scan_reports ENABLE ROW LEVEL SECURITY;
 ALTER TABLE usage_logs ENABLE ROW LEVEL SECURITY;
 ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE api_keys ENABLE ROW LEVEL SECURITY;
 
 -- Create RLS policies
 -- Profiles policies
@@ -91,6 +123,29 @@ CREATE POLICY "Users can insert own usage logs" ON usage_logs FOR INSERT WITH CH
 CREATE POLICY "Users can view own settings" ON user_settings FOR SELECT USING (auth.uid() = user_id);
 CREATE POLICY "Users can manage own settings" ON user_settings FOR ALL USING (auth.uid() = user_id);
 
+-- Projects policies
+CREATE POLICY "Users can manage own projects" ON projects FOR ALL USING (auth.uid() = user_id);
+
+-- API keys policies (keys are created and revoked, never deleted or re-keyed)
+CREATE POLICY "Users can view own API keys" ON api_keys FOR SELECT USING (auth.uid() = user_id);
+CREATE POLICY "Users can create own API keys" ON api_keys FOR INSERT WITH CHECK (auth.uid() = user_id);
+-- No UPDATE policy: keys are revoked through revoke_api_key, so owners cannot un-revoke a key or rewrite its hash or prefix
+
+-- Revoke one of the caller's API keys; returns false when the key is not theirs or already revoked
+CREATE OR REPLACE FUNCTION public.revoke_api_key(key_id UUID)
+RETURNS BOOLEAN AS $$
+BEGIN
+    UPDATE public.api_keys
+    SET revoked_at = TIMEZONE('utc'::text, NOW())
+    WHERE id = key_id AND user_id = auth.uid() AND revoked_at IS NULL;
+
+    RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.revoke_api_key(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.revoke_api_key(UUID) TO authenticated;
+
 -- Function to automatically create profile on user signup
 CREATE OR REPLACE FUNCTION public.handle_new_user()
 RETURNS trigger AS $$
@@ -141,6 +196,10 @@ CREATE TRIGGER update_scan_reports_updated_at
     BEFORE UPDATE ON scan_reports
     FOR EACH ROW EXECUTE PROCEDURE public.handle_updated_at();
 
+CREATE TRIGGER update_projects_updated_at
+    BEFORE UPDATE ON projects
+    FOR EACH ROW EXECUTE PROCEDURE public.handle_updated_at();
+
 CREATE TRIGGER update_user_settings_updated_at
     BEFORE UPDATE ON user_settings
     FOR EACH ROW EXECUTE PROCEDURE public.handle_updated_at();